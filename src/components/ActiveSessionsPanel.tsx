@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Pause, Play, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ActiveAutomationSession,
+  SessionControlAction,
+  cancelAutomationSession,
+  fetchActiveSessions,
+  pauseAutomationSession,
+  resumeAutomationSession
+} from '@/services/automationService';
+
+interface ActiveSessionsPanelProps {
+  // Called after a session was paused, resumed or cancelled
+  onSessionChanged?: () => void;
+}
+
+// How often running sessions are reloaded
+const REFRESH_INTERVAL_MS = 10000;
+
+export function ActiveSessionsPanel({ onSessionChanged }: ActiveSessionsPanelProps) {
+  const [sessions, setSessions] = useState<ActiveAutomationSession[]>([]);
+  const [pendingAction, setPendingAction] = useState<{ sessionId: string; action: SessionControlAction } | null>(null);
+  const [sessionToCancel, setSessionToCancel] = useState<ActiveAutomationSession | null>(null);
+  const { toast } = useToast();
+
+  const loadSessions = useCallback(async () => {
+    setSessions(await fetchActiveSessions());
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+
+    const interval = setInterval(loadSessions, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadSessions]);
+
+  const handleAction = async (sessionId: string, action: SessionControlAction) => {
+    setPendingAction({ sessionId, action });
+
+    try {
+      const { creditsReturned } = action === 'pause'
+        ? await pauseAutomationSession(sessionId)
+        : action === 'resume'
+          ? await resumeAutomationSession(sessionId)
+          : await cancelAutomationSession(sessionId);
+
+      toast({
+        title: action === 'pause' ? 'Campaign paused' : action === 'resume' ? 'Campaign resumed' : 'Campaign cancelled',
+        description: action === 'pause'
+          ? 'Ads already being generated will finish, the rest waits until you resume.'
+          : action === 'resume'
+            ? 'The remaining ads are being generated again.'
+            : `${creditsReturned} unused credit${creditsReturned === 1 ? ' was' : 's were'} returned. Ads already being generated will finish.`
+      });
+
+      await loadSessions();
+      onSessionChanged?.();
+    } catch (error) {
+      console.error(`Error trying to ${action} session:`, error);
+      toast({
+        title: `Failed to ${action} campaign`,
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const isPending = (sessionId: string, action: SessionControlAction) =>
+    pendingAction?.sessionId === sessionId && pendingAction.action === action;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {sessions.map((session) => {
+        const isPaused = session.status === 'paused';
+        const progress = session.total_jobs > 0 ? (session.finished_jobs / session.total_jobs) * 100 : 0;
+
+        return (
+          <div key={session.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <Badge variant={isPaused ? 'secondary' : 'default'}>
+                  {isPaused ? 'Paused' : 'Generating'}
+                </Badge>
+                <p className="text-xs md:text-sm truncate">
+                  {session.finished_jobs} of {session.total_jobs} ads done
+                  <span className="text-muted-foreground"> · {format(new Date(session.created_at), 'MMM d, h:mm a')}</span>
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs md:text-sm"
+                  onClick={() => handleAction(session.id, isPaused ? 'resume' : 'pause')}
+                  disabled={!!pendingAction}
+                >
+                  {isPending(session.id, 'pause') || isPending(session.id, 'resume') ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                  ) : isPaused ? (
+                    <Play className="h-3.5 w-3.5 mr-1" />
+                  ) : (
+                    <Pause className="h-3.5 w-3.5 mr-1" />
+                  )}
+                  {isPaused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs md:text-sm text-destructive"
+                  onClick={() => setSessionToCancel(session)}
+                  disabled={!!pendingAction}
+                >
+                  {isPending(session.id, 'cancel') ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                  ) : (
+                    <XCircle className="h-3.5 w-3.5 mr-1" />
+                  )}
+                  Cancel
+                </Button>
+              </div>
+            </div>
+            <Progress value={progress} className="h-1.5" />
+          </div>
+        );
+      })}
+
+      <AlertDialog open={!!sessionToCancel} onOpenChange={(open) => !open && setSessionToCancel(null)}>
+        <AlertDialogContent className="max-w-xs md:max-w-md p-4 md:p-6">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-base md:text-lg">Cancel this campaign?</AlertDialogTitle>
+            <AlertDialogDescription className="text-xs md:text-sm">
+              Ads that have not started are dropped and their credits returned. Ads already being generated will finish and are charged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="h-8 md:h-10 text-xs md:text-sm">
+              Keep generating
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (sessionToCancel) handleAction(sessionToCancel.id, 'cancel');
+                setSessionToCancel(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 h-8 md:h-10 text-xs md:text-sm"
+            >
+              <XCircle className="mr-1 md:mr-2 h-3 w-3 md:h-4 md:w-4" />
+              Cancel campaign
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
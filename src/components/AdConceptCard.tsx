@@ -0,0 +1,55 @@
+import { Camera, Lightbulb, MapPin, Sun, Target, Users } from 'lucide-react';
+import type { AdConcept } from '@/services/automationService';
+import { cn } from '@/lib/utils';
+
+interface AdConceptCardProps {
+  concept: AdConcept;
+  className?: string;
+}
+
+const DETAILS: Array<{ key: 'scene' | 'lighting' | 'camera' | 'focal_area' | 'target_audience'; label: string; icon: typeof Camera }> = [
+  { key: 'scene', label: 'Scene', icon: MapPin },
+  { key: 'lighting', label: 'Lighting', icon: Sun },
+  { key: 'camera', label: 'Camera', icon: Camera },
+  { key: 'focal_area', label: 'Focal area', icon: Target },
+  { key: 'target_audience', label: 'Audience', icon: Users }
+];
+
+/**
+ * Readable summary of the ad concept a prompt was written from
+ */
+export function AdConceptCard({ concept, className }: AdConceptCardProps) {
+  const { headline, supporting_text, call_to_action } = concept.text_overlay;
+
+  return (
+    <div className={cn('rounded-lg border bg-muted/10 p-3 space-y-3', className)}>
+      <div className="flex items-center gap-2">
+        <Lightbulb className="h-4 w-4 text-primary shrink-0" />
+        <p className="text-sm font-medium">{concept.concept_name}</p>
+      </div>
+
+      {/* Text overlay copy */}
+      <div className="rounded-md bg-background border px-3 py-2 space-y-0.5">
+        <p className="text-sm font-semibold">“{headline}”</p>
+        {supporting_text && <p className="text-xs text-muted-foreground">{supporting_text}</p>}
+        {call_to_action && (
+          <span className="inline-block mt-1 rounded bg-primary px-2 py-0.5 text-[10px] font-medium text-primary-foreground">
+            {call_to_action}
+          </span>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-2">
+        {DETAILS.map(({ key, label, icon: Icon }) => (
+          <div key={key} className="flex gap-2 text-xs">
+            <Icon className="h-3.5 w-3.5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="min-w-0">
+              <dt className="font-medium">{label}</dt>
+              <dd className="text-muted-foreground">{concept[key]}</dd>
+            </div>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
   Check,
   Sparkles,
   Image as ImageIcon,
+  Bookmark,
 } from 'lucide-react';
 import { FaRegSquare } from "react-icons/fa";
 import { LuRectangleHorizontal, LuRectangleVertical } from "react-icons/lu";
@@ -25,6 +26,8 @@ import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { ImageSelectionModal } from '@/components/ImageSelectionModal';
+import { AutomationPresetsDialog } from '@/components/AutomationPresetsDialog';
+import { usePostHog } from '@/lib/posthog';
 import {
   Select,
   SelectContent,
@@ -43,6 +46,7 @@ import {
   generatePrompts, 
   checkUserCreditsForAutomation 
 } from '@/services/automationService';
+import type { AutomationPreset } from '@/services/automationPresetService';
 
 interface Session {
   id: string;
@@ -77,6 +81,14 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
   const [checkingCredits, setCheckingCredits] = useState(false);
   const [insufficientCredits, setInsufficientCredits] = useState(false);
 
+  // Saved presets fill in everything except the product image
+  const { isFeatureEnabled } = usePostHog();
+  const presetsEnabled = isFeatureEnabled('automation-presets', false);
+  const [isPresetsOpen, setIsPresetsOpen] = useState(false);
+  const [activePreset, setActivePreset] = useState<AutomationPreset | null>(null);
+  const [brandLogoUrl, setBrandLogoUrl] = useState<string | null>(null);
+  const [instructions, setInstructions] = useState('');
+
   // Modal states
   const [isProductSelectorOpen, setIsProductSelectorOpen] = useState(false);
   const [isReferenceSelectorOpen, setIsReferenceSelectorOpen] = useState(false);
@@ -99,6 +111,9 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
       setReferenceAdUrl(null);
       setVariationCount('3');
       setSelectedLayout("auto");
+      setActivePreset(null);
+      setBrandLogoUrl(null);
+      setInstructions('');
       setCurrentSession(null);
       setProgress(0);
       setIsSubmitting(false);
@@ -215,9 +230,9 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
       // Create automation session
       const sessionId = await createAutomationSession(
         productImageFile,
-        null, // No brand logo for now
+        brandLogoUrl, // Only set by presets
         referenceAdFile,
-        "", // No instructions for now
+        instructions, // Only set by presets
         parseInt(variationCount, 10),
         selectedLayout // Pass the selected layout
       );
@@ -273,9 +288,10 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
       setProductImageUrl(url);
     }
     
-    // Automatically proceed to next step after selecting product image
+    // Automatically proceed to next step after selecting product image,
+    // an applied preset already chose the reference ad
     if (currentStep === 1) {
-      setCurrentStep(2);
+      setCurrentStep(activePreset ? 3 : 2);
     }
   };
   
@@ -395,14 +411,30 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
     }
   ];
   
+  // Fill in the inputs stored in a saved preset
+  const handleApplyPreset = (preset: AutomationPreset) => {
+    setActivePreset(preset);
+    setBrandLogoUrl(preset.brand_logo_url || null);
+    setReferenceAd(null);
+    setReferenceAdUrl(preset.reference_ad_url || null);
+    setInstructions(preset.instructions || '');
+    setSelectedLayout(preset.layout);
+    setVariationCount(String(preset.variation_count));
+    
+    if ((productImage || productImageUrl) && currentStep < totalSteps) {
+      setCurrentStep(totalSteps);
+    }
+  };
+  
   // Handle preset image selection
   const handlePresetProductImageSelected = (url: string) => {
     setProductImage(null);
     setProductImageUrl(url);
     
-    // Automatically proceed to next step after selecting product image
+    // Automatically proceed to next step after selecting product image,
+    // an applied preset already chose the reference ad
     if (currentStep === 1) {
-      setCurrentStep(2);
+      setCurrentStep(activePreset ? 3 : 2);
     }
   };
   
@@ -818,6 +850,16 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
                   )}
                 </div>
                 
+                {/* Instructions from the applied preset */}
+                {instructions && (
+                  <div className="mt-4 space-y-2">
+                    <p className="text-xs text-muted-foreground">Instructions</p>
+                    <div className="border rounded-lg p-2 md:p-3 bg-muted/10">
+                      <p className="text-xs md:text-sm">{instructions}</p>
+                    </div>
+                  </div>
+                )}
+                
                 <div className="mt-6">
                   <Button 
                     onClick={handleSubmit}
@@ -862,7 +904,21 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl h-[90vh] max-h-[900px] p-0 flex flex-col">
         <DialogHeader className="px-4 pt-4 pb-2 border-b sticky top-0 bg-background z-10">
-          <DialogTitle className="text-xl font-semibold">Create Automated Ads</DialogTitle>
+          <div className="flex items-center justify-between gap-3 pr-8">
+            <DialogTitle className="text-xl font-semibold">Create Automated Ads</DialogTitle>
+            {presetsEnabled && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5 h-8 text-xs"
+                onClick={() => setIsPresetsOpen(true)}
+                disabled={isSubmitting}
+              >
+                <Bookmark className="h-3.5 w-3.5" />
+                {activePreset ? activePreset.name : 'Presets'}
+              </Button>
+            )}
+          </div>
         </DialogHeader>
         
         <div className="flex-1 overflow-auto px-4 py-4">
@@ -937,6 +993,24 @@ export function AutomatedAdsBuilderModal({ open, onOpenChange, onSuccess }: Auto
         onImageSelected={handleReferenceImageSelected}
         title="Reference Ad"
       />
+      
+      {presetsEnabled && (
+        <AutomationPresetsDialog
+          open={isPresetsOpen}
+          onOpenChange={setIsPresetsOpen}
+          currentSettings={{
+            brandLogo: brandLogoUrl,
+            referenceAd: referenceAd ?? referenceAdUrl,
+            instructions,
+            layout: selectedLayout,
+            variationCount: parseInt(variationCount, 10),
+            reviewPrompts: activePreset?.review_prompts
+          }}
+          activePresetId={activePreset?.id}
+          onApply={handleApplyPreset}
+          onSaved={setActivePreset}
+        />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
@@ -0,0 +1,269 @@
+import { useState, useEffect, useRef } from 'react';
+import { AlertTriangle, CheckCircle2, Download, FileUp, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ImportPreview,
+  ImportRunResult,
+  MAX_IMPORT_ROWS,
+  getImportTemplate,
+  previewAutomationImport,
+  runAutomationImport
+} from '@/services/automationImportService';
+
+interface AutomationImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once the import created its sessions
+  onImported?: () => void;
+}
+
+export function AutomationImportModal({ open, onOpenChange, onImported }: AutomationImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<ImportRunResult[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Reset the dry run when the modal is opened
+  useEffect(() => {
+    if (open) {
+      setFileName(null);
+      setPreview(null);
+      setImportProgress(null);
+      setResults(null);
+    }
+  }, [open]);
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreview(null);
+    setResults(null);
+    setIsValidating(true);
+
+    try {
+      setPreview(await previewAutomationImport(file));
+    } catch (error) {
+      console.error('Error validating import file:', error);
+      toast({
+        title: 'Invalid import file',
+        description: error instanceof Error ? error.message : 'The file could not be read',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsValidating(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([getImportTemplate()], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'automation-import-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setIsImporting(true);
+    setImportProgress({ done: 0, total: preview.validRows });
+
+    try {
+      const importResults = await runAutomationImport(preview.rows, (done, total) => {
+        setImportProgress({ done, total });
+      });
+      const created = importResults.filter(result => result.sessionId).length;
+
+      setResults(importResults);
+      toast({
+        title: 'Import finished',
+        description: `${created} of ${importResults.length} sessions were created and queued.`,
+        variant: created === 0 ? 'destructive' : 'default'
+      });
+
+      if (created > 0) onImported?.();
+    } finally {
+      setIsImporting(false);
+      setImportProgress(null);
+    }
+  };
+
+  const failedResults = results?.filter(result => result.error) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isImporting && onOpenChange(value)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] p-0 flex flex-col">
+        <DialogHeader className="px-4 pt-4 pb-2 border-b">
+          <DialogTitle className="text-xl font-semibold">Import Sessions</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto px-4 py-4 space-y-4">
+          {importProgress ? (
+            <div className="py-8 space-y-3 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="text-sm">
+                Creating session {Math.min(importProgress.done + 1, importProgress.total)} of {importProgress.total}...
+              </p>
+              <Progress value={(importProgress.done / importProgress.total) * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground">Keep this window open until every row was imported.</p>
+            </div>
+          ) : results ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="h-5 w-5 text-green-500" />
+                {results.length - failedResults.length} of {results.length} sessions were created and queued.
+              </div>
+              {failedResults.length > 0 && (
+                <div className="rounded-lg border border-destructive/50 p-3 space-y-1">
+                  {failedResults.map(result => (
+                    <p key={result.line} className="text-xs text-destructive">
+                      Row {result.line}: {result.error}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-xs md:text-sm text-muted-foreground max-w-lg">
+                  Upload a CSV or JSON file with one session per row, up to {MAX_IMPORT_ROWS} rows. Columns: product_image_url,
+                  brand_logo_url, reference_ad_url, instructions, variation_count (1-10, default 3) and layout (auto, square,
+                  landscape or portrait). Nothing is created until you confirm the import.
+                </p>
+                <Button variant="outline" size="sm" onClick={handleDownloadTemplate}>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV template
+                </Button>
+              </div>
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => handleFileSelected(e.target.files?.[0])}
+              />
+              <Button
+                variant="outline"
+                className="w-full h-20 border-dashed"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isValidating}
+              >
+                {isValidating ? (
+                  <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                ) : (
+                  <FileUp className="h-5 w-5 mr-2" />
+                )}
+                {fileName ? `${fileName} · choose another file` : 'Choose a CSV or JSON file'}
+              </Button>
+
+              {preview && (
+                <>
+                  <div className="rounded-lg border p-3 text-xs md:text-sm space-y-1 bg-muted/10">
+                    <p>
+                      {preview.validRows} valid row{preview.validRows === 1 ? '' : 's'}
+                      {preview.invalidRows > 0 && (
+                        <span className="text-destructive">, {preview.invalidRows} with errors that will be skipped</span>
+                      )}
+                    </p>
+                    <p>
+                      The import costs <span className="font-medium">{preview.totalCredits} credits</span>. You have{' '}
+                      <span className={preview.hasEnoughCredits ? "font-medium" : "text-red-500 font-bold"}>
+                        {preview.availableCredits}
+                      </span>{' '}
+                      credits available.
+                    </p>
+                    {!preview.hasEnoughCredits && (
+                      <p className="text-red-500">You need more credits to import every valid row.</p>
+                    )}
+                  </div>
+
+                  <div className="border rounded-lg overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-16">Row</TableHead>
+                          <TableHead>Product image</TableHead>
+                          <TableHead className="w-24">Variations</TableHead>
+                          <TableHead className="w-24">Layout</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.rows.map(({ line, row, errors }) => (
+                          <TableRow key={line}>
+                            <TableCell className="text-xs">{line}</TableCell>
+                            <TableCell className="text-xs max-w-[220px] truncate" title={row?.productImageUrl}>
+                              {row?.productImageUrl ?? '—'}
+                            </TableCell>
+                            <TableCell className="text-xs">{row?.variationCount ?? '—'}</TableCell>
+                            <TableCell className="text-xs">{row?.layout ?? '—'}</TableCell>
+                            <TableCell className="text-xs">
+                              {errors.length > 0 ? (
+                                <div className="flex items-start gap-1 text-destructive">
+                                  <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                  <span>{errors.join('; ')}</span>
+                                </div>
+                              ) : (
+                                <Badge variant="secondary">Ready</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="px-4 py-3 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            {results ? 'Close' : 'Cancel'}
+          </Button>
+          {!results && (
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || !preview || preview.validRows === 0 || !preview.hasEnoughCredits}
+            >
+              {isImporting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Import {preview?.validRows ?? 0} sessions
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
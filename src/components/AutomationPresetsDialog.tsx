@@ -0,0 +1,342 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Copy, Link as LinkIcon, Loader2, Pencil, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { LazyImage } from '@/components/LazyImage';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AutomationPreset,
+  AutomationPresetSettings,
+  createAutomationPreset,
+  deleteAutomationPreset,
+  duplicateAutomationPreset,
+  fetchAutomationPresets,
+  getPresetShareLink,
+  renameAutomationPreset,
+  updateAutomationPreset
+} from '@/services/automationPresetService';
+
+interface AutomationPresetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The builder inputs that "Save" and "Update" store
+  currentSettings: AutomationPresetSettings;
+  // Preset the builder inputs were last applied from or saved to
+  activePresetId?: string | null;
+  onApply: (preset: AutomationPreset) => void;
+  onSaved?: (preset: AutomationPreset) => void;
+}
+
+const LAYOUT_LABELS: Record<string, string> = {
+  auto: 'Auto',
+  square: 'Square',
+  landscape: 'Landscape',
+  portrait: 'Portrait'
+};
+
+export function AutomationPresetsDialog({
+  open,
+  onOpenChange,
+  currentSettings,
+  activePresetId,
+  onApply,
+  onSaved
+}: AutomationPresetsDialogProps) {
+  const [presets, setPresets] = useState<AutomationPreset[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newPresetName, setNewPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingPresetId, setPendingPresetId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [presetToDelete, setPresetToDelete] = useState<AutomationPreset | null>(null);
+  const { toast } = useToast();
+
+  const activePreset = presets.find(preset => preset.id === activePresetId);
+
+  const loadPresets = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPresets(await fetchAutomationPresets());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setNewPresetName('');
+    setRenaming(null);
+    loadPresets();
+  }, [open, loadPresets]);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      variant: 'destructive'
+    });
+  };
+
+  const handleSaveNew = async () => {
+    if (!newPresetName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const preset = await createAutomationPreset(newPresetName, currentSettings);
+      toast({ title: 'Preset saved', description: `"${preset.name}" can now be applied to any product image.` });
+      setNewPresetName('');
+      onSaved?.(preset);
+      await loadPresets();
+    } catch (error) {
+      showError('Failed to save preset', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdateActive = async () => {
+    if (!activePreset) return;
+
+    setIsSaving(true);
+    try {
+      const preset = await updateAutomationPreset(activePreset.id, currentSettings);
+      toast({ title: 'Preset updated', description: `"${preset.name}" now uses the current settings.` });
+      onSaved?.(preset);
+      await loadPresets();
+    } catch (error) {
+      showError('Failed to update preset', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDuplicate = async (preset: AutomationPreset) => {
+    setPendingPresetId(preset.id);
+    try {
+      await duplicateAutomationPreset(preset);
+      await loadPresets();
+    } catch (error) {
+      showError('Failed to duplicate preset', error);
+    } finally {
+      setPendingPresetId(null);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !renaming.name.trim()) return;
+
+    setPendingPresetId(renaming.id);
+    try {
+      await renameAutomationPreset(renaming.id, renaming.name);
+      setRenaming(null);
+      await loadPresets();
+    } catch (error) {
+      showError('Failed to rename preset', error);
+    } finally {
+      setPendingPresetId(null);
+    }
+  };
+
+  const handleCopyLink = async (preset: AutomationPreset) => {
+    try {
+      await navigator.clipboard.writeText(getPresetShareLink(preset.id));
+      toast({ title: 'Link copied', description: 'The link opens the builder with this preset for anyone signed in to this account.' });
+    } catch (error) {
+      showError('Failed to copy link', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!presetToDelete) return;
+
+    const presetId = presetToDelete.id;
+    setPresetToDelete(null);
+    setPendingPresetId(presetId);
+
+    try {
+      await deleteAutomationPreset(presetId);
+      await loadPresets();
+    } catch (error) {
+      showError('Failed to delete preset', error);
+    } finally {
+      setPendingPresetId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] p-0 flex flex-col">
+        <DialogHeader className="px-4 pt-4 pb-2 border-b">
+          <DialogTitle className="text-xl font-semibold">Presets</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto px-4 py-4 space-y-5">
+          {/* Save the current settings */}
+          <div className="space-y-2">
+            <h3 className="text-sm md:text-base font-medium">Save current settings</h3>
+            <p className="text-xs text-muted-foreground">
+              Stores the reference ad, instructions, layout and number of variations, everything except the product image.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                value={newPresetName}
+                onChange={(e) => setNewPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveNew()}
+                placeholder="Preset name, e.g. Summer sale"
+                maxLength={100}
+              />
+              <Button onClick={handleSaveNew} disabled={isSaving || !newPresetName.trim()}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+            {activePreset && (
+              <Button variant="outline" size="sm" onClick={handleUpdateActive} disabled={isSaving}>
+                Update "{activePreset.name}" with the current settings
+              </Button>
+            )}
+          </div>
+
+          {/* Saved presets */}
+          <div className="space-y-2">
+            <h3 className="text-sm md:text-base font-medium">Saved presets</h3>
+            {isLoading && presets.length === 0 ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : presets.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No presets yet</p>
+            ) : (
+              presets.map((preset) => (
+                <div key={preset.id} className="flex items-center gap-3 border rounded-lg p-2">
+                  <div className="w-12 h-12 rounded-md overflow-hidden border bg-muted/10 shrink-0">
+                    {preset.reference_ad_url && (
+                      <LazyImage src={preset.reference_ad_url} alt={preset.name} className="w-full h-full object-cover" />
+                    )}
+                  </div>
+
+                  <div className="flex-1 min-w-0 space-y-1">
+                    {renaming?.id === preset.id ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={renaming.name}
+                          onChange={(e) => setRenaming({ id: preset.id, name: e.target.value })}
+                          onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                          className="h-7 text-xs"
+                          maxLength={100}
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleRename} title="Save name">
+                          <Check className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setRenaming(null)} title="Cancel">
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <p className="text-xs md:text-sm font-medium truncate">{preset.name}</p>
+                        {preset.id === activePresetId && <Badge variant="secondary">Applied</Badge>}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground truncate">
+                      {LAYOUT_LABELS[preset.layout] ?? preset.layout} · {preset.variation_count} variation{preset.variation_count === 1 ? '' : 's'}
+                      {preset.review_prompts && ' · Review prompts'}
+                      {preset.instructions && ` · ${preset.instructions}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-0.5 shrink-0">
+                    <Button
+                      size="sm"
+                      className="h-7 text-xs mr-1"
+                      onClick={() => {
+                        onApply(preset);
+                        onOpenChange(false);
+                      }}
+                    >
+                      Apply
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => setRenaming({ id: preset.id, name: preset.name })}
+                      title="Rename"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => handleDuplicate(preset)}
+                      disabled={pendingPresetId === preset.id}
+                      title="Duplicate"
+                    >
+                      {pendingPresetId === preset.id ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Copy className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => handleCopyLink(preset)}
+                      title="Copy link"
+                    >
+                      <LinkIcon className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-destructive"
+                      onClick={() => setPresetToDelete(preset)}
+                      disabled={pendingPresetId === preset.id}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+
+      <AlertDialog open={!!presetToDelete} onOpenChange={(value) => !value && setPresetToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this preset?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{presetToDelete?.name}" is removed and links to it stop working. Campaigns created with it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep preset</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete preset</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
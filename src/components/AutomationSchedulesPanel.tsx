@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, ChevronDown, ChevronUp, Loader2, Pause, Play, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  AutomationSchedule,
+  AutomationScheduleRun,
+  deleteAutomationSchedule,
+  describeScheduleCadence,
+  fetchAutomationSchedules,
+  fetchScheduleRuns,
+  setAutomationScheduleStatus
+} from '@/services/automationScheduleService';
+
+interface AutomationSchedulesPanelProps {
+  // Changing the key reloads the schedules, e.g. after one was created
+  refreshKey?: number;
+}
+
+// How often schedules are reloaded to pick up runs and automatic pauses
+const REFRESH_INTERVAL_MS = 60000;
+
+const RUN_STATUS_LABELS: Record<AutomationScheduleRun['status'], string> = {
+  started: 'Started',
+  skipped: 'Skipped',
+  paused: 'Paused',
+  failed: 'Failed'
+};
+
+export function AutomationSchedulesPanel({ refreshKey }: AutomationSchedulesPanelProps) {
+  const [schedules, setSchedules] = useState<AutomationSchedule[]>([]);
+  const [expandedScheduleId, setExpandedScheduleId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<AutomationScheduleRun[]>([]);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+  const [pendingScheduleId, setPendingScheduleId] = useState<string | null>(null);
+  const [scheduleToDelete, setScheduleToDelete] = useState<AutomationSchedule | null>(null);
+  const { toast } = useToast();
+
+  const loadSchedules = useCallback(async () => {
+    setSchedules(await fetchAutomationSchedules());
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+
+    const interval = setInterval(loadSchedules, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadSchedules, refreshKey]);
+
+  const handleToggleHistory = async (scheduleId: string) => {
+    if (expandedScheduleId === scheduleId) {
+      setExpandedScheduleId(null);
+      return;
+    }
+
+    setExpandedScheduleId(scheduleId);
+    setRuns([]);
+    setIsLoadingRuns(true);
+
+    try {
+      setRuns(await fetchScheduleRuns(scheduleId));
+    } finally {
+      setIsLoadingRuns(false);
+    }
+  };
+
+  const handleToggleStatus = async (schedule: AutomationSchedule) => {
+    const status = schedule.status === 'active' ? 'paused' : 'active';
+    setPendingScheduleId(schedule.id);
+
+    try {
+      await setAutomationScheduleStatus(schedule.id, status);
+
+      toast({
+        title: status === 'active' ? 'Schedule resumed' : 'Schedule paused',
+        description: status === 'active'
+          ? 'Runs that are due start within a few minutes.'
+          : 'No new runs start until you resume the schedule.'
+      });
+
+      await loadSchedules();
+    } catch (error) {
+      toast({
+        title: 'Failed to update schedule',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setPendingScheduleId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!scheduleToDelete) return;
+
+    const scheduleId = scheduleToDelete.id;
+    setScheduleToDelete(null);
+    setPendingScheduleId(scheduleId);
+
+    try {
+      await deleteAutomationSchedule(scheduleId);
+      toast({ title: 'Schedule deleted', description: 'Campaigns it already started are kept.' });
+      await loadSchedules();
+    } catch (error) {
+      toast({
+        title: 'Failed to delete schedule',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setPendingScheduleId(null);
+    }
+  };
+
+  if (schedules.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-2">
+      {schedules.map((schedule) => {
+        const nextRunAt = schedule.next_run_at ? new Date(schedule.next_run_at) : null;
+        const isExpanded = expandedScheduleId === schedule.id;
+
+        return (
+          <div key={schedule.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <CalendarClock className="h-4 w-4 text-muted-foreground shrink-0" />
+                <p className="text-xs md:text-sm font-medium truncate">{schedule.name}</p>
+                <Badge variant={schedule.status === 'active' ? 'default' : 'secondary'}>
+                  {schedule.status === 'active' ? 'Active' : schedule.status === 'paused' ? 'Paused' : 'Completed'}
+                </Badge>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {schedule.status !== 'completed' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => handleToggleStatus(schedule)}
+                    disabled={pendingScheduleId === schedule.id}
+                    title={schedule.status === 'active' ? 'Pause' : 'Resume'}
+                  >
+                    {pendingScheduleId === schedule.id ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : schedule.status === 'active' ? (
+                      <Pause className="h-3.5 w-3.5" />
+                    ) : (
+                      <Play className="h-3.5 w-3.5" />
+                    )}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-destructive"
+                  onClick={() => setScheduleToDelete(schedule)}
+                  disabled={pendingScheduleId === schedule.id}
+                  title="Delete"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {nextRunAt ? describeScheduleCadence(schedule.frequency, nextRunAt) : 'Ran once'}
+              {' · '}{schedule.product_source === 'image' ? 'Same product' : 'New Shopify products'}
+              {' · '}{schedule.variation_count} ad{schedule.variation_count === 1 ? '' : 's'} per product
+              {schedule.status === 'active' && nextRunAt && ` · Next run ${format(nextRunAt, 'MMM d, h:mm a')}`}
+            </p>
+
+            {schedule.status === 'paused' && schedule.paused_reason && (
+              <p className="text-xs text-destructive">{schedule.paused_reason}</p>
+            )}
+
+            <button
+              type="button"
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+              onClick={() => handleToggleHistory(schedule.id)}
+            >
+              {isExpanded ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+              Run history
+            </button>
+
+            {isExpanded && (
+              <div className="space-y-1 pl-1">
+                {isLoadingRuns ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : runs.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No runs yet</p>
+                ) : (
+                  runs.map((run) => (
+                    <div key={run.id} className="flex items-start gap-2 text-xs">
+                      <span className="text-muted-foreground shrink-0 w-28">
+                        {format(new Date(run.created_at), 'MMM d, h:mm a')}
+                      </span>
+                      <Badge
+                        variant={run.status === 'failed' || run.status === 'paused' ? 'destructive' : 'secondary'}
+                        className="shrink-0"
+                      >
+                        {RUN_STATUS_LABELS[run.status]}
+                      </Badge>
+                      <span className="min-w-0">
+                        {run.status === 'started'
+                          ? `${run.product_count} product${run.product_count === 1 ? '' : 's'}, ${run.credits_reserved} credits reserved`
+                          : run.message}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <AlertDialog open={!!scheduleToDelete} onOpenChange={(open) => !open && setScheduleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this schedule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No more runs of "{scheduleToDelete?.name}" will start and its run history is removed. Campaigns it
+              already started keep generating.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep schedule</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete schedule</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+
+interface BeforeAfterSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  className?: string;
+}
+
+/**
+ * Shows two versions of an image on top of each other, the slider moves the
+ * edge between the version before (left) and after (right)
+ */
+export function BeforeAfterSlider({
+  beforeUrl,
+  afterUrl,
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+  className
+}: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="relative overflow-hidden rounded-md border bg-muted/20 select-none">
+        <img src={afterUrl} alt={afterLabel} className="block w-full h-auto" draggable={false} />
+        <img
+          src={beforeUrl}
+          alt={beforeLabel}
+          className="absolute inset-0 w-full h-full object-contain"
+          style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+          draggable={false}
+        />
+        <div
+          className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+          style={{ left: `${position}%` }}
+        />
+        <span className="absolute top-2 left-2 rounded bg-black/60 px-1.5 py-0.5 text-[10px] text-white">
+          {beforeLabel}
+        </span>
+        <span className="absolute top-2 right-2 rounded bg-black/60 px-1.5 py-0.5 text-[10px] text-white">
+          {afterLabel}
+        </span>
+      </div>
+      <Slider
+        min={0}
+        max={100}
+        step={1}
+        value={[position]}
+        onValueChange={([value]) => setPosition(value)}
+        aria-label="Compare versions"
+      />
+    </div>
+  );
+}
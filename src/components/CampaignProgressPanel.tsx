@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Layers, Loader2, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { CampaignProgress, fetchAutomationCampaigns, startCampaignSessions } from '@/services/automationService';
+
+interface CampaignProgressPanelProps {
+  // Called once products of a campaign were started again
+  onCampaignChanged?: () => void;
+}
+
+// How often the campaign progress is reloaded
+const REFRESH_INTERVAL_MS = 10000;
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export function CampaignProgressPanel({ onCampaignChanged }: CampaignProgressPanelProps) {
+  const [campaigns, setCampaigns] = useState<CampaignProgress[]>([]);
+  const [startingCampaignId, setStartingCampaignId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadCampaigns = useCallback(async () => {
+    setCampaigns(await fetchAutomationCampaigns());
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+
+    const interval = setInterval(loadCampaigns, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadCampaigns]);
+
+  // Products stay in draft when the browser was closed before their prompts were written
+  const handleStartRemaining = async (campaign: CampaignProgress) => {
+    const draftSessionIds = campaign.sessions
+      .filter(session => session.status === 'draft')
+      .map(session => session.id);
+
+    setStartingCampaignId(campaign.id);
+
+    try {
+      const { started, failed } = await startCampaignSessions(draftSessionIds);
+
+      toast({
+        title: 'Products started',
+        description: failed > 0
+          ? `${started} products started, ${failed} could not be started and their credits were returned.`
+          : `Ads for ${started} more products are being generated.`,
+        variant: started === 0 ? 'destructive' : 'default'
+      });
+
+      await loadCampaigns();
+      onCampaignChanged?.();
+    } finally {
+      setStartingCampaignId(null);
+    }
+  };
+
+  if (campaigns.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-2">
+      {campaigns.map((campaign) => {
+        const finishedProducts = campaign.sessions.filter(session => FINISHED_STATUSES.includes(session.status)).length;
+        const draftProducts = campaign.sessions.filter(session => session.status === 'draft').length;
+        const isFinished = finishedProducts === campaign.sessions.length;
+        const progress = campaign.total_jobs > 0 ? (campaign.finished_jobs / campaign.total_jobs) * 100 : 100;
+
+        return (
+          <div key={campaign.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <Layers className="h-4 w-4 text-muted-foreground shrink-0" />
+                <p className="text-xs md:text-sm font-medium truncate">{campaign.name}</p>
+                <Badge variant={isFinished ? 'secondary' : 'default'}>
+                  {isFinished ? 'Finished' : 'Generating'}
+                </Badge>
+              </div>
+              <span className="text-xs text-muted-foreground shrink-0">
+                {format(new Date(campaign.created_at), 'MMM d, h:mm a')}
+              </span>
+            </div>
+
+            <Progress value={progress} className="h-1.5" />
+
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                {campaign.finished_jobs} of {campaign.total_jobs} ads done
+                {' · '}{finishedProducts} of {campaign.sessions.length} products finished
+                {campaign.failed_jobs > 0 && ` · ${campaign.failed_jobs} failed`}
+              </p>
+              {draftProducts > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs shrink-0"
+                  onClick={() => handleStartRemaining(campaign)}
+                  disabled={!!startingCampaignId}
+                >
+                  {startingCampaignId === campaign.id ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                  ) : (
+                    <Play className="h-3.5 w-3.5 mr-1" />
+                  )}
+                  Start {draftProducts} remaining
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
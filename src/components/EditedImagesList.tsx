@@ -1,33 +1,69 @@
 import { useState, useEffect } from 'react';
-import { Loader2, AlertTriangle, Download } from 'lucide-react';
+import { Loader2, AlertTriangle, Download, Brush, Columns2, Pencil, Star } from 'lucide-react';
 import { LazyImage } from '@/components/LazyImage';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { getImageEdits, EditedImage } from '@/services/imageEditService';
+import { BeforeAfterSlider } from '@/components/BeforeAfterSlider';
+import {
+  getImageEdits,
+  getCurrentEditId,
+  groupEditsByParent,
+  promoteEditVersion,
+  EditedImage
+} from '@/services/imageEditService';
+import { cn } from '@/lib/utils';
 
 interface EditedImagesListProps {
   originalImageId: string;
+  originalImageUrl: string;
   refreshTrigger?: number;
+  // Starts a new edit from the mask of a masked edit, hides the action when not set
+  onReuseMask?: (maskUrl: string) => void;
+  // Version the next edit builds on, null for the original
+  selectedVersionId?: string | null;
+  // Picks the version the next edit builds on, hides the action when not set
+  onSelectVersion?: (edit: EditedImage | null) => void;
+  // Whether a version can be made the current one, only automated ads have one
+  canPromote?: boolean;
 }
 
-export function EditedImagesList({ originalImageId, refreshTrigger = 0 }: EditedImagesListProps) {
+/**
+ * Version tree of an image's edits. Every edit hangs off the version it was
+ * made from, the original image is the root.
+ */
+export function EditedImagesList({
+  originalImageId,
+  originalImageUrl,
+  refreshTrigger = 0,
+  onReuseMask,
+  selectedVersionId = null,
+  onSelectVersion,
+  canPromote = false
+}: EditedImagesListProps) {
   const [edits, setEdits] = useState<EditedImage[]>([]);
+  const [currentEditId, setCurrentEditId] = useState<string | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
-  
+
   // Load edits when component mounts or refreshTrigger changes
   useEffect(() => {
     if (originalImageId) {
       loadEdits();
     }
   }, [originalImageId, refreshTrigger]);
-  
+
   const loadEdits = async () => {
     try {
       setIsLoading(true);
-      const editsData = await getImageEdits(originalImageId);
+      const [editsData, currentId] = await Promise.all([
+        getImageEdits(originalImageId),
+        canPromote ? getCurrentEditId(originalImageId) : Promise.resolve(null)
+      ]);
       setEdits(editsData);
+      setCurrentEditId(currentId);
     } catch (error) {
       console.error('Error loading image edits:', error);
       toast({
@@ -39,17 +75,17 @@ export function EditedImagesList({ originalImageId, refreshTrigger = 0 }: Edited
       setIsLoading(false);
     }
   };
-  
-  const handleDownload = (imageUrl: string, index: number) => {
+
+  const handleDownload = (imageUrl: string, label: string) => {
     try {
       // Create a download link
       const a = document.createElement('a');
       a.href = imageUrl;
-      a.download = `edited-image-${index + 1}.png`;
+      a.download = `${label}.png`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
-      
+
       toast({
         title: 'Download started',
         description: 'Your image is being downloaded'
@@ -63,8 +99,30 @@ export function EditedImagesList({ originalImageId, refreshTrigger = 0 }: Edited
       });
     }
   };
-  
-  if (isLoading) {
+
+  const handlePromote = async (editId: string | null) => {
+    setPromotingId(editId);
+
+    try {
+      await promoteEditVersion(originalImageId, editId);
+      setCurrentEditId(editId);
+
+      toast({
+        title: 'Current version updated',
+        description: editId ? 'The gallery now shows this edited version' : 'The gallery now shows the original image'
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to update the current version',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setPromotingId(undefined);
+    }
+  };
+
+  if (isLoading && edits.length === 0) {
     return (
       <div className="flex items-center justify-center py-6">
         <Loader2 className="h-6 w-6 animate-spin text-muted-foreground mr-2" />
@@ -72,65 +130,168 @@ export function EditedImagesList({ originalImageId, refreshTrigger = 0 }: Edited
       </div>
     );
   }
-  
+
   if (edits.length === 0) {
     return null;
   }
-  
-  return (
-    <div className="space-y-4">
-      <h3 className="text-lg font-medium">Edited Versions</h3>
-      <div className="space-y-6">
-        {edits.map((edit, index) => (
-          <div key={edit.id} className="border rounded-lg overflow-hidden">
-            <div className="flex justify-between items-center p-3 border-b bg-muted/30">
-              <div className="flex items-center">
-                <Badge variant={edit.status === 'completed' ? 'default' : 
+
+  const childrenByParent = groupEditsByParent(edits);
+  const imageUrlById = new Map(edits.map(edit => [edit.id, edit.image_url]));
+
+  // Action buttons shared by the original and every completed edit
+  const renderVersionActions = (edit: EditedImage | null, imageUrl: string) => {
+    const versionId = edit?.id ?? null;
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {onSelectVersion && (
+          <Button
+            variant={selectedVersionId === versionId ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onSelectVersion(edit)}
+          >
+            <Pencil className="h-3.5 w-3.5 mr-1" />
+            {selectedVersionId === versionId ? 'Editing' : 'Edit from here'}
+          </Button>
+        )}
+        {canPromote && currentEditId !== versionId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => handlePromote(versionId)}
+            disabled={promotingId !== undefined}
+          >
+            {promotingId === versionId ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Star className="h-3.5 w-3.5 mr-1" />
+            )}
+            Make current
+          </Button>
+        )}
+        {edit && (
+          <Button
+            variant={comparingId === edit.id ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setComparingId(comparingId === edit.id ? null : edit.id)}
+          >
+            <Columns2 className="h-3.5 w-3.5 mr-1" />
+            Compare
+          </Button>
+        )}
+        {onReuseMask && edit?.mask_url && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onReuseMask(edit.mask_url!)}
+          >
+            <Brush className="h-3.5 w-3.5 mr-1" />
+            Reuse mask
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => handleDownload(imageUrl, edit ? `edited-image-${edit.id}` : `original-${originalImageId}`)}
+        >
+          <Download className="h-3.5 w-3.5 mr-1" />
+          Download
+        </Button>
+      </div>
+    );
+  };
+
+  const renderChildren = (parentId: string | null) => {
+    const children = childrenByParent.get(parentId);
+    if (!children?.length) return null;
+
+    return (
+      <div className="ml-4 pl-3 border-l space-y-3 mt-3">
+        {children.map(renderEdit)}
+      </div>
+    );
+  };
+
+  const renderEdit = (edit: EditedImage) => {
+    const beforeUrl = (edit.parent_edit_id && imageUrlById.get(edit.parent_edit_id)) || originalImageUrl;
+
+    return (
+      <div key={edit.id}>
+        <div className={cn('border rounded-lg p-2', selectedVersionId === edit.id && 'border-primary')}>
+          <div className="flex gap-3">
+            <div className="h-20 w-20 shrink-0 rounded overflow-hidden bg-muted/10 flex items-center justify-center">
+              {edit.status === 'processing' ? (
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              ) : edit.status === 'completed' && edit.image_url ? (
+                <LazyImage src={edit.image_url} alt="Edited version" className="h-full w-full object-cover" />
+              ) : (
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+              )}
+            </div>
+
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex flex-wrap items-center gap-1.5">
+                <Badge variant={edit.status === 'completed' ? 'default' :
                              edit.status === 'failed' ? 'destructive' : 'secondary'}>
-                  {edit.status === 'processing' ? 'Processing' : 
+                  {edit.status === 'processing' ? 'Processing' :
                    edit.status === 'completed' ? 'Edited' : 'Failed'}
                 </Badge>
-                <span className="ml-2 text-sm text-muted-foreground">
+                {edit.mask_url && <Badge variant="outline">Masked</Badge>}
+                {currentEditId === edit.id && <Badge variant="outline">Current</Badge>}
+                <span className="text-xs text-muted-foreground">
                   {new Date(edit.created_at).toLocaleString()}
                 </span>
               </div>
-              {edit.status === 'completed' && edit.image_url && (
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => handleDownload(edit.image_url!, index)}
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  Download
-                </Button>
+              <p className="text-xs line-clamp-2">{edit.prompt}</p>
+              {edit.status === 'failed' && (
+                <p className="text-xs text-destructive">{edit.error_message || 'Failed to generate edit'}</p>
               )}
+              {edit.status === 'completed' && edit.image_url && renderVersionActions(edit, edit.image_url)}
             </div>
-            
-            <div className="p-3 text-sm">
-              <strong>Edit instructions:</strong> {edit.prompt}
+          </div>
+
+          {comparingId === edit.id && edit.image_url && (
+            <BeforeAfterSlider
+              className="mt-3"
+              beforeUrl={beforeUrl}
+              afterUrl={edit.image_url}
+              beforeLabel={edit.parent_edit_id ? 'Previous version' : 'Original'}
+              afterLabel="This version"
+            />
+          )}
+        </div>
+
+        {renderChildren(edit.id)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Versions</h3>
+      <div>
+        <div className={cn('border rounded-lg p-2', selectedVersionId === null && onSelectVersion && 'border-primary')}>
+          <div className="flex gap-3">
+            <div className="h-20 w-20 shrink-0 rounded overflow-hidden bg-muted/10">
+              <LazyImage src={originalImageUrl} alt="Original image" className="h-full w-full object-cover" />
             </div>
-            
-            <div className="p-3 border-t">
-              {edit.status === 'processing' ? (
-                <div className="flex items-center justify-center h-64 bg-muted/10">
-                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-                </div>
-              ) : edit.status === 'completed' && edit.image_url ? (
-                <LazyImage
-                  src={edit.image_url}
-                  alt="Edited image"
-                  className="w-full h-auto object-contain max-h-[500px]"
-                />
-              ) : (
-                <div className="flex flex-col items-center justify-center h-64 bg-destructive/10">
-                  <AlertTriangle className="h-8 w-8 text-destructive mb-2" />
-                  <span className="text-sm text-destructive">{edit.error_message || 'Failed to generate edit'}</span>
-                </div>
-              )}
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex flex-wrap items-center gap-1.5">
+                <Badge variant="secondary">Original</Badge>
+                {canPromote && currentEditId === null && <Badge variant="outline">Current</Badge>}
+              </div>
+              {renderVersionActions(null, originalImageUrl)}
             </div>
           </div>
-        ))}
+        </div>
+
+        {renderChildren(null)}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, PackageOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LazyImage } from '@/components/LazyImage';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/zip';
+import { cn } from '@/lib/utils';
+import {
+  buildExportPack,
+  EXPORT_PLATFORMS,
+  EXPORT_PRESETS,
+  ExportAsset,
+  ExportFormat,
+  ExportManifest
+} from '@/services/exportPackService';
+
+interface ExportPackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Images that can be exported, all of them are chosen when the dialog opens
+  assets: ExportAsset[];
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+}
+
+/**
+ * Export builder: renders the chosen images into the chosen platform
+ * placements, checks each file against the platform's upload limit and
+ * downloads everything as a ZIP with a manifest
+ */
+export function ExportPackDialog({ open, onOpenChange, assets }: ExportPackDialogProps) {
+  const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([]);
+  const [selectedPresetIds, setSelectedPresetIds] = useState<string[]>([]);
+  const [preferredFormat, setPreferredFormat] = useState('platform');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [manifest, setManifest] = useState<ExportManifest | null>(null);
+  const { toast } = useToast();
+
+  const isExporting = progress !== null;
+
+  // Reset the builder when the dialog is opened
+  useEffect(() => {
+    if (!open) return;
+
+    setSelectedAssetIds(assets.map(asset => asset.id));
+    setSelectedPresetIds(EXPORT_PRESETS.map(preset => preset.id));
+    setPreferredFormat('platform');
+    setProgress(null);
+    setManifest(null);
+  }, [open, assets]);
+
+  const toggle = (ids: string[], id: string, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter(existing => existing !== id);
+
+  const handleExport = async () => {
+    const chosenAssets = assets.filter(asset => selectedAssetIds.includes(asset.id));
+    setProgress({ done: 0, total: chosenAssets.length * selectedPresetIds.length });
+    setManifest(null);
+
+    try {
+      const result = await buildExportPack(
+        chosenAssets,
+        selectedPresetIds,
+        preferredFormat === 'platform' ? null : preferredFormat as ExportFormat,
+        (done, total) => setProgress({ done, total })
+      );
+
+      downloadBlob(result.zip, `export-pack-${result.manifest.created_at.slice(0, 10)}.zip`);
+      setManifest(result.manifest);
+
+      toast({
+        title: 'Export pack downloaded',
+        description: `${result.manifest.files.length} files were exported`
+      });
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const filesOverLimit = manifest?.files.filter(file => !file.within_limit) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isExporting && onOpenChange(value)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] p-0 flex flex-col">
+        <DialogHeader className="px-4 pt-4 pb-2 border-b">
+          <DialogTitle className="text-xl font-semibold">Export Pack</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto px-4 py-4 space-y-5">
+          {progress ? (
+            <div className="py-8 space-y-3 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="text-sm">
+                Rendering {progress.done} of {progress.total} files...
+              </p>
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+            </div>
+          ) : manifest ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                {filesOverLimit.length === 0 ? (
+                  <>
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    Every file is within its platform's size limit.
+                  </>
+                ) : (
+                  <>
+                    <AlertTriangle className="h-4 w-4 text-amber-500" />
+                    {filesOverLimit.length} file{filesOverLimit.length === 1 ? ' is' : 's are'} over the platform's size limit.
+                  </>
+                )}
+              </div>
+              <div className="border rounded-lg divide-y text-xs">
+                {manifest.files.map(file => (
+                  <div key={file.path} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <span className="truncate">{file.path}</span>
+                    <span className={cn('shrink-0', file.within_limit ? 'text-muted-foreground' : 'text-amber-600 font-medium')}>
+                      {formatBytes(file.bytes)} / {formatBytes(file.max_bytes)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Images */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm md:text-base font-medium">
+                    Images ({selectedAssetIds.length} of {assets.length})
+                  </h3>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => setSelectedAssetIds(
+                      selectedAssetIds.length === assets.length ? [] : assets.map(asset => asset.id)
+                    )}
+                  >
+                    {selectedAssetIds.length === assets.length ? 'Select none' : 'Select all'}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {assets.map(asset => {
+                    const isSelected = selectedAssetIds.includes(asset.id);
+
+                    return (
+                      <button
+                        key={asset.id}
+                        type="button"
+                        className={cn(
+                          'relative w-16 h-16 rounded-md overflow-hidden border-2',
+                          isSelected ? 'border-primary' : 'border-transparent opacity-50'
+                        )}
+                        onClick={() => setSelectedAssetIds(toggle(selectedAssetIds, asset.id, !isSelected))}
+                        title={asset.name}
+                      >
+                        <LazyImage src={asset.imageUrl} alt={asset.name} className="w-full h-full object-cover" />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Placements */}
+              <div className="space-y-3">
+                <h3 className="text-sm md:text-base font-medium">Placements</h3>
+                {EXPORT_PLATFORMS.map(platform => (
+                  <div key={platform.id} className="space-y-1.5">
+                    <p className="text-xs font-medium text-muted-foreground">{platform.label}</p>
+                    {EXPORT_PRESETS.filter(preset => preset.platform === platform.id).map(preset => (
+                      <div key={preset.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`preset-${preset.id}`}
+                          checked={selectedPresetIds.includes(preset.id)}
+                          onCheckedChange={(checked) => setSelectedPresetIds(toggle(selectedPresetIds, preset.id, checked === true))}
+                        />
+                        <Label htmlFor={`preset-${preset.id}`} className="text-sm font-normal">
+                          {preset.name}
+                          <span className="text-muted-foreground">
+                            {' '}· {preset.width}x{preset.height} · max {formatBytes(preset.maxBytes)}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              {/* Format */}
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Format</Label>
+                <Select value={preferredFormat} onValueChange={setPreferredFormat}>
+                  <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="platform">Platform default</SelectItem>
+                    <SelectItem value="jpeg">JPG</SelectItem>
+                    <SelectItem value="webp">WebP</SelectItem>
+                    <SelectItem value="png">PNG</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Platforms that do not accept the format get their default. Files over a size limit are compressed further, or converted to JPG.
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="px-4 py-3 border-t">
+          {manifest ? (
+            <>
+              <Button variant="outline" onClick={() => setManifest(null)}>
+                Back
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>
+                Done
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleExport}
+                disabled={isExporting || selectedAssetIds.length === 0 || selectedPresetIds.length === 0}
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <PackageOpen className="h-4 w-4 mr-2" />
+                )}
+                Export {selectedAssetIds.length * selectedPresetIds.length} files
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LazyImage } from '@/components/LazyImage';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchOutputProvenance,
+  regenerateWithIdenticalSettings,
+  GenerationProvenance,
+  ProvenanceOutputType
+} from '@/services/provenanceService';
+
+interface GenerationProvenancePanelProps {
+  outputType: ProvenanceOutputType;
+  outputId: string;
+  // Called once a new output with the same settings was queued
+  onRegenerated?: () => void;
+}
+
+const INPUT_ROLE_LABELS: Record<string, string> = {
+  product_image: 'Product',
+  brand_logo: 'Logo',
+  reference_ad: 'Reference ad',
+  reference: 'Reference',
+  original: 'Original'
+};
+
+function formatSeconds(ms: number | undefined): string {
+  return ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Provider, model, parameters and inputs an output was generated with, and
+ * the action to generate an automated ad again with identical settings
+ */
+export function GenerationProvenancePanel({ outputType, outputId, onRegenerated }: GenerationProvenancePanelProps) {
+  const [provenance, setProvenance] = useState<GenerationProvenance | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function loadProvenance() {
+      try {
+        setIsLoading(true);
+        setProvenance(await fetchOutputProvenance(outputType, outputId));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadProvenance();
+  }, [outputType, outputId]);
+
+  const handleRegenerate = async () => {
+    if (!provenance) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await regenerateWithIdenticalSettings(provenance);
+      onRegenerated?.();
+
+      toast({
+        title: 'Generating again',
+        description: 'A new version with identical settings is being generated'
+      });
+    } catch (error) {
+      console.error('Error generating again with identical settings:', error);
+      toast({
+        title: 'Failed to generate again',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading generation details...
+      </div>
+    );
+  }
+
+  if (!provenance) {
+    return null;
+  }
+
+  const details: Array<{ label: string; value: string }> = [
+    { label: 'Model', value: `${provenance.provider} / ${provenance.model}` },
+    { label: 'Mode', value: provenance.operation === 'edit' ? 'Image to image' : 'Text to image' },
+    { label: 'Size', value: provenance.parameters.size ?? 'auto' },
+    { label: 'Quality', value: provenance.parameters.quality ?? 'auto' },
+    {
+      label: 'Template',
+      value: provenance.prompt_template_id
+        ? `Custom, version of ${format(new Date(provenance.prompt_template_version ?? provenance.started_at), 'MMM d, yyyy HH:mm')}`
+        : 'Built-in'
+    },
+    {
+      label: 'Time',
+      value: `${formatSeconds(new Date(provenance.completed_at).getTime() - new Date(provenance.started_at).getTime())} total, ${formatSeconds(provenance.timings.provider_ms)} in the provider`
+    },
+    { label: 'Cost', value: `${provenance.credits_cost} ${provenance.credits_cost === 1 ? 'credit' : 'credits'}` }
+  ];
+
+  const canRegenerate = provenance.output_type === 'generation_job' && !!provenance.variation_id;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">Generation Details</h3>
+      <div className="rounded-lg border bg-muted/10 p-3 space-y-3">
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+          {details.map(({ label, value }) => (
+            <div key={label} className="text-xs min-w-0">
+              <dt className="font-medium">{label}</dt>
+              <dd className="text-muted-foreground break-words">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {provenance.input_assets.length > 0 && (
+          <div>
+            <p className="text-xs font-medium mb-1">Input images</p>
+            <div className="flex flex-wrap gap-2">
+              {provenance.input_assets.map((input, index) => (
+                <div key={`${input.url}-${index}`} className="w-16 space-y-1">
+                  <div className="h-16 w-16 rounded border overflow-hidden bg-background">
+                    <LazyImage src={input.url} alt={input.role} className="h-full w-full object-cover" />
+                  </div>
+                  <p className="text-[10px] text-muted-foreground truncate">
+                    {INPUT_ROLE_LABELS[input.role] ?? input.role}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <p className="text-xs font-medium mb-1">Prompt sent</p>
+          <p className="text-xs text-muted-foreground line-clamp-6 whitespace-pre-wrap">{provenance.prompt}</p>
+        </div>
+
+        {canRegenerate && (
+          <div className="pt-1">
+            <Button variant="outline" size="sm" onClick={handleRegenerate} disabled={isSubmitting}>
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-2" />
+              )}
+              Generate again with identical settings
+            </Button>
+            <p className="text-xs text-muted-foreground mt-2">
+              Uses the prompt, parameters and input images above, even if the session changed since. Costs 1 credit.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,15 +11,20 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { LazyImage } from '@/components/LazyImage';
 import { Textarea } from "@/components/ui/textarea";
-import { Download, Calendar, Loader2, Wand2, CheckCircle, AlertCircle } from 'lucide-react';
+import { Download, Calendar, Loader2, Wand2, CheckCircle, AlertCircle, Brush } from 'lucide-react';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { usePostHog } from '@/lib/posthog';
 import { EditedImagesList } from './EditedImagesList';
+import { VariationHistory } from './VariationHistory';
+import { GenerationProvenancePanel } from './GenerationProvenancePanel';
+import { MaskEditor } from './MaskEditor';
+import { PlacementVersionsPanel } from './PlacementVersionsPanel';
 import { 
   startImageEdit, 
   getEditStatus, 
-  isMagicEditEnabled 
+  isMagicEditEnabled,
+  EditedImage
 } from '@/services/imageEditService';
 
 interface ImageDetailsProps {
@@ -32,10 +37,13 @@ interface ImageDetailsProps {
     prompt: string;
     created_at: string;
   } | null;
+  // Prompt variation the image was generated for, enables re-rolls and the version history
+  variationId?: string;
 }
 
-export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
+export function ImageDetails({ open, onOpenChange, image, variationId }: ImageDetailsProps) {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [historyRefreshTrigger, setHistoryRefreshTrigger] = useState(0);
   const { toast } = useToast();
   const { isFeatureEnabled } = usePostHog();
   
@@ -46,8 +54,21 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
   const [editStatus, setEditStatus] = useState<any | null>(null);
   const [pollInterval, setPollInterval] = useState<number | null>(null);
   
+  // Mask state, the edit is limited to the painted area while masking is on
+  const [isMasking, setIsMasking] = useState(false);
+  const [editMask, setEditMask] = useState<Blob | null>(null);
+  const [initialMaskUrl, setInitialMaskUrl] = useState<string | null>(null);
+  
+  // Version the next edit builds on, null for the original image
+  const [baseVersion, setBaseVersion] = useState<EditedImage | null>(null);
+  
   // Check if magic edit feature is enabled
   const magicEditEnabled = isFeatureEnabled('magic-editing', false);
+  const variationRerollEnabled = isFeatureEnabled('variation-reroll', false);
+  const provenanceEnabled = isFeatureEnabled('generation-provenance', false);
+  const maskEditingEnabled = magicEditEnabled && isFeatureEnabled('mask-editing', false);
+  const editChainsEnabled = magicEditEnabled && isFeatureEnabled('edit-chains', false);
+  const placementResizeEnabled = isFeatureEnabled('placement-resize', false);
   
   // Clear edit state when dialog closes
   useEffect(() => {
@@ -56,6 +77,10 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
       setIsSubmitting(false);
       setEditId(null);
       setEditStatus(null);
+      setIsMasking(false);
+      setEditMask(null);
+      setInitialMaskUrl(null);
+      setBaseVersion(null);
       
       // Clear any polling interval
       if (pollInterval) {
@@ -134,6 +159,23 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
     }
   };
   
+  // Start a new masked edit from the mask of an earlier one
+  const handleReuseMask = (maskUrl: string) => {
+    setEditId(null);
+    setEditStatus(null);
+    setIsMasking(true);
+    setInitialMaskUrl(maskUrl);
+  };
+  
+  // Pick the version the next edit builds on, a painted mask only fits the version it was painted on
+  const handleSelectVersion = (version: EditedImage | null) => {
+    setBaseVersion(version);
+    setEditId(null);
+    setEditStatus(null);
+    setEditMask(null);
+    setInitialMaskUrl(null);
+  };
+  
   // Refresh edited images list when an edit is completed
   const handleEditSuccess = () => {
     setRefreshTrigger(prev => prev + 1);
@@ -152,10 +194,25 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
       return;
     }
     
+    if (isMasking && !editMask) {
+      toast({
+        title: "Mask required",
+        description: "Paint over the area to change, or turn off the mask to edit the whole image",
+        variant: "destructive"
+      });
+      return;
+    }
+    
     setIsSubmitting(true);
     
     try {
-      const id = await startImageEdit(image.id, image.image_url, editPrompt);
+      const id = await startImageEdit(
+        image.id,
+        image.image_url,
+        editPrompt,
+        isMasking ? editMask : null,
+        baseVersion?.id
+      );
       setEditId(id);
       
       toast({
@@ -176,6 +233,8 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
   
   if (!image) return null;
   
+  const previewUrl = baseVersion?.image_url || image.image_url;
+  
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl h-[90vh] max-h-[900px] p-0 flex flex-col">
@@ -187,13 +246,23 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Image Preview */}
             <div className="space-y-4">
-              <div className="border rounded-lg overflow-hidden bg-muted/20">
-                <LazyImage 
-                  src={image.image_url} 
-                  alt="Generated image"
-                  className="w-full h-auto object-contain"
+              {isMasking ? (
+                <MaskEditor
+                  key={previewUrl}
+                  imageUrl={previewUrl}
+                  initialMaskUrl={initialMaskUrl}
+                  disabled={!!editId || isSubmitting}
+                  onMaskChange={setEditMask}
                 />
-              </div>
+              ) : (
+                <div className="border rounded-lg overflow-hidden bg-muted/20">
+                  <LazyImage 
+                    src={previewUrl} 
+                    alt={baseVersion ? "Edited version" : "Generated image"}
+                    className="w-full h-auto object-contain"
+                  />
+                </div>
+              )}
               
               <div className="flex justify-between">
                 <Button variant="outline" onClick={handleDownload}>
@@ -209,6 +278,22 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
               {magicEditEnabled && (
                 <div>
                   <h3 className="text-lg font-medium mb-2">Magic Edit</h3>
+                  {baseVersion && (
+                    <div className="flex items-center justify-between rounded-md bg-muted/30 px-3 py-2 mb-2 text-xs">
+                      <span className="truncate">
+                        Editing the version "{baseVersion.prompt}"
+                      </span>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs shrink-0 ml-2"
+                        onClick={() => handleSelectVersion(null)}
+                        disabled={isSubmitting}
+                      >
+                        Edit original
+                      </Button>
+                    </div>
+                  )}
                   <Textarea
                     value={editPrompt}
                     onChange={(e) => setEditPrompt(e.target.value)}
@@ -220,7 +305,7 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
                     Be specific about what you want to change. For example: "Change the background to blue", "Make the product larger", etc.
                   </p>
                   
-                  <div className="flex justify-between">
+                  <div className="flex justify-between gap-2">
                     <Button
                       onClick={handleSubmit}
                       disabled={isSubmitting || !editPrompt.trim() || !!editId}
@@ -237,6 +322,20 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
                         </>
                       )}
                     </Button>
+                    
+                    {maskEditingEnabled && (
+                      <Button
+                        variant={isMasking ? 'secondary' : 'outline'}
+                        onClick={() => {
+                          setIsMasking(!isMasking);
+                          setInitialMaskUrl(null);
+                        }}
+                        disabled={isSubmitting || !!editId}
+                      >
+                        <Brush className="h-4 w-4 mr-2" />
+                        {isMasking ? 'Edit whole image' : 'Paint area to edit'}
+                      </Button>
+                    )}
                   </div>
                   
                   {/* Editing status and result */}
@@ -299,9 +398,33 @@ export function ImageDetails({ open, onOpenChange, image }: ImageDetailsProps) {
               {magicEditEnabled && (
                 <EditedImagesList 
                   originalImageId={image.id} 
+                  originalImageUrl={image.image_url}
                   refreshTrigger={refreshTrigger} 
+                  onReuseMask={maskEditingEnabled ? handleReuseMask : undefined}
+                  selectedVersionId={baseVersion?.id ?? null}
+                  onSelectVersion={editChainsEnabled ? handleSelectVersion : undefined}
+                  canPromote={editChainsEnabled}
                 />
               )}
+              
+              {/* Versions of the finished ad for each placement format */}
+              {placementResizeEnabled && image.status === 'completed' && (
+                <PlacementVersionsPanel jobId={image.id} />
+              )}
+              
+              {/* How this output was generated */}
+              {provenanceEnabled && (
+                <GenerationProvenancePanel
+                  outputType="generation_job"
+                  outputId={image.id}
+                  onRegenerated={() => setHistoryRefreshTrigger(prev => prev + 1)}
+                />
+              )}
+              
+              {/* Re-roll actions and earlier versions of the variation */}
+              {variationRerollEnabled && variationId && (
+                <VariationHistory variationId={variationId} refreshTrigger={historyRefreshTrigger} />
+              )}
             </div>
           </div>
         </div>
@@ -4,9 +4,28 @@ import { FileUpload } from '@/components/FileUpload';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Loader2, ImageIcon, UploadCloud, Trash2, Download, Info } from 'lucide-react';
-import { fetchAssets, uploadFromBuffer, deleteAsset, Asset } from '@/services/AssetsService';
-import { getTransformedImageUrl } from '@/lib/utils';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MoveToCollectionDialog } from '@/components/MoveToCollectionDialog';
+import { ProductCampaignModal } from '@/components/ProductCampaignModal';
+import { Loader2, ImageIcon, UploadCloud, Trash2, Download, Info, FolderInput, Sparkles, X } from 'lucide-react';
+import { fetchAssets, fetchAllAssets, uploadFromBuffer, deleteAsset, Asset, AssetSource } from '@/services/AssetsService';
+import {
+  AssetCollection,
+  buildLibraryZip,
+  deleteLibraryAssets,
+  fetchAssetCollections
+} from '@/services/libraryService';
+import { MAX_CAMPAIGN_PRODUCTS } from '@/services/automationService';
+import { getTransformedImageUrl, cn } from '@/lib/utils';
+import { downloadBlob } from '@/lib/zip';
+import { usePostHog } from '@/lib/posthog';
 import {
   Dialog,
   DialogContent,
@@ -35,6 +54,8 @@ interface LibraryImage {
   content_type?: string;
   size?: number;
   created_at: string;
+  // The asset record the image was converted from, used by the bulk actions
+  asset: Asset;
 }
 
 interface LibraryViewProps {
@@ -58,13 +79,42 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
   const [activeTab, setActiveTab] = useState('gallery');
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { isFeatureEnabled } = usePostHog();
+  const bulkActionsEnabled = isFeatureEnabled('library-bulk-actions', false);
+
+  // Filters, the collection is 'all', 'none' or a collection ID
+  const [sourceFilter, setSourceFilter] = useState<AssetSource>('library');
+  const [collectionFilter, setCollectionFilter] = useState('all');
+  const [collections, setCollections] = useState<AssetCollection[]>([]);
+
+  // Bulk selection, may hold images that are not loaded yet after selecting all
+  const [selectedAssets, setSelectedAssets] = useState<Map<string, Asset>>(new Map());
+  // Index of the last image clicked, the start of a shift-click range
+  const selectionAnchorRef = useRef<number | null>(null);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ action: string; done: number; total: number } | null>(null);
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
+  const [isMoveOpen, setIsMoveOpen] = useState(false);
+  const [campaignProducts, setCampaignProducts] = useState<{ id: string; title: string; imageUrl: string }[] | null>(null);
+
+  const assetFilter = {
+    source: sourceFilter,
+    collection_id: collectionFilter === 'all' ? undefined : collectionFilter === 'none' ? null : collectionFilter
+  };
+  const isFiltered = sourceFilter !== 'library' || collectionFilter !== 'all';
 
   // Only load images when gallery tab is active
   useEffect(() => {
     if (activeTab === 'gallery') {
       loadImages(1, false);
     }
-  }, [activeTab]);
+  }, [activeTab, sourceFilter, collectionFilter]);
+
+  useEffect(() => {
+    if (bulkActionsEnabled) {
+      fetchAssetCollections().then(setCollections);
+    }
+  }, [bulkActionsEnabled]);
 
   useEffect(() => {
     // Set up intersection observer for infinite scrolling
@@ -93,7 +143,7 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
       
       // Use the assets service to fetch library images
       const { assets, totalCount: total, hasMore: moreAvailable } = await fetchAssets({
-        source: 'library',
+        ...assetFilter,
         limit: 24,
         page: pageNum
       });
@@ -105,13 +155,15 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
         filename: asset.filename || undefined,
         content_type: asset.content_type || undefined,
         size: asset.size || undefined,
-        created_at: asset.created_at
+        created_at: asset.created_at,
+        asset
       }));
       
       if (append) {
         setImages(prev => [...prev, ...libraryImages]);
       } else {
         setImages(libraryImages);
+        selectionAnchorRef.current = null;
       }
       
       setHasMore(moreAvailable);
@@ -238,6 +290,12 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
       // Remove the image from the local state
       setImages(images.filter(img => img.id !== imageToDelete.id));
       setTotalCount(prev => prev - 1);
+      setSelectedAssets(prev => {
+        const next = new Map(prev);
+        next.delete(imageToDelete.id);
+        return next;
+      });
+      selectionAnchorRef.current = null;
       
       // Notify parent
       if (onLibraryUpdated) {
@@ -266,6 +324,145 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
     setIsImageViewerOpen(true);
   };
 
+  const changeFilter = (update: () => void) => {
+    setSelectedAssets(new Map());
+    setImages([]);
+    update();
+  };
+
+  // Toggles one image, a shift-click gives every image between it and the
+  // last clicked one the state the last clicked one has
+  const toggleSelection = (index: number, shiftKey: boolean) => {
+    const anchor = selectionAnchorRef.current;
+
+    setSelectedAssets(prev => {
+      const next = new Map(prev);
+
+      if (shiftKey && anchor !== null && anchor < images.length) {
+        const select = prev.has(images[anchor].id);
+        const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+
+        images.slice(from, to + 1).forEach(image => {
+          if (select) {
+            next.set(image.id, image.asset);
+          } else {
+            next.delete(image.id);
+          }
+        });
+      } else if (next.has(images[index].id)) {
+        next.delete(images[index].id);
+      } else {
+        next.set(images[index].id, images[index].asset);
+      }
+
+      return next;
+    });
+
+    selectionAnchorRef.current = index;
+  };
+
+  // Selects every image matching the filters, including those not loaded yet
+  const handleSelectAll = async () => {
+    setIsSelectingAll(true);
+
+    try {
+      const assets = await fetchAllAssets(assetFilter);
+      setSelectedAssets(new Map(assets.map(asset => [asset.id, asset])));
+    } catch (error) {
+      toast({
+        title: "Failed to select images",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const handleBulkDownload = async () => {
+    const assets = [...selectedAssets.values()];
+    setBulkProgress({ action: 'Downloading', done: 0, total: assets.length });
+
+    try {
+      const { zip, skipped } = await buildLibraryZip(assets, (done, total) => {
+        setBulkProgress({ action: 'Downloading', done, total });
+      });
+
+      downloadBlob(zip, `library-${new Date().toISOString().slice(0, 10)}.zip`);
+
+      toast({
+        title: "Images downloaded",
+        description: skipped > 0
+          ? `${skipped} of ${assets.length} images could not be downloaded and were left out`
+          : `${assets.length} image${assets.length !== 1 ? 's were' : ' was'} downloaded with their prompts`,
+        variant: skipped === assets.length ? "destructive" : "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    const assets = [...selectedAssets.values()];
+    setIsBulkDeleteOpen(false);
+    setBulkProgress({ action: 'Deleting', done: 0, total: assets.length });
+
+    try {
+      const { deletedIds, failed } = await deleteLibraryAssets(assets, (done, total) => {
+        setBulkProgress({ action: 'Deleting', done, total });
+      });
+
+      setImages(prev => prev.filter(image => !deletedIds.includes(image.id)));
+      setTotalCount(prev => prev - deletedIds.length);
+      setSelectedAssets(prev => new Map([...prev].filter(([id]) => !deletedIds.includes(id))));
+      selectionAnchorRef.current = null;
+
+      if (onLibraryUpdated) {
+        onLibraryUpdated();
+      }
+
+      toast({
+        title: "Images deleted",
+        description: failed > 0
+          ? `${failed} of ${assets.length} images could not be deleted and are still selected`
+          : `${deletedIds.length} image${deletedIds.length !== 1 ? 's were' : ' was'} permanently deleted`,
+        variant: failed > 0 ? "destructive" : "default"
+      });
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleMoved = async () => {
+    setSelectedAssets(new Map());
+    setCollections(await fetchAssetCollections());
+    await loadImages(1, false);
+  };
+
+  // One automation session is created for each selected image
+  const handleSendToAutomation = () => {
+    if (selectedAssets.size > MAX_CAMPAIGN_PRODUCTS) {
+      toast({
+        title: "Too many images selected",
+        description: `At most ${MAX_CAMPAIGN_PRODUCTS} images can be sent to automation at once`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCampaignProducts([...selectedAssets.values()].map(asset => ({
+      id: asset.id,
+      title: asset.filename || 'Library image',
+      imageUrl: asset.original_url
+    })));
+  };
+
   if (loading && images.length === 0 && activeTab === 'gallery') {
     return (
       <div className="space-y-4">
@@ -289,7 +486,92 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
         </TabsList>
         
         <TabsContent value="gallery" className="space-y-4 md:space-y-6">
-          {images.length === 0 ? (
+          {bulkActionsEnabled && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={sourceFilter} onValueChange={(value) => changeFilter(() => setSourceFilter(value as AssetSource))}>
+                <SelectTrigger className="w-36 text-xs md:text-sm h-8 md:h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="library">Uploads</SelectItem>
+                  <SelectItem value="generated">Generated</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={collectionFilter} onValueChange={(value) => changeFilter(() => setCollectionFilter(value))}>
+                <SelectTrigger className="w-44 text-xs md:text-sm h-8 md:h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All collections</SelectItem>
+                  <SelectItem value="none">Not in a collection</SelectItem>
+                  {collections.map(collection => (
+                    <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {bulkActionsEnabled && selectedAssets.size > 0 && (
+            <div className="sticky top-0 z-20 flex flex-wrap items-center gap-2 rounded-lg border bg-background p-2 shadow-sm">
+              {bulkProgress ? (
+                <div className="flex items-center text-xs md:text-sm px-1">
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  {bulkProgress.action} {bulkProgress.done} of {bulkProgress.total} images...
+                </div>
+              ) : (
+                <>
+                  <span className="text-xs md:text-sm font-medium px-1">{selectedAssets.size} selected</span>
+                  {selectedAssets.size < totalCount && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs md:text-sm"
+                      onClick={handleSelectAll}
+                      disabled={isSelectingAll}
+                    >
+                      {isSelectingAll && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      Select all {totalCount}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 text-xs md:text-sm"
+                    onClick={() => setSelectedAssets(new Map())}
+                  >
+                    <X className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                    Clear
+                  </Button>
+                  <div className="flex flex-wrap gap-2 ml-auto">
+                    <Button variant="outline" size="sm" className="h-8 text-xs md:text-sm" onClick={handleBulkDownload}>
+                      <Download className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                      Download ZIP
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-8 text-xs md:text-sm" onClick={() => setIsMoveOpen(true)}>
+                      <FolderInput className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                      Move
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-8 text-xs md:text-sm" onClick={handleSendToAutomation}>
+                      <Sparkles className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                      Send to automation
+                    </Button>
+                    <Button variant="destructive" size="sm" className="h-8 text-xs md:text-sm" onClick={() => setIsBulkDeleteOpen(true)}>
+                      <Trash2 className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {images.length === 0 && isFiltered ? (
+            <div className="flex flex-col items-center justify-center h-48 md:h-64 text-center">
+              <ImageIcon className="h-12 w-12 md:h-16 md:w-16 text-muted-foreground mb-3 md:mb-4" />
+              <h3 className="text-base md:text-lg font-medium">No images match these filters</h3>
+            </div>
+          ) : images.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-48 md:h-64 text-center">
               <ImageIcon className="h-12 w-12 md:h-16 md:w-16 text-muted-foreground mb-3 md:mb-4" />
               <h3 className="text-base md:text-lg font-medium">No images in your library</h3>
@@ -308,7 +590,7 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
               </div>
               
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 md:gap-4">
-                {images.map((image) => {
+                {images.map((image, index) => {
                   // Transform the image URL for thumbnails
                   const thumbnailUrl = getTransformedImageUrl(image.url, {
                     width: 300,
@@ -318,11 +600,30 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
                     resize: 'cover'
                   });
                   
+                  const isSelected = selectedAssets.has(image.id);
+                  
                   return (
                     <div 
                       key={image.id} 
-                      className="relative group overflow-hidden rounded-lg shadow-sm transition-all duration-200 hover:shadow-md"
+                      className={cn(
+                        "relative group overflow-hidden rounded-lg shadow-sm transition-all duration-200 hover:shadow-md",
+                        isSelected && "ring-2 ring-primary"
+                      )}
                     >
+                      {bulkActionsEnabled && (
+                        <Checkbox
+                          checked={isSelected}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            toggleSelection(index, e.shiftKey);
+                          }}
+                          className={cn(
+                            "absolute top-2 left-2 z-10 h-5 w-5 bg-background/90 shadow transition-opacity",
+                            selectedAssets.size > 0 ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                          )}
+                          aria-label={`Select ${image.filename || 'image'}`}
+                        />
+                      )}
                       <div className="aspect-square w-full h-full bg-background">
                         <img
                           src={thumbnailUrl}
@@ -579,6 +880,51 @@ export function LibraryView({ onLibraryUpdated }: LibraryViewProps) {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {bulkActionsEnabled && (
+        <>
+          {/* Bulk delete confirmation dialog */}
+          <AlertDialog open={isBulkDeleteOpen} onOpenChange={setIsBulkDeleteOpen}>
+            <AlertDialogContent className="max-w-xs md:max-w-md p-4 md:p-6">
+              <AlertDialogHeader>
+                <AlertDialogTitle className="text-base md:text-lg">
+                  Delete {selectedAssets.size} image{selectedAssets.size !== 1 ? 's' : ''}?
+                </AlertDialogTitle>
+                <AlertDialogDescription className="text-xs md:text-sm">
+                  This action cannot be undone. This will permanently delete the selected images from your library.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter className="gap-2">
+                <AlertDialogCancel className="h-8 md:h-10 text-xs md:text-sm">
+                  Cancel
+                </AlertDialogCancel>
+                <AlertDialogAction 
+                  onClick={handleBulkDelete}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90 h-8 md:h-10 text-xs md:text-sm"
+                >
+                  <Trash2 className="mr-1 md:mr-2 h-3 w-3 md:h-4 md:w-4" />
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
+          <MoveToCollectionDialog
+            open={isMoveOpen}
+            onOpenChange={setIsMoveOpen}
+            assetIds={[...selectedAssets.keys()]}
+            collections={collections}
+            onMoved={handleMoved}
+          />
+
+          <ProductCampaignModal
+            open={campaignProducts !== null}
+            onOpenChange={(open) => !open && setCampaignProducts(null)}
+            products={campaignProducts ?? []}
+            onRemoveProduct={(assetId) => setCampaignProducts(prev => prev?.filter(product => product.id !== assetId) ?? null)}
+          />
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
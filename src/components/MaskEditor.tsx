@@ -0,0 +1,266 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Brush, Eraser, Lasso, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+
+type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  // Stored mask to start from, e.g. the mask of an earlier edit
+  initialMaskUrl?: string | null;
+  disabled?: boolean;
+  // Receives the mask after every stroke, null when nothing is painted. Must be
+  // stable, a new callback reloads the initial mask.
+  onMaskChange: (mask: Blob | null) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const PAINT_COLOR = '#ef4444';
+
+/**
+ * Brush and lasso editor for the area of an image an edit may change. The
+ * painted area is drawn on a canvas the size of the image and exported as a
+ * PNG mask that is transparent where the image may change.
+ */
+export function MaskEditor({ imageUrl, initialMaskUrl, disabled = false, onMaskChange }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(60);
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  // Exports the painted area as a mask: opaque where the image is kept, transparent where it may change
+  const emitMask = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+    let painted = false;
+    for (let index = 3; index < pixels.length; index += 4) {
+      if (pixels[index] > 0) {
+        painted = true;
+        break;
+      }
+    }
+
+    if (!painted) {
+      onMaskChange(null);
+      return;
+    }
+
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskContext = mask.getContext('2d');
+    if (!maskContext) return;
+
+    maskContext.fillStyle = '#000000';
+    maskContext.fillRect(0, 0, mask.width, mask.height);
+    maskContext.globalCompositeOperation = 'destination-out';
+    maskContext.drawImage(canvas, 0, 0);
+
+    mask.toBlob(blob => onMaskChange(blob), 'image/png');
+  }, [onMaskChange]);
+
+  // Start from a stored mask, painting the area it left transparent
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!size || !canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (!initialMaskUrl) {
+      onMaskChange(null);
+      return;
+    }
+
+    const maskImage = new Image();
+    maskImage.crossOrigin = 'anonymous';
+    maskImage.onload = () => {
+      context.globalCompositeOperation = 'source-over';
+      context.fillStyle = PAINT_COLOR;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.globalCompositeOperation = 'destination-out';
+      context.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+      context.globalCompositeOperation = 'source-over';
+      emitMask();
+    };
+    maskImage.onerror = () => console.error('Error loading mask:', initialMaskUrl);
+    maskImage.src = initialMaskUrl;
+  }, [initialMaskUrl, size, emitMask, onMaskChange]);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * event.currentTarget.width,
+      y: ((event.clientY - rect.top) / rect.height) * event.currentTarget.height
+    };
+  };
+
+  const drawSegment = (from: Point, to: Point) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    context.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    context.strokeStyle = PAINT_COLOR;
+    context.lineWidth = brushSize;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+    context.globalCompositeOperation = 'source-over';
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toCanvasPoint(event);
+    setIsDrawing(true);
+
+    if (tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      lastPointRef.current = point;
+      drawSegment(point, point);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing) return;
+    const point = toCanvasPoint(event);
+
+    if (tool === 'lasso') {
+      setLassoPoints(points => [...points, point]);
+    } else if (lastPointRef.current) {
+      drawSegment(lastPointRef.current, point);
+      lastPointRef.current = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
+    lastPointRef.current = null;
+
+    if (tool === 'lasso') {
+      const context = canvasRef.current?.getContext('2d');
+      if (context && lassoPoints.length > 2) {
+        context.fillStyle = PAINT_COLOR;
+        context.beginPath();
+        lassoPoints.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+        context.closePath();
+        context.fill();
+      }
+      setLassoPoints([]);
+    }
+
+    emitMask();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onMaskChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative border rounded-lg overflow-hidden bg-muted/20 select-none">
+        <img
+          src={imageUrl}
+          alt="Image to mask"
+          className="w-full h-auto block"
+          draggable={false}
+          onLoad={(event) => setSize({
+            width: event.currentTarget.naturalWidth,
+            height: event.currentTarget.naturalHeight
+          })}
+        />
+        {size && (
+          <>
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className={cn('absolute inset-0 w-full h-full opacity-50 touch-none', disabled ? 'cursor-not-allowed' : 'cursor-crosshair')}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {lassoPoints.length > 1 && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${size.width} ${size.height}`}
+                preserveAspectRatio="none"
+              >
+                <polyline
+                  points={lassoPoints.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill="none"
+                  stroke={PAINT_COLOR}
+                  strokeWidth={Math.max(size.width / 300, 2)}
+                  strokeDasharray="8 6"
+                />
+              </svg>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={tool}
+          onValueChange={(value) => value && setTool(value as MaskTool)}
+          disabled={disabled}
+        >
+          <ToggleGroupItem value="brush" aria-label="Brush">
+            <Brush className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="lasso" aria-label="Lasso">
+            <Lasso className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="erase" aria-label="Eraser">
+            <Eraser className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {tool !== 'lasso' && (
+          <div className="flex items-center gap-2 w-36">
+            <span className="text-xs text-muted-foreground shrink-0">Size</span>
+            <Slider
+              min={10}
+              max={200}
+              step={5}
+              value={[brushSize]}
+              onValueChange={([value]) => setBrushSize(value)}
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        <Button variant="ghost" size="sm" onClick={handleClear} disabled={disabled}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Paint over the area to change, everything else is kept as it is.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { FolderInput, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from '@/hooks/use-toast';
+import {
+  AssetCollection,
+  createAssetCollection,
+  moveAssetsToCollection
+} from '@/services/libraryService';
+
+interface MoveToCollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assetIds: string[];
+  collections: AssetCollection[];
+  // Called with the collection the images were moved to, null when they were taken out of theirs
+  onMoved: (collection: AssetCollection | null) => void;
+}
+
+/**
+ * Moves library images into an existing or a new collection
+ */
+export function MoveToCollectionDialog({
+  open,
+  onOpenChange,
+  assetIds,
+  collections,
+  onMoved
+}: MoveToCollectionDialogProps) {
+  const [target, setTarget] = useState('new');
+  const [newName, setNewName] = useState('');
+  const [isMoving, setIsMoving] = useState(false);
+  const { toast } = useToast();
+
+  // Reset the form when the dialog is opened
+  useEffect(() => {
+    if (!open) return;
+
+    setTarget(collections.length > 0 ? collections[0].id : 'new');
+    setNewName('');
+  }, [open, collections]);
+
+  const handleMove = async () => {
+    setIsMoving(true);
+
+    try {
+      const collection = target === 'new'
+        ? await createAssetCollection(newName)
+        : collections.find(existing => existing.id === target) ?? null;
+
+      await moveAssetsToCollection(assetIds, collection?.id ?? null);
+
+      toast({
+        title: collection ? `Moved to ${collection.name}` : 'Removed from collection',
+        description: `${assetIds.length} image${assetIds.length === 1 ? ' was' : 's were'} moved`
+      });
+
+      onMoved(collection);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Failed to move images',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isMoving && onOpenChange(value)}>
+      <DialogContent className="max-w-xs md:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-base md:text-xl">Move to collection</DialogTitle>
+          <DialogDescription className="text-xs md:text-sm">
+            {assetIds.length} image{assetIds.length === 1 ? '' : 's'} selected
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Collection</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {collections.map(collection => (
+                  <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                ))}
+                <SelectItem value="new">New collection...</SelectItem>
+                <SelectItem value="none">No collection</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target === 'new' && (
+            <div className="space-y-2">
+              <Label htmlFor="collection-name" className="text-sm font-medium">Name</Label>
+              <Input
+                id="collection-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g. Summer campaign"
+                maxLength={100}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isMoving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMove}
+            disabled={isMoving || assetIds.length === 0 || (target === 'new' && !newName.trim())}
+          >
+            {isMoving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FolderInput className="h-4 w-4 mr-2" />
+            )}
+            Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Download, Expand, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { LazyImage } from '@/components/LazyImage';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchPlacementVersions,
+  resizeForPlacement,
+  PLACEMENT_FORMATS,
+  PlacementFormat,
+  PlacementVersion
+} from '@/services/placementService';
+
+interface PlacementVersionsPanelProps {
+  // Generation job of the finished ad
+  jobId: string;
+}
+
+/**
+ * Versions of an automated ad for each placement format. The ad is extended
+ * to the format rather than cropped, so nothing of it is lost.
+ */
+export function PlacementVersionsPanel({ jobId }: PlacementVersionsPanelProps) {
+  const [versions, setVersions] = useState<PlacementVersion[]>([]);
+  const [pendingFormats, setPendingFormats] = useState<PlacementFormat[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function loadVersions() {
+      try {
+        setIsLoading(true);
+        setVersions(await fetchPlacementVersions(jobId));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadVersions();
+  }, [jobId]);
+
+  const resize = async (format: PlacementFormat) => {
+    setPendingFormats(prev => [...prev, format]);
+
+    try {
+      const version = await resizeForPlacement(jobId, format);
+      setVersions(prev => [...prev.filter(existing => existing.placement !== format), version]);
+      return true;
+    } catch (error) {
+      toast({
+        title: `Failed to create the ${format} version`,
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setPendingFormats(prev => prev.filter(pending => pending !== format));
+    }
+  };
+
+  // Creates every format that has no version yet, side by side
+  const handleResizeAll = async () => {
+    const missing = PLACEMENT_FORMATS
+      .map(info => info.format)
+      .filter(format => !versions.some(version => version.placement === format) && !pendingFormats.includes(format));
+
+    const results = await Promise.all(missing.map(resize));
+    const created = results.filter(Boolean).length;
+
+    if (created > 0) {
+      toast({
+        title: 'Placement versions created',
+        description: `${created} of ${missing.length} versions were created`
+      });
+    }
+  };
+
+  const handleDownload = (version: PlacementVersion) => {
+    const a = document.createElement('a');
+    a.href = version.url;
+    a.download = `ad-${jobId}-${version.placement.replace(':', 'x')}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const allCreated = PLACEMENT_FORMATS.every(info => versions.some(version => version.placement === info.format));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Placements</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleResizeAll}
+          disabled={isLoading || allCreated || pendingFormats.length > 0}
+        >
+          <Expand className="h-4 w-4 mr-2" />
+          Resize for all placements
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The current version of the ad is extended to each format, nothing is cropped.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {PLACEMENT_FORMATS.map(info => {
+            const version = versions.find(existing => existing.placement === info.format);
+            const isPending = pendingFormats.includes(info.format);
+
+            return (
+              <div key={info.format} className="border rounded-lg p-2 space-y-2">
+                <AspectRatio ratio={info.width / info.height} className="rounded overflow-hidden bg-muted/20">
+                  {isPending ? (
+                    <div className="flex h-full items-center justify-center">
+                      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : version ? (
+                    <LazyImage src={version.url} alt={`${info.format} version`} className="h-full w-full object-cover" />
+                  ) : null}
+                </AspectRatio>
+                <div>
+                  <p className="text-sm font-medium">{info.format}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {info.label}, {info.width}x{info.height}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => resize(info.format)}
+                    disabled={isPending}
+                  >
+                    {version ? <RefreshCw className="h-3.5 w-3.5 mr-1" /> : <Expand className="h-3.5 w-3.5 mr-1" />}
+                    {version ? 'Redo' : 'Create'}
+                  </Button>
+                  {version && !isPending && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => handleDownload(version)}
+                    >
+                      <Download className="h-3.5 w-3.5 mr-1" />
+                      Download
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Image as ImageIcon, Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LazyImage } from '@/components/LazyImage';
+import { ImageSelectionModal } from '@/components/ImageSelectionModal';
+import { useToast } from '@/hooks/use-toast';
+import {
+  checkUserCreditsForAutomation,
+  createAutomationCampaign,
+  startCampaignSessions
+} from '@/services/automationService';
+
+// A store product or library image the campaign creates a session for
+interface CampaignModalProduct {
+  id: string;
+  title: string;
+  imageUrl?: string | null;
+  // Set for store products, kept on the copied image
+  shopifyProductId?: string;
+}
+
+interface ProductCampaignModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: CampaignModalProduct[];
+  // Suggested campaign name, e.g. the selected collection
+  defaultName?: string;
+  onRemoveProduct?: (productId: string) => void;
+}
+
+export function ProductCampaignModal({
+  open,
+  onOpenChange,
+  products,
+  defaultName,
+  onRemoveProduct
+}: ProductCampaignModalProps) {
+  const [name, setName] = useState('');
+  const [referenceAd, setReferenceAd] = useState<File | null>(null);
+  const [referenceAdUrl, setReferenceAdUrl] = useState<string | null>(null);
+  const [instructions, setInstructions] = useState('');
+  const [variationCount, setVariationCount] = useState('3');
+  const [selectedLayout, setSelectedLayout] = useState('auto');
+  const [userCredits, setUserCredits] = useState<number | null>(null);
+  const [isReferenceSelectorOpen, setIsReferenceSelectorOpen] = useState(false);
+
+  // Processing state
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [startedSessions, setStartedSessions] = useState<{ done: number; total: number } | null>(null);
+
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  // Only products with an image can be used for ads
+  const campaignProducts = products.filter((product): product is CampaignModalProduct & { imageUrl: string } => !!product.imageUrl);
+  const requiredCredits = campaignProducts.length * parseInt(variationCount, 10);
+  const insufficientCredits = userCredits !== null && userCredits < requiredCredits;
+
+  // Reset the form when the modal is opened
+  useEffect(() => {
+    if (!open) return;
+
+    setName(defaultName || '');
+    setReferenceAd(null);
+    setReferenceAdUrl(null);
+    setInstructions('');
+    setVariationCount('3');
+    setSelectedLayout('auto');
+    setStartedSessions(null);
+
+    async function loadCredits() {
+      try {
+        const { credits } = await checkUserCreditsForAutomation(0);
+        setUserCredits(credits);
+      } catch (error) {
+        console.error("Error checking credits:", error);
+      }
+    }
+
+    loadCredits();
+  }, [open, defaultName]);
+
+  const handleReferenceImageSelected = (file: File | null, url: string | null) => {
+    if (file) {
+      setReferenceAd(file);
+      setReferenceAdUrl(URL.createObjectURL(file));
+    } else if (url) {
+      setReferenceAd(null);
+      setReferenceAdUrl(url);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (campaignProducts.length === 0) {
+      toast({
+        title: "No products selected",
+        description: "Select at least one product with an image",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { sessionIds } = await createAutomationCampaign({
+        name: name.trim() || undefined,
+        products: campaignProducts.map(product => ({
+          imageUrl: product.imageUrl,
+          title: product.title,
+          shopifyProductId: product.shopifyProductId
+        })),
+        referenceAd,
+        referenceAdUrl: referenceAd ? null : referenceAdUrl,
+        instructions: instructions.trim(),
+        variationCount: parseInt(variationCount, 10),
+        layout: selectedLayout
+      });
+
+      setStartedSessions({ done: 0, total: sessionIds.length });
+
+      const { failed } = await startCampaignSessions(sessionIds, (done, total) => {
+        setStartedSessions({ done, total });
+      });
+
+      toast({
+        title: 'Campaign started',
+        description: failed > 0
+          ? `${failed} of ${sessionIds.length} products could not be started, their credits were returned.`
+          : `Ads for ${sessionIds.length} products are being generated. You can view progress on the automate page.`,
+        variant: failed === sessionIds.length ? 'destructive' : 'default'
+      });
+
+      onOpenChange(false);
+      navigate('/automate');
+    } catch (error) {
+      console.error("Error creating campaign:", error);
+      toast({
+        title: "Failed to create campaign",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSubmitting && onOpenChange(value)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] p-0 flex flex-col">
+        <DialogHeader className="px-4 pt-4 pb-2 border-b">
+          <DialogTitle className="text-xl font-semibold">Create Campaign</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto px-4 py-4 space-y-5">
+          {startedSessions ? (
+            <div className="py-8 space-y-3 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="text-sm">
+                Writing prompts for {startedSessions.done} of {startedSessions.total} products...
+              </p>
+              <Progress value={(startedSessions.done / startedSessions.total) * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground">Keep this window open until every product has started.</p>
+            </div>
+          ) : (
+            <>
+              {/* Products */}
+              <div className="space-y-2">
+                <h3 className="text-sm md:text-base font-medium">Products ({campaignProducts.length})</h3>
+                <div className="flex flex-wrap gap-2">
+                  {campaignProducts.map((product) => (
+                    <div key={product.id} className="relative w-16 h-16 rounded-md overflow-hidden border group">
+                      <LazyImage
+                        src={product.imageUrl}
+                        alt={product.title}
+                        className="w-full h-full object-cover"
+                      />
+                      {onRemoveProduct && (
+                        <button
+                          type="button"
+                          className="absolute top-0.5 right-0.5 bg-background/80 rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                          onClick={() => onRemoveProduct(product.id)}
+                          title={`Remove ${product.title}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {campaignProducts.length < products.length && (
+                  <p className="text-xs text-muted-foreground">
+                    {products.length - campaignProducts.length} selected products have no image and are skipped.
+                  </p>
+                )}
+              </div>
+
+              {/* Name */}
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name" className="text-sm font-medium">Campaign name</Label>
+                <Input
+                  id="campaign-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={`${campaignProducts.length} product campaign`}
+                  maxLength={200}
+                />
+              </div>
+
+              {/* Reference ad */}
+              <div className="space-y-2">
+                <h3 className="text-sm md:text-base font-medium">Reference Ad</h3>
+                <p className="text-xs text-muted-foreground">Every product is generated in the style of this ad</p>
+                {referenceAdUrl ? (
+                  <div className="relative w-32 h-32 rounded-md overflow-hidden border">
+                    <LazyImage src={referenceAdUrl} alt="Reference ad" className="w-full h-full object-cover" />
+                    <button
+                      type="button"
+                      className="absolute top-1 right-1 bg-background/80 rounded-full p-1"
+                      onClick={() => {
+                        setReferenceAd(null);
+                        setReferenceAdUrl(null);
+                      }}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => setIsReferenceSelectorOpen(true)}>
+                    <ImageIcon className="h-4 w-4 mr-2" />
+                    Choose reference ad
+                  </Button>
+                )}
+              </div>
+
+              {/* Layout and variations */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Layout</Label>
+                  <Select value={selectedLayout} onValueChange={setSelectedLayout}>
+                    <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto (Best Fit)</SelectItem>
+                      <SelectItem value="square">Square (1:1)</SelectItem>
+                      <SelectItem value="landscape">Landscape (3:2)</SelectItem>
+                      <SelectItem value="portrait">Portrait (2:3)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Ads per product</Label>
+                  <Select value={variationCount} onValueChange={setVariationCount}>
+                    <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 variation</SelectItem>
+                      <SelectItem value="2">2 variations</SelectItem>
+                      <SelectItem value="3">3 variations</SelectItem>
+                      <SelectItem value="5">5 variations</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Instructions */}
+              <div className="space-y-2">
+                <Label htmlFor="campaign-instructions" className="text-sm font-medium">Instructions (optional)</Label>
+                <Textarea
+                  id="campaign-instructions"
+                  placeholder="Add specific instructions for every product's ads..."
+                  className="min-h-[80px] resize-none"
+                  value={instructions}
+                  onChange={(e) => setInstructions(e.target.value)}
+                />
+              </div>
+
+              {/* Credit estimate */}
+              <div className="rounded-lg border p-3 text-xs md:text-sm space-y-1 bg-muted/10">
+                <p>
+                  {campaignProducts.length} product{campaignProducts.length === 1 ? '' : 's'} × {variationCount} ad{variationCount === '1' ? '' : 's'} ={' '}
+                  <span className="font-medium">{requiredCredits} credits</span>
+                </p>
+                {userCredits !== null && (
+                  <p className="text-muted-foreground">
+                    You have <span className={insufficientCredits ? "text-red-500 font-bold" : "font-medium"}>{userCredits}</span> credits available.
+                  </p>
+                )}
+                {insufficientCredits && (
+                  <p className="text-red-500">You need more credits to run this campaign.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="px-4 py-3 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || insufficientCredits || campaignProducts.length === 0}
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="h-4 w-4 mr-2" />
+            )}
+            Generate {requiredCredits} ads
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      <ImageSelectionModal
+        open={isReferenceSelectorOpen}
+        onOpenChange={setIsReferenceSelectorOpen}
+        onImageSelected={handleReferenceImageSelected}
+        title="Reference Ad"
+      />
+    </Dialog>
+  );
+}
@@ -1,9 +1,12 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { 
   ShopifyProduct, 
+  ShopifyCollection,
   fetchShopifyProducts, 
+  fetchShopifyCollections,
   getShopifyCredentials 
 } from '@/services/shopifyService';
+import { MAX_CAMPAIGN_PRODUCTS } from '@/services/automationService';
 import { Button } from '@/components/ui/button';
 import { 
   ExternalLink, 
@@ -12,14 +15,27 @@ import {
   Image as ImageIcon,
   Images,
   Eye,
-  RefreshCw
+  RefreshCw,
+  CheckCircle2,
+  Circle,
+  Layers,
+  Sparkles
 } from 'lucide-react';
 import { SiShopify } from 'react-icons/si';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { ProductImagesModal } from './ProductImagesModal';
 import { LazyImage } from './LazyImage';
+import { ProductCampaignModal } from './ProductCampaignModal';
 import { useNavigate } from 'react-router-dom';
+import { usePostHog } from '@/lib/posthog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -46,8 +62,19 @@ export function ProductsList() {
   const dataFetchedRef = useRef(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  
+  // Multi-product campaigns
+  const { isFeatureEnabled } = usePostHog();
+  const campaignsEnabled = isFeatureEnabled('product-campaigns', false);
+  const [collections, setCollections] = useState<ShopifyCollection[]>([]);
+  const [collectionId, setCollectionId] = useState('all');
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedProducts, setSelectedProducts] = useState<ShopifyProduct[]>([]);
+  const [isSelectingCollection, setIsSelectingCollection] = useState(false);
+  const [isCampaignModalOpen, setIsCampaignModalOpen] = useState(false);
+  const selectedCollection = collections.find(collection => collection.id === collectionId);
 
-  const loadProducts = async (cursor?: string) => {
+  const loadProducts = async (cursor?: string, collection: string = collectionId) => {
     try {
       if (!cursor) {
         setLoading(true);
@@ -55,7 +82,11 @@ export function ProductsList() {
         setLoadingMore(true);
       }
       
-      const { products: fetchedProducts, hasNextPage, endCursor: nextCursor } = await fetchShopifyProducts(20, cursor);
+      const { products: fetchedProducts, hasNextPage, endCursor: nextCursor } = await fetchShopifyProducts(
+        20,
+        cursor,
+        collection === 'all' ? undefined : collection
+      );
       
       if (cursor) {
         setProducts(prev => [...prev, ...fetchedProducts]);
@@ -110,6 +141,74 @@ export function ProductsList() {
     }
   }, [isConnected]);
 
+  // Collections can be picked as a whole for a campaign
+  useEffect(() => {
+    if (!isConnected || !campaignsEnabled) return;
+
+    fetchShopifyCollections()
+      .then(setCollections)
+      .catch(() => setCollections([]));
+  }, [isConnected, campaignsEnabled]);
+
+  const handleCollectionChange = (value: string) => {
+    setCollectionId(value);
+    loadProducts(undefined, value);
+  };
+
+  const toggleProductSelection = useCallback((product: ShopifyProduct) => {
+    if (selectedProducts.some(selected => selected.id === product.id)) {
+      setSelectedProducts(prev => prev.filter(selected => selected.id !== product.id));
+      return;
+    }
+
+    if (selectedProducts.length >= MAX_CAMPAIGN_PRODUCTS) {
+      toast({
+        title: 'Selection limit reached',
+        description: `Campaigns can include at most ${MAX_CAMPAIGN_PRODUCTS} products`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSelectedProducts(prev => [...prev, product]);
+  }, [selectedProducts, toast]);
+
+  // Selects every product of the current collection, up to the campaign limit
+  const selectWholeCollection = async () => {
+    setIsSelectingCollection(true);
+
+    try {
+      const { products: collectionProducts, hasNextPage } = await fetchShopifyProducts(
+        MAX_CAMPAIGN_PRODUCTS,
+        undefined,
+        collectionId
+      );
+
+      if (hasNextPage) {
+        toast({
+          title: 'Collection too large',
+          description: `Only the first ${MAX_CAMPAIGN_PRODUCTS} products of ${selectedCollection?.title ?? 'the collection'} were selected`,
+        });
+      }
+
+      setSelectedProducts(collectionProducts);
+    } catch (error) {
+      console.error('Error selecting collection:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the products of the collection',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSelectingCollection(false);
+    }
+  };
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedProducts([]);
+  };
+
   const handleLoadMore = () => {
     if (hasMore && !loadingMore && endCursor) {
       loadProducts(endCursor);
@@ -151,10 +250,16 @@ export function ProductsList() {
   const productCards = useMemo(() => {
     return (
       <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 md:gap-4">
-        {products.map((product) => (
+        {products.map((product) => {
+          const isSelected = selectedProducts.some(selected => selected.id === product.id);
+          
+          return (
           <div 
             key={product.id} 
-            className="relative group overflow-hidden rounded-lg shadow-sm transition-all duration-200 hover:shadow-md"
+            className={`relative group overflow-hidden rounded-lg shadow-sm transition-all duration-200 hover:shadow-md ${
+              selectionMode ? 'cursor-pointer' : ''
+            } ${isSelected ? 'ring-2 ring-primary' : ''}`}
+            onClick={selectionMode ? () => toggleProductSelection(product) : undefined}
           >
             <div className="aspect-square w-full h-full bg-background">
               {product.featuredImage ? (
@@ -170,6 +275,17 @@ export function ProductsList() {
               )}
             </div>
             
+            {/* Selection indicator */}
+            {selectionMode && (
+              <div className="absolute top-2 left-2 bg-background/80 backdrop-blur-sm rounded-full">
+                {isSelected ? (
+                  <CheckCircle2 className="h-5 w-5 text-primary" />
+                ) : (
+                  <Circle className="h-5 w-5 text-muted-foreground" />
+                )}
+              </div>
+            )}
+            
             {/* Image count badge */}
             {product.images.edges.length > 1 && (
               <div className="absolute top-2 right-2 bg-background/80 backdrop-blur-sm text-foreground rounded-full px-1.5 py-0.5 text-[10px] md:text-xs font-medium shadow-sm">
@@ -177,6 +293,7 @@ export function ProductsList() {
               </div>
             )}
             
+            {!selectionMode && (
             <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-black/30 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex flex-col justify-end">
               <div className="p-2 md:p-4 space-y-1">
                 <h3 className="text-white font-medium text-xs md:text-sm line-clamp-1" title={product.title}>{product.title}</h3>
@@ -201,11 +318,13 @@ export function ProductsList() {
                 </Button>
               </div>
             </div>
+            )}
           </div>
-        ))}
+          );
+        })}
       </div>
     );
-  }, [products]);
+  }, [products, selectionMode, selectedProducts, toggleProductSelection]);
 
   if (loading && products.length === 0) {
     return (
@@ -283,17 +402,79 @@ export function ProductsList() {
     <>
       <div className="mb-3 md:mb-4 flex justify-between items-center">
         <h2 className="text-base md:text-lg font-medium">Shopify Products ({totalCount})</h2>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => loadProducts()}
-          className="gap-2 h-7 md:h-8 text-xs md:text-sm"
-        >
-          <RefreshCw className="h-3 w-3 md:h-4 md:w-4" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          {campaignsEnabled && collections.length > 0 && (
+            <Select value={collectionId} onValueChange={handleCollectionChange}>
+              <SelectTrigger className="h-7 md:h-8 w-36 md:w-48 text-xs md:text-sm">
+                <SelectValue placeholder="All products" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All products</SelectItem>
+                {collections.map(collection => (
+                  <SelectItem key={collection.id} value={collection.id}>{collection.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {campaignsEnabled && (
+            <Button
+              variant={selectionMode ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => selectionMode ? exitSelectionMode() : setSelectionMode(true)}
+              className="gap-2 h-7 md:h-8 text-xs md:text-sm"
+            >
+              <CheckCircle2 className="h-3 w-3 md:h-4 md:w-4" />
+              {selectionMode ? 'Done' : 'Select'}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => loadProducts()}
+            className="gap-2 h-7 md:h-8 text-xs md:text-sm"
+          >
+            <RefreshCw className="h-3 w-3 md:h-4 md:w-4" />
+            Refresh
+          </Button>
+        </div>
       </div>
       
+      {/* Campaign selection toolbar */}
+      {campaignsEnabled && selectionMode && (
+        <div className="mb-3 md:mb-4 flex flex-wrap items-center justify-between gap-2 rounded-lg border p-2 md:p-3 bg-muted/10">
+          <p className="text-xs md:text-sm">
+            {selectedProducts.length} of at most {MAX_CAMPAIGN_PRODUCTS} products selected
+          </p>
+          <div className="flex items-center gap-2">
+            {selectedCollection && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={selectWholeCollection}
+                disabled={isSelectingCollection}
+                className="gap-2 h-7 md:h-8 text-xs md:text-sm"
+              >
+                {isSelectingCollection ? (
+                  <Loader2 className="h-3 w-3 md:h-4 md:w-4 animate-spin" />
+                ) : (
+                  <Layers className="h-3 w-3 md:h-4 md:w-4" />
+                )}
+                Select whole collection
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => setIsCampaignModalOpen(true)}
+              disabled={selectedProducts.length === 0}
+              className="gap-2 h-7 md:h-8 text-xs md:text-sm"
+            >
+              <Sparkles className="h-3 w-3 md:h-4 md:w-4" />
+              Create campaign
+            </Button>
+          </div>
+        </div>
+      )}
+      
       {productCards}
       
       {/* Loading more indicator and load more button */}
@@ -323,6 +504,22 @@ export function ProductsList() {
         open={isModalOpen}
         onOpenChange={setIsModalOpen}
       />
+      
+      {/* Multi-product campaign */}
+      {campaignsEnabled && (
+        <ProductCampaignModal
+          open={isCampaignModalOpen}
+          onOpenChange={setIsCampaignModalOpen}
+          products={selectedProducts.map(product => ({
+            id: product.id,
+            title: product.title,
+            imageUrl: product.featuredImage?.url,
+            shopifyProductId: product.id
+          }))}
+          defaultName={selectedCollection?.title}
+          onRemoveProduct={(productId) => setSelectedProducts(prev => prev.filter(product => product.id !== productId))}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,478 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Eye, FileText, Loader2, Pencil, PlusCircle, RefreshCw, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TemplateVariableFields } from '@/components/TemplateVariableFields';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PromptTemplate,
+  PromptTemplateConflictError,
+  PromptTemplateDefinition,
+  RenderedPromptTemplate,
+  SESSION_TEMPLATE_VARIABLES,
+  STANDARD_TEMPLATE_VARIABLES,
+  TemplateValues,
+  TemplateVariableType,
+  deletePromptTemplate,
+  fetchPromptTemplates,
+  getTemplateInputVariables,
+  renderPromptTemplate,
+  savePromptTemplate
+} from '@/services/promptTemplateService';
+
+// A variable as edited, the options of select variables are comma separated
+interface VariableDraft {
+  key: string;
+  label: string;
+  type: TemplateVariableType;
+  options: string;
+  required: boolean;
+}
+
+interface TemplateDraft {
+  // Unset for templates that were not saved yet
+  id?: string;
+  version?: string;
+  name: string;
+  systemPrompt: string;
+  userPrompt: string;
+  variables: VariableDraft[];
+}
+
+function toDraft(template: PromptTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    version: template.version,
+    name: template.name,
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+    variables: template.variables.map(variable => ({
+      key: variable.key,
+      label: variable.label,
+      type: variable.type,
+      options: (variable.options ?? []).join(', '),
+      required: !!variable.required
+    }))
+  };
+}
+
+function toDefinition(draft: TemplateDraft): PromptTemplateDefinition {
+  return {
+    systemPrompt: draft.systemPrompt,
+    userPrompt: draft.userPrompt,
+    variables: draft.variables.map(variable => ({
+      key: variable.key.trim(),
+      label: variable.label.trim() || variable.key.trim(),
+      type: variable.type,
+      ...(variable.type === 'select'
+        ? { options: variable.options.split(',').map(option => option.trim()).filter(Boolean) }
+        : {}),
+      ...(variable.required ? { required: true } : {})
+    }))
+  };
+}
+
+export function PromptTemplatesSettings() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasConflict, setHasConflict] = useState(false);
+  const [previewValues, setPreviewValues] = useState<TemplateValues>({});
+  const [preview, setPreview] = useState<RenderedPromptTemplate | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [templateToDelete, setTemplateToDelete] = useState<PromptTemplate | null>(null);
+  const { toast } = useToast();
+
+  const loadTemplates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const list = await fetchPromptTemplates();
+      setTemplates(list);
+      return list;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      variant: 'destructive'
+    });
+  };
+
+  const openDraft = (next: TemplateDraft) => {
+    setDraft(next);
+    setHasConflict(false);
+    setPreview(null);
+    setPreviewValues({});
+  };
+
+  // New templates start as a copy of the default prompt
+  const handleNew = async () => {
+    setIsStarting(true);
+    try {
+      const { template } = await renderPromptTemplate();
+      openDraft({
+        name: '',
+        systemPrompt: template.systemPrompt,
+        userPrompt: template.userPrompt,
+        variables: []
+      });
+    } catch (error) {
+      showError('Failed to load the default template', error);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const updateDraft = (patch: Partial<TemplateDraft>) => {
+    setDraft(current => current ? { ...current, ...patch } : current);
+  };
+
+  const updateVariable = (index: number, patch: Partial<VariableDraft>) => {
+    if (!draft) return;
+    updateDraft({
+      variables: draft.variables.map((variable, i) => i === index ? { ...variable, ...patch } : variable)
+    });
+  };
+
+  const handlePreview = async () => {
+    if (!draft) return;
+
+    setIsPreviewing(true);
+    try {
+      setPreview(await renderPromptTemplate(toDefinition(draft), previewValues));
+    } catch (error) {
+      setPreview(null);
+      showError('Failed to render template', error);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await savePromptTemplate(
+        draft.name,
+        toDefinition(draft),
+        draft.id && draft.version ? { id: draft.id, expectedVersion: draft.version } : undefined
+      );
+
+      toast({
+        title: 'Template saved',
+        description: `New automations can now use "${saved.name}".`
+      });
+
+      updateDraft({ id: saved.id, version: saved.version });
+      await loadTemplates();
+    } catch (error) {
+      if (error instanceof PromptTemplateConflictError) {
+        setHasConflict(true);
+      }
+      showError('Failed to save template', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Replaces the edits with the latest saved version of the template
+  const handleReload = async () => {
+    if (!draft?.id) return;
+
+    const latest = (await loadTemplates()).find(template => template.id === draft.id);
+    if (latest) {
+      openDraft(toDraft(latest));
+    } else {
+      setDraft(null);
+      toast({ title: 'Template deleted', description: 'The template was deleted elsewhere.' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return;
+
+    const templateId = templateToDelete.id;
+    setTemplateToDelete(null);
+
+    try {
+      await deletePromptTemplate(templateId);
+      if (draft?.id === templateId) setDraft(null);
+      await loadTemplates();
+    } catch (error) {
+      showError('Failed to delete template', error);
+    }
+  };
+
+  const previewVariables = draft ? getTemplateInputVariables(toDefinition(draft)) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Prompt templates</CardTitle>
+        <CardDescription>
+          Templates control the instructions used to write the prompts of automated ads. Use {'{{variable}}'} to
+          insert a value and {'{{#variable}}...{{/variable}}'} for text that is only included when the variable is set.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Saved templates */}
+        <div className="space-y-2">
+          {isLoading && templates.length === 0 ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No templates yet, automations use the default prompt.
+            </p>
+          ) : (
+            templates.map((template) => (
+              <div key={template.id} className="flex items-center gap-3 border rounded-lg p-2">
+                <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{template.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Version of {format(new Date(template.version), 'MMM d, yyyy h:mm a')}
+                    {template.variables.length > 0 && ` · ${template.variables.length} custom variable${template.variables.length === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => openDraft(toDraft(template))}
+                  title="Edit"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-destructive"
+                  onClick={() => setTemplateToDelete(template)}
+                  title="Delete"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+
+          {!draft && (
+            <Button variant="outline" size="sm" onClick={handleNew} disabled={isStarting}>
+              {isStarting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlusCircle className="h-4 w-4 mr-2" />}
+              New template
+            </Button>
+          )}
+        </div>
+
+        {/* Editor */}
+        {draft && (
+          <div className="space-y-4 border rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">{draft.id ? 'Edit template' : 'New template'}</h3>
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setDraft(null)} title="Close">
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+
+            {hasConflict && (
+              <div className="flex items-center justify-between gap-3 rounded-md border border-destructive/50 p-2">
+                <p className="text-xs text-destructive">
+                  A newer version of this template was saved elsewhere. Reload it to continue, your unsaved edits are discarded.
+                </p>
+                <Button variant="outline" size="sm" onClick={handleReload}>
+                  <RefreshCw className="h-3.5 w-3.5 mr-1" />
+                  Reload
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="e.g. Seasonal promotion"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-system-prompt">System prompt</Label>
+              <Textarea
+                id="template-system-prompt"
+                value={draft.systemPrompt}
+                onChange={(e) => updateDraft({ systemPrompt: e.target.value })}
+                className="min-h-[120px] font-mono text-xs"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-user-prompt">Prompt</Label>
+              <Textarea
+                id="template-user-prompt"
+                value={draft.userPrompt}
+                onChange={(e) => updateDraft({ userPrompt: e.target.value })}
+                className="min-h-[200px] font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                Built-in variables: {[...STANDARD_TEMPLATE_VARIABLES.map(variable => variable.key), ...SESSION_TEMPLATE_VARIABLES].join(', ')}
+              </p>
+            </div>
+
+            {/* Custom variables */}
+            <div className="space-y-2">
+              <Label>Custom variables</Label>
+              {draft.variables.map((variable, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    value={variable.key}
+                    onChange={(e) => updateVariable(index, { key: e.target.value.toLowerCase() })}
+                    placeholder="key"
+                    className="h-8 w-32 text-xs font-mono"
+                    maxLength={40}
+                  />
+                  <Input
+                    value={variable.label}
+                    onChange={(e) => updateVariable(index, { label: e.target.value })}
+                    placeholder="Label"
+                    className="h-8 w-36 text-xs"
+                    maxLength={60}
+                  />
+                  <Select
+                    value={variable.type}
+                    onValueChange={(type) => updateVariable(index, { type: type as TemplateVariableType })}
+                  >
+                    <SelectTrigger className="h-8 w-24 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="text">Text</SelectItem>
+                      <SelectItem value="number">Number</SelectItem>
+                      <SelectItem value="select">Select</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {variable.type === 'select' && (
+                    <Input
+                      value={variable.options}
+                      onChange={(e) => updateVariable(index, { options: e.target.value })}
+                      placeholder="Options, comma separated"
+                      className="h-8 flex-1 min-w-[160px] text-xs"
+                    />
+                  )}
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={variable.required}
+                      onCheckedChange={(required) => updateVariable(index, { required })}
+                    />
+                    <span className="text-xs text-muted-foreground">Required</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    onClick={() => updateDraft({ variables: draft.variables.filter((_, i) => i !== index) })}
+                    title="Remove variable"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateDraft({
+                  variables: [...draft.variables, { key: '', label: '', type: 'text', options: '', required: false }]
+                })}
+              >
+                <PlusCircle className="h-3.5 w-3.5 mr-1" />
+                Add variable
+              </Button>
+            </div>
+
+            {/* Preview */}
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              {previewVariables.length > 0 && (
+                <TemplateVariableFields variables={previewVariables} values={previewValues} onChange={setPreviewValues} />
+              )}
+              <Button variant="outline" size="sm" onClick={handlePreview} disabled={isPreviewing}>
+                {isPreviewing ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Eye className="h-3.5 w-3.5 mr-1" />}
+                Render preview
+              </Button>
+              {preview && (
+                <div className="space-y-2">
+                  {preview.systemMessage && (
+                    <pre className="whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">{preview.systemMessage}</pre>
+                  )}
+                  <pre className="whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">{preview.userMessage}</pre>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || hasConflict || !draft.name.trim() || !draft.userPrompt.trim()}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                {draft.id ? 'Save new version' : 'Save template'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{templateToDelete?.name}" is removed. Automations created with it keep their prompts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep template</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete template</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,338 @@
+import { useState, useEffect } from 'react';
+import { CalendarClock, Image as ImageIcon, Loader2, X } from 'lucide-react';
+import { addHours, format, startOfHour } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LazyImage } from '@/components/LazyImage';
+import { ImageSelectionModal } from '@/components/ImageSelectionModal';
+import { useToast } from '@/hooks/use-toast';
+import type { AutomationImageSource } from '@/services/automationService';
+import {
+  createAutomationSchedule,
+  describeScheduleCadence,
+  type ScheduleFrequency,
+  type ScheduleProductSource
+} from '@/services/automationScheduleService';
+
+interface ScheduleAutomationModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once the schedule was saved
+  onScheduled?: () => void;
+}
+
+interface PickedImage {
+  source: AutomationImageSource;
+  previewUrl: string;
+}
+
+type ImageSlot = 'product' | 'reference';
+
+// Value for a datetime-local input, in the browser's time zone
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function ScheduleAutomationModal({ open, onOpenChange, onScheduled }: ScheduleAutomationModalProps) {
+  const [name, setName] = useState('');
+  const [productSource, setProductSource] = useState<ScheduleProductSource>('image');
+  const [productImage, setProductImage] = useState<PickedImage | null>(null);
+  const [referenceAd, setReferenceAd] = useState<PickedImage | null>(null);
+  const [instructions, setInstructions] = useState('');
+  const [variationCount, setVariationCount] = useState('3');
+  const [selectedLayout, setSelectedLayout] = useState('auto');
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('weekly');
+  const [firstRunAt, setFirstRunAt] = useState('');
+  const [imageSlot, setImageSlot] = useState<ImageSlot | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Reset the form when the modal is opened
+  useEffect(() => {
+    if (!open) return;
+
+    setName('');
+    setProductSource('image');
+    setProductImage(null);
+    setReferenceAd(null);
+    setInstructions('');
+    setVariationCount('3');
+    setSelectedLayout('auto');
+    setFrequency('weekly');
+    setFirstRunAt(toDateTimeInput(startOfHour(addHours(new Date(), 1))));
+  }, [open]);
+
+  const runAt = firstRunAt ? new Date(firstRunAt) : null;
+  const isRunAtValid = !!runAt && !isNaN(runAt.getTime()) && runAt.getTime() > Date.now();
+
+  const handleImageSelected = (file: File | null, url: string | null) => {
+    const picked = file
+      ? { source: file, previewUrl: URL.createObjectURL(file) }
+      : url
+        ? { source: url, previewUrl: url }
+        : null;
+
+    if (!picked) return;
+    if (imageSlot === 'product') setProductImage(picked);
+    if (imageSlot === 'reference') setReferenceAd(picked);
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Name required",
+        description: "Give the schedule a name so its campaigns can be recognized",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (productSource === 'image' && !productImage) {
+      toast({
+        title: "Product image required",
+        description: "Choose the product the ads are generated for",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!runAt || !isRunAtValid) {
+      toast({
+        title: "Invalid start time",
+        description: "The first run must be in the future",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await createAutomationSchedule({
+        name: name.trim(),
+        productSource,
+        productImage: productSource === 'image' ? productImage?.source : null,
+        referenceAd: referenceAd?.source,
+        instructions: instructions.trim(),
+        variationCount: parseInt(variationCount, 10),
+        layout: selectedLayout,
+        frequency,
+        firstRunAt: runAt
+      });
+
+      toast({
+        title: 'Automation scheduled',
+        description: `${describeScheduleCadence(frequency, runAt)}. Credits are reserved when each run starts.`
+      });
+
+      onScheduled?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error scheduling automation:", error);
+      toast({
+        title: "Failed to schedule automation",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderImagePicker = (slot: ImageSlot, image: PickedImage | null, clear: () => void, label: string) => (
+    image ? (
+      <div className="relative w-32 h-32 rounded-md overflow-hidden border">
+        <LazyImage src={image.previewUrl} alt={label} className="w-full h-full object-cover" />
+        <button
+          type="button"
+          className="absolute top-1 right-1 bg-background/80 rounded-full p-1"
+          onClick={clear}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    ) : (
+      <Button variant="outline" size="sm" onClick={() => setImageSlot(slot)}>
+        <ImageIcon className="h-4 w-4 mr-2" />
+        Choose {label.toLowerCase()}
+      </Button>
+    )
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSubmitting && onOpenChange(value)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] p-0 flex flex-col">
+        <DialogHeader className="px-4 pt-4 pb-2 border-b">
+          <DialogTitle className="text-xl font-semibold">Schedule Automation</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto px-4 py-4 space-y-5">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="schedule-name" className="text-sm font-medium">Name</Label>
+            <Input
+              id="schedule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Weekly new arrivals"
+              maxLength={150}
+            />
+          </div>
+
+          {/* Products */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Products</Label>
+            <Select value={productSource} onValueChange={(value) => setProductSource(value as ScheduleProductSource)}>
+              <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="image">The same product every run</SelectItem>
+                <SelectItem value="shopify_new_products">Shopify products added since the last run</SelectItem>
+              </SelectContent>
+            </Select>
+            {productSource === 'image' ? (
+              renderImagePicker('product', productImage, () => setProductImage(null), 'Product image')
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Each run picks up to 25 of the newest products with an image from your connected store. Runs without new
+                products are skipped and cost nothing.
+              </p>
+            )}
+          </div>
+
+          {/* Reference ad */}
+          <div className="space-y-2">
+            <h3 className="text-sm md:text-base font-medium">Reference Ad</h3>
+            <p className="text-xs text-muted-foreground">Every run is generated in the style of this ad</p>
+            {renderImagePicker('reference', referenceAd, () => setReferenceAd(null), 'Reference ad')}
+          </div>
+
+          {/* Layout and variations */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Layout</Label>
+              <Select value={selectedLayout} onValueChange={setSelectedLayout}>
+                <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (Best Fit)</SelectItem>
+                  <SelectItem value="square">Square (1:1)</SelectItem>
+                  <SelectItem value="landscape">Landscape (3:2)</SelectItem>
+                  <SelectItem value="portrait">Portrait (2:3)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Ads per product</Label>
+              <Select value={variationCount} onValueChange={setVariationCount}>
+                <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1 variation</SelectItem>
+                  <SelectItem value="2">2 variations</SelectItem>
+                  <SelectItem value="3">3 variations</SelectItem>
+                  <SelectItem value="5">5 variations</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Instructions */}
+          <div className="space-y-2">
+            <Label htmlFor="schedule-instructions" className="text-sm font-medium">Instructions (optional)</Label>
+            <Textarea
+              id="schedule-instructions"
+              placeholder="Add specific instructions for every run's ads..."
+              className="min-h-[80px] resize-none"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+            />
+          </div>
+
+          {/* Timing */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Repeat</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as ScheduleFrequency)}>
+                <SelectTrigger className="text-xs md:text-sm h-9 md:h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="once">Once</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-first-run" className="text-sm font-medium">
+                {frequency === 'once' ? 'Run at' : 'First run'}
+              </Label>
+              <Input
+                id="schedule-first-run"
+                type="datetime-local"
+                value={firstRunAt}
+                min={toDateTimeInput(new Date())}
+                onChange={(e) => setFirstRunAt(e.target.value)}
+                className="text-xs md:text-sm h-9 md:h-10"
+              />
+            </div>
+          </div>
+
+          {/* Summary */}
+          <div className="rounded-lg border p-3 text-xs md:text-sm space-y-1 bg-muted/10">
+            {runAt && isRunAtValid ? (
+              <p className="font-medium">{describeScheduleCadence(frequency, runAt)}</p>
+            ) : (
+              <p className="text-red-500">Choose a start time in the future.</p>
+            )}
+            <p className="text-muted-foreground">
+              {productSource === 'image'
+                ? `Each run costs ${variationCount} credits.`
+                : `Each run costs ${variationCount} credits per new product.`}{' '}
+              Credits are reserved when a run starts, and the schedule pauses when your balance does not cover a run.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="px-4 py-3 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !isRunAtValid}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CalendarClock className="h-4 w-4 mr-2" />
+            )}
+            Save schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      <ImageSelectionModal
+        open={imageSlot !== null}
+        onOpenChange={(value) => !value && setImageSlot(null)}
+        onImageSelected={handleImageSelected}
+        title={imageSlot === 'product' ? 'Product Image' : 'Reference Ad'}
+      />
+    </Dialog>
+  );
+}
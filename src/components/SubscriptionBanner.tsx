@@ -3,29 +3,56 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Sparkles, Coins, Loader2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { getUserCredits } from '@/services/stripeService';
+import { ACTIVE_SUBSCRIPTION_STATUSES, getSubscriptionDetails, getUserCredits } from '@/services/stripeService';
+import { usePostHog } from '@/lib/posthog';
+
+interface PlanSummary {
+  name: string;
+  credits: number;
+  periodEnd: Date | null;
+  cancelAtPeriodEnd: boolean;
+}
 
 export function SubscriptionBanner() {
   const [credits, setCredits] = useState<number | null>(null);
+  const [plan, setPlan] = useState<PlanSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const navigate = useNavigate();
-  
+  const { isFeatureEnabled } = usePostHog();
+  const subscriptionPlansEnabled = isFeatureEnabled('subscription-plans', false);
+
   useEffect(() => {
     async function fetchCredits() {
       try {
         setIsLoading(true);
         const credits = await getUserCredits();
         setCredits(credits);
+
+        if (subscriptionPlansEnabled) {
+          try {
+            const subscription = await getSubscriptionDetails();
+            if (subscription && 'product' in subscription && ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.subscription_status)) {
+              setPlan({
+                name: subscription.product.name,
+                credits: subscription.product.credits,
+                periodEnd: subscription.current_period_end ? new Date(subscription.current_period_end * 1000) : null,
+                cancelAtPeriodEnd: !!subscription.cancel_at_period_end
+              });
+            }
+          } catch (subscriptionError) {
+            console.error('Error fetching subscription:', subscriptionError);
+          }
+        }
       } catch (error) {
         console.error('Error fetching credits:', error);
       } finally {
         setIsLoading(false);
       }
     }
-    
+
     fetchCredits();
-  }, []);
-  
+  }, [subscriptionPlansEnabled]);
+
   if (isLoading) {
     return (
       <Card className="p-3 md:p-4 flex items-center justify-center">
@@ -34,7 +61,19 @@ export function SubscriptionBanner() {
       </Card>
     );
   }
-  
+
+  const renderPlanDetails = (plan: PlanSummary) => {
+    const date = plan.periodEnd?.toLocaleDateString();
+
+    if (!date) {
+      return `${plan.name} plan, ${plan.credits} credits every month`;
+    }
+
+    return plan.cancelAtPeriodEnd
+      ? `${plan.name} plan ends on ${date}`
+      : `${plan.name} plan, ${plan.credits} credits renew on ${date}`;
+  };
+
   return (
     <Card className="p-3 md:p-4 bg-gradient-to-r from-primary/10 to-primary/5">
       <div className="flex flex-col md:flex-row items-center justify-between gap-3 md:gap-4">
@@ -42,17 +81,19 @@ export function SubscriptionBanner() {
           <Coins className="h-4 w-4 md:h-5 md:w-5 text-primary mr-2" />
           <div>
             <h3 className="font-medium text-sm md:text-base">Your credits: {credits || 0}</h3>
-            <p className="text-xs text-muted-foreground line-clamp-2 md:line-clamp-1">Purchase more credits to create more images</p>
+            <p className="text-xs text-muted-foreground line-clamp-2 md:line-clamp-1">
+              {plan ? renderPlanDetails(plan) : 'Purchase more credits to create more images'}
+            </p>
           </div>
         </div>
-        <Button 
-          onClick={() => navigate('/pricing')} 
+        <Button
+          onClick={() => navigate(plan ? '/settings?tab=subscription' : '/pricing')}
           className="w-full md:w-auto text-xs md:text-sm h-8 md:h-9"
         >
           <Sparkles className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
-          Get More Credits
+          {plan ? 'Manage Plan' : 'Get More Credits'}
         </Button>
       </div>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -3,16 +3,41 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, CreditCard, CheckCircle, AlertCircle, Coins } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { getUserSubscription, getUserOrders, formatCurrency, getUserCredits } from '@/services/stripeService';
-import { getProductByPriceId } from '@/stripe-config';
+import {
+  ACTIVE_SUBSCRIPTION_STATUSES,
+  cancelSubscription,
+  changeSubscriptionPlan,
+  formatCurrency,
+  getProducts,
+  getUserCredits,
+  getUserOrders,
+  getUserSubscription,
+  resumeSubscription,
+  type StripeProduct,
+  type SubscriptionChange,
+  type UserSubscription
+} from '@/services/stripeService';
+import { CREDIT_TRANSACTION_LABELS, getCreditTransactions, type CreditTransaction } from '@/services/creditService';
 import { useToast } from '@/hooks/use-toast';
+import { usePostHog } from '@/lib/posthog';
+
+const TRANSACTIONS_PAGE_SIZE = 25;
 
 export function SubscriptionSettings() {
   const [orders, setOrders] = useState<any[]>([]);
+  const [products, setProducts] = useState<StripeProduct[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [currentCredits, setCurrentCredits] = useState<number | null>(null);
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [hasMoreTransactions, setHasMoreTransactions] = useState(false);
+  const [isLoadingTransactions, setIsLoadingTransactions] = useState(false);
+  const [subscription, setSubscription] = useState<UserSubscription | null>(null);
+  const [updatingPlan, setUpdatingPlan] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { isFeatureEnabled } = usePostHog();
+  const creditHistoryEnabled = isFeatureEnabled('credit-history', false);
+  const subscriptionPlansEnabled = isFeatureEnabled('subscription-plans', false);
   
   useEffect(() => {
     async function fetchSubscriptionAndOrders() {
@@ -23,9 +48,36 @@ export function SubscriptionSettings() {
         const ordersData = await getUserOrders();
         setOrders(ordersData || []);
         
+        // Fetch the product catalog to name orders without a stored product name
+        try {
+          setProducts(await getProducts());
+        } catch (productsError) {
+          console.error('Error fetching products:', productsError);
+        }
+        
         // Fetch user's current credits
         const credits = await getUserCredits();
         setCurrentCredits(credits);
+        
+        // Fetch the current subscription
+        if (subscriptionPlansEnabled) {
+          try {
+            setSubscription(await getUserSubscription());
+          } catch (subscriptionError) {
+            console.error('Error fetching subscription:', subscriptionError);
+          }
+        }
+        
+        // Fetch the credit history
+        if (creditHistoryEnabled) {
+          try {
+            const transactionsData = await getCreditTransactions(TRANSACTIONS_PAGE_SIZE);
+            setTransactions(transactionsData);
+            setHasMoreTransactions(transactionsData.length === TRANSACTIONS_PAGE_SIZE);
+          } catch (transactionsError) {
+            console.error('Error fetching credit history:', transactionsError);
+          }
+        }
       } catch (error) {
         console.error('Error fetching subscription data:', error);
         toast({
@@ -39,7 +91,151 @@ export function SubscriptionSettings() {
     }
     
     fetchSubscriptionAndOrders();
-  }, [toast]);
+  }, [toast, creditHistoryEnabled, subscriptionPlansEnabled]);
+  
+  const getProductByPriceId = (priceId: string) => products.find(product => product.price_id === priceId);
+  
+  const hasActiveSubscription = !!subscription?.subscription_id && ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.subscription_status);
+  const currentPlan = hasActiveSubscription && subscription?.price_id ? getProductByPriceId(subscription.price_id) : undefined;
+  const subscriptionPlans = products.filter(product => product.active && product.mode === 'subscription');
+  
+  const handleSubscriptionUpdate = async (key: string, update: () => Promise<SubscriptionChange>, successMessage: string) => {
+    try {
+      setUpdatingPlan(key);
+      const result = await update();
+      setSubscription(prev => prev && ({
+        ...prev,
+        price_id: result.price_id,
+        subscription_status: result.status,
+        cancel_at_period_end: result.cancel_at_period_end,
+        current_period_end: result.current_period_end
+      }));
+      toast({
+        title: 'Subscription updated',
+        description: result.pending_update
+          ? 'Your plan changes once the prorated invoice is paid'
+          : successMessage,
+      });
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update subscription',
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdatingPlan(null);
+    }
+  };
+  
+  // Function to render the current plan with its renewal date and plan changes
+  const renderSubscriptionPlan = () => {
+    if (!subscription || !hasActiveSubscription) {
+      return (
+        <div className="bg-muted/30 p-4 rounded-lg border flex flex-col md:flex-row justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Subscribe to a monthly plan to receive credits every month.
+          </p>
+          <Button variant="outline" onClick={() => navigate('/pricing')} className="w-full md:w-auto">
+            View Plans
+          </Button>
+        </div>
+      );
+    }
+    
+    const periodEnd = subscription.current_period_end
+      ? new Date(subscription.current_period_end * 1000).toLocaleDateString()
+      : null;
+    
+    return (
+      <div className="space-y-4">
+        <div className="bg-muted/30 p-4 rounded-lg border flex flex-col md:flex-row justify-between gap-4">
+          <div>
+            <h4 className="font-medium">
+              {currentPlan?.name || 'Subscription'} plan
+              {currentPlan && <span className="text-muted-foreground font-normal"> · {currentPlan.credits} credits every month</span>}
+            </h4>
+            {periodEnd && (
+              <p className="text-sm text-muted-foreground">
+                {subscription.cancel_at_period_end ? `Ends on ${periodEnd}` : `Renews on ${periodEnd}`}
+              </p>
+            )}
+            {subscription.subscription_status === 'past_due' && (
+              <p className="text-sm text-red-600 flex items-center mt-1">
+                <AlertCircle className="h-4 w-4 mr-1" />
+                Your last payment failed, please update your payment method
+              </p>
+            )}
+          </div>
+          <div className="flex items-center md:self-center">
+            {subscription.cancel_at_period_end ? (
+              <Button
+                variant="outline"
+                onClick={() => handleSubscriptionUpdate('resume', resumeSubscription, 'Your plan renews as usual')}
+                disabled={updatingPlan !== null}
+                className="w-full md:w-auto"
+              >
+                {updatingPlan === 'resume' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Keep Plan
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => handleSubscriptionUpdate('cancel', cancelSubscription, `Your plan ends ${periodEnd ? `on ${periodEnd}` : 'at the end of the period'}, your credits stay available`)}
+                disabled={updatingPlan !== null}
+                className="w-full md:w-auto"
+              >
+                {updatingPlan === 'cancel' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Cancel Plan
+              </Button>
+            )}
+          </div>
+        </div>
+        
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {subscriptionPlans.map((plan) => {
+            const isCurrent = plan.price_id === subscription.price_id;
+            const isUpgrade = !!currentPlan && plan.credits > currentPlan.credits;
+            
+            return (
+              <div key={plan.price_id} className={`border rounded-lg p-3 ${isCurrent ? 'border-primary bg-primary/5' : 'bg-card'}`}>
+                <p className="font-medium text-sm">{plan.name}</p>
+                <p className="text-xs text-muted-foreground mb-3">
+                  {formatCurrency(plan.unit_amount ?? 0, plan.currency)} / month · {plan.credits} credits
+                </p>
+                {isCurrent ? (
+                  <div className="flex items-center text-xs text-primary">
+                    <CheckCircle className="h-3.5 w-3.5 mr-1" />
+                    Current plan
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant={isUpgrade ? 'default' : 'outline'}
+                    className="w-full"
+                    onClick={() => handleSubscriptionUpdate(
+                      plan.price_id,
+                      () => changeSubscriptionPlan(plan.price_id),
+                      isUpgrade
+                        ? `Upgraded to ${plan.name}, prorated credits are added once the invoice is paid`
+                        : `Switched to ${plan.name} from your next renewal`
+                    )}
+                    disabled={updatingPlan !== null}
+                  >
+                    {updatingPlan === plan.price_id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {isUpgrade ? 'Upgrade' : 'Downgrade'}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Upgrades are charged pro rata and add the extra credits for the rest of the period. Downgrades apply from your next renewal.
+        </p>
+      </div>
+    );
+  };
   
   // Function to render the mobile version of the order history
   const renderMobileOrderHistory = () => {
@@ -144,6 +340,83 @@ export function SubscriptionSettings() {
     );
   };
   
+  const loadMoreTransactions = async () => {
+    try {
+      setIsLoadingTransactions(true);
+      const more = await getCreditTransactions(TRANSACTIONS_PAGE_SIZE, transactions.length);
+      setTransactions(prev => [...prev, ...more]);
+      setHasMoreTransactions(more.length === TRANSACTIONS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching credit history:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load more credit history',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingTransactions(false);
+    }
+  };
+  
+  // Function to render every change to the credit balance
+  const renderCreditHistory = () => {
+    if (transactions.length === 0) {
+      return (
+        <div className="bg-muted/30 p-4 rounded-lg border text-center">
+          <p className="text-muted-foreground">No credit history available</p>
+        </div>
+      );
+    }
+    
+    return (
+      <div className="space-y-3">
+        <div className="border rounded-lg overflow-hidden overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground">Type</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground hidden md:table-cell">Details</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-muted-foreground">Credits</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-muted-foreground">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {transactions.map((transaction) => (
+                <tr key={transaction.id} className="hover:bg-muted/20">
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">
+                    {new Date(transaction.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {CREDIT_TRANSACTION_LABELS[transaction.type] || transaction.type}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground hidden md:table-cell max-w-xs truncate">
+                    {transaction.description || '-'}
+                  </td>
+                  <td className={`px-4 py-3 text-sm text-right font-medium ${transaction.amount > 0 ? 'text-green-600' : transaction.amount < 0 ? 'text-red-600' : ''}`}>
+                    {transaction.amount > 0 ? `+${transaction.amount}` : transaction.amount}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">
+                    {transaction.balance_after}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        
+        {hasMoreTransactions && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={loadMoreTransactions} disabled={isLoadingTransactions}>
+              {isLoadingTransactions && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Load More
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+  
   if (isLoading) {
     return (
       <Card>
@@ -197,6 +470,14 @@ export function SubscriptionSettings() {
             </div>
           </div>
           
+          {/* Subscription Plan */}
+          {subscriptionPlansEnabled && (
+            <div>
+              <h3 className="text-lg font-medium mb-4">Monthly Plan</h3>
+              {renderSubscriptionPlan()}
+            </div>
+          )}
+          
           {/* Order History */}
           <div>
             <h3 className="text-lg font-medium mb-4">Purchase History</h3>
@@ -211,6 +492,17 @@ export function SubscriptionSettings() {
               {renderDesktopOrderHistory()}
             </div>
           </div>
+          
+          {/* Credit History */}
+          {creditHistoryEnabled && (
+            <div>
+              <h3 className="text-lg font-medium mb-4">Credit History</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                Every purchase, generation and refund that changed your balance.
+              </p>
+              {renderCreditHistory()}
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex flex-col md:flex-row justify-between gap-3 border-t pt-6">
           <Button variant="outline" onClick={() => navigate('/home')} className="w-full md:w-auto">
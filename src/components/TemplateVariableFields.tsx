@@ -0,0 +1,70 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { TemplateValues, TemplateVariable } from '@/services/promptTemplateService';
+
+interface TemplateVariableFieldsProps {
+  variables: TemplateVariable[];
+  values: TemplateValues;
+  onChange: (values: TemplateValues) => void;
+}
+
+// Select items cannot have an empty value
+const NO_OPTION = '__none__';
+
+/**
+ * Inputs for the variables of a prompt template, typed by variable type
+ */
+export function TemplateVariableFields({ variables, values, onChange }: TemplateVariableFieldsProps) {
+  const setValue = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {variables.map((variable) => {
+        const id = `template-variable-${variable.key}`;
+        const value = values[variable.key] ?? variable.defaultValue ?? '';
+
+        return (
+          <div key={variable.key} className="space-y-1">
+            <Label htmlFor={id} className="text-xs">
+              {variable.label}
+              {variable.required && <span className="text-destructive"> *</span>}
+            </Label>
+
+            {variable.type === 'select' ? (
+              <Select
+                value={value === '' ? NO_OPTION : String(value)}
+                onValueChange={(option) => setValue(variable.key, option === NO_OPTION ? '' : option)}
+              >
+                <SelectTrigger id={id} className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_OPTION}>Not set</SelectItem>
+                  {(variable.options ?? []).map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={variable.type === 'number' ? 'number' : 'text'}
+                value={String(value)}
+                onChange={(e) => setValue(variable.key, e.target.value)}
+                className="h-8 text-xs"
+                maxLength={500}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Loader2, AlertTriangle, RefreshCw, Wand2 } from 'lucide-react';
+import { LazyImage } from '@/components/LazyImage';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { AdConceptCard } from '@/components/AdConceptCard';
+import { fetchVariationConcept, fetchVariationHistory, rerollVariation, AdConcept, GenerationJob } from '@/services/automationService';
+
+interface VariationHistoryProps {
+  variationId: string;
+  // Reloads the history when changed, e.g. after a new output was queued elsewhere
+  refreshTrigger?: number;
+}
+
+// How often the history is reloaded while a new output is generated
+const POLL_INTERVAL_MS = 5000;
+
+export function VariationHistory({ variationId, refreshTrigger = 0 }: VariationHistoryProps) {
+  const [outputs, setOutputs] = useState<GenerationJob[]>([]);
+  const [concept, setConcept] = useState<AdConcept | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const isGenerating = outputs.some(output => output.status === 'queued' || output.status === 'in_progress');
+
+  // Load the outputs when the variation changes
+  useEffect(() => {
+    setInstruction('');
+
+    async function loadHistory() {
+      try {
+        setIsLoading(true);
+        const [history, variationConcept] = await Promise.all([
+          fetchVariationHistory(variationId),
+          fetchVariationConcept(variationId)
+        ]);
+        setOutputs(history);
+        setConcept(variationConcept);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadHistory();
+  }, [variationId, refreshTrigger]);
+
+  // Reload until the new output finished
+  useEffect(() => {
+    if (!isGenerating) return;
+
+    const interval = setInterval(async () => {
+      setOutputs(await fetchVariationHistory(variationId));
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [variationId, isGenerating]);
+
+  const handleReroll = async (withInstruction: boolean) => {
+    if (withInstruction && !instruction.trim()) {
+      toast({
+        title: 'Instruction required',
+        description: 'Describe how the prompt should change',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await rerollVariation(variationId, withInstruction ? instruction.trim() : undefined);
+      setInstruction('');
+      setOutputs(await fetchVariationHistory(variationId));
+
+      toast({
+        title: withInstruction ? 'Prompt rewritten' : 'Regenerating ad',
+        description: 'The new version is being generated, the previous one stays in the history below'
+      });
+    } catch (error) {
+      console.error('Error re-rolling variation:', error);
+      toast({
+        title: 'Failed to regenerate',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const currentOutput = outputs.find(output => !output.replaced_at);
+  const previousOutputs = outputs.filter(output => output.replaced_at);
+
+  return (
+    <div className="space-y-4">
+      {concept && (
+        <div>
+          <h3 className="text-lg font-medium mb-2">Ad Concept</h3>
+          <AdConceptCard concept={concept} />
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-medium mb-2">Regenerate</h3>
+        {currentOutput && (
+          <p className="text-xs text-muted-foreground mb-3 line-clamp-4">
+            <strong>Current prompt:</strong> {currentOutput.prompt}
+          </p>
+        )}
+        <Textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder="Optional: describe how the prompt should change, e.g. &quot;Use a sunset beach background&quot;"
+          className="min-h-[80px] resize-none mb-2"
+          disabled={isSubmitting || isGenerating}
+        />
+        <p className="text-xs text-muted-foreground mb-3">
+          Each new version costs 1 credit.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleReroll(false)}
+            disabled={isSubmitting || isGenerating || isLoading}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-roll image
+          </Button>
+          <Button
+            onClick={() => handleReroll(true)}
+            disabled={isSubmitting || isGenerating || isLoading || !instruction.trim()}
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Wand2 className="h-4 w-4 mr-2" />
+            )}
+            Rewrite prompt
+          </Button>
+        </div>
+
+        {isGenerating && (
+          <div className="flex items-center mt-3 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Generating a new version...
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground mr-2" />
+          <span className="text-sm text-muted-foreground">Loading history...</span>
+        </div>
+      ) : previousOutputs.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium">Previous Versions</h3>
+          {previousOutputs.map((output) => (
+            <div key={output.id} className="border rounded-lg overflow-hidden">
+              <div className="flex items-center p-3 border-b bg-muted/30">
+                <Badge variant={output.status === 'completed' ? 'secondary' : 'destructive'}>
+                  {output.status === 'completed' ? 'Replaced' : 'Failed'}
+                </Badge>
+                {output.created_at && (
+                  <span className="ml-2 text-sm text-muted-foreground">
+                    {new Date(output.created_at).toLocaleString()}
+                  </span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 p-3">
+                {output.status === 'completed' && output.image_url ? (
+                  <LazyImage
+                    src={output.image_url}
+                    alt="Previous version"
+                    className="w-full h-auto object-contain rounded"
+                  />
+                ) : (
+                  <div className="flex items-center justify-center aspect-square bg-destructive/10 rounded">
+                    <AlertTriangle className="h-6 w-6 text-destructive" />
+                  </div>
+                )}
+                <div className="col-span-2 text-xs space-y-1">
+                  {output.rewrite_instruction && (
+                    <p><strong>Instruction:</strong> {output.rewrite_instruction}</p>
+                  )}
+                  <p className="text-muted-foreground line-clamp-6">{output.prompt}</p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
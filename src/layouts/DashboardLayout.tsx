@@ -84,6 +84,7 @@ export default function DashboardLayout() {
             supabase
               .from('generation_jobs')
               .select('id', { count: 'exact', head: true })
+              .is('replaced_at', null)
               .then(({ count }) => {
                 if (isMounted) setStaticAdCount(count || 0);
               });
@@ -0,0 +1,92 @@
+import { supabase } from './supabase';
+
+/**
+ * Error envelope returned by every edge function on failure
+ * (see supabase/functions/_shared/errors.ts)
+ */
+export interface EdgeFunctionErrorBody {
+  status: 'error';
+  error: {
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+  executionId?: string;
+}
+
+export class EdgeFunctionError extends Error {
+  code: string;
+  status: number;
+  details?: Record<string, unknown>;
+  executionId?: string;
+
+  constructor(message: string, code: string, status: number, details?: Record<string, unknown>, executionId?: string) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+    this.executionId = executionId;
+  }
+}
+
+function isErrorBody(body: unknown): body is EdgeFunctionErrorBody {
+  if (!body || typeof body !== 'object') return false;
+  const error = (body as { error?: unknown }).error;
+  return !!error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string';
+}
+
+/**
+ * Reads a failed edge function response into an EdgeFunctionError
+ */
+export async function parseEdgeFunctionError(response: Response, fallbackMessage: string): Promise<EdgeFunctionError> {
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Non JSON body, e.g. a gateway error page
+  }
+
+  if (isErrorBody(body)) {
+    return new EdgeFunctionError(body.error.message, body.error.code, response.status, body.error.details, body.executionId);
+  }
+
+  return new EdgeFunctionError(
+    response.statusText ? `${fallbackMessage}: HTTP ${response.status} ${response.statusText}` : fallbackMessage,
+    'INTERNAL_ERROR',
+    response.status
+  );
+}
+
+interface InvokeOptions {
+  signal?: AbortSignal;
+  fallbackMessage?: string;
+}
+
+/**
+ * Calls an edge function with the current user's access token and returns the
+ * parsed JSON body. Throws EdgeFunctionError when the function fails.
+ */
+export async function invokeEdgeFunction<T>(name: string, body: unknown, options: InvokeOptions = {}): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new EdgeFunctionError('You must be logged in to perform this action', 'UNAUTHENTICATED', 401);
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw await parseEdgeFunctionError(response, options.fallbackMessage || `Failed to call ${name}`);
+  }
+
+  return await response.json() as T;
+}
@@ -16,9 +16,9 @@ export function getAspectRatio(layout: string): string {
     case 'square':
       return '1:1';
     case 'landscape':
-      return '16:9'; // or '3:2' depending on your preference
+      return '3:2'; // Matches the 1536x1024 the provider renders
     case 'portrait':
-      return '9:16'; // or '2:3' depending on your preference
+      return '2:3'; // Matches the 1024x1536 the provider renders
     case 'auto':
     default:
       return '1:1'; // Default to square
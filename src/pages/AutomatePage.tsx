@@ -8,6 +8,11 @@ import {
   Loader2,
   RefreshCw,
   Plus,
+  ListChecks,
+  Ban,
+  FileUp,
+  CalendarClock,
+  PackageOpen,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { LazyImage } from '@/components/LazyImage';
@@ -25,6 +30,15 @@ import {
   DialogClose
 } from "@/components/ui/dialog";
 import { ImageDetails } from '@/components/ImageDetails';
+import { ActiveSessionsPanel } from '@/components/ActiveSessionsPanel';
+import { CampaignProgressPanel } from '@/components/CampaignProgressPanel';
+import { AutomationImportModal } from '@/components/AutomationImportModal';
+import { AutomationSchedulesPanel } from '@/components/AutomationSchedulesPanel';
+import { ScheduleAutomationModal } from '@/components/ScheduleAutomationModal';
+import { ExportPackDialog } from '@/components/ExportPackDialog';
+import { usePostHog } from '@/lib/posthog';
+import { fetchSessionsAwaitingReview, type AutomationSession } from '@/services/automationService';
+import type { ExportAsset } from '@/services/exportPackService';
 
 interface GenerationJob {
   id: string;
@@ -35,6 +49,8 @@ interface GenerationJob {
   error_message?: string;
   created_at: string;
   prompt_variations?: any;
+  // Edited version shown in place of the generated image
+  current_edit?: { image_url: string | null } | null;
 }
 
 export default function AutomatePage() {
@@ -44,6 +60,18 @@ export default function AutomatePage() {
   const [isJobDetailsOpen, setIsJobDetailsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [sessionsAwaitingReview, setSessionsAwaitingReview] = useState<AutomationSession[]>([]);
+  const { isFeatureEnabled } = usePostHog();
+  const promptReviewEnabled = isFeatureEnabled('prompt-review', false);
+  const sessionControlsEnabled = isFeatureEnabled('session-controls', false);
+  const productCampaignsEnabled = isFeatureEnabled('product-campaigns', false);
+  const bulkImportEnabled = isFeatureEnabled('bulk-import', false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const scheduledAutomationsEnabled = isFeatureEnabled('scheduled-automations', false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [schedulesRefreshKey, setSchedulesRefreshKey] = useState(0);
+  const exportPacksEnabled = isFeatureEnabled('export-packs', false);
+  const [exportAssets, setExportAssets] = useState<ExportAsset[] | null>(null);
 
   const latestJobsRef = useRef<GenerationJob[]>([]);
   const { toast } = useToast();
@@ -71,6 +99,13 @@ export default function AutomatePage() {
     return () => clearInterval(interval);
   }, []);
 
+  // Load campaigns waiting for prompt review
+  useEffect(() => {
+    if (!promptReviewEnabled) return;
+    
+    fetchSessionsAwaitingReview().then(setSessionsAwaitingReview);
+  }, [promptReviewEnabled]);
+
   // Fetch latest jobs
   const fetchLatestJobs = async () => {
     try {
@@ -79,6 +114,7 @@ export default function AutomatePage() {
         .from('generation_jobs')
         .select(`
           *,
+          current_edit:edited_images!current_edit_id(image_url),
           prompt_variations!inner(
             session_id,
             index,
@@ -90,6 +126,7 @@ export default function AutomatePage() {
             )
           )
         `)
+        .is('replaced_at', null)
         .order('created_at', { ascending: false })
         .limit(20);
         
@@ -113,6 +150,18 @@ export default function AutomatePage() {
     setIsJobDetailsOpen(true);
   };
 
+  // Snapshot of the finished ads, the gallery refreshing must not reset the export builder
+  const handleOpenExport = () => {
+    setExportAssets(generationJobs
+      .filter(job => job.status === 'completed' && job.image_url)
+      .map(job => ({
+        id: job.id,
+        name: `ad-${job.id.slice(0, 8)}`,
+        imageUrl: job.current_edit?.image_url || job.image_url!,
+        jobId: job.id
+      })));
+  };
+
   return (
     <div className="max-w-6xl mx-auto w-full">
       <div className="flex justify-between items-center mb-6">
@@ -133,6 +182,43 @@ export default function AutomatePage() {
             <span className="hidden md:inline">Refresh</span>
           </Button>
           
+          {bulkImportEnabled && (
+            <Button 
+              variant="outline"
+              onClick={() => setIsImportOpen(true)}
+              className="gap-1.5 h-8 md:h-9 text-xs md:text-sm"
+              size="sm"
+            >
+              <FileUp className="h-3.5 w-3.5" />
+              <span className="hidden md:inline">Import</span>
+            </Button>
+          )}
+          
+          {exportPacksEnabled && (
+            <Button 
+              variant="outline"
+              onClick={handleOpenExport}
+              disabled={!generationJobs.some(job => job.status === 'completed' && job.image_url)}
+              className="gap-1.5 h-8 md:h-9 text-xs md:text-sm"
+              size="sm"
+            >
+              <PackageOpen className="h-3.5 w-3.5" />
+              <span className="hidden md:inline">Export</span>
+            </Button>
+          )}
+          
+          {scheduledAutomationsEnabled && (
+            <Button 
+              variant="outline"
+              onClick={() => setIsScheduleOpen(true)}
+              className="gap-1.5 h-8 md:h-9 text-xs md:text-sm"
+              size="sm"
+            >
+              <CalendarClock className="h-3.5 w-3.5" />
+              <span className="hidden md:inline">Schedule</span>
+            </Button>
+          )}
+          
           <Button 
             onClick={() => navigate('/automation-builder')} 
             className="gap-1.5 h-8 md:h-9 text-xs md:text-sm"
@@ -144,6 +230,45 @@ export default function AutomatePage() {
         </div>
       </div>
 
+      {/* Scheduled and recurring automations */}
+      {scheduledAutomationsEnabled && (
+        <AutomationSchedulesPanel refreshKey={schedulesRefreshKey} />
+      )}
+
+      {/* Multi-product campaigns */}
+      {productCampaignsEnabled && (
+        <CampaignProgressPanel onCampaignChanged={fetchLatestJobs} />
+      )}
+
+      {/* Running and paused campaigns */}
+      {sessionControlsEnabled && (
+        <ActiveSessionsPanel onSessionChanged={fetchLatestJobs} />
+      )}
+
+      {/* Campaigns whose prompts wait for review */}
+      {sessionsAwaitingReview.length > 0 && (
+        <div className="mb-6 space-y-2">
+          {sessionsAwaitingReview.map((session) => (
+            <div key={session.id} className="flex items-center justify-between gap-3 border rounded-lg p-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <ListChecks className="h-4 w-4 text-primary shrink-0" />
+                <p className="text-xs md:text-sm truncate">
+                  Prompts for {session.variation_count} ad{session.variation_count === 1 ? '' : 's'} are ready for review
+                  <span className="text-muted-foreground"> · {format(new Date(session.created_at), 'MMM d, h:mm a')}</span>
+                </p>
+              </div>
+              <Button
+                size="sm"
+                className="h-8 text-xs md:text-sm shrink-0"
+                onClick={() => navigate(`/automation-builder?session=${session.id}`)}
+              >
+                Review prompts
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Gallery view */}
       {isLoading ? (
         <div className="flex items-center justify-center h-64">
@@ -183,9 +308,16 @@ export default function AutomatePage() {
                         <span className="text-xs text-red-600">Generation failed</span>
                       </div>
                     </div>
+                  ) : job.status === 'cancelled' ? (
+                    <div className="w-full h-full flex items-center justify-center bg-muted/30">
+                      <div className="flex flex-col items-center text-center p-4">
+                        <Ban className="h-8 w-8 text-muted-foreground mb-2" />
+                        <span className="text-xs text-muted-foreground">Cancelled</span>
+                      </div>
+                    </div>
                   ) : job.status === 'completed' && job.image_url ? (
                     <LazyImage
-                      src={job.image_url}
+                      src={job.current_edit?.image_url || job.image_url}
                       alt="Generated ad"
                       className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
                     />
@@ -229,6 +361,33 @@ export default function AutomatePage() {
             prompt: selectedJob.prompt,
             created_at: selectedJob.created_at
           }}
+          variationId={selectedJob.variation_id}
+        />
+      )}
+
+      {/* CSV / JSON import */}
+      {bulkImportEnabled && (
+        <AutomationImportModal
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={fetchLatestJobs}
+        />
+      )}
+
+      {/* Platform export packs of the finished ads */}
+      {exportPacksEnabled && (
+        <ExportPackDialog
+          open={exportAssets !== null}
+          onOpenChange={(open) => !open && setExportAssets(null)}
+          assets={exportAssets ?? []}
+        />
+      )}
+
+      {scheduledAutomationsEnabled && (
+        <ScheduleAutomationModal
+          open={isScheduleOpen}
+          onOpenChange={setIsScheduleOpen}
+          onScheduled={() => setSchedulesRefreshKey(key => key + 1)}
         />
       )}
     </div>
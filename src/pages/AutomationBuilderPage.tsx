@@ -1,14 +1,19 @@
-import { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   ChevronLeft,
   ChevronRight,
+  ChevronUp,
+  ChevronDown,
   Image as ImageIcon,
   Sparkles,
   Loader2,
   X,
   Check,
-  ArrowLeft
+  ArrowLeft,
+  Plus,
+  Trash2,
+  Bookmark
 } from 'lucide-react';
 import { FaRegSquare } from "react-icons/fa";
 import { LuRectangleHorizontal, LuRectangleVertical } from "react-icons/lu";
@@ -18,6 +23,9 @@ import { Button } from '@/components/ui/button';
 import { LazyImage } from '@/components/LazyImage';
 import { useToast } from '@/hooks/use-toast';
 import { ImageSelectionModal } from '@/components/ImageSelectionModal';
+import { AutomationPresetsDialog } from '@/components/AutomationPresetsDialog';
+import { TemplateVariableFields } from '@/components/TemplateVariableFields';
+import { AdConceptCard } from '@/components/AdConceptCard';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
@@ -37,16 +45,61 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { getInstructions } from '@/services/settingsService';
+import { usePostHog } from '@/lib/posthog';
+import { v4 as uuidv4 } from 'uuid';
 import { 
   createAutomationSession, 
   generatePrompts, 
-  checkUserCreditsForAutomation
+  checkUserCreditsForAutomation,
+  fetchAutomationSession,
+  fetchPromptVariations,
+  launchAutomationSession,
+  type AdConcept
 } from '@/services/automationService';
+import { fetchAutomationPreset, type AutomationPreset } from '@/services/automationPresetService';
+import {
+  fetchPromptTemplates,
+  getTemplateInputVariables,
+  type PromptTemplate,
+  type TemplateValues
+} from '@/services/promptTemplateService';
+
+// A prompt in the review list, the key keeps React rows stable while reordering
+interface ReviewedPrompt {
+  key: string;
+  text: string;
+  // The generated prompt and its concept, the concept is kept when the prompt is launched unedited
+  generatedText?: string;
+  concept?: AdConcept | null;
+}
+
+const toReviewedPrompts = (prompts: string[], concepts: Array<AdConcept | null | undefined> = []): ReviewedPrompt[] =>
+  prompts.map((text, index) => ({ key: uuidv4(), text, generatedText: text, concept: concepts[index] ?? null }));
 
 export default function AutomationBuilderPage() {
   // Current step in the wizard (1-indexed for display purposes)
   const [currentStep, setCurrentStep] = useState(1);
-  const totalSteps = 3;
+  
+  // Prompt review adds a fourth step after the session settings
+  const { isFeatureEnabled } = usePostHog();
+  const promptReviewEnabled = isFeatureEnabled('prompt-review', false);
+  const [reviewPrompts, setReviewPrompts] = useState(false);
+  const reviewMode = promptReviewEnabled && reviewPrompts;
+  const submitStep = 3;
+  const totalSteps = reviewMode ? 4 : 3;
+  
+  // Saved presets fill in everything except the product image
+  const presetsEnabled = isFeatureEnabled('automation-presets', false);
+  const [isPresetsOpen, setIsPresetsOpen] = useState(false);
+  const [activePreset, setActivePreset] = useState<AutomationPreset | null>(null);
+  const [brandLogoUrl, setBrandLogoUrl] = useState<string | null>(null);
+
+  // Prompt templates from Settings, the default prompt is used without one
+  const promptTemplatesEnabled = isFeatureEnabled('prompt-templates', false);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('default');
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
+  const selectedTemplate = promptTemplates.find(template => template.id === selectedTemplateId) ?? null;
   
   // Form data
   const [productImage, setProductImage] = useState<File | null>(null);
@@ -74,11 +127,90 @@ export default function AutomationBuilderPage() {
   const [currentSession, setCurrentSession] = useState<{id: string, status: string} | null>(null);
   const [progress, setProgress] = useState(0);
   
+  // Prompts of the session waiting for review
+  const [reviewSession, setReviewSession] = useState<{ id: string; maxPrompts: number } | null>(null);
+  const [reviewedPrompts, setReviewedPrompts] = useState<ReviewedPrompt[]>([]);
+  const [isLaunching, setIsLaunching] = useState(false);
+  
   // Skeleton loading state for step transitions
   const [isStepLoading, setIsStepLoading] = useState(false);
   
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const resumeSessionId = searchParams.get('session');
+  const sharedPresetId = searchParams.get('preset');
+  
+  // Resume the review of a session opened from the automate page
+  useEffect(() => {
+    if (!resumeSessionId || !promptReviewEnabled) return;
+
+    async function loadReviewSession(sessionId: string) {
+      const session = await fetchAutomationSession(sessionId);
+
+      if (!session || session.status !== 'prompts_generated' || !session.review_prompts || session.launched_at) {
+        toast({
+          title: "Nothing to review",
+          description: "The prompts of this campaign were already launched or are no longer available.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const variations = await fetchPromptVariations(sessionId);
+      setReviewPrompts(true);
+      setReviewSession({ id: session.id, maxPrompts: session.variation_count });
+      setReviewedPrompts(toReviewedPrompts(
+        variations.map(variation => variation.prompt),
+        variations.map(variation => variation.concept)
+      ));
+      setProductImageUrl(session.product_image_url);
+      setReferenceAdUrl(session.reference_ad_url || null);
+      setCurrentStep(4);
+    }
+
+    loadReviewSession(resumeSessionId);
+  }, [resumeSessionId, promptReviewEnabled, toast]);
+  
+  // Fill in the builder inputs stored in a preset
+  const applyPresetSettings = useCallback((preset: AutomationPreset) => {
+    setActivePreset(preset);
+    setBrandLogoUrl(preset.brand_logo_url || null);
+    setReferenceAd(null);
+    setReferenceAdUrl(preset.reference_ad_url || null);
+    setInstructions(preset.instructions || '');
+    setShowInstructions(!!preset.instructions);
+    setSelectedInstructions(new Set());
+    setSelectedLayout(preset.layout);
+    setVariationCount(String(preset.variation_count));
+    setReviewPrompts(preset.review_prompts);
+  }, []);
+  
+  // Apply a preset opened from a shared link
+  useEffect(() => {
+    if (!sharedPresetId || !presetsEnabled) return;
+
+    async function loadSharedPreset(presetId: string) {
+      const preset = await fetchAutomationPreset(presetId);
+
+      if (!preset) {
+        toast({
+          title: "Preset not found",
+          description: "The preset was deleted or belongs to another account.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      applyPresetSettings(preset);
+      toast({
+        title: `Preset "${preset.name}" applied`,
+        description: "Choose a product image to generate ads with it."
+      });
+    }
+
+    loadSharedPreset(sharedPresetId);
+  }, [sharedPresetId, presetsEnabled, applyPresetSettings, toast]);
   
   // Fetch available instructions when component mounts
   useEffect(() => {
@@ -94,6 +226,11 @@ export default function AutomationBuilderPage() {
     fetchInstructions();
   }, []);
   
+  useEffect(() => {
+    if (!promptTemplatesEnabled) return;
+    fetchPromptTemplates().then(setPromptTemplates);
+  }, [promptTemplatesEnabled]);
+  
   // Check user credits when component mounts and when variation count changes
   useEffect(() => {
     checkCredits();
@@ -231,9 +368,10 @@ export default function AutomationBuilderPage() {
       setProductImageUrl(url);
     }
     
-    // Automatically proceed to next step after selecting product image
+    // Automatically proceed to next step after selecting product image,
+    // an applied preset already chose the reference ad
     if (currentStep === 1) {
-      changeStep(2);
+      changeStep(activePreset ? 3 : 2);
     }
   };
   
@@ -242,9 +380,10 @@ export default function AutomationBuilderPage() {
     setProductImage(null);
     setProductImageUrl(url);
     
-    // Automatically proceed to next step after selecting product image
+    // Automatically proceed to next step after selecting product image,
+    // an applied preset already chose the reference ad
     if (currentStep === 1) {
-      changeStep(2);
+      changeStep(activePreset ? 3 : 2);
     }
   };
   
@@ -275,6 +414,22 @@ export default function AutomationBuilderPage() {
     }
   };
   
+  // Apply a preset picked in the presets dialog
+  const handleApplyPreset = (preset: AutomationPreset) => {
+    applyPresetSettings(preset);
+    
+    toast({
+      title: `Preset "${preset.name}" applied`,
+      description: hasProductImage
+        ? "Check the settings and generate your ads."
+        : "Choose a product image to generate ads with it."
+    });
+    
+    if (hasProductImage && currentStep < submitStep) {
+      changeStep(submitStep);
+    }
+  };
+  
   // Handle step navigation with skeleton animation
   const changeStep = (newStep: number) => {
     if (newStep !== currentStep) {
@@ -298,8 +453,8 @@ export default function AutomationBuilderPage() {
       return;
     }
     
-    if (currentStep === 3) {
-      // Final step, submit directly
+    if (currentStep === submitStep) {
+      // Settings step, submit directly
       handleSubmit();
       return;
     }
@@ -420,11 +575,13 @@ export default function AutomationBuilderPage() {
       // Create session
       const sessionId = await createAutomationSession(
         productImageFile,
-        null, // No brand logo for now
+        brandLogoUrl, // Only set by presets
         referenceAdFile,
         showInstructions ? instructions : "", // Only include instructions if enabled
         parseInt(variationCount, 10),
-        selectedLayout // Pass the selected layout
+        selectedLayout, // Pass the selected layout
+        reviewMode,
+        selectedTemplate ? { id: selectedTemplate.id, variables: templateValues } : null
       );
       
       setCurrentSession({
@@ -433,31 +590,24 @@ export default function AutomationBuilderPage() {
       });
       
       toast({
-        title: 'Campaign started',
-        description: 'Your automated ad campaign is being generated. You can view progress on the automate page.'
+        title: reviewMode ? 'Writing prompts' : 'Campaign started',
+        description: reviewMode
+          ? 'Your prompts are being written. You can review them before any ad is generated.'
+          : 'Your automated ad campaign is being generated. You can view progress on the automate page.'
       });
       
       // Start generating prompts
-      await generatePrompts(sessionId);
+      const { prompts, concepts, awaitingReview } = await generatePrompts(sessionId);
       
-      // Show progress updates
-      setProgress(10);
-      
-      // Simulate progress updates for better UX
-      const interval = setInterval(() => {
-        setProgress(prev => {
-          if (prev >= 95) {
-            clearInterval(interval);
-            return 100;
-          }
-          return prev + 5;
-        });
-      }, 1000);
+      if (awaitingReview) {
+        setCurrentSession({ id: sessionId, status: 'prompts_generated' });
+        setReviewSession({ id: sessionId, maxPrompts: parseInt(variationCount, 10) });
+        setReviewedPrompts(toReviewedPrompts(prompts, concepts));
+        changeStep(4);
+        return;
+      }
       
-      // Navigate to the automate page to see results after a short delay
-      setTimeout(() => {
-        navigate('/automate');
-      }, 3000);
+      showProgressAndRedirect();
       
     } catch (error) {
       console.error("Error creating automation:", error);
@@ -471,6 +621,93 @@ export default function AutomationBuilderPage() {
     }
   };
   
+  // Show progress updates, then open the automate page to see the results
+  const showProgressAndRedirect = () => {
+    setProgress(10);
+    
+    // Simulate progress updates for better UX
+    const interval = setInterval(() => {
+      setProgress(prev => {
+        if (prev >= 95) {
+          clearInterval(interval);
+          return 100;
+        }
+        return prev + 5;
+      });
+    }, 1000);
+    
+    // Navigate to the automate page to see results after a short delay
+    setTimeout(() => {
+      navigate('/automate');
+    }, 3000);
+  };
+  
+  // Review list handlers
+  const updateReviewedPrompt = (key: string, text: string) => {
+    setReviewedPrompts(prompts => prompts.map(prompt => prompt.key === key ? { ...prompt, text } : prompt));
+  };
+  
+  const removeReviewedPrompt = (key: string) => {
+    setReviewedPrompts(prompts => prompts.filter(prompt => prompt.key !== key));
+  };
+  
+  const moveReviewedPrompt = (index: number, offset: number) => {
+    setReviewedPrompts(prompts => {
+      const target = index + offset;
+      if (target < 0 || target >= prompts.length) return prompts;
+      
+      const reordered = [...prompts];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+  
+  const addReviewedPrompt = () => {
+    setReviewedPrompts(prompts => [...prompts, ...toReviewedPrompts([''])]);
+  };
+  
+  // Queue the reviewed prompts and start generating the ads
+  const handleLaunch = async () => {
+    if (!reviewSession) return;
+    
+    const prompts = reviewedPrompts.map(prompt => prompt.text.trim());
+    if (prompts.length === 0 || prompts.some(prompt => !prompt)) {
+      toast({
+        title: "Prompts incomplete",
+        description: "Fill in or remove empty prompts before launching",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    setIsLaunching(true);
+    
+    try {
+      const { promptCount, creditsReturned } = await launchAutomationSession(reviewSession.id, prompts);
+      
+      setCurrentSession({ id: reviewSession.id, status: 'prompts_generated' });
+      
+      toast({
+        title: 'Campaign started',
+        description: creditsReturned > 0
+          ? `Generating ${promptCount} ad${promptCount === 1 ? '' : 's'}, ${creditsReturned} unused credit${creditsReturned === 1 ? ' was' : 's were'} returned.`
+          : `Generating ${promptCount} ad${promptCount === 1 ? '' : 's'}. You can view progress on the automate page.`
+      });
+      
+      setReviewSession(null);
+      showProgressAndRedirect();
+    } catch (error) {
+      console.error("Error launching automation:", error);
+      toast({
+        title: "Failed to launch automation",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLaunching(false);
+    }
+  };
+  
   // Determine if product image is selected
   const hasProductImage = !!productImage || !!productImageUrl;
   
@@ -486,6 +723,8 @@ export default function AutomationBuilderPage() {
         return "Add a reference ad";
       case 3:
         return "Choose layout and variations";
+      case 4:
+        return "Review prompts";
       default:
         return "";
     }
@@ -500,6 +739,8 @@ export default function AutomationBuilderPage() {
         return "Optionally add a reference ad to guide the style of your assets.";
       case 3:
         return "Choose the layout and number of ad variations to generate.";
+      case 4:
+        return "Edit, reorder, remove or add prompts, then launch the generation.";
       default:
         return "";
     }
@@ -520,6 +761,7 @@ export default function AutomationBuilderPage() {
           </div>
         );
       case 3:
+      case 4:
         return (
           <div className="max-w-xs md:max-w-2xl mx-auto mt-4 md:mt-8">
             <Skeleton className="w-full h-[400px] md:h-[500px] rounded-lg" />
@@ -926,6 +1168,61 @@ export default function AutomationBuilderPage() {
                   </div>
                 )}
               </div>
+              
+              {/* Prompt Template */}
+              {promptTemplatesEnabled && promptTemplates.length > 0 && (
+                <div className="space-y-2 md:space-y-3 pt-2 md:pt-3 border-t">
+                  <div className="flex flex-col gap-1">
+                    <h3 className="text-sm md:text-lg font-medium">Prompt Template</h3>
+                    <p className="text-xs md:text-sm text-muted-foreground">
+                      Write the prompts with one of your templates from Settings
+                    </p>
+                  </div>
+                  <Select
+                    value={selectedTemplateId}
+                    onValueChange={(templateId) => {
+                      setSelectedTemplateId(templateId);
+                      setTemplateValues({});
+                    }}
+                  >
+                    <SelectTrigger className="w-full text-xs md:text-sm h-9 md:h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default prompt</SelectItem>
+                      {promptTemplates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedTemplate && getTemplateInputVariables(selectedTemplate).length > 0 && (
+                    <TemplateVariableFields
+                      variables={getTemplateInputVariables(selectedTemplate)}
+                      values={templateValues}
+                      onChange={setTemplateValues}
+                    />
+                  )}
+                </div>
+              )}
+              
+              {/* Prompt Review Toggle */}
+              {promptReviewEnabled && (
+                <div className="space-y-2 md:space-y-3 pt-2 md:pt-3 border-t">
+                  <div className="flex items-center justify-between">
+                    <div className="flex flex-col gap-1">
+                      <h3 className="text-sm md:text-lg font-medium">Review Prompts</h3>
+                      <p className="text-xs md:text-sm text-muted-foreground">
+                        Edit, reorder or remove the prompts before any ad is generated
+                      </p>
+                    </div>
+                    <Switch 
+                      checked={reviewPrompts}
+                      onCheckedChange={setReviewPrompts}
+                      id="review-prompts-toggle"
+                    />
+                  </div>
+                </div>
+              )}
 
               {/* Summary section */}
               <div className="pt-4 mt-4 border-t">
@@ -980,7 +1277,12 @@ export default function AutomationBuilderPage() {
                     {isSubmitting ? (
                       <>
                         <Loader2 className="mr-2 md:mr-3 h-4 w-4 md:h-5 md:w-5 animate-spin" />
-                        Creating...
+                        {reviewMode ? "Writing prompts..." : "Creating..."}
+                      </>
+                    ) : reviewMode ? (
+                      <>
+                        <Sparkles className="mr-2 md:mr-3 h-4 w-4 md:h-5 md:w-5" />
+                        Write {variationCount} prompt{parseInt(variationCount) > 1 ? 's' : ''} to review
                       </>
                     ) : (
                       <>
@@ -1006,6 +1308,109 @@ export default function AutomationBuilderPage() {
           </div>
         );
         
+      case 4: {
+        const maxPrompts = reviewSession?.maxPrompts ?? parseInt(variationCount, 10);
+        const unusedCredits = maxPrompts - reviewedPrompts.length;
+        
+        return (
+          <div className="max-w-xs md:max-w-2xl mx-auto mt-4 md:mt-8">
+            <div className="space-y-3 md:space-y-4 p-3 md:p-6 border rounded-lg">
+              {reviewedPrompts.length === 0 && (
+                <p className="text-xs md:text-sm text-muted-foreground text-center py-6">
+                  No prompts left. Add a prompt to generate at least one ad.
+                </p>
+              )}
+              
+              {reviewedPrompts.map((prompt, index) => (
+                <div key={prompt.key} className="border rounded-lg p-2 md:p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={`prompt-${prompt.key}`} className="text-xs md:text-sm font-medium">
+                      Ad {index + 1}
+                    </Label>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => moveReviewedPrompt(index, -1)}
+                        disabled={index === 0 || isLaunching}
+                        aria-label="Move prompt up"
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => moveReviewedPrompt(index, 1)}
+                        disabled={index === reviewedPrompts.length - 1 || isLaunching}
+                        aria-label="Move prompt down"
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => removeReviewedPrompt(prompt.key)}
+                        disabled={isLaunching}
+                        aria-label="Remove prompt"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {prompt.concept && prompt.text.trim() === prompt.generatedText && (
+                    <AdConceptCard concept={prompt.concept} />
+                  )}
+                  <Textarea
+                    id={`prompt-${prompt.key}`}
+                    placeholder="Describe the ad to generate..."
+                    className="min-h-[120px] text-xs md:text-sm"
+                    value={prompt.text}
+                    onChange={(e) => updateReviewedPrompt(prompt.key, e.target.value)}
+                    disabled={isLaunching}
+                  />
+                </div>
+              ))}
+              
+              <Button
+                variant="outline"
+                className="w-full text-xs md:text-sm"
+                onClick={addReviewedPrompt}
+                disabled={reviewedPrompts.length >= maxPrompts || isLaunching}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add prompt
+              </Button>
+              
+              <div className="text-[10px] md:text-xs text-muted-foreground">
+                {maxPrompts} credit{maxPrompts === 1 ? ' is' : 's are'} reserved for this campaign, so it can have up to {maxPrompts} prompt{maxPrompts === 1 ? '' : 's'}.
+                {unusedCredits > 0 && ` The ${unusedCredits} unused credit${unusedCredits === 1 ? '' : 's'} will be returned when you launch.`}
+              </div>
+              
+              <Button 
+                onClick={handleLaunch}
+                className="w-full py-4 md:py-6 text-sm md:text-lg h-auto"
+                disabled={reviewedPrompts.length === 0 || isLaunching || !reviewSession}
+              >
+                {isLaunching ? (
+                  <>
+                    <Loader2 className="mr-2 md:mr-3 h-4 w-4 md:h-5 md:w-5 animate-spin" />
+                    Launching...
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="mr-2 md:mr-3 h-4 w-4 md:h-5 md:w-5" />
+                    Generate {reviewedPrompts.length} ad{reviewedPrompts.length === 1 ? '' : 's'} ({reviewedPrompts.length} credit{reviewedPrompts.length === 1 ? '' : 's'})
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        );
+      }
+        
       default:
         return null;
     }
@@ -1022,9 +1427,9 @@ export default function AutomationBuilderPage() {
   
   // Get button text based on current step
   const getNextButtonText = () => {
-    if (currentStep === totalSteps) {
+    if (currentStep === submitStep) {
       return isSubmitting ? "Creating..." : "Generate";
-    } else if (currentStep === totalSteps - 1) {
+    } else if (currentStep === submitStep - 1) {
       return "Review";
     } else {
       return "Continue";
@@ -1050,7 +1455,20 @@ export default function AutomationBuilderPage() {
             Create Automated Ads
           </h1>
           
-          <div className="w-10"></div>
+          {presetsEnabled ? (
+            <Button 
+              variant="outline" 
+              size="sm"
+              className="gap-1 md:gap-2 text-xs md:text-sm"
+              onClick={() => setIsPresetsOpen(true)}
+              disabled={isSubmitting || currentStep > submitStep}
+            >
+              <Bookmark className="h-3.5 w-3.5 md:h-4 md:w-4" />
+              <span className="hidden md:inline">{activePreset ? activePreset.name : 'Presets'}</span>
+            </Button>
+          ) : (
+            <div className="w-10"></div>
+          )}
         </div>
       </header>
       
@@ -1101,13 +1519,13 @@ export default function AutomationBuilderPage() {
             size="sm"
             onClick={handleBack}
             className="gap-1 md:gap-2 h-8 md:h-10 text-xs md:text-sm"
-            disabled={isSubmitting || isStepLoading}
+            disabled={isSubmitting || isStepLoading || currentStep > submitStep}
           >
             <ChevronLeft className="h-3.5 w-3.5 md:h-4 md:w-4" />
             Back
           </Button>
           
-          {currentStep < totalSteps && (
+          {currentStep < submitStep && (
             <Button 
               size="sm"
               onClick={handleNext}
@@ -1145,6 +1563,24 @@ export default function AutomationBuilderPage() {
         onImageSelected={handleReferenceImageSelected}
         title="Reference Ad"
       />
+      
+      {presetsEnabled && (
+        <AutomationPresetsDialog
+          open={isPresetsOpen}
+          onOpenChange={setIsPresetsOpen}
+          currentSettings={{
+            brandLogo: brandLogoUrl,
+            referenceAd: referenceAd ?? referenceAdUrl,
+            instructions: showInstructions ? instructions : '',
+            layout: selectedLayout,
+            variationCount: parseInt(variationCount, 10),
+            reviewPrompts: reviewMode
+          }}
+          activePresetId={activePreset?.id}
+          onApply={handleApplyPreset}
+          onSaved={setActivePreset}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
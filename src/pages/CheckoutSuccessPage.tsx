@@ -3,8 +3,7 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, Loader2, Coins, ArrowRight } from 'lucide-react';
-import { getUserOrders } from '@/services/stripeService';
-import { getProductByPriceId } from '@/stripe-config';
+import { getUserOrders, getProductByPriceId } from '@/services/stripeService';
 import { supabase } from '@/lib/supabase';
 import { trackEvent } from '@/lib/posthog';
 
@@ -31,9 +30,13 @@ export default function CheckoutSuccessPage() {
           
           // If the order has a product_id, try to get product details
           if (mostRecentOrder.product_id) {
-            const productDetails = getProductByPriceId(mostRecentOrder.product_id);
-            if (productDetails) {
-              setProduct(productDetails);
+            try {
+              const productDetails = await getProductByPriceId(mostRecentOrder.product_id);
+              if (productDetails) {
+                setProduct(productDetails);
+              }
+            } catch (productError) {
+              console.error('Error fetching product details:', productError);
             }
           }
           
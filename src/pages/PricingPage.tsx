@@ -5,18 +5,68 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Check, Loader2, CreditCard } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/App';
-import { products, getOneTimeProducts } from '@/stripe-config';
-import { createCheckoutSession, getUserSubscription } from '@/services/stripeService';
+import {
+  ACTIVE_SUBSCRIPTION_STATUSES,
+  createCheckoutSession,
+  formatCurrency,
+  getOneTimeProducts,
+  getSubscriptionPlans,
+  getUserSubscription,
+  type StripeProduct
+} from '@/services/stripeService';
+import { usePostHog } from '@/lib/posthog';
 
 export default function PricingPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProductId, setLoadingProductId] = useState<string | null>(null);
   const [currentCredits, setCurrentCredits] = useState<number | null>(null);
+  const [oneTimeProducts, setOneTimeProducts] = useState<StripeProduct[]>([]);
+  const [isLoadingProducts, setIsLoadingProducts] = useState(true);
+  const [subscriptionPlans, setSubscriptionPlans] = useState<StripeProduct[]>([]);
+  const [hasSubscription, setHasSubscription] = useState(false);
   const { session } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { isFeatureEnabled } = usePostHog();
+  const subscriptionPlansEnabled = isFeatureEnabled('subscription-plans', false);
   
-  const oneTimeProducts = getOneTimeProducts();
+  // The largest package has the lowest price per credit
+  const bestValueCredits = Math.max(0, ...oneTimeProducts.map(product => product.credits));
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      try {
+        setIsLoadingProducts(true);
+        setOneTimeProducts(await getOneTimeProducts());
+        
+        if (subscriptionPlansEnabled) {
+          setSubscriptionPlans(await getSubscriptionPlans());
+        }
+      } catch (err) {
+        console.error('Error fetching credit packages:', err);
+        toast({
+          title: "Error",
+          description: "Failed to load credit packages",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoadingProducts(false);
+      }
+    };
+    
+    fetchProducts();
+  }, [toast, subscriptionPlansEnabled]);
+
+  useEffect(() => {
+    // Subscribers switch plans from their settings instead of a new checkout
+    if (session && subscriptionPlansEnabled) {
+      getUserSubscription()
+        .then(subscription => setHasSubscription(
+          !!subscription?.subscription_id && ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.subscription_status)
+        ))
+        .catch(err => console.error('Error fetching subscription:', err));
+    }
+  }, [session, subscriptionPlansEnabled]);
 
   useEffect(() => {
     // Fetch user's current credits if they're logged in
@@ -118,68 +168,129 @@ export default function PricingPage() {
             )}
           </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
-            {oneTimeProducts.map((product) => {
-              // Calculate price per credit
-              const pricePerCredit = parseFloat(product.price.replace('$', '')) / product.credits;
-              const formattedPricePerCredit = `$${pricePerCredit.toFixed(2)}`;
-              
-              // Determine if this is the best value
-              const isBestValue = product.name === "1000 credits topup";
-              
-              return (
-                <Card 
-                  key={product.priceId} 
-                  className={`flex flex-col h-full ${isBestValue ? 'border-2 border-primary/50 shadow-lg' : ''}`}
-                >
-                  <CardHeader className="pb-4">
-                    {isBestValue && (
-                      <div className="bg-primary text-primary-foreground text-xs font-medium px-3 py-1 rounded-full w-fit mb-2">
-                        BEST VALUE
+          {!isLoadingProducts && subscriptionPlans.length > 0 && (
+            <div className="mb-10 md:mb-16">
+              <h2 className="text-xl md:text-2xl font-bold mb-2 text-center">Monthly Plans</h2>
+              <p className="text-sm md:text-base text-muted-foreground text-center mb-6">
+                Fresh credits every month, unused credits roll over up to each plan's limit. Cancel anytime.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 md:gap-8">
+                {subscriptionPlans.map((plan) => (
+                  <Card key={plan.price_id} className="flex flex-col h-full">
+                    <CardHeader className="pb-4">
+                      <CardTitle className="text-xl md:text-2xl">{plan.name}</CardTitle>
+                      <CardDescription>{plan.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="pb-4 flex-1">
+                      <div className="mb-6">
+                        <span className="text-2xl md:text-3xl font-bold">{formatCurrency(plan.unit_amount ?? 0, plan.currency)}</span>
+                        <span className="text-muted-foreground ml-2">per month</span>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {formatCurrency((plan.unit_amount ?? 0) / plan.credits, plan.currency)} per credit
+                        </p>
                       </div>
-                    )}
-                    <CardTitle className="text-xl md:text-2xl">{product.name}</CardTitle>
-                    <CardDescription>{product.description}</CardDescription>
-                  </CardHeader>
-                  <CardContent className="pb-4 flex-1">
-                    <div className="mb-6">
-                      <span className="text-2xl md:text-3xl font-bold">{product.price}</span>
-                      <span className="text-muted-foreground ml-2">one-time</span>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        {formattedPricePerCredit} per credit
-                      </p>
-                    </div>
-                    
-                    <ul className="space-y-2">
-                      {product.features.map((feature, index) => (
-                        <li key={index} className="flex items-start">
-                          <Check className="h-5 w-5 text-green-500 mr-2 shrink-0 mt-0.5" />
-                          <span>{feature}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </CardContent>
-                  <CardFooter>
-                    <Button 
-                      className="w-full" 
-                      variant={isBestValue ? "default" : "outline"}
-                      onClick={() => handlePurchase(product.priceId)}
-                      disabled={isLoading && loadingProductId === product.priceId}
-                    >
-                      {isLoading && loadingProductId === product.priceId ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Processing...
-                        </>
-                      ) : (
-                        'Buy Now'
+                      
+                      <ul className="space-y-2">
+                        {plan.features.map((feature, index) => (
+                          <li key={index} className="flex items-start">
+                            <Check className="h-5 w-5 text-green-500 mr-2 shrink-0 mt-0.5" />
+                            <span>{feature}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                    <CardFooter>
+                      <Button
+                        className="w-full"
+                        onClick={() => hasSubscription ? navigate('/settings?tab=subscription') : handlePurchase(plan.price_id)}
+                        disabled={isLoading && loadingProductId === plan.price_id}
+                      >
+                        {isLoading && loadingProductId === plan.price_id ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Processing...
+                          </>
+                        ) : hasSubscription ? (
+                          'Change Plan'
+                        ) : (
+                          'Subscribe'
+                        )}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          {isLoadingProducts ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
+              {oneTimeProducts.map((product) => {
+                // Calculate price per credit
+                const unitAmount = product.unit_amount ?? 0;
+                const formattedPricePerCredit = formatCurrency(unitAmount / product.credits, product.currency);
+                
+                // Determine if this is the best value
+                const isBestValue = product.credits === bestValueCredits;
+                
+                return (
+                  <Card 
+                    key={product.price_id} 
+                    className={`flex flex-col h-full ${isBestValue ? 'border-2 border-primary/50 shadow-lg' : ''}`}
+                  >
+                    <CardHeader className="pb-4">
+                      {isBestValue && (
+                        <div className="bg-primary text-primary-foreground text-xs font-medium px-3 py-1 rounded-full w-fit mb-2">
+                          BEST VALUE
+                        </div>
                       )}
-                    </Button>
-                  </CardFooter>
-                </Card>
-              );
-            })}
-          </div>
+                      <CardTitle className="text-xl md:text-2xl">{product.name}</CardTitle>
+                      <CardDescription>{product.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="pb-4 flex-1">
+                      <div className="mb-6">
+                        <span className="text-2xl md:text-3xl font-bold">{formatCurrency(unitAmount, product.currency)}</span>
+                        <span className="text-muted-foreground ml-2">one-time</span>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {formattedPricePerCredit} per credit
+                        </p>
+                      </div>
+                      
+                      <ul className="space-y-2">
+                        {product.features.map((feature, index) => (
+                          <li key={index} className="flex items-start">
+                            <Check className="h-5 w-5 text-green-500 mr-2 shrink-0 mt-0.5" />
+                            <span>{feature}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                    <CardFooter>
+                      <Button 
+                        className="w-full" 
+                        variant={isBestValue ? "default" : "outline"}
+                        onClick={() => handlePurchase(product.price_id)}
+                        disabled={isLoading && loadingProductId === product.price_id}
+                      >
+                        {isLoading && loadingProductId === product.price_id ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Processing...
+                          </>
+                        ) : (
+                          'Buy Now'
+                        )}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
           
           <div className="mt-10 md:mt-16 text-center">
             <h2 className="text-xl md:text-2xl font-bold mb-4">Frequently Asked Questions</h2>
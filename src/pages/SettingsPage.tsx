@@ -5,6 +5,7 @@ import { ShopifyAdminSettings } from '@/components/ShopifyAdminSettings';
 import { UserProfileForm } from '@/components/UserProfileForm';
 import { InstructionsSettings } from '@/components/InstructionsSettings';
 import { SubscriptionSettings } from '@/components/SubscriptionSettings';
+import { PromptTemplatesSettings } from '@/components/PromptTemplatesSettings';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -15,12 +16,13 @@ export default function SettingsPage() {
   const location = useLocation();
   const { posthog } = usePostHog();
   const [showNewShopifyIntegration, setShowNewShopifyIntegration] = useState(false);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
   
   // Check if there's a tab parameter in the URL
   useEffect(() => {
     const searchParams = new URLSearchParams(location.search);
     const tab = searchParams.get('tab');
-    if (tab && ['general', 'shopify', 'instructions', 'subscription'].includes(tab)) {
+    if (tab && ['general', 'shopify', 'instructions', 'templates', 'subscription'].includes(tab)) {
       setActiveTab(tab);
     }
   }, [location]);
@@ -30,6 +32,7 @@ export default function SettingsPage() {
     if (posthog) {
       const hasFeatureFlag = posthog.isFeatureEnabled('new-shopify-integration');
       setShowNewShopifyIntegration(hasFeatureFlag);
+      setShowPromptTemplates(!!posthog.isFeatureEnabled('prompt-templates'));
     }
   }, [posthog]);
 
@@ -42,6 +45,7 @@ export default function SettingsPage() {
           <TabsTrigger value="general">General</TabsTrigger>
           <TabsTrigger value="shopify">Shopify</TabsTrigger>
           <TabsTrigger value="instructions">Instructions</TabsTrigger>
+          {showPromptTemplates && <TabsTrigger value="templates">Templates</TabsTrigger>}
           <TabsTrigger value="subscription">Subscription</TabsTrigger>
         </TabsList>
         
@@ -71,6 +75,12 @@ export default function SettingsPage() {
           <InstructionsSettings />
         </TabsContent>
         
+        {showPromptTemplates && (
+          <TabsContent value="templates">
+            <PromptTemplatesSettings />
+          </TabsContent>
+        )}
+        
         <TabsContent value="subscription">
           <SubscriptionSettings />
         </TabsContent>
@@ -16,6 +16,18 @@ export interface Asset {
   created_at: string;
   variation_group_id?: string | null;
   variation_index?: number | null;
+  // Library collection the asset is in
+  collection_id?: string | null;
+}
+
+/**
+ * Filter of an asset listing. A null collection_id matches assets that are
+ * in no collection.
+ */
+export interface AssetFilter {
+  source?: AssetSource;
+  variation_group_id?: string;
+  collection_id?: string | null;
 }
 
 export interface AssetMetadata {
@@ -302,17 +314,38 @@ export async function uploadFromUrl(
   }
 }
 
+// Query on the assets table matching a filter
+function filteredAssetsQuery(filter?: AssetFilter, options?: { count?: 'exact' }) {
+  let query = supabase
+    .from('assets')
+    .select('*', options);
+
+  if (filter?.source) {
+    query = query.eq('source', filter.source);
+  }
+
+  if (filter?.variation_group_id) {
+    query = query.eq('variation_group_id', filter.variation_group_id);
+  }
+
+  if (filter?.collection_id === null) {
+    query = query.is('collection_id', null);
+  } else if (filter?.collection_id) {
+    query = query.eq('collection_id', filter.collection_id);
+  }
+
+  return query;
+}
+
 /**
  * Fetch assets with filtering and pagination
  * 
  * @param options The fetch options
  * @returns Assets and pagination info
  */
-export async function fetchAssets(options?: {
-  source?: AssetSource;
+export async function fetchAssets(options?: AssetFilter & {
   limit?: number;
   page?: number;
-  variation_group_id?: string;
 }): Promise<{
   assets: Asset[];
   totalCount: number;
@@ -323,20 +356,8 @@ export async function fetchAssets(options?: {
     const page = options?.page || 1;
     const offset = (page - 1) * limit;
     
-    // Base query
-    let query = supabase
-      .from('assets')
-      .select('*', { count: 'exact' });
-    
-    // Add source filter if provided
-    if (options?.source) {
-      query = query.eq('source', options.source);
-    }
-    
-    // Add variation_group_id filter if provided
-    if (options?.variation_group_id) {
-      query = query.eq('variation_group_id', options.variation_group_id);
-    }
+    // Base query with the source, variation group and collection filters
+    let query = filteredAssetsQuery(options, { count: 'exact' });
     
     // Add pagination
     query = query
@@ -361,6 +382,39 @@ export async function fetchAssets(options?: {
   }
 }
 
+/**
+ * Fetch every asset matching a filter, newest first, e.g. to select all of them
+ * 
+ * @param filter The filter to match
+ * @returns All matching assets
+ */
+export async function fetchAllAssets(filter?: AssetFilter): Promise<Asset[]> {
+  // Rows per request, the API caps a single response at 1000
+  const batchSize = 1000;
+  const assets: Asset[] = [];
+
+  try {
+    for (let offset = 0; ; offset += batchSize) {
+      const { data, error } = await filteredAssetsQuery(filter)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + batchSize - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      assets.push(...(data as Asset[]));
+
+      if (data.length < batchSize) {
+        return assets;
+      }
+    }
+  } catch (err) {
+    logError(`Error fetching all assets: ${err instanceof Error ? err.message : String(err)}`);
+    throw err;
+  }
+}
+
 /**
  * Fetch variations of an asset by their variation group ID
  * 
@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import { trackEvent } from '@/lib/posthog';
+import {
+  checkUserCreditsForAutomation,
+  createAutomationSession,
+  generatePrompts
+} from './automationService';
+
+// Rows per import, each becomes its own session
+export const MAX_IMPORT_ROWS = 100;
+
+// Sessions created and started at the same time
+const IMPORT_CONCURRENCY = 3;
+
+export const IMPORT_LAYOUTS = ['auto', 'square', 'landscape', 'portrait'] as const;
+
+export const IMPORT_COLUMNS = [
+  'product_image_url',
+  'brand_logo_url',
+  'reference_ad_url',
+  'instructions',
+  'variation_count',
+  'layout'
+] as const;
+
+export interface AutomationImportRow {
+  productImageUrl: string;
+  brandLogoUrl?: string;
+  referenceAdUrl?: string;
+  instructions?: string;
+  variationCount: number;
+  layout: typeof IMPORT_LAYOUTS[number];
+}
+
+export interface ImportRowResult {
+  // Line in the CSV file, or position in the JSON array, starting at 1
+  line: number;
+  row: AutomationImportRow | null;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportRowResult[];
+  validRows: number;
+  invalidRows: number;
+  totalCredits: number;
+  availableCredits: number;
+  hasEnoughCredits: boolean;
+}
+
+export interface ImportRunResult {
+  line: number;
+  sessionId?: string;
+  error?: string;
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const imageUrl = z.string().trim().refine(isHttpUrl, 'must be a valid http:// or https:// URL');
+
+// Empty cells count as missing
+const blankToUndefined = (value: unknown) => typeof value === 'string' && !value.trim() ? undefined : value;
+
+const optionalUrl = z.preprocess(blankToUndefined, imageUrl.optional());
+
+const importRowSchema = z.object({
+  product_image_url: z.preprocess(blankToUndefined, z.string({ required_error: 'is required' }).pipe(imageUrl)),
+  brand_logo_url: optionalUrl,
+  reference_ad_url: optionalUrl,
+  instructions: z.preprocess(blankToUndefined, z.string().trim().max(2000, 'must be at most 2000 characters').optional()),
+  variation_count: z.preprocess(
+    value => blankToUndefined(value) === undefined ? 3 : Number(value),
+    z.number({ invalid_type_error: 'must be a number' }).int('must be a whole number').min(1, 'must be at least 1').max(10, 'must be at most 10')
+  ),
+  layout: z.preprocess(
+    value => blankToUndefined(value) === undefined ? 'auto' : String(value).trim().toLowerCase(),
+    z.enum(IMPORT_LAYOUTS, { errorMap: () => ({ message: `must be one of ${IMPORT_LAYOUTS.join(', ')}` }) })
+  )
+});
+
+/**
+ * Maps header spellings like "Product Image URL" or "productImageUrl" to the column names
+ */
+function normalizeColumnName(name: string): string {
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return IMPORT_COLUMNS.find(column => column.replace(/_/g, '') === key) ?? name.trim();
+}
+
+interface CsvRow {
+  // File line the row starts on
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Splits CSV text into rows of fields. Supports quoted fields with commas,
+ * escaped quotes and line breaks.
+ */
+function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  // Drop blank lines
+  return rows.filter(({ fields }) => fields.some(value => value.trim()));
+}
+
+interface ImportRecord {
+  line: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Reads a CSV or JSON import file into records keyed by column name
+ */
+async function readImportRecords(file: File): Promise<ImportRecord[]> {
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+
+  if (isJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON imports must contain an array of rows');
+    }
+
+    return parsed.map((item, index) => ({
+      line: index + 1,
+      values: item && typeof item === 'object'
+        ? Object.fromEntries(Object.entries(item).map(([key, value]) => [normalizeColumnName(key), value]))
+        : {}
+    }));
+  }
+
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.fields.map(normalizeColumnName);
+  if (!columns.includes('product_image_url')) {
+    throw new Error('The CSV header needs a product_image_url column');
+  }
+
+  return lines.map(({ line, fields }) => ({
+    line,
+    values: Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? '']))
+  }));
+}
+
+/**
+ * Validates an import file row by row and costs the valid rows in credits.
+ * Nothing is created, rows with errors are skipped by runAutomationImport.
+ */
+export async function previewAutomationImport(file: File): Promise<ImportPreview> {
+  const records = await readImportRecords(file);
+
+  if (records.length === 0) {
+    throw new Error('The file has no rows to import');
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Imports can have at most ${MAX_IMPORT_ROWS} rows, this file has ${records.length}`);
+  }
+
+  const rows = records.map(({ line, values }): ImportRowResult => {
+    const result = importRowSchema.safeParse(values);
+
+    if (!result.success) {
+      return {
+        line,
+        row: null,
+        errors: result.error.issues.map(issue => `${issue.path.join('.') || 'row'} ${issue.message}`)
+      };
+    }
+
+    const { data } = result;
+    return {
+      line,
+      row: {
+        productImageUrl: data.product_image_url,
+        brandLogoUrl: data.brand_logo_url,
+        referenceAdUrl: data.reference_ad_url,
+        instructions: data.instructions,
+        variationCount: data.variation_count,
+        layout: data.layout
+      },
+      errors: []
+    };
+  });
+
+  const validRows = rows.filter(row => row.row);
+  const totalCredits = validRows.reduce((sum, row) => sum + (row.row?.variationCount ?? 0), 0);
+  const { credits } = await checkUserCreditsForAutomation(totalCredits);
+
+  return {
+    rows,
+    validRows: validRows.length,
+    invalidRows: rows.length - validRows.length,
+    totalCredits,
+    availableCredits: credits,
+    hasEnoughCredits: credits >= totalCredits
+  };
+}
+
+/**
+ * Creates and starts one automation session per valid row, a few at a time.
+ * Each session reserves its own credits, a row that fails does not stop the others.
+ * @param onRowDone Called after each row with the number handled so far
+ */
+export async function runAutomationImport(
+  rows: ImportRowResult[],
+  onRowDone?: (done: number, total: number) => void
+): Promise<ImportRunResult[]> {
+  const pending = rows.filter(row => row.row);
+  const total = pending.length;
+  const results: ImportRunResult[] = [];
+
+  const runNext = async (): Promise<void> => {
+    const next = pending.shift();
+    if (!next?.row) return;
+
+    const { line, row } = next;
+
+    try {
+      const sessionId = await createAutomationSession(
+        row.productImageUrl,
+        row.brandLogoUrl,
+        row.referenceAdUrl,
+        row.instructions,
+        row.variationCount,
+        row.layout
+      );
+      await generatePrompts(sessionId);
+      results.push({ line, sessionId });
+    } catch (error) {
+      console.error(`Error importing row ${line}:`, error);
+      results.push({ line, error: error instanceof Error ? error.message : 'An unexpected error occurred' });
+    }
+
+    onRowDone?.(results.length, total);
+    return runNext();
+  };
+
+  await Promise.all(Array.from({ length: Math.min(IMPORT_CONCURRENCY, total) }, runNext));
+
+  trackEvent('automation_import_completed', {
+    row_count: total,
+    sessions_created: results.filter(result => result.sessionId).length,
+    rows_failed: results.filter(result => result.error).length
+  });
+
+  return results.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * CSV with the import columns and an example row
+ */
+export function getImportTemplate(): string {
+  return [
+    IMPORT_COLUMNS.join(','),
+    'https://example.com/product.png,,https://example.com/reference-ad.png,"Bright summer colors, bold headline",3,square'
+  ].join('\n');
+}
@@ -0,0 +1,221 @@
+import { supabase } from '@/lib/supabase';
+import { trackEvent } from '@/lib/posthog';
+import { uploadImageFile } from './imageService';
+import type { AutomationImageSource } from './automationService';
+
+export interface AutomationPreset {
+  id: string;
+  user_id: string;
+  name: string;
+  brand_logo_url?: string | null;
+  reference_ad_url?: string | null;
+  instructions?: string | null;
+  layout: string;
+  variation_count: number;
+  review_prompts: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Builder inputs a preset captures, everything except the product image
+export interface AutomationPresetSettings {
+  brandLogo?: AutomationImageSource | null;
+  referenceAd?: AutomationImageSource | null;
+  instructions?: string;
+  layout: string;
+  variationCount: number;
+  reviewPrompts?: boolean;
+}
+
+/**
+ * Uploads a file picked in the builder so the preset keeps it. URLs of
+ * library and sample images are stored as they are.
+ */
+async function resolvePresetImage(source?: AutomationImageSource | null): Promise<string | null> {
+  if (!source) return null;
+  return typeof source === 'string' ? source : uploadImageFile(source);
+}
+
+async function toPresetColumns(settings: AutomationPresetSettings) {
+  const [brandLogoUrl, referenceAdUrl] = await Promise.all([
+    resolvePresetImage(settings.brandLogo),
+    resolvePresetImage(settings.referenceAd)
+  ]);
+
+  return {
+    brand_logo_url: brandLogoUrl,
+    reference_ad_url: referenceAdUrl,
+    instructions: settings.instructions?.trim() || null,
+    layout: settings.layout,
+    variation_count: settings.variationCount,
+    review_prompts: !!settings.reviewPrompts
+  };
+}
+
+/**
+ * Lists the user's presets, the most recently changed first
+ */
+export async function fetchAutomationPresets(): Promise<AutomationPreset[]> {
+  try {
+    const { data, error } = await supabase
+      .from('automation_presets')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching automation presets:', error);
+      return [];
+    }
+
+    return data as AutomationPreset[];
+  } catch (error) {
+    console.error('Error fetching automation presets:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetches one preset, null when it does not exist or belongs to another account
+ */
+export async function fetchAutomationPreset(presetId: string): Promise<AutomationPreset | null> {
+  try {
+    const { data, error } = await supabase
+      .from('automation_presets')
+      .select('*')
+      .eq('id', presetId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching automation preset:', error);
+      return null;
+    }
+
+    return data as AutomationPreset | null;
+  } catch (error) {
+    console.error('Error fetching automation preset:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves the builder settings as a new named preset
+ */
+export async function createAutomationPreset(name: string, settings: AutomationPresetSettings): Promise<AutomationPreset> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('automation_presets')
+      .insert({
+        user_id: user.id,
+        name: name.trim(),
+        ...await toPresetColumns(settings)
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save preset: ${error.message}`);
+    }
+
+    trackEvent('automation_preset_created', {
+      preset_id: data.id,
+      layout: settings.layout,
+      variation_count: settings.variationCount,
+      has_reference_ad: !!data.reference_ad_url,
+      has_instructions: !!data.instructions
+    });
+
+    return data as AutomationPreset;
+  } catch (error) {
+    console.error('Error creating automation preset:', error);
+    throw error;
+  }
+}
+
+/**
+ * Overwrites a preset with the current builder settings, keeping its name
+ */
+export async function updateAutomationPreset(presetId: string, settings: AutomationPresetSettings): Promise<AutomationPreset> {
+  try {
+    const { data, error } = await supabase
+      .from('automation_presets')
+      .update({
+        ...await toPresetColumns(settings),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', presetId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update preset: ${error.message}`);
+    }
+
+    trackEvent('automation_preset_updated', { preset_id: presetId });
+
+    return data as AutomationPreset;
+  } catch (error) {
+    console.error('Error updating automation preset:', error);
+    throw error;
+  }
+}
+
+export async function renameAutomationPreset(presetId: string, name: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('automation_presets')
+      .update({ name: name.trim(), updated_at: new Date().toISOString() })
+      .eq('id', presetId);
+
+    if (error) {
+      throw new Error(`Failed to rename preset: ${error.message}`);
+    }
+  } catch (error) {
+    console.error('Error renaming automation preset:', error);
+    throw error;
+  }
+}
+
+/**
+ * Copies a preset under a new name, e.g. to try a variant of its instructions
+ */
+export async function duplicateAutomationPreset(preset: AutomationPreset): Promise<AutomationPreset> {
+  return createAutomationPreset(`${preset.name} (copy)`.slice(0, 100), {
+    brandLogo: preset.brand_logo_url,
+    referenceAd: preset.reference_ad_url,
+    instructions: preset.instructions ?? undefined,
+    layout: preset.layout,
+    variationCount: preset.variation_count,
+    reviewPrompts: preset.review_prompts
+  });
+}
+
+export async function deleteAutomationPreset(presetId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('automation_presets')
+      .delete()
+      .eq('id', presetId);
+
+    if (error) {
+      throw new Error(`Failed to delete preset: ${error.message}`);
+    }
+
+    trackEvent('automation_preset_deleted', { preset_id: presetId });
+  } catch (error) {
+    console.error('Error deleting automation preset:', error);
+    throw error;
+  }
+}
+
+/**
+ * Link that opens the automation builder with the preset applied. It only
+ * opens for the account that owns the preset.
+ */
+export function getPresetShareLink(presetId: string): string {
+  return `${window.location.origin}/automation-builder?preset=${presetId}`;
+}
@@ -0,0 +1,236 @@
+import { format } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { trackEvent } from '@/lib/posthog';
+import { uploadImageFile } from './imageService';
+import { uploadFromUrl } from './AssetsService';
+import type { AutomationImageSource } from './automationService';
+
+export type ScheduleFrequency = 'once' | 'daily' | 'weekly';
+
+// A fixed product image, or the Shopify products added since the previous run
+export type ScheduleProductSource = 'image' | 'shopify_new_products';
+
+export type ScheduleStatus = 'active' | 'paused' | 'completed';
+
+export interface AutomationSchedule {
+  id: string;
+  user_id: string;
+  name: string;
+  product_source: ScheduleProductSource;
+  product_image_url?: string | null;
+  brand_logo_url?: string | null;
+  reference_ad_url?: string | null;
+  instructions?: string | null;
+  layout: string;
+  variation_count: number;
+  frequency: ScheduleFrequency;
+  next_run_at?: string | null;
+  last_run_at?: string | null;
+  status: ScheduleStatus;
+  paused_reason?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AutomationScheduleRun {
+  id: string;
+  schedule_id: string;
+  scheduled_for: string;
+  status: 'started' | 'skipped' | 'paused' | 'failed';
+  campaign_id?: string | null;
+  product_count: number;
+  credits_reserved: number;
+  message?: string | null;
+  created_at: string;
+}
+
+/**
+ * Describes when a schedule runs, e.g. "Every Monday at 9:00 AM"
+ */
+export function describeScheduleCadence(frequency: ScheduleFrequency, runAt: Date): string {
+  const time = format(runAt, 'h:mm a');
+
+  if (frequency === 'daily') return `Every day at ${time}`;
+  if (frequency === 'weekly') return `Every ${format(runAt, 'EEEE')} at ${time}`;
+  return `Once on ${format(runAt, 'MMM d')} at ${time}`;
+}
+
+/**
+ * Copies an uploaded file or picked image URL into storage so the schedule
+ * keeps it between runs
+ */
+async function uploadScheduleImage(source?: AutomationImageSource | null): Promise<string | null> {
+  if (!source) return null;
+  if (typeof source === 'string') return (await uploadFromUrl(source, { source: 'reference' })).original_url;
+  return uploadImageFile(source);
+}
+
+/**
+ * Saves automation settings to run at `firstRunAt`, and then daily or weekly
+ * at the same time for recurring schedules. The scheduler creates a campaign
+ * for every run and reserves its credits then, nothing is charged up front.
+ */
+export async function createAutomationSchedule(options: {
+  name: string;
+  productSource: ScheduleProductSource;
+  productImage?: AutomationImageSource | null;
+  brandLogo?: AutomationImageSource | null;
+  referenceAd?: AutomationImageSource | null;
+  instructions?: string;
+  variationCount: number;
+  layout?: string;
+  frequency: ScheduleFrequency;
+  firstRunAt: Date;
+}): Promise<AutomationSchedule> {
+  const { name, productSource, instructions, variationCount, layout = 'auto', frequency, firstRunAt } = options;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (productSource === 'image' && !options.productImage) {
+      throw new Error('A product image is required');
+    }
+
+    const [productImageUrl, brandLogoUrl, referenceAdUrl] = await Promise.all([
+      productSource === 'image' ? uploadScheduleImage(options.productImage) : Promise.resolve(null),
+      uploadScheduleImage(options.brandLogo),
+      uploadScheduleImage(options.referenceAd)
+    ]);
+
+    const { data, error } = await supabase
+      .from('automation_schedules')
+      .insert({
+        user_id: user.id,
+        name,
+        product_source: productSource,
+        product_image_url: productImageUrl,
+        brand_logo_url: brandLogoUrl,
+        reference_ad_url: referenceAdUrl,
+        instructions: instructions || null,
+        layout,
+        variation_count: variationCount,
+        frequency,
+        next_run_at: firstRunAt.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save schedule: ${error.message}`);
+    }
+
+    trackEvent('automation_schedule_created', {
+      schedule_id: data.id,
+      product_source: productSource,
+      frequency,
+      variation_count: variationCount,
+      layout,
+      has_reference_ad: !!referenceAdUrl,
+      has_instructions: !!instructions
+    });
+
+    return data as AutomationSchedule;
+  } catch (error) {
+    console.error('Error creating automation schedule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Lists the user's schedules, active ones first
+ */
+export async function fetchAutomationSchedules(): Promise<AutomationSchedule[]> {
+  try {
+    const { data, error } = await supabase
+      .from('automation_schedules')
+      .select('*')
+      .order('status', { ascending: true })
+      .order('next_run_at', { ascending: true, nullsFirst: false });
+
+    if (error) {
+      console.error('Error fetching automation schedules:', error);
+      return [];
+    }
+
+    return data as AutomationSchedule[];
+  } catch (error) {
+    console.error('Error fetching automation schedules:', error);
+    return [];
+  }
+}
+
+/**
+ * Pauses or resumes a schedule. A schedule the scheduler paused for missing
+ * credits runs its missed run on resume, as soon as the scheduler runs again.
+ */
+export async function setAutomationScheduleStatus(
+  scheduleId: string,
+  status: Exclude<ScheduleStatus, 'completed'>
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('automation_schedules')
+      .update({ status, paused_reason: null, updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .neq('status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to update schedule: ${error.message}`);
+    }
+
+    trackEvent(status === 'active' ? 'automation_schedule_resumed' : 'automation_schedule_paused', {
+      schedule_id: scheduleId
+    });
+  } catch (error) {
+    console.error('Error updating automation schedule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a schedule and its run history. Campaigns it created are kept.
+ */
+export async function deleteAutomationSchedule(scheduleId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('automation_schedules')
+      .delete()
+      .eq('id', scheduleId);
+
+    if (error) {
+      throw new Error(`Failed to delete schedule: ${error.message}`);
+    }
+
+    trackEvent('automation_schedule_deleted', { schedule_id: scheduleId });
+  } catch (error) {
+    console.error('Error deleting automation schedule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Latest runs of a schedule, newest first
+ */
+export async function fetchScheduleRuns(scheduleId: string, limit: number = 10): Promise<AutomationScheduleRun[]> {
+  try {
+    const { data, error } = await supabase
+      .from('automation_schedule_runs')
+      .select('*')
+      .eq('schedule_id', scheduleId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching schedule runs:', error);
+      return [];
+    }
+
+    return data as AutomationScheduleRun[];
+  } catch (error) {
+    console.error('Error fetching schedule runs:', error);
+    return [];
+  }
+}
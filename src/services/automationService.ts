@@ -1,6 +1,9 @@
 import { supabase } from '@/lib/supabase';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
 import { trackEvent } from '@/lib/posthog';
 import { uploadImageFile } from './imageService';
+import { uploadFromUrl } from './AssetsService';
+import type { TemplateValues } from './promptTemplateService';
 
 export interface AutomationSession {
   id: string;
@@ -14,6 +17,31 @@ export interface AutomationSession {
   created_at: string;
   updated_at: string;
   layout?: string;
+  error_message?: string;
+  review_prompts?: boolean;
+  launched_at?: string | null;
+  // Set on the child sessions of a multi-product campaign
+  campaign_id?: string | null;
+  product_title?: string | null;
+  // Set when the prompts are rendered from one of the user's templates
+  prompt_template_id?: string | null;
+  template_variables?: TemplateValues;
+  prompt_template_version?: string | null;
+}
+
+// Structured concept a prompt was written from, see supabase/functions/_shared/adConcepts.ts
+export interface AdConcept {
+  concept_name: string;
+  scene: string;
+  lighting: string;
+  camera: string;
+  text_overlay: {
+    headline: string;
+    supporting_text: string;
+    call_to_action: string;
+  };
+  focal_area: string;
+  target_audience: string;
 }
 
 export interface PromptVariation {
@@ -22,6 +50,8 @@ export interface PromptVariation {
   prompt: string;
   index: number;
   status: string;
+  // Null for prompts added or edited during review
+  concept?: AdConcept | null;
 }
 
 export interface GenerationJob {
@@ -31,26 +61,33 @@ export interface GenerationJob {
   image_url?: string;
   status: string;
   error_message?: string;
+  created_at?: string;
+  // Set once a re-roll replaced this output, the job then only shows in the history
+  replaced_at?: string | null;
+  rewrite_instruction?: string | null;
 }
 
+// An uploaded file, or the URL of an image that is copied into storage
+export type AutomationImageSource = File | string;
+
 /**
  * Prepares images for automation by uploading them to Supabase storage
- * @param productImage The product image file (required)
- * @param brandLogo The brand logo file (optional)
- * @param referenceAd The reference ad file (optional)
+ * @param productImage The product image file or URL (required)
+ * @param brandLogo The brand logo file or URL (optional)
+ * @param referenceAd The reference ad file or URL (optional)
  * @returns Object with URLs for the uploaded images
  */
 export async function prepareAutomationImages(
-  productImage: File,
-  brandLogo?: File | null,
-  referenceAd?: File | null
+  productImage: AutomationImageSource,
+  brandLogo?: AutomationImageSource | null,
+  referenceAd?: AutomationImageSource | null
 ): Promise<{
   productImageUrl: string;
   brandLogoUrl?: string;
   referenceAdUrl?: string;
 }> {
   // Create an array of all files to upload
-  const filesToUpload: Array<{file: File, type: 'product' | 'logo' | 'reference'}> = [];
+  const filesToUpload: Array<{file: AutomationImageSource, type: 'product' | 'logo' | 'reference'}> = [];
   
   if (productImage) {
     filesToUpload.push({ file: productImage, type: 'product' });
@@ -66,7 +103,10 @@ export async function prepareAutomationImages(
   
   // Upload all files in parallel
   const uploadPromises = filesToUpload.map(({ file, type }) => 
-    uploadImageFile(file).then(url => ({ url, type }))
+    (typeof file === 'string'
+      ? uploadFromUrl(file, { source: 'reference' }).then(asset => asset.original_url)
+      : uploadImageFile(file)
+    ).then(url => ({ url, type }))
   );
   
   const uploadResults = await Promise.all(uploadPromises);
@@ -94,7 +134,8 @@ export async function prepareAutomationImages(
 }
 
 /**
- * Check if user has enough credits for the requested number of variations
+ * Check if user has enough credits for the requested number of variations.
+ * Only used to warn early in the UI, the credits are reserved server-side.
  * @param variationCount Number of variations to generate
  * @returns Object with hasCredits and credits information
  */
@@ -137,21 +178,16 @@ export async function checkUserCreditsForAutomation(variationCount: number): Pro
 }
 
 export async function createAutomationSession(
-  productImage: File,
-  brandLogo?: File | null,
-  referenceAd?: File | null,
+  productImage: AutomationImageSource,
+  brandLogo?: AutomationImageSource | null,
+  referenceAd?: AutomationImageSource | null,
   instructions?: string,
   variationCount: number = 3,
-  layout: string = 'auto'
+  layout: string = 'auto',
+  reviewPrompts: boolean = false,
+  promptTemplate?: { id: string; variables: TemplateValues } | null
 ): Promise<string> {
   try {
-    // First check if user has enough credits
-    const { hasCredits, credits } = await checkUserCreditsForAutomation(variationCount);
-    
-    if (!hasCredits) {
-      throw new Error(`You need ${variationCount} credits for this generation but only have ${credits} available.`);
-    }
-
     // Upload all images first using the prepareAutomationImages function
     const {
       productImageUrl,
@@ -164,47 +200,23 @@ export async function createAutomationSession(
       throw new Error('Failed to upload product image');
     }
     
-    // Get the current session
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      throw new Error('You must be logged in to create an automation session');
-    }
-    
-    // Deduct credits first
-    const { error: deductError } = await supabase.rpc("deduct_multiple_credits", { 
-      user_id_param: session.user.id, 
-      amount: variationCount 
-    });
-    
-    if (deductError) {
-      console.error('Error deducting credits:', deductError);
-      throw new Error(`Failed to deduct credits: ${deductError.message}`);
-    }
-    
-    // Now call the edge function to create a session
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/create-automation-session`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${session.access_token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    // Create the session, the edge function reserves the credits and fails
+    // with INSUFFICIENT_CREDITS when the balance is too low
+    const { session: createdSession } = await invokeEdgeFunction<{ session: { id: string; status: string } }>(
+      'create-automation-session',
+      {
         productImageUrl,
         brandLogoUrl: brandLogoUrl || null,
         referenceAdUrl: referenceAdUrl || null,
         instructions: instructions || null,
         variationCount,
-        layout
-      }),
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'Failed to create automation session');
-    }
-    
-    const { session: createdSession } = await response.json();
+        layout,
+        reviewPrompts,
+        promptTemplateId: promptTemplate?.id ?? null,
+        templateVariables: promptTemplate?.variables ?? {}
+      },
+      { fallbackMessage: 'Failed to create automation session' }
+    );
     
     // Track the event
     trackEvent('automation_session_created', {
@@ -214,7 +226,9 @@ export async function createAutomationSession(
       has_brand_logo: !!brandLogoUrl,
       has_reference_ad: !!referenceAdUrl,
       has_instructions: !!instructions,
-      credits_used: variationCount
+      review_prompts: reviewPrompts,
+      prompt_template_id: promptTemplate?.id ?? null,
+      credits_reserved: variationCount
     });
     
     return createdSession.id;
@@ -224,42 +238,98 @@ export async function createAutomationSession(
   }
 }
 
-export async function generatePrompts(sessionId: string): Promise<void> {
+/**
+ * Generates the prompts of a session. Sessions created with reviewPrompts
+ * stop at prompts_generated and resolve with awaitingReview set, their
+ * images are only generated once launchAutomationSession is called.
+ */
+export async function generatePrompts(sessionId: string): Promise<{
+  prompts: string[];
+  concepts: AdConcept[];
+  awaitingReview: boolean;
+}> {
   try {
-    // Get the current session
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      throw new Error('You must be logged in to generate prompts');
-    }
-    
     // Call the edge function to generate prompts
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-prompt-variations`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${session.access_token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        sessionId,
-      }),
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'Failed to generate prompts');
-    }
+    const { prompts, concepts, awaitingReview } = await invokeEdgeFunction<{
+      prompts: string[];
+      concepts: AdConcept[];
+      awaitingReview: boolean;
+    }>(
+      'generate-prompt-variations',
+      { sessionId },
+      { fallbackMessage: 'Failed to generate prompts' }
+    );
     
     // Track the event
     trackEvent('automation_prompts_generated', {
-      session_id: sessionId
+      session_id: sessionId,
+      prompt_count: prompts.length,
+      awaiting_review: awaitingReview
     });
+
+    return { prompts, concepts, awaitingReview };
   } catch (error) {
     console.error('Error generating prompts:', error);
     throw error;
   }
 }
 
+/**
+ * Queues the reviewed prompts of a session waiting for review, in the given
+ * order. Credits reserved for prompts that were removed are returned.
+ * @param sessionId Session waiting at prompts_generated
+ * @param prompts The final prompts, at most the session's variation count
+ * @returns The number of images being generated and the credits returned
+ */
+export async function launchAutomationSession(sessionId: string, prompts: string[]): Promise<{
+  promptCount: number;
+  creditsReturned: number;
+}> {
+  try {
+    const { promptCount, creditsReturned } = await invokeEdgeFunction<{ promptCount: number; creditsReturned: number }>(
+      'launch-automation-session',
+      { sessionId, prompts },
+      { fallbackMessage: 'Failed to launch automation session' }
+    );
+
+    trackEvent('automation_session_launched', {
+      session_id: sessionId,
+      prompt_count: promptCount,
+      credits_returned: creditsReturned
+    });
+
+    return { promptCount, creditsReturned };
+  } catch (error) {
+    console.error('Error launching automation session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Lists the user's sessions whose generated prompts wait for review
+ */
+export async function fetchSessionsAwaitingReview(): Promise<AutomationSession[]> {
+  try {
+    const { data, error } = await supabase
+      .from('automation_sessions')
+      .select('*')
+      .eq('status', 'prompts_generated')
+      .eq('review_prompts', true)
+      .is('launched_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching sessions awaiting review:', error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching sessions awaiting review:', error);
+    return [];
+  }
+}
+
 export async function fetchAutomationSession(sessionId: string): Promise<AutomationSession | null> {
   try {
     const { data, error } = await supabase
@@ -317,7 +387,8 @@ export async function fetchGenerationJobs(sessionId: string): Promise<Generation
     const { data, error } = await supabase
       .from('generation_jobs')
       .select('*')
-      .in('variation_id', variations.map(v => v.id));
+      .in('variation_id', variations.map(v => v.id))
+      .is('replaced_at', null);
       
     if (error) {
       console.error('Error fetching generation jobs:', error);
@@ -329,4 +400,400 @@ export async function fetchGenerationJobs(sessionId: string): Promise<Generation
     console.error('Error fetching generation jobs:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Generates a single variation again. With an instruction the prompt is
+ * rewritten first, otherwise the same prompt is used. Costs one credit, the
+ * previous output stays in the variation's history.
+ * @param variationId The variation to generate again
+ * @param instruction Optional change to apply to the prompt
+ * @returns The queued job and the prompt it generates
+ */
+export async function rerollVariation(variationId: string, instruction?: string): Promise<{
+  jobId: string;
+  prompt: string;
+}> {
+  try {
+    const { jobId, prompt, rewritten } = await invokeEdgeFunction<{ jobId: string; prompt: string; rewritten: boolean }>(
+      'reroll-variation',
+      { variationId, instruction: instruction || undefined },
+      { fallbackMessage: 'Failed to regenerate the ad' }
+    );
+
+    trackEvent('automation_variation_rerolled', {
+      variation_id: variationId,
+      job_id: jobId,
+      rewritten
+    });
+
+    return { jobId, prompt };
+  } catch (error) {
+    console.error('Error re-rolling variation:', error);
+    throw error;
+  }
+}
+
+/**
+ * The ad concept of a variation, null when its prompt was written by the user
+ */
+export async function fetchVariationConcept(variationId: string): Promise<AdConcept | null> {
+  try {
+    const { data, error } = await supabase
+      .from('prompt_variations')
+      .select('concept')
+      .eq('id', variationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching variation concept:', error);
+      return null;
+    }
+
+    return (data?.concept as AdConcept | null) ?? null;
+  } catch (error) {
+    console.error('Error fetching variation concept:', error);
+    return null;
+  }
+}
+
+/**
+ * Lists every output of a variation, the current one first
+ */
+export async function fetchVariationHistory(variationId: string): Promise<GenerationJob[]> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('variation_id', variationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching variation history:', error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching variation history:', error);
+    return [];
+  }
+}
+
+export type SessionControlAction = 'pause' | 'resume' | 'cancel';
+
+export interface SessionControlResult {
+  status: string;
+  creditsReturned: number;
+}
+
+export interface ActiveAutomationSession extends AutomationSession {
+  total_jobs: number;
+  finished_jobs: number;
+}
+
+/**
+ * Pauses, resumes or cancels a session through the control-automation-session edge function
+ */
+async function controlAutomationSession(sessionId: string, action: SessionControlAction): Promise<SessionControlResult> {
+  try {
+    const { status, creditsReturned } = await invokeEdgeFunction<SessionControlResult>(
+      'control-automation-session',
+      { sessionId, action },
+      { fallbackMessage: `Failed to ${action} automation session` }
+    );
+
+    trackEvent(`automation_session_${action === 'cancel' ? 'cancelled' : `${action}d`}`, {
+      session_id: sessionId,
+      credits_returned: creditsReturned
+    });
+
+    return { status, creditsReturned };
+  } catch (error) {
+    console.error(`Error trying to ${action} automation session:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Stops workers from starting queued jobs of the session, running jobs finish
+ */
+export function pauseAutomationSession(sessionId: string): Promise<SessionControlResult> {
+  return controlAutomationSession(sessionId, 'pause');
+}
+
+/**
+ * Restarts the workers of a paused session
+ */
+export function resumeAutomationSession(sessionId: string): Promise<SessionControlResult> {
+  return controlAutomationSession(sessionId, 'resume');
+}
+
+/**
+ * Cancels the queued jobs of a session and returns their credits. Jobs that
+ * are already generating finish and are charged.
+ */
+export function cancelAutomationSession(sessionId: string): Promise<SessionControlResult> {
+  return controlAutomationSession(sessionId, 'cancel');
+}
+
+/**
+ * Lists the user's sessions that are generating or paused, with their job progress
+ */
+export async function fetchActiveSessions(): Promise<ActiveAutomationSession[]> {
+  try {
+    const { data: sessions, error } = await supabase
+      .from('automation_sessions')
+      .select('*')
+      .in('status', ['prompts_generated', 'paused'])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching active sessions:', error);
+      return [];
+    }
+
+    // Sessions waiting for prompt review have no jobs yet
+    const active = (sessions as AutomationSession[]).filter(session => !session.review_prompts || session.launched_at);
+    if (active.length === 0) return [];
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('generation_jobs')
+      .select('status, prompt_variations!inner(session_id)')
+      .in('prompt_variations.session_id', active.map(session => session.id))
+      .is('replaced_at', null);
+
+    if (jobsError) {
+      console.error('Error fetching active session jobs:', jobsError);
+    }
+
+    const rows = (jobs ?? []) as unknown as Array<{ status: string; prompt_variations: { session_id: string } }>;
+
+    return active.map(session => {
+      const sessionJobs = rows.filter(job => job.prompt_variations.session_id === session.id);
+      return {
+        ...session,
+        total_jobs: sessionJobs.length,
+        finished_jobs: sessionJobs.filter(job => !['queued', 'in_progress'].includes(job.status)).length
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching active sessions:', error);
+    return [];
+  }
+}
+
+export interface CampaignProduct {
+  imageUrl: string;
+  title?: string;
+  // Shopify product ID, kept on the uploaded asset. Images without one, e.g.
+  // from the library, are copied as reference images.
+  shopifyProductId?: string;
+}
+
+export interface AutomationCampaign {
+  id: string;
+  user_id: string;
+  name: string;
+  product_count: number;
+  variation_count: number;
+  reference_ad_url?: string | null;
+  brand_logo_url?: string | null;
+  instructions?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampaignProgress extends AutomationCampaign {
+  sessions: AutomationSession[];
+  total_jobs: number;
+  finished_jobs: number;
+  failed_jobs: number;
+}
+
+// Products per campaign, enforced by create-automation-campaign
+export const MAX_CAMPAIGN_PRODUCTS = 25;
+
+// Child sessions whose prompts are written at the same time
+const CAMPAIGN_PROMPT_CONCURRENCY = 3;
+
+/**
+ * Creates a campaign with one child session per product, all sharing the same
+ * reference ad, instructions and variation count. The credits of the whole
+ * campaign are reserved at once, the edge function fails with
+ * INSUFFICIENT_CREDITS when the balance does not cover every product.
+ * @returns The campaign ID and the IDs of its sessions, still in draft
+ */
+export async function createAutomationCampaign(options: {
+  name?: string;
+  products: CampaignProduct[];
+  // An uploaded file, or the URL of an image picked from the library or store
+  referenceAd?: File | null;
+  referenceAdUrl?: string | null;
+  instructions?: string;
+  variationCount: number;
+  layout?: string;
+}): Promise<{ campaignId: string; sessionIds: string[] }> {
+  const { name, products, referenceAd, instructions, variationCount, layout = 'auto' } = options;
+
+  const uploadReferenceAd = async (): Promise<string | undefined> => {
+    if (referenceAd) return uploadImageFile(referenceAd);
+    if (options.referenceAdUrl) return (await uploadFromUrl(options.referenceAdUrl, { source: 'reference' })).original_url;
+    return undefined;
+  };
+
+  try {
+    // Copy the product images into storage so the sessions keep them
+    const [uploadedProducts, referenceAdUrl] = await Promise.all([
+      Promise.all(products.map(async product => {
+        const asset = await uploadFromUrl(product.imageUrl, {
+          source: product.shopifyProductId ? 'shopify' : 'reference',
+          source_ref: product.shopifyProductId
+        });
+        return { productImageUrl: asset.original_url, title: product.title };
+      })),
+      uploadReferenceAd()
+    ]);
+
+    const { campaign, sessions, creditsReserved } = await invokeEdgeFunction<{
+      campaign: { id: string; name: string };
+      sessions: Array<{ id: string; product_title: string | null; status: string }>;
+      creditsReserved: number;
+    }>(
+      'create-automation-campaign',
+      {
+        name: name || null,
+        products: uploadedProducts,
+        referenceAdUrl: referenceAdUrl || null,
+        instructions: instructions || null,
+        variationCount,
+        layout
+      },
+      { fallbackMessage: 'Failed to create campaign' }
+    );
+
+    trackEvent('automation_campaign_created', {
+      campaign_id: campaign.id,
+      product_count: sessions.length,
+      variation_count: variationCount,
+      layout,
+      has_reference_ad: !!referenceAdUrl,
+      has_instructions: !!instructions,
+      credits_reserved: creditsReserved
+    });
+
+    return { campaignId: campaign.id, sessionIds: sessions.map(session => session.id) };
+  } catch (error) {
+    console.error('Error creating automation campaign:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generates the prompts of a campaign's draft sessions, a few at a time. A
+ * session that fails is failed server-side and gets its credits back, the
+ * others keep going.
+ * @param onSessionDone Called after each session with the number handled so far
+ * @returns How many sessions started generating and how many failed
+ */
+export async function startCampaignSessions(
+  sessionIds: string[],
+  onSessionDone?: (done: number, total: number) => void
+): Promise<{ started: number; failed: number }> {
+  const pending = [...sessionIds];
+  let started = 0;
+  let failed = 0;
+
+  const runNext = async (): Promise<void> => {
+    const sessionId = pending.shift();
+    if (!sessionId) return;
+
+    try {
+      await generatePrompts(sessionId);
+      started++;
+    } catch (error) {
+      console.error(`Error starting campaign session ${sessionId}:`, error);
+      failed++;
+    }
+
+    onSessionDone?.(started + failed, sessionIds.length);
+    return runNext();
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(CAMPAIGN_PROMPT_CONCURRENCY, sessionIds.length) }, runNext)
+  );
+
+  return { started, failed };
+}
+
+/**
+ * Lists the user's latest campaigns with the progress of all their products
+ */
+export async function fetchAutomationCampaigns(limit: number = 5): Promise<CampaignProgress[]> {
+  try {
+    const { data: campaigns, error } = await supabase
+      .from('automation_campaigns')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching automation campaigns:', error);
+      return [];
+    }
+
+    if (!campaigns?.length) return [];
+
+    const campaignIds = campaigns.map(campaign => campaign.id);
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('automation_sessions')
+      .select('*')
+      .in('campaign_id', campaignIds)
+      .order('created_at', { ascending: true });
+
+    if (sessionsError) {
+      console.error('Error fetching campaign sessions:', sessionsError);
+      return [];
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('generation_jobs')
+      .select('status, prompt_variations!inner(session_id, automation_sessions!inner(campaign_id))')
+      .in('prompt_variations.automation_sessions.campaign_id', campaignIds)
+      .is('replaced_at', null);
+
+    if (jobsError) {
+      console.error('Error fetching campaign jobs:', jobsError);
+    }
+
+    const rows = (jobs ?? []) as unknown as Array<{ status: string; prompt_variations: { session_id: string } }>;
+
+    return (campaigns as AutomationCampaign[]).map(campaign => {
+      const campaignSessions = (sessions as AutomationSession[]).filter(session => session.campaign_id === campaign.id);
+      const progress = { total_jobs: 0, finished_jobs: 0, failed_jobs: 0 };
+
+      campaignSessions.forEach(session => {
+        const sessionJobs = rows.filter(job => job.prompt_variations.session_id === session.id);
+
+        // Products whose prompts are still being written count with their planned ads
+        if (sessionJobs.length === 0) {
+          if (['draft', 'generating_prompts', 'prompts_generated'].includes(session.status)) {
+            progress.total_jobs += session.variation_count;
+          }
+          return;
+        }
+
+        progress.total_jobs += sessionJobs.length;
+        progress.finished_jobs += sessionJobs.filter(job => !['queued', 'in_progress'].includes(job.status)).length;
+        progress.failed_jobs += sessionJobs.filter(job => job.status === 'failed').length;
+      });
+
+      return { ...campaign, sessions: campaignSessions, ...progress };
+    });
+  } catch (error) {
+    console.error('Error fetching automation campaigns:', error);
+    return [];
+  }
+}
@@ -0,0 +1,62 @@
+// creditService.ts - Services for the user's credit history
+import { supabase } from '@/lib/supabase';
+
+export type CreditTransactionType =
+  | 'purchase'
+  | 'subscription_grant'
+  | 'subscription_expiry'
+  | 'generation_debit'
+  | 'edit_debit'
+  | 'refund'
+  | 'admin_adjustment'
+  | 'signup_grant'
+  | 'opening_balance'
+  | 'reservation'
+  | 'reservation_release';
+
+export interface CreditTransaction {
+  id: string;
+  type: CreditTransactionType;
+  amount: number;
+  balance_after: number;
+  description: string | null;
+  session_id: string | null;
+  generation_job_id: string | null;
+  checkout_session_id: string | null;
+  reference: string | null;
+  created_at: string;
+}
+
+export const CREDIT_TRANSACTION_LABELS: Record<CreditTransactionType, string> = {
+  purchase: 'Purchase',
+  subscription_grant: 'Subscription',
+  subscription_expiry: 'Expired',
+  generation_debit: 'Generation',
+  edit_debit: 'Image edit',
+  refund: 'Refund',
+  admin_adjustment: 'Adjustment',
+  signup_grant: 'Welcome credits',
+  opening_balance: 'Opening balance',
+  reservation: 'Reserved',
+  reservation_release: 'Released'
+};
+
+// Get the user's credit transactions, newest first
+export async function getCreditTransactions(limit: number = 50, offset: number = 0): Promise<CreditTransaction[]> {
+  try {
+    const { data, error } = await supabase
+      .from('credit_transactions')
+      .select('id, type, amount, balance_after, description, session_id, generation_job_id, checkout_session_id, reference, created_at')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching credit transactions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,297 @@
+import { createZip, ZipEntry } from '@/lib/zip';
+import { trackEvent } from '@/lib/posthog';
+import { fetchPlacementVersions } from '@/services/placementService';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export type ExportPlatform = 'meta' | 'tiktok' | 'google_display' | 'pinterest';
+
+export interface ExportPreset {
+  id: string;
+  platform: ExportPlatform;
+  name: string;
+  width: number;
+  height: number;
+  // Formats the platform accepts, the first one is used unless another is preferred
+  formats: ExportFormat[];
+  // Upload limit of the platform
+  maxBytes: number;
+}
+
+export const EXPORT_PLATFORMS: { id: ExportPlatform; label: string }[] = [
+  { id: 'meta', label: 'Meta' },
+  { id: 'tiktok', label: 'TikTok' },
+  { id: 'google_display', label: 'Google Display' },
+  { id: 'pinterest', label: 'Pinterest' }
+];
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'meta-feed', platform: 'meta', name: 'Feed', width: 1080, height: 1080, formats: ['jpeg', 'png'], maxBytes: 30 * MB },
+  { id: 'meta-stories', platform: 'meta', name: 'Stories', width: 1080, height: 1920, formats: ['jpeg', 'png'], maxBytes: 30 * MB },
+  { id: 'tiktok-in-feed', platform: 'tiktok', name: 'In-Feed', width: 1080, height: 1920, formats: ['jpeg', 'png'], maxBytes: 500 * KB },
+  { id: 'google-display-300x250', platform: 'google_display', name: 'Medium Rectangle', width: 300, height: 250, formats: ['jpeg', 'png'], maxBytes: 150 * KB },
+  { id: 'google-display-728x90', platform: 'google_display', name: 'Leaderboard', width: 728, height: 90, formats: ['jpeg', 'png'], maxBytes: 150 * KB },
+  { id: 'google-display-160x600', platform: 'google_display', name: 'Wide Skyscraper', width: 160, height: 600, formats: ['jpeg', 'png'], maxBytes: 150 * KB },
+  { id: 'pinterest-standard', platform: 'pinterest', name: 'Standard Pin', width: 1000, height: 1500, formats: ['jpeg', 'png', 'webp'], maxBytes: 20 * MB }
+];
+
+/**
+ * Image to export, e.g. the current version of an automated ad
+ */
+export interface ExportAsset {
+  id: string;
+  // Used in the file names of the pack
+  name: string;
+  imageUrl: string;
+  // Generation job of an automated ad, its placement versions are used as sources
+  jobId?: string;
+}
+
+export interface ExportManifestFile {
+  path: string;
+  asset_id: string;
+  asset_name: string;
+  platform: ExportPlatform;
+  preset: string;
+  width: number;
+  height: number;
+  format: ExportFormat;
+  // Encoder quality of JPG and WebP files, null for PNG
+  quality: number | null;
+  bytes: number;
+  max_bytes: number;
+  within_limit: boolean;
+  // Image the file was rendered from: the asset itself or one of its placement versions
+  source: string;
+  source_url: string;
+}
+
+export interface ExportManifest {
+  created_at: string;
+  preferred_format: ExportFormat | null;
+  files: ExportManifestFile[];
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp'
+};
+
+// Qualities tried in turn until a JPG or WebP fits the platform's limit
+const QUALITY_STEPS = [0.92, 0.85, 0.75, 0.65, 0.5];
+
+interface ExportSource {
+  label: string;
+  url: string;
+  image: HTMLImageElement;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image ${url}`));
+    image.src = url;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, format: ExportFormat, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error(`Failed to encode ${format}`))),
+      `image/${format}`,
+      quality
+    );
+  });
+}
+
+function toFileName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'asset';
+}
+
+/**
+ * The asset and its placement versions, the renderer picks the one closest
+ * to each preset's aspect ratio so as little as possible is cropped
+ */
+async function loadExportSources(asset: ExportAsset): Promise<ExportSource[]> {
+  const candidates = [{ label: 'original', url: asset.imageUrl }];
+
+  if (asset.jobId) {
+    const versions = await fetchPlacementVersions(asset.jobId);
+    candidates.push(...versions.map(version => ({ label: version.placement, url: version.url })));
+  }
+
+  const sources = await Promise.all(candidates.map(async candidate => {
+    try {
+      return { ...candidate, image: await loadImage(candidate.url) };
+    } catch (error) {
+      console.error('Error loading export source:', error);
+      return null;
+    }
+  }));
+
+  return sources.filter((source): source is ExportSource => source !== null);
+}
+
+function pickSource(sources: ExportSource[], preset: ExportPreset): ExportSource {
+  const distance = (source: ExportSource) =>
+    Math.abs(Math.log((source.image.naturalWidth / source.image.naturalHeight) / (preset.width / preset.height)));
+
+  return sources.reduce((best, source) => (distance(source) < distance(best) ? source : best));
+}
+
+// Draws the source over the whole canvas, cropping what does not fit the aspect ratio
+function renderPreset(source: HTMLImageElement, preset: ExportPreset): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = preset.width;
+  canvas.height = preset.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  const scale = Math.max(preset.width / source.naturalWidth, preset.height / source.naturalHeight);
+  const width = source.naturalWidth * scale;
+  const height = source.naturalHeight * scale;
+
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, (preset.width - width) / 2, (preset.height - height) / 2, width, height);
+
+  return canvas;
+}
+
+/**
+ * Encodes a rendered preset within the platform's upload limit where possible.
+ * JPG and WebP step down in quality, a PNG that is too large is converted to
+ * JPG when the platform accepts it. The last attempt is returned even when it
+ * is still too large, the manifest flags it.
+ */
+async function encodePreset(
+  canvas: HTMLCanvasElement,
+  preset: ExportPreset,
+  preferredFormat: ExportFormat | null
+): Promise<{ blob: Blob; format: ExportFormat; quality: number | null }> {
+  const format = preferredFormat && preset.formats.includes(preferredFormat) ? preferredFormat : preset.formats[0];
+
+  if (format === 'png') {
+    const blob = await canvasToBlob(canvas, 'png');
+    if (blob.size <= preset.maxBytes || !preset.formats.includes('jpeg')) {
+      return { blob, format, quality: null };
+    }
+    return encodePreset(canvas, preset, 'jpeg');
+  }
+
+  let attempt: { blob: Blob; format: ExportFormat; quality: number | null } | null = null;
+
+  for (const quality of QUALITY_STEPS) {
+    const blob = await canvasToBlob(canvas, format, quality);
+
+    // Browsers without a WebP encoder hand back a PNG instead
+    if (blob.type !== `image/${format}`) {
+      return encodePreset(canvas, preset, preset.formats.find(accepted => accepted !== format) ?? 'png');
+    }
+
+    attempt = { blob, format, quality };
+    if (blob.size <= preset.maxBytes) break;
+  }
+
+  return attempt!;
+}
+
+/**
+ * Renders every asset into every chosen preset and bundles the files as a ZIP,
+ * one folder per platform, with a manifest.json describing each file and its
+ * size check
+ * @param assets The images to export
+ * @param presetIds IDs of the presets to render, see EXPORT_PRESETS
+ * @param preferredFormat Format to use where the platform accepts it, null for each platform's default
+ * @param onProgress Called after each rendered file
+ */
+export async function buildExportPack(
+  assets: ExportAsset[],
+  presetIds: string[],
+  preferredFormat: ExportFormat | null,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ zip: Blob; manifest: ExportManifest }> {
+  const presets = EXPORT_PRESETS.filter(preset => presetIds.includes(preset.id));
+
+  if (assets.length === 0 || presets.length === 0) {
+    throw new Error('Choose at least one image and one placement to export');
+  }
+
+  try {
+    const entries: ZipEntry[] = [];
+    const manifest: ExportManifest = {
+      created_at: new Date().toISOString(),
+      preferred_format: preferredFormat,
+      files: []
+    };
+    const total = assets.length * presets.length;
+    const usedNames = new Set<string>();
+
+    for (const asset of assets) {
+      const sources = await loadExportSources(asset);
+
+      if (sources.length === 0) {
+        throw new Error(`Failed to load "${asset.name}"`);
+      }
+
+      // Assets with the same name get a numbered suffix so no file is overwritten
+      let baseName = toFileName(asset.name);
+      for (let suffix = 2; usedNames.has(baseName); suffix++) {
+        baseName = `${toFileName(asset.name)}-${suffix}`;
+      }
+      usedNames.add(baseName);
+
+      for (const preset of presets) {
+        const source = pickSource(sources, preset);
+        const { blob, format, quality } = await encodePreset(renderPreset(source.image, preset), preset, preferredFormat);
+        const path = `${preset.platform}/${baseName}-${preset.id}-${preset.width}x${preset.height}.${FILE_EXTENSIONS[format]}`;
+
+        entries.push({ path, data: blob });
+        manifest.files.push({
+          path,
+          asset_id: asset.id,
+          asset_name: asset.name,
+          platform: preset.platform,
+          preset: preset.id,
+          width: preset.width,
+          height: preset.height,
+          format,
+          quality,
+          bytes: blob.size,
+          max_bytes: preset.maxBytes,
+          within_limit: blob.size <= preset.maxBytes,
+          source: source.label,
+          source_url: source.url
+        });
+
+        onProgress?.(manifest.files.length, total);
+      }
+    }
+
+    entries.push({ path: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+    const zip = await createZip(entries);
+
+    trackEvent('export_pack_created', {
+      asset_count: assets.length,
+      preset_ids: presets.map(preset => preset.id),
+      preferred_format: preferredFormat,
+      files_over_limit: manifest.files.filter(file => !file.within_limit).length
+    });
+
+    return { zip, manifest };
+  } catch (error) {
+    console.error('Error building export pack:', error);
+    throw error;
+  }
+}
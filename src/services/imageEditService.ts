@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
 import { usePostHog } from '@/lib/posthog';
 import { log, error as logError, success } from '@/lib/logger';
 
@@ -13,6 +14,10 @@ export interface EditedImage {
   image_url: string | null;
   status: 'processing' | 'completed' | 'failed';
   error_message: string | null;
+  // PNG mask the edit was limited to, null when the whole image was edited
+  mask_url: string | null;
+  // Version this edit was made from, null when it was made from the original image
+  parent_edit_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -25,17 +30,33 @@ export function isMagicEditEnabled(): boolean {
   return posthog.isFeatureEnabled('magic-editing') || false;
 }
 
+/**
+ * Reads a Blob as a data URL
+ */
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
 /**
  * Start an edit operation for an image
  * 
  * @param originalImageId The ID of the original image job
  * @param originalImageUrl The URL of the original image
  * @param editPrompt The editing instructions
+ * @param mask Optional PNG mask the size of the edited version, transparent where the image may change
+ * @param parentEditId The edit to build on, the original image is edited when not set
  */
 export async function startImageEdit(
   originalImageId: string,
   originalImageUrl: string,
-  editPrompt: string
+  editPrompt: string,
+  mask?: Blob | null,
+  parentEditId?: string | null
 ): Promise<string> {
   try {
     log(`Starting image edit for original image: ${originalImageId}`);
@@ -52,6 +73,7 @@ export async function startImageEdit(
       .from('edited_images')
       .insert({
         original_image_id: originalImageId,
+        parent_edit_id: parentEditId ?? null,
         user_id: user.id,
         prompt: editPrompt,
         status: 'processing',
@@ -70,28 +92,16 @@ export async function startImageEdit(
       throw new Error('Failed to create edit record');
     }
     
-    // Call the edge function to process the edit
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      throw new Error('No active session');
-    }
-    
-    // Send the edit request to the edge function
-    fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/edit-image`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${session.access_token}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        editId: editRecord.id,
-        originalImageUrl,
-        editPrompt
-      })
+    const maskImage = mask ? await blobToDataUrl(mask) : undefined;
+
+    // Send the edit request to the edge function, let it run in the background
+    invokeEdgeFunction('edit-image', {
+      editId: editRecord.id,
+      originalImageUrl,
+      editPrompt,
+      maskImage
     }).catch((fetchError) => {
       console.error('Error calling edit-image function:', fetchError);
-      // Don't await this, let it run in the background
     });
     
     success(`Image edit started with ID: ${editRecord.id}`);
@@ -102,6 +112,69 @@ export async function startImageEdit(
   }
 }
 
+/**
+ * Groups the edits of an original image by the version they were made from,
+ * oldest first. Edits made from the original are listed under null.
+ */
+export function groupEditsByParent(edits: EditedImage[]): Map<string | null, EditedImage[]> {
+  const ids = new Set(edits.map(edit => edit.id));
+  const children = new Map<string | null, EditedImage[]>();
+
+  [...edits]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(edit => {
+      // Edits whose parent is not in the list hang off the original
+      const parentId = edit.parent_edit_id && ids.has(edit.parent_edit_id) ? edit.parent_edit_id : null;
+      children.set(parentId, [...(children.get(parentId) ?? []), edit]);
+    });
+
+  return children;
+}
+
+/**
+ * The edited version an automated ad shows in place of its generated image,
+ * null when it shows the generated image
+ * 
+ * @param jobId The ID of the generation job
+ */
+export async function getCurrentEditId(jobId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('current_edit_id')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      logError(`Failed to fetch current version: ${error.message}`);
+      return null;
+    }
+
+    return data?.current_edit_id ?? null;
+  } catch (error) {
+    logError(`Error getting current version: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Makes a version the one an automated ad shows
+ * 
+ * @param jobId The ID of the generation job
+ * @param editId The edited version to show, null for the generated image
+ */
+export async function promoteEditVersion(jobId: string, editId: string | null): Promise<void> {
+  try {
+    await invokeEdgeFunction('promote-edit-version', { jobId, editId }, {
+      fallbackMessage: 'Failed to make this the current version'
+    });
+    success(`Job ${jobId} now shows ${editId ? `edit ${editId}` : 'the generated image'}`);
+  } catch (error) {
+    logError(`Error promoting version: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
 /**
  * Get all edits for a specific original image
  * 
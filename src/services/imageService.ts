@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { parseEdgeFunctionError } from '@/lib/edgeFunctions';
 import { v4 as uuidv4 } from 'uuid';
 import { mapLayoutToOpenAISize } from '@/lib/utils';
 import { log, error as logError, success, uploadLog, startOperation, endOperation, formatFileSize } from '@/lib/logger';
@@ -532,15 +533,9 @@ export async function generateImage(
       clearTimeout(timeoutId);
       
       if (!response.ok) {
-        // Try to get detailed error information
-        let errorDetails = '';
-        try {
-          const errorData = await response.json();
-          errorDetails = errorData.error || errorData.message || '';
-        } catch (e) {
-          // If JSON parsing fails, use the status text
-          errorDetails = `HTTP ${response.status}: ${response.statusText}`;
-        }
+        // Read the error envelope returned by the edge function
+        const edgeError = await parseEdgeFunctionError(response, 'Image generation failed');
+        const errorDetails = edgeError.message;
         
         logError(`Edge function error response: ${errorDetails}`);
         
@@ -577,65 +572,18 @@ export async function generateImage(
         // Track error event
         trackEvent('image_generation_error', {
           error: errorDetails,
+          code: edgeError.code,
           status: response.status,
           prompt_length: prompt.length
         });
         
-        throw new Error(`Supabase edge function error: ${errorDetails}`);
+        throw edgeError;
       }
       
       const data = await response.json();
       console.log(`Received response from edge function:`, data);
       log(`Response received from edge function with ${data.urls?.length || 0} image URLs`);
       
-      // Check if the response contains an error or fallback
-      if (data.fallback) {
-        logError(`Using fallback image due to OpenAI API error: ${data.error}`);
-        
-        // Update all task records to 'failed' status
-        for (let i = 0; i < variants; i++) {
-          await supabase
-            .from("generation_tasks")
-            .update({
-              status: 'failed',
-              error_message: `OpenAI API Error: ${data.error || 'Unknown error'}`,
-              updated_at: new Date().toISOString()
-            })
-            .eq('batch_id', variationGroupId)
-            .eq('batch_index', i);
-          
-          // Direct update of photoshoots
-          try {
-            await supabase
-              .from('photoshoots')
-              .update({
-                status: 'failed',
-                error_message: `OpenAI API Error: ${data.error || 'Unknown error'}`,
-                updated_at: new Date().toISOString()
-              })
-              .eq('batch_id', variationGroupId)
-              .eq('batch_index', i);
-              
-            log(`Directly updated photoshoot for failed API: batch=${variationGroupId}, index=${i}`);
-          } catch (photoshootError) {
-            logError(`Error updating photoshoot for API failure: ${photoshootError}`);
-          }
-        }
-        
-        // Track the fallback event
-        trackEvent('image_generation_fallback', {
-          error: data.error,
-          prompt_length: prompt.length
-        });
-        
-        // Still return the data, but include the error information
-        return {
-          urls: [data.urls[0]],
-          variationGroupId,
-          rawJson: data
-        };
-      }
-      
       // Update all task records to 'completed' status
       for (let i = 0; i < variants && i < data.urls.length; i++) {
         await supabase
@@ -1,8 +1,12 @@
+import { supabase } from '@/lib/supabase';
+import { trackEvent } from '@/lib/posthog';
+import { createZip, ZipEntry } from '@/lib/zip';
 import { 
   uploadFromBuffer, 
   uploadFromUrl, 
   fetchAssets, 
-  deleteAsset 
+  deleteAsset,
+  Asset
 } from './AssetsService';
 
 export type LibraryImage = {
@@ -86,4 +90,260 @@ export async function deleteLibraryImage(imageId: string): Promise<void> {
     console.error('Error deleting library image:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export interface AssetCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// URLs per lookup query, keeps the request URL within the API's limit
+const URL_LOOKUP_BATCH = 50;
+
+/**
+ * Lists the user's library collections by name
+ */
+export async function fetchAssetCollections(): Promise<AssetCollection[]> {
+  try {
+    const { data, error } = await supabase
+      .from('asset_collections')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching asset collections:', error);
+      return [];
+    }
+
+    return data as AssetCollection[];
+  } catch (error) {
+    console.error('Error fetching asset collections:', error);
+    return [];
+  }
+}
+
+/**
+ * Creates a named library collection
+ */
+export async function createAssetCollection(name: string): Promise<AssetCollection> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('asset_collections')
+      .insert({ user_id: user.id, name: name.trim() })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create collection: ${error.message}`);
+    }
+
+    trackEvent('asset_collection_created', { collection_id: data.id });
+
+    return data as AssetCollection;
+  } catch (error) {
+    console.error('Error creating asset collection:', error);
+    throw error;
+  }
+}
+
+/**
+ * Moves library images into a collection
+ * @param assetIds IDs of the images to move
+ * @param collectionId The collection to move them to, null to take them out of their collection
+ */
+export async function moveAssetsToCollection(assetIds: string[], collectionId: string | null): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('assets')
+      .update({ collection_id: collectionId })
+      .in('id', assetIds);
+
+    if (error) {
+      throw new Error(`Failed to move images: ${error.message}`);
+    }
+
+    trackEvent('library_assets_moved', {
+      asset_count: assetIds.length,
+      collection_id: collectionId
+    });
+  } catch (error) {
+    console.error('Error moving assets to collection:', error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes library images one after the other. Generated images also lose
+ * their image record, as when they are deleted from the image list. An image
+ * that fails to delete does not stop the others.
+ * @param onProgress Called after each image
+ * @returns IDs of the deleted images and how many failed
+ */
+export async function deleteLibraryAssets(
+  assets: Asset[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ deletedIds: string[]; failed: number }> {
+  const deletedIds: string[] = [];
+
+  for (const asset of assets) {
+    try {
+      await deleteAsset(asset.id);
+      deletedIds.push(asset.id);
+
+      if (asset.source === 'generated') {
+        const { error } = await supabase
+          .from('images')
+          .delete()
+          .eq('url', asset.original_url);
+
+        if (error) {
+          console.error('Error deleting image record of asset:', error);
+        }
+      }
+    } catch (error) {
+      console.error(`Error deleting asset ${asset.id}:`, error);
+    }
+
+    onProgress?.(deletedIds.length, assets.length);
+  }
+
+  trackEvent('library_assets_deleted', {
+    asset_count: deletedIds.length,
+    failed: assets.length - deletedIds.length
+  });
+
+  return { deletedIds, failed: assets.length - deletedIds.length };
+}
+
+/**
+ * Prompts the images were generated with, by image URL. The recorded
+ * provenance holds the exact prompt sent to the provider and wins over the
+ * prompt stored with the image.
+ */
+async function fetchPromptsByUrl(urls: string[]): Promise<Map<string, string>> {
+  const prompts = new Map<string, string>();
+
+  for (let start = 0; start < urls.length; start += URL_LOOKUP_BATCH) {
+    const batch = urls.slice(start, start + URL_LOOKUP_BATCH);
+
+    const [images, provenance] = await Promise.all([
+      supabase.from('images').select('url, prompt').in('url', batch),
+      supabase.from('generation_provenance').select('image_url, prompt').in('image_url', batch)
+    ]);
+
+    if (images.error) {
+      console.error('Error fetching image prompts:', images.error);
+    }
+    if (provenance.error) {
+      console.error('Error fetching provenance prompts:', provenance.error);
+    }
+
+    (images.data ?? []).forEach(image => image.prompt && prompts.set(image.url, image.prompt));
+    (provenance.data ?? []).forEach(record => prompts.set(record.image_url, record.prompt));
+  }
+
+  return prompts;
+}
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+function toCsvValue(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? '' : String(value);
+
+  // Prompts and file names come from users and the model, a leading quote
+  // makes spreadsheets show them as text instead of evaluating them
+  if (typeof value === 'string' && FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// File name of an asset in a download, its original name where it has one
+function assetFileName(asset: Asset): string {
+  const fromUrl = decodeURIComponent(new URL(asset.original_url).pathname.split('/').pop() || '');
+  return (asset.filename || fromUrl || `image-${asset.id}`).replace(/[\\/]/g, '_');
+}
+
+/**
+ * Bundles library images as a ZIP under their original file names, with a
+ * prompts.csv listing the prompt each generated image was made with. Images
+ * that cannot be downloaded are left out and listed without a file name.
+ * @param onProgress Called after each image
+ * @returns The ZIP and how many images were left out
+ */
+export async function buildLibraryZip(
+  assets: Asset[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ zip: Blob; skipped: number }> {
+  if (assets.length === 0) {
+    throw new Error('Select at least one image to download');
+  }
+
+  try {
+    const prompts = await fetchPromptsByUrl(assets.map(asset => asset.original_url));
+    const entries: ZipEntry[] = [];
+    const usedNames = new Set<string>();
+    const rows = [['filename', 'prompt', 'source', 'created_at', 'url'].join(',')];
+    let skipped = 0;
+
+    for (const [index, asset] of assets.entries()) {
+      let path = '';
+
+      try {
+        const response = await fetch(asset.original_url);
+        if (!response.ok) {
+          throw new Error(`Failed to download ${asset.original_url}: ${response.statusText}`);
+        }
+
+        // Images with the same name get a numbered suffix so no file is overwritten
+        const name = assetFileName(asset);
+        const dot = name.lastIndexOf('.');
+        const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+        path = name;
+        for (let suffix = 2; usedNames.has(path.toLowerCase()); suffix++) {
+          path = `${stem}-${suffix}${extension}`;
+        }
+        usedNames.add(path.toLowerCase());
+
+        entries.push({ path, data: await response.blob(), modified: new Date(asset.created_at) });
+      } catch (error) {
+        console.error('Error downloading library image:', error);
+        skipped++;
+      }
+
+      rows.push([
+        path,
+        prompts.get(asset.original_url),
+        asset.source,
+        asset.created_at,
+        asset.original_url
+      ].map(toCsvValue).join(','));
+
+      onProgress?.(index + 1, assets.length);
+    }
+
+    entries.push({ path: 'prompts.csv', data: `${rows.join('\r\n')}\r\n` });
+    const zip = await createZip(entries);
+
+    trackEvent('library_zip_downloaded', {
+      asset_count: assets.length,
+      skipped,
+      with_prompts: assets.filter(asset => prompts.has(asset.original_url)).length
+    });
+
+    return { zip, skipped };
+  } catch (error) {
+    console.error('Error building library ZIP:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,116 @@
+import { supabase } from '@/lib/supabase';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { trackEvent } from '@/lib/posthog';
+
+/**
+ * Aspect ratios ads are placed in, mirrors supabase/functions/_shared/placements.ts
+ */
+export type PlacementFormat = '1:1' | '4:5' | '9:16' | '1.91:1' | '16:9';
+
+export interface PlacementFormatInfo {
+  format: PlacementFormat;
+  // Where the format is used, e.g. "Stories and Reels"
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const PLACEMENT_FORMATS: PlacementFormatInfo[] = [
+  { format: '1:1', label: 'Square feed', width: 1080, height: 1080 },
+  { format: '4:5', label: 'Portrait feed', width: 1080, height: 1350 },
+  { format: '9:16', label: 'Stories and Reels', width: 1080, height: 1920 },
+  { format: '1.91:1', label: 'Link and display ads', width: 1200, height: 628 },
+  { format: '16:9', label: 'Landscape video', width: 1920, height: 1080 }
+];
+
+/**
+ * Version of an automated ad resized for one placement format, stored as an
+ * image of the ad's placement variation group
+ */
+export interface PlacementVersion {
+  id: string;
+  url: string;
+  placement: PlacementFormat;
+  variation_group_id: string;
+  created_at: string;
+}
+
+/**
+ * Placement versions created for an automated ad, in the order of PLACEMENT_FORMATS
+ * @param jobId ID of the generation job of the ad
+ */
+export async function fetchPlacementVersions(jobId: string): Promise<PlacementVersion[]> {
+  try {
+    const { data: job, error: jobError } = await supabase
+      .from('generation_jobs')
+      .select('placement_group_id')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) {
+      console.error('Error fetching placement group:', jobError);
+      return [];
+    }
+
+    if (!job?.placement_group_id) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('images')
+      .select('id, url, placement, variation_group_id, created_at')
+      .eq('variation_group_id', job.placement_group_id)
+      .not('placement', 'is', null)
+      .order('variation_index', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching placement versions:', error);
+      return [];
+    }
+
+    return data as PlacementVersion[];
+  } catch (error) {
+    console.error('Error fetching placement versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Creates the version of a finished automated ad for a placement format. The
+ * ad is fitted into the format and the canvas around it is extended, nothing
+ * is cropped. Creating a format again replaces its version.
+ * @param jobId ID of the generation job of the ad
+ * @param format The placement format to create
+ * @returns The new version
+ */
+export async function resizeForPlacement(jobId: string, format: PlacementFormat): Promise<PlacementVersion> {
+  try {
+    const result = await invokeEdgeFunction<{
+      imageId: string;
+      imageUrl: string;
+      groupId: string;
+      outpainted: boolean;
+    }>(
+      'resize-for-placement',
+      { jobId, format },
+      { fallbackMessage: `Failed to resize the ad for ${format}` }
+    );
+
+    trackEvent('ad_resized_for_placement', {
+      job_id: jobId,
+      format,
+      outpainted: result.outpainted
+    });
+
+    return {
+      id: result.imageId,
+      url: result.imageUrl,
+      placement: format,
+      variation_group_id: result.groupId,
+      created_at: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error(`Error resizing ad for ${format}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,237 @@
+import { supabase } from '@/lib/supabase';
+import { trackEvent } from '@/lib/posthog';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+
+// Mirrors supabase/functions/_shared/promptTemplates.ts
+export type TemplateVariableType = 'text' | 'number' | 'select';
+
+export interface TemplateVariable {
+  key: string;
+  label: string;
+  type: TemplateVariableType;
+  options?: string[];
+  required?: boolean;
+  defaultValue?: string | number;
+}
+
+export type TemplateValues = Record<string, string | number | null | undefined>;
+
+export interface PromptTemplateDefinition {
+  systemPrompt: string;
+  userPrompt: string;
+  variables: TemplateVariable[];
+}
+
+export interface PromptTemplate extends PromptTemplateDefinition {
+  id: string;
+  name: string;
+  // last_modified_timestamp, changes on every save
+  version: string;
+}
+
+export interface RenderedPromptTemplate {
+  systemMessage: string;
+  userMessage: string;
+  template: PromptTemplateDefinition;
+  standardVariables: TemplateVariable[];
+}
+
+// The template being saved was changed elsewhere since it was loaded
+export class PromptTemplateConflictError extends Error {
+  constructor() {
+    super('This template was changed since you opened it. Reload it to get the latest version before saving.');
+    this.name = 'PromptTemplateConflictError';
+  }
+}
+
+/**
+ * Variables every template can use, see STANDARD_VARIABLES on the server
+ */
+export const STANDARD_TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { key: 'product_name', label: 'Product name', type: 'text' },
+  { key: 'category', label: 'Category', type: 'text' },
+  {
+    key: 'brand_voice',
+    label: 'Brand voice',
+    type: 'select',
+    options: ['playful', 'premium', 'bold', 'minimal', 'friendly', 'authoritative']
+  },
+  { key: 'season', label: 'Season', type: 'select', options: ['spring', 'summer', 'autumn', 'winter', 'holiday'] },
+  { key: 'offer', label: 'Offer', type: 'text' }
+];
+
+// Filled in from the automation session
+export const SESSION_TEMPLATE_VARIABLES = ['variation_count', 'product_image_url', 'reference_ad_url', 'instructions'];
+
+interface PromptTemplateRow {
+  id: string;
+  base_prompt_text: string;
+  custom_properties: {
+    name?: string;
+    system_prompt?: string;
+    variables?: TemplateVariable[];
+  } | null;
+  last_modified_timestamp: string;
+}
+
+function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  const properties = row.custom_properties ?? {};
+
+  return {
+    id: row.id,
+    name: properties.name || 'Untitled template',
+    systemPrompt: properties.system_prompt ?? '',
+    userPrompt: row.base_prompt_text,
+    variables: Array.isArray(properties.variables) ? properties.variables : [],
+    version: row.last_modified_timestamp
+  };
+}
+
+/**
+ * The variables a user fills in for a template: the standard variables the
+ * template refers to, followed by its own variables
+ */
+export function getTemplateInputVariables(template: PromptTemplateDefinition): TemplateVariable[] {
+  const text = `${template.systemPrompt}\n${template.userPrompt}`;
+  const referenced = new Set([...text.matchAll(/\{\{\s*[#^/]?\s*([a-z][a-z0-9_]*)\s*\}\}/g)].map(match => match[1]));
+
+  return [
+    ...STANDARD_TEMPLATE_VARIABLES.filter(variable => referenced.has(variable.key)),
+    ...template.variables
+  ];
+}
+
+/**
+ * Lists the user's prompt templates, the most recently changed first
+ */
+export async function fetchPromptTemplates(): Promise<PromptTemplate[]> {
+  try {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('id, base_prompt_text, custom_properties, last_modified_timestamp')
+      .order('last_modified_timestamp', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching prompt templates:', error);
+      return [];
+    }
+
+    return (data as PromptTemplateRow[]).map(toPromptTemplate);
+  } catch (error) {
+    console.error('Error fetching prompt templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Validates a template and renders it with example values. Without a template
+ * the default prompt is rendered, its definition is returned as a starting
+ * point for new templates.
+ */
+export async function renderPromptTemplate(
+  template?: PromptTemplateDefinition | null,
+  values: TemplateValues = {}
+): Promise<RenderedPromptTemplate> {
+  return invokeEdgeFunction<RenderedPromptTemplate>(
+    'render-prompt-template',
+    { template: template ?? undefined, values },
+    { fallbackMessage: 'Failed to render prompt template' }
+  );
+}
+
+/**
+ * Saves a new template, or a new version of an existing one. Updates only
+ * apply when the template is still at `expectedVersion`, otherwise
+ * PromptTemplateConflictError is thrown so edits made elsewhere are not lost.
+ */
+export async function savePromptTemplate(
+  name: string,
+  definition: PromptTemplateDefinition,
+  existing?: { id: string; expectedVersion: string }
+): Promise<PromptTemplate> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // Rejects unknown variables and unbalanced sections before anything is stored
+    await renderPromptTemplate(definition);
+
+    const columns = {
+      base_prompt_text: definition.userPrompt,
+      custom_properties: {
+        name: name.trim(),
+        system_prompt: definition.systemPrompt,
+        variables: definition.variables
+      }
+    };
+
+    if (!existing) {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .insert({ user_id: user.id, ...columns })
+        .select('id, base_prompt_text, custom_properties, last_modified_timestamp')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save template: ${error.message}`);
+      }
+
+      trackEvent('prompt_template_created', {
+        template_id: data.id,
+        variable_count: definition.variables.length
+      });
+
+      return toPromptTemplate(data as PromptTemplateRow);
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .update(columns)
+      .eq('id', existing.id)
+      .eq('last_modified_timestamp', existing.expectedVersion)
+      .select('id, base_prompt_text, custom_properties, last_modified_timestamp')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to save template: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new PromptTemplateConflictError();
+    }
+
+    trackEvent('prompt_template_updated', {
+      template_id: existing.id,
+      variable_count: definition.variables.length
+    });
+
+    return toPromptTemplate(data as PromptTemplateRow);
+  } catch (error) {
+    console.error('Error saving prompt template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a template. Sessions created with it keep their prompts and fall
+ * back to the default prompt if they are generated again.
+ */
+export async function deletePromptTemplate(templateId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('prompt_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      throw new Error(`Failed to delete template: ${error.message}`);
+    }
+
+    trackEvent('prompt_template_deleted', { template_id: templateId });
+  } catch (error) {
+    console.error('Error deleting prompt template:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,106 @@
+import { supabase } from '@/lib/supabase';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { trackEvent } from '@/lib/posthog';
+
+export type ProvenanceOutputType = 'generation_job' | 'image' | 'edited_image';
+
+export interface ProvenanceInputAsset {
+  // What the image was sent as, e.g. product_image, brand_logo or reference_ad
+  role: string;
+  url: string;
+  // Library asset of the input image, null for images that are not in the library
+  asset_id: string | null;
+}
+
+export interface GenerationProvenance {
+  id: string;
+  output_type: ProvenanceOutputType;
+  output_id: string;
+  image_url: string;
+  provider: string;
+  model: string;
+  operation: 'generate' | 'edit';
+  parameters: {
+    size?: string;
+    quality?: string;
+    layout?: string;
+  };
+  input_assets: ProvenanceInputAsset[];
+  prompt: string;
+  // Null when the prompt was written with the built-in template
+  prompt_template_id: string | null;
+  prompt_template_version: string | null;
+  session_id: string | null;
+  variation_id: string | null;
+  replay_of: string | null;
+  started_at: string;
+  completed_at: string;
+  timings: {
+    download_ms?: number;
+    provider_ms?: number;
+    upload_ms?: number;
+  };
+  credits_cost: number;
+}
+
+/**
+ * How an output was produced, null for outputs generated before provenance
+ * was recorded
+ * @param outputType The kind of output
+ * @param outputId ID of the generation job, image or edited image
+ */
+export async function fetchOutputProvenance(
+  outputType: ProvenanceOutputType,
+  outputId: string
+): Promise<GenerationProvenance | null> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_provenance')
+      .select('*')
+      .eq('output_type', outputType)
+      .eq('output_id', outputId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching provenance:', error);
+      return null;
+    }
+
+    return data as GenerationProvenance | null;
+  } catch (error) {
+    console.error('Error fetching provenance:', error);
+    return null;
+  }
+}
+
+/**
+ * Generates an automated ad again with the exact prompt, parameters and input
+ * images of an earlier output. Costs one credit, the current output stays in
+ * the variation's history.
+ * @param provenance The provenance record of the output to generate again
+ * @returns The queued job
+ */
+export async function regenerateWithIdenticalSettings(provenance: GenerationProvenance): Promise<{ jobId: string }> {
+  if (!provenance.variation_id) {
+    throw new Error('Only automated ads can be generated again with identical settings');
+  }
+
+  try {
+    const { jobId } = await invokeEdgeFunction<{ jobId: string }>(
+      'reroll-variation',
+      { variationId: provenance.variation_id, replayOf: provenance.id },
+      { fallbackMessage: 'Failed to generate the ad again' }
+    );
+
+    trackEvent('generation_replayed', {
+      variation_id: provenance.variation_id,
+      provenance_id: provenance.id,
+      job_id: jobId
+    });
+
+    return { jobId };
+  } catch (error) {
+    console.error('Error generating again with identical settings:', error);
+    throw error;
+  }
+}
@@ -36,6 +36,12 @@ export interface ShopifyProduct {
   };
 }
 
+export interface ShopifyCollection {
+  id: string;
+  title: string;
+  handle: string;
+}
+
 // Store apollo client in memory to avoid recreating it
 let apolloClient: ApolloClient<any> | null = null;
 let cachedCredentials: ShopifyCredentials | null = null;
@@ -198,11 +204,52 @@ let productsCache: {
 
 const PRODUCTS_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+const PRODUCT_FIELDS = gql`
+  fragment ProductFields on Product {
+    id
+    title
+    handle
+    featuredImage {
+      url
+      altText
+    }
+    images(first: 10) {
+      edges {
+        node {
+          url
+          altText
+        }
+      }
+    }
+    variants(first: 1) {
+      edges {
+        node {
+          id
+          title
+          price {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Fetches a page of the store's products, or of a single collection when a
+ * collection ID is given. Only the first page of all products is cached.
+ */
 export async function fetchShopifyProducts(
   limit: number = 20, 
-  cursor?: string
+  cursor?: string,
+  collectionId?: string
 ): Promise<{ products: ShopifyProduct[], hasNextPage: boolean, endCursor: string | null }> {
   try {
+    if (collectionId) {
+      return await fetchCollectionProducts(collectionId, limit, cursor);
+    }
+
     // Check cache for first page
     if (!cursor && productsCache && Date.now() - productsCache.timestamp < PRODUCTS_CACHE_DURATION) {
       return {
@@ -227,37 +274,12 @@ export async function fetchShopifyProducts(
           }
           edges {
             node {
-              id
-              title
-              handle
-              featuredImage {
-                url
-                altText
-              }
-              images(first: 10) {
-                edges {
-                  node {
-                    url
-                    altText
-                  }
-                }
-              }
-              variants(first: 1) {
-                edges {
-                  node {
-                    id
-                    title
-                    price {
-                      amount
-                      currencyCode
-                    }
-                  }
-                }
-              }
+              ...ProductFields
             }
           }
         }
       }
+      ${PRODUCT_FIELDS}
     `;
     
     const { data } = await client.query({
@@ -293,6 +315,93 @@ export async function fetchShopifyProducts(
   }
 }
 
+async function fetchCollectionProducts(
+  collectionId: string,
+  limit: number,
+  cursor?: string
+): Promise<{ products: ShopifyProduct[], hasNextPage: boolean, endCursor: string | null }> {
+  const client = await getClient();
+
+  if (!client) {
+    throw new Error('Shopify not connected');
+  }
+
+  const COLLECTION_PRODUCTS_QUERY = gql`
+    query GetCollectionProducts($id: ID!, $cursor: String, $limit: Int!) {
+      collection(id: $id) {
+        products(first: $limit, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          edges {
+            node {
+              ...ProductFields
+            }
+          }
+        }
+      }
+    }
+    ${PRODUCT_FIELDS}
+  `;
+
+  const { data } = await client.query({
+    query: COLLECTION_PRODUCTS_QUERY,
+    variables: {
+      id: collectionId,
+      limit,
+      cursor: cursor || null,
+    },
+    fetchPolicy: 'network-only',
+  });
+
+  if (!data.collection) {
+    throw new Error('Collection not found');
+  }
+
+  const { hasNextPage, endCursor } = data.collection.products.pageInfo;
+
+  return {
+    products: data.collection.products.edges.map((edge: { node: ShopifyProduct }) => edge.node),
+    hasNextPage,
+    endCursor,
+  };
+}
+
+export async function fetchShopifyCollections(limit: number = 50): Promise<ShopifyCollection[]> {
+  try {
+    const client = await getClient();
+
+    if (!client) {
+      throw new Error('Shopify not connected');
+    }
+
+    const COLLECTIONS_QUERY = gql`
+      query GetCollections($limit: Int!) {
+        collections(first: $limit, sortKey: TITLE) {
+          edges {
+            node {
+              id
+              title
+              handle
+            }
+          }
+        }
+      }
+    `;
+
+    const { data } = await client.query({
+      query: COLLECTIONS_QUERY,
+      variables: { limit },
+    });
+
+    return data.collections.edges.map((edge: { node: ShopifyCollection }) => edge.node);
+  } catch (error) {
+    console.error('Error fetching Shopify collections:', error);
+    throw error;
+  }
+}
+
 // Cache test connection results
 const connectionTestCache = new Map<string, { isValid: boolean; timestamp: number }>();
 const CONNECTION_CACHE_DURATION = 60 * 1000; // 1 minute
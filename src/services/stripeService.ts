@@ -1,44 +1,85 @@
 // stripeService.ts - Services for Stripe integration
 import { supabase } from '@/lib/supabase';
-import { products, getProductByPriceId } from '@/stripe-config';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+
+// A credit package from the stripe_products catalog
+export interface StripeProduct {
+  price_id: string;
+  name: string;
+  description: string | null;
+  mode: 'payment' | 'subscription';
+  unit_amount: number | null;
+  currency: string;
+  credits: number;
+  // Unused subscription credits carried into the next period, null carries all
+  rollover_cap: number | null;
+  features: string[];
+  sort_order: number;
+  active: boolean;
+}
+
+let productsRequest: Promise<StripeProduct[]> | null = null;
+
+// Get every product of the catalog, retired ones included, loaded once per page load
+export async function getProducts(): Promise<StripeProduct[]> {
+  if (!productsRequest) {
+    productsRequest = (async () => {
+      const { data, error } = await supabase
+        .from('stripe_products')
+        .select('price_id, name, description, mode, unit_amount, currency, credits, rollover_cap, features, sort_order, active')
+        .order('sort_order', { ascending: true });
+      
+      if (error) {
+        throw error;
+      }
+      
+      return data || [];
+    })();
+  }
+  
+  try {
+    return await productsRequest;
+  } catch (error) {
+    productsRequest = null;
+    console.error('Error fetching products:', error);
+    throw error;
+  }
+}
+
+// Get the one-time payment products that are currently sold
+export async function getOneTimeProducts(): Promise<StripeProduct[]> {
+  const products = await getProducts();
+  return products.filter(product => product.active && product.mode === 'payment');
+}
+
+// Get the monthly subscription plans that are currently sold
+export async function getSubscriptionPlans(): Promise<StripeProduct[]> {
+  const products = await getProducts();
+  return products.filter(product => product.active && product.mode === 'subscription');
+}
+
+// Get a product by its Stripe price ID
+export async function getProductByPriceId(priceId: string): Promise<StripeProduct | undefined> {
+  const products = await getProducts();
+  return products.find(product => product.price_id === priceId);
+}
 
 // Create a checkout session
 export async function createCheckoutSession(priceId: string, successUrl: string, cancelUrl: string) {
   try {
-    const product = getProductByPriceId(priceId);
+    const product = await getProductByPriceId(priceId);
     
-    if (!product) {
+    if (!product || !product.active) {
       throw new Error('Invalid product selected');
     }
     
-    // Get the current session
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session) {
-      throw new Error('You must be logged in to make a purchase');
-    }
-    
     // Call the Supabase Edge Function to create a checkout session
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/stripe-checkout`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${session.access_token}`
-      },
-      body: JSON.stringify({
-        price_id: priceId,
-        success_url: successUrl,
-        cancel_url: cancelUrl,
-        mode: product.mode
-      })
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'Failed to create checkout session');
-    }
-    
-    const data = await response.json();
+    const data = await invokeEdgeFunction<{ sessionId: string; url: string }>('stripe-checkout', {
+      price_id: priceId,
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      mode: product.mode
+    }, { fallbackMessage: 'Failed to create checkout session' });
     return data;
   } catch (error) {
     console.error('Error creating checkout session:', error);
@@ -46,8 +87,58 @@ export async function createCheckoutSession(priceId: string, successUrl: string,
   }
 }
 
+export interface SubscriptionChange {
+  subscription_id: string;
+  status: string;
+  price_id: string;
+  cancel_at_period_end: boolean;
+  current_period_end: number;
+  pending_update: boolean;
+}
+
+// Manage the current subscription through the stripe-subscription edge function
+async function updateSubscription(body: { action: 'change_plan' | 'cancel' | 'resume'; price_id?: string }) {
+  try {
+    return await invokeEdgeFunction<SubscriptionChange>('stripe-subscription', body, {
+      fallbackMessage: 'Failed to update subscription'
+    });
+  } catch (error) {
+    console.error(`Error updating subscription (${body.action}):`, error);
+    throw error;
+  }
+}
+
+// Switch plans, upgrades are charged and credited pro rata right away
+export function changeSubscriptionPlan(priceId: string) {
+  return updateSubscription({ action: 'change_plan', price_id: priceId });
+}
+
+// Cancel the subscription at the end of the paid period
+export function cancelSubscription() {
+  return updateSubscription({ action: 'cancel' });
+}
+
+// Undo a cancellation that has not taken effect yet
+export function resumeSubscription() {
+  return updateSubscription({ action: 'resume' });
+}
+
+// A row of the stripe_user_subscriptions view
+export interface UserSubscription {
+  customer_id: string;
+  user_id: string;
+  subscription_id: string | null;
+  subscription_status: string;
+  price_id: string | null;
+  current_period_start: number | null;
+  current_period_end: number | null;
+  cancel_at_period_end: boolean | null;
+  payment_method_brand: string | null;
+  payment_method_last4: string | null;
+}
+
 // Get user's subscription status
-export async function getUserSubscription() {
+export async function getUserSubscription(): Promise<UserSubscription | null> {
   try {
     const { data, error } = await supabase
       .from('stripe_user_subscriptions')
@@ -92,11 +183,14 @@ export function formatCurrency(amount: number, currency: string = 'USD') {
   }).format(amount / 100); // Stripe amounts are in cents
 }
 
+// Subscription statuses that still grant credits and allow plan changes
+export const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
 // Check if user has an active subscription
 export async function hasActiveSubscription() {
   try {
     const subscription = await getUserSubscription();
-    return subscription && subscription.subscription_status === 'active';
+    return !!subscription && ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.subscription_status);
   } catch (error) {
     console.error('Error checking subscription status:', error);
     return false;
@@ -112,7 +206,7 @@ export async function getSubscriptionDetails() {
       return null;
     }
     
-    const product = getProductByPriceId(subscription.price_id);
+    const product = await getProductByPriceId(subscription.price_id);
     
     if (!product) {
       return subscription;
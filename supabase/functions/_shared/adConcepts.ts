@@ -0,0 +1,161 @@
+/**
+ * Structured output of generate-prompt-variations. The model returns one ad
+ * concept per variation, `prompt` is sent to the image model and the other
+ * fields are stored on prompt_variations.concept for display.
+ */
+export interface AdConcept {
+  concept_name: string;
+  scene: string;
+  lighting: string;
+  camera: string;
+  text_overlay: {
+    headline: string;
+    supporting_text: string;
+    call_to_action: string;
+  };
+  focal_area: string;
+  target_audience: string;
+  prompt: string;
+}
+
+export interface ParsedAdConcepts {
+  concepts: AdConcept[];
+  // One entry per variation that did not match the schema
+  problems: string[];
+}
+
+// gpt-image-1 accepts prompts up to 32000 characters
+const MAX_PROMPT_LENGTH = 32000;
+const MAX_FIELD_LENGTH = 2000;
+
+const TEXT_FIELDS = ["concept_name", "scene", "lighting", "camera", "focal_area", "target_audience"] as const;
+const OVERLAY_FIELDS = ["headline", "supporting_text", "call_to_action"] as const;
+
+const stringField = (description: string) => ({ type: "string", description });
+
+/**
+ * JSON Schema sent as the response format. Strict mode requires every property
+ * to be listed as required and additional properties to be disallowed.
+ */
+export const AD_CONCEPTS_SCHEMA = {
+  name: "ad_concepts",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["variations"],
+    properties: {
+      variations: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: [...TEXT_FIELDS, "text_overlay", "prompt"],
+          properties: {
+            concept_name: stringField("Short name of the ad concept, e.g. \"Morning ritual flat lay\""),
+            scene: stringField("Setting, background and props around the product"),
+            lighting: stringField("Light sources, direction, color temperature and mood"),
+            camera: stringField("Camera angle, framing, lens and depth of field"),
+            text_overlay: {
+              type: "object",
+              additionalProperties: false,
+              required: [...OVERLAY_FIELDS],
+              properties: {
+                headline: stringField("Headline copy shown on the ad"),
+                supporting_text: stringField("Secondary copy, empty when the ad has none"),
+                call_to_action: stringField("Call to action copy, empty when the ad has none")
+              }
+            },
+            focal_area: stringField("Where the eye should land first and how the layout leads it there"),
+            target_audience: stringField("Who the ad is for and the hook that speaks to them"),
+            prompt: stringField("The complete, self-contained prompt for the image generator, combining all of the above")
+          }
+        }
+      }
+    }
+  }
+};
+
+function isNonEmptyString(value: unknown, maxLength: number): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.length <= maxLength;
+}
+
+/**
+ * Returns the problems of one variation, an empty list when it matches the schema
+ */
+function validateConcept(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["is not an object"];
+  }
+
+  const concept = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    if (!isNonEmptyString(concept[field], MAX_FIELD_LENGTH)) {
+      problems.push(`${field} must be a non-empty string of at most ${MAX_FIELD_LENGTH} characters`);
+    }
+  }
+
+  if (!isNonEmptyString(concept.prompt, MAX_PROMPT_LENGTH)) {
+    problems.push(`prompt must be a non-empty string of at most ${MAX_PROMPT_LENGTH} characters`);
+  }
+
+  const overlay = concept.text_overlay as Record<string, unknown> | undefined;
+  if (!overlay || typeof overlay !== "object" || Array.isArray(overlay)) {
+    problems.push("text_overlay must be an object");
+  } else {
+    if (!isNonEmptyString(overlay.headline, MAX_FIELD_LENGTH)) {
+      problems.push("text_overlay.headline must be a non-empty string");
+    }
+    for (const field of ["supporting_text", "call_to_action"] as const) {
+      if (typeof overlay[field] !== "string" || (overlay[field] as string).length > MAX_FIELD_LENGTH) {
+        problems.push(`text_overlay.${field} must be a string`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Parses the model output and keeps the variations that match the schema, so
+ * one malformed variation does not fail the whole session. Throws when the
+ * output is not JSON or has no variations list.
+ */
+export function parseAdConcepts(content: string): ParsedAdConcepts {
+  const parsed = JSON.parse(content);
+
+  if (!parsed || !Array.isArray(parsed.variations)) {
+    throw new Error("Expected a \"variations\" array in the response");
+  }
+
+  const concepts: AdConcept[] = [];
+  const problems: string[] = [];
+
+  (parsed.variations as unknown[]).forEach((variation, index) => {
+    const variationProblems = validateConcept(variation);
+
+    if (variationProblems.length > 0) {
+      problems.push(`Variation ${index + 1} ${variationProblems.join(", ")}`);
+      return;
+    }
+
+    const concept = variation as AdConcept;
+    concepts.push({
+      concept_name: concept.concept_name.trim(),
+      scene: concept.scene.trim(),
+      lighting: concept.lighting.trim(),
+      camera: concept.camera.trim(),
+      text_overlay: {
+        headline: concept.text_overlay.headline.trim(),
+        supporting_text: concept.text_overlay.supporting_text.trim(),
+        call_to_action: concept.text_overlay.call_to_action.trim()
+      },
+      focal_area: concept.focal_area.trim(),
+      target_audience: concept.target_audience.trim(),
+      prompt: concept.prompt.trim()
+    });
+  });
+
+  return { concepts, problems };
+}
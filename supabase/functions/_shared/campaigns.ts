@@ -0,0 +1,156 @@
+import { HttpError } from "./errors.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+export interface CampaignProduct {
+  productImageUrl?: string;
+  title?: string;
+}
+
+export interface CampaignInput {
+  name?: string;
+  products?: CampaignProduct[];
+  brandLogoUrl?: string;
+  referenceAdUrl?: string;
+  instructions?: string;
+  // Ads per product
+  variationCount?: number;
+  layout?: string;
+}
+
+export interface CreatedCampaign {
+  campaign: { id: string; name: string };
+  sessions: Array<{ id: string; product_title: string | null; status: string }>;
+  creditsReserved: number;
+}
+
+export const MAX_CAMPAIGN_PRODUCTS = 25;
+const MAX_VARIATION_COUNT = 10;
+const MAX_NAME_LENGTH = 200;
+
+/**
+ * Creates a campaign with one draft session per product and reserves the
+ * credits of the whole campaign at once. When the balance does not cover
+ * every product nothing is kept and INSUFFICIENT_CREDITS is thrown with the
+ * required and available credits.
+ */
+export async function createCampaign(
+  supabase: SupabaseClient,
+  userId: string,
+  input: CampaignInput,
+  executionId?: string
+): Promise<CreatedCampaign> {
+  const {
+    name,
+    products,
+    brandLogoUrl,
+    referenceAdUrl,
+    instructions,
+    variationCount,
+    layout = 'auto'
+  } = input;
+
+  if (!Array.isArray(products) || products.length === 0) {
+    throw new HttpError("MISSING_PARAMETER", "At least one product is required");
+  }
+
+  if (products.length > MAX_CAMPAIGN_PRODUCTS) {
+    throw new HttpError("BAD_REQUEST", `Campaigns can include at most ${MAX_CAMPAIGN_PRODUCTS} products`);
+  }
+
+  const missingImage = products.findIndex(product => !product?.productImageUrl || typeof product.productImageUrl !== "string");
+  if (missingImage !== -1) {
+    throw new HttpError("MISSING_PARAMETER", `Product ${missingImage + 1} has no image URL`);
+  }
+
+  const count = variationCount ?? 3;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_VARIATION_COUNT) {
+    throw new HttpError("BAD_REQUEST", `Variation count must be between 1 and ${MAX_VARIATION_COUNT}`);
+  }
+
+  const campaignName = (typeof name === "string" && name.trim()) || `${products.length} product campaign`;
+  if (campaignName.length > MAX_NAME_LENGTH) {
+    throw new HttpError("BAD_REQUEST", `Campaign names must be at most ${MAX_NAME_LENGTH} characters long`);
+  }
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from('automation_campaigns')
+    .insert({
+      user_id: userId,
+      name: campaignName,
+      product_count: products.length,
+      variation_count: count,
+      reference_ad_url: referenceAdUrl || null,
+      brand_logo_url: brandLogoUrl || null,
+      instructions: instructions || null
+    })
+    .select()
+    .single();
+
+  if (campaignError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to create campaign: ${campaignError.message}`);
+  }
+
+  // Deleting the campaign also deletes the sessions created for it
+  const discardCampaign = () => supabase.from('automation_campaigns').delete().eq('id', campaign.id);
+
+  const { data: sessions, error: sessionsError } = await supabase
+    .from('automation_sessions')
+    .insert(products.map(product => ({
+      user_id: userId,
+      campaign_id: campaign.id,
+      product_title: typeof product.title === "string" && product.title.trim() ? product.title.trim() : null,
+      product_image_url: product.productImageUrl,
+      brand_logo_url: brandLogoUrl || null,
+      reference_ad_url: referenceAdUrl || null,
+      instructions: instructions || null,
+      variation_count: count,
+      status: 'draft',
+      layout
+    })))
+    .select('id, product_title, status');
+
+  if (sessionsError) {
+    await discardCampaign();
+    throw new HttpError("DATABASE_ERROR", `Failed to create campaign sessions: ${sessionsError.message}`);
+  }
+
+  // One credit per ad of every product, reserved together so a campaign never starts half-funded
+  const required = products.length * count;
+  const { data: reserved, error: reserveError } = await supabase.rpc('reserve_campaign_credits', {
+    p_campaign_id: campaign.id
+  });
+
+  if (reserveError) {
+    await discardCampaign();
+    throw new HttpError("DATABASE_ERROR", `Failed to reserve credits: ${reserveError.message}`);
+  }
+
+  if (!reserved) {
+    await discardCampaign();
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('credits')
+      .eq('user_id', userId)
+      .maybeSingle();
+    const available = profile?.credits ?? 0;
+
+    throw new HttpError(
+      "INSUFFICIENT_CREDITS",
+      `You need ${required} credits for this campaign but only have ${available} available.`,
+      { required, available }
+    );
+  }
+
+  const prefix = executionId ? `[${executionId}] ` : "";
+  console.log(`${prefix}Created campaign ${campaign.id} with ${sessions.length} sessions, reserved ${required} credits`);
+
+  return {
+    campaign: {
+      id: campaign.id,
+      name: campaign.name
+    },
+    sessions,
+    creditsReserved: required
+  };
+}
@@ -0,0 +1,282 @@
+import type { SupabaseClient } from "./supabase.ts";
+
+export interface CreditRefund {
+  userId: string;
+  amount: number;
+  // Identifies what is refunded, a key is only ever refunded once
+  refundKey: string;
+  reason: string;
+  sessionId?: string;
+  generationJobId?: string;
+}
+
+/**
+ * Refund key for the credits of a whole automation session
+ */
+export function sessionRefundKey(sessionId: string): string {
+  return `automation_session:${sessionId}`;
+}
+
+/**
+ * Refund key for the credit of a single generation job
+ */
+export function jobRefundKey(jobId: string): string {
+  return `generation_job:${jobId}`;
+}
+
+/**
+ * Returns credits to the user and records the refund for the billing history.
+ * Resolves to false when the key was refunded before or the refund failed, a
+ * failed refund is logged rather than thrown so it never masks the original error.
+ */
+export async function refundCredits(supabase: SupabaseClient, refund: CreditRefund, executionId?: string): Promise<boolean> {
+  const prefix = executionId ? `[${executionId}] ` : "";
+
+  const { data, error } = await supabase.rpc("refund_credits", {
+    p_user_id: refund.userId,
+    p_amount: refund.amount,
+    p_refund_key: refund.refundKey,
+    p_reason: refund.reason,
+    p_session_id: refund.sessionId ?? null,
+    p_generation_job_id: refund.generationJobId ?? null
+  });
+
+  if (error) {
+    console.error(`${prefix}Error refunding ${refund.amount} credits for ${refund.refundKey}:`, error);
+    return false;
+  }
+
+  if (data) {
+    console.log(`${prefix}Refunded ${refund.amount} credits to user ${refund.userId} for ${refund.refundKey}`);
+  } else {
+    console.log(`${prefix}${refund.refundKey} was already refunded`);
+  }
+  return data === true;
+}
+
+/**
+ * Refunds the credit of a generation job that ended failed
+ */
+export function refundGenerationJob(
+  supabase: SupabaseClient,
+  job: { jobId: string; userId: string; sessionId: string; reason: string },
+  executionId?: string
+): Promise<boolean> {
+  return refundCredits(supabase, {
+    userId: job.userId,
+    amount: 1,
+    refundKey: jobRefundKey(job.jobId),
+    reason: job.reason,
+    sessionId: job.sessionId,
+    generationJobId: job.jobId
+  }, executionId);
+}
+
+export interface CreditReservation {
+  id: string;
+  user_id: string;
+  session_id: string;
+  amount_reserved: number;
+  amount_captured: number;
+  amount_released: number;
+  status: "active" | "settled";
+}
+
+/**
+ * Holds credits for a session. Resolves to false when the balance is too low.
+ */
+export async function reserveCredits(
+  supabase: SupabaseClient,
+  reservation: { userId: string; sessionId: string; amount: number; description?: string }
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("reserve_credits", {
+    p_user_id: reservation.userId,
+    p_session_id: reservation.sessionId,
+    p_amount: reservation.amount,
+    p_description: reservation.description ?? null
+  });
+
+  if (error) {
+    throw new Error(`Failed to reserve credits: ${error.message}`);
+  }
+  return data === true;
+}
+
+/**
+ * Looks up the credit reservation of a session. Sessions created before
+ * reservations were introduced were charged up front and have none.
+ */
+export async function getSessionReservation(supabase: SupabaseClient, sessionId: string): Promise<CreditReservation | null> {
+  const { data, error } = await supabase
+    .from("credit_reservations")
+    .select("id, user_id, session_id, amount_reserved, amount_captured, amount_released, status")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch credit reservation: ${error.message}`);
+  }
+  return data as CreditReservation | null;
+}
+
+/**
+ * Spends one reserved credit on a completed job, at most once per job
+ */
+export async function captureReservedCredit(
+  supabase: SupabaseClient,
+  sessionId: string,
+  jobId: string,
+  executionId?: string
+): Promise<boolean> {
+  const prefix = executionId ? `[${executionId}] ` : "";
+  const { data, error } = await supabase.rpc("capture_reserved_credit", {
+    p_session_id: sessionId,
+    p_generation_job_id: jobId
+  });
+
+  if (error) {
+    console.error(`${prefix}Error capturing reserved credit for job ${jobId}:`, error);
+    return false;
+  }
+
+  if (data) {
+    console.log(`${prefix}Captured reserved credit for job ${jobId}`);
+  }
+  return data === true;
+}
+
+/**
+ * Returns reserved credits that were not captured to the balance. Without an
+ * amount every remaining credit is released and the reservation is settled.
+ */
+export async function releaseReservedCredits(
+  supabase: SupabaseClient,
+  sessionId: string,
+  options: { amount?: number; reason?: string } = {},
+  executionId?: string
+): Promise<number> {
+  const prefix = executionId ? `[${executionId}] ` : "";
+  const { data, error } = await supabase.rpc("release_reserved_credits", {
+    p_session_id: sessionId,
+    p_amount: options.amount ?? null,
+    p_reason: options.reason ?? null
+  });
+
+  if (error) {
+    console.error(`${prefix}Error releasing reserved credits of session ${sessionId}:`, error);
+    return 0;
+  }
+
+  const released = (data as number | null) ?? 0;
+  if (released > 0) {
+    console.log(`${prefix}Released ${released} reserved credits of session ${sessionId}`);
+  }
+  return released;
+}
+
+/**
+ * Returns the credit of a failed job. Reserved credits are never captured for
+ * failed jobs and come back when the session settles, so only sessions that
+ * were charged up front get a refund here.
+ */
+export async function returnFailedJobCredit(
+  supabase: SupabaseClient,
+  job: { jobId: string; userId: string; sessionId: string; reason: string },
+  executionId?: string
+): Promise<boolean> {
+  try {
+    if (await getSessionReservation(supabase, job.sessionId)) {
+      return false;
+    }
+  } catch (error) {
+    console.error(`${executionId ? `[${executionId}] ` : ""}Error returning credit of job ${job.jobId}:`, error);
+    return false;
+  }
+  return refundGenerationJob(supabase, job, executionId);
+}
+
+/**
+ * Returns the credits of a session that ended, failed or completed. Releases
+ * whatever its reservation did not capture, or refunds `refundAmount` credits
+ * for sessions that were charged up front. Resolves to the credits returned.
+ */
+export async function settleSessionCredits(
+  supabase: SupabaseClient,
+  session: { id: string; user_id: string },
+  options: { reason: string; refundAmount?: number },
+  executionId?: string
+): Promise<number> {
+  try {
+    if (await getSessionReservation(supabase, session.id)) {
+      return releaseReservedCredits(supabase, session.id, { reason: options.reason }, executionId);
+    }
+  } catch (error) {
+    console.error(`${executionId ? `[${executionId}] ` : ""}Error settling credits of session ${session.id}:`, error);
+    return 0;
+  }
+
+  if (!options.refundAmount) return 0;
+
+  const refunded = await refundCredits(supabase, {
+    userId: session.user_id,
+    amount: options.refundAmount,
+    refundKey: sessionRefundKey(session.id),
+    reason: options.reason,
+    sessionId: session.id
+  }, executionId);
+  return refunded ? options.refundAmount : 0;
+}
+
+/**
+ * Returns the credits of variations a session will never generate, for example
+ * when the prompt provider delivered fewer prompts than requested
+ */
+export async function returnUnusedSessionCredits(
+  supabase: SupabaseClient,
+  session: { id: string; user_id: string },
+  unused: number,
+  reason: string,
+  executionId?: string
+): Promise<number> {
+  if (unused <= 0) return 0;
+
+  try {
+    if (await getSessionReservation(supabase, session.id)) {
+      return releaseReservedCredits(supabase, session.id, { amount: unused, reason }, executionId);
+    }
+  } catch (error) {
+    console.error(`${executionId ? `[${executionId}] ` : ""}Error returning unused credits of session ${session.id}:`, error);
+    return 0;
+  }
+
+  const refunded = await refundCredits(supabase, {
+    userId: session.user_id,
+    amount: unused,
+    refundKey: `${sessionRefundKey(session.id)}:unused`,
+    reason,
+    sessionId: session.id
+  }, executionId);
+  return refunded ? unused : 0;
+}
+
+/**
+ * Checks whether the credits of a session were already settled, either by a
+ * full refund or by releasing its reservation. Such a session cannot run again.
+ */
+export async function isSessionSettled(supabase: SupabaseClient, sessionId: string): Promise<boolean> {
+  const reservation = await getSessionReservation(supabase, sessionId);
+  if (reservation) {
+    return reservation.status === "settled";
+  }
+
+  const { data, error } = await supabase
+    .from("credit_refunds")
+    .select("id")
+    .eq("refund_key", sessionRefundKey(sessionId))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check session refund: ${error.message}`);
+  }
+  return !!data;
+}
@@ -0,0 +1,91 @@
+/**
+ * Machine readable error codes returned in the `error.code` field of every
+ * edge function error response
+ */
+export type ErrorCode =
+  | "BAD_REQUEST"
+  | "INVALID_JSON"
+  | "MISSING_PARAMETER"
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "METHOD_NOT_ALLOWED"
+  | "CONFLICT"
+  | "INSUFFICIENT_CREDITS"
+  | "INVALID_SIGNATURE"
+  | "PROVIDER_ERROR"
+  | "DATABASE_ERROR"
+  | "CONFIGURATION_ERROR"
+  | "INTERNAL_ERROR";
+
+const DEFAULT_STATUS: Record<ErrorCode, number> = {
+  BAD_REQUEST: 400,
+  INVALID_JSON: 400,
+  MISSING_PARAMETER: 400,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  CONFLICT: 409,
+  INSUFFICIENT_CREDITS: 402,
+  INVALID_SIGNATURE: 400,
+  PROVIDER_ERROR: 502,
+  DATABASE_ERROR: 500,
+  CONFIGURATION_ERROR: 500,
+  INTERNAL_ERROR: 500
+};
+
+/**
+ * Shape of the JSON body returned by every edge function on failure
+ */
+export interface ErrorEnvelope {
+  status: "error";
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+  executionId?: string;
+}
+
+/**
+ * Error carrying an HTTP status and error code. Throw it from a handler and
+ * the shared server turns it into an error envelope response.
+ */
+export class HttpError extends Error {
+  code: ErrorCode;
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>, status?: number) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code;
+    this.status = status ?? DEFAULT_STATUS[code];
+    this.details = details;
+  }
+}
+
+/**
+ * Normalises any thrown value into an HttpError
+ */
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new HttpError("INTERNAL_ERROR", message || "An unexpected error occurred");
+}
+
+export function toErrorEnvelope(error: HttpError, executionId?: string): ErrorEnvelope {
+  return {
+    status: "error",
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details ? { details: error.details } : {})
+    },
+    ...(executionId ? { executionId } : {})
+  };
+}
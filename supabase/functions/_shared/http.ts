@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from "npm:uuid@9.0.1";
+import { HttpError, toErrorEnvelope, toHttpError } from "./errors.ts";
+import {
+  createServiceClient,
+  getAuthenticatedUser,
+  getServiceConfig,
+  type ServiceConfig,
+  type SupabaseClient,
+  type User
+} from "./supabase.ts";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-auth"
+};
+
+export interface RequestContext {
+  req: Request;
+  executionId: string;
+  config: ServiceConfig;
+  supabase: SupabaseClient;
+}
+
+export interface AuthenticatedRequestContext extends RequestContext {
+  user: User;
+}
+
+export interface ServeOptions {
+  // Allowed HTTP methods besides OPTIONS, defaults to POST
+  methods?: string[];
+}
+
+/**
+ * Builds a JSON response with CORS headers
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+}
+
+/**
+ * Builds an error envelope response from any thrown value
+ */
+export function errorResponse(error: unknown, executionId?: string): Response {
+  const httpError = toHttpError(error);
+  return jsonResponse(toErrorEnvelope(httpError, executionId), httpError.status);
+}
+
+/**
+ * Parses the request body as JSON, throwing INVALID_JSON on malformed input
+ */
+export async function readJson<T>(req: Request): Promise<T> {
+  try {
+    return await req.json() as T;
+  } catch (error) {
+    throw new HttpError("INVALID_JSON", "Invalid JSON in request body", {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Throws MISSING_PARAMETER listing every required field that is absent or empty
+ */
+export function requireFields<T extends object>(body: T, fields: (keyof T & string)[]): void {
+  const missing = fields.filter(field => {
+    const value = body[field];
+    return value === undefined || value === null || value === "";
+  });
+
+  if (missing.length > 0) {
+    throw new HttpError("MISSING_PARAMETER", `Missing required parameter: ${missing.join(", ")}`, { missing });
+  }
+}
+
+/**
+ * Serves an edge function. Handles CORS preflight, method checks, creates the
+ * service role client and converts anything thrown into an error envelope.
+ */
+export function serve(
+  handler: (ctx: RequestContext) => Promise<Response>,
+  { methods = ["POST"] }: ServeOptions = {}
+): void {
+  Deno.serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders, status: 200 });
+    }
+
+    const executionId = uuidv4().substring(0, 8);
+
+    try {
+      if (!methods.includes(req.method)) {
+        throw new HttpError("METHOD_NOT_ALLOWED", `Method ${req.method} not allowed`);
+      }
+
+      const config = getServiceConfig();
+      const supabase = createServiceClient(config);
+
+      return await handler({ req, executionId, config, supabase });
+    } catch (error) {
+      const httpError = toHttpError(error);
+      console.error(`[${executionId}] ${httpError.code}: ${httpError.message}`);
+      return errorResponse(httpError, executionId);
+    }
+  });
+}
+
+/**
+ * Same as serve, but rejects requests without a valid user token and passes
+ * the user to the handler
+ */
+export function serveAuthenticated(
+  handler: (ctx: AuthenticatedRequestContext) => Promise<Response>,
+  options?: ServeOptions
+): void {
+  serve(async (ctx) => {
+    const user = await getAuthenticatedUser(ctx.req, ctx.supabase);
+    return handler({ ...ctx, user });
+  }, options);
+}
@@ -0,0 +1,206 @@
+import OpenAI from "npm:openai@4.98.0";
+import { encodePng } from "./png.ts";
+
+/**
+ * Image sizes supported by gpt-image-1, plus "auto" to let the provider decide
+ */
+export type ImageSize = "1024x1024" | "1536x1024" | "1024x1536" | "auto";
+
+export type ImageQuality = "low" | "medium" | "high" | "auto";
+
+export interface ImageGenerateRequest {
+  prompt: string;
+  size?: ImageSize;
+  quality?: ImageQuality;
+}
+
+export interface ImageEditRequest extends ImageGenerateRequest {
+  images: File[];
+}
+
+export interface ImageMaskEditRequest extends ImageEditRequest {
+  mask: File;
+}
+
+export interface GeneratedImage {
+  bytes: Uint8Array;
+  contentType: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * Common interface implemented by every image backend used by the edge functions
+ */
+export interface ImageProvider {
+  name: string;
+  generate(request: ImageGenerateRequest): Promise<GeneratedImage>;
+  edit(request: ImageEditRequest): Promise<GeneratedImage>;
+  editWithMask(request: ImageMaskEditRequest): Promise<GeneratedImage>;
+}
+
+const OPENAI_IMAGE_MODEL = "gpt-image-1";
+
+/**
+ * Maps a layout type (square, landscape, portrait, auto) to a provider size
+ */
+export function mapLayoutToImageSize(layout: string | null | undefined): ImageSize {
+  switch (layout) {
+    case "square":
+      return "1024x1024";
+    case "landscape":
+      return "1536x1024";
+    case "portrait":
+      return "1024x1536";
+    case "auto":
+    default:
+      return "auto";
+  }
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Image provider backed by the OpenAI images API
+ */
+export class OpenAIImageProvider implements ImageProvider {
+  name = "openai";
+  private client: OpenAI;
+
+  constructor(apiKey: string | undefined) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async generate({ prompt, size = "auto", quality = "high" }: ImageGenerateRequest): Promise<GeneratedImage> {
+    const result = await this.client.images.generate({
+      model: OPENAI_IMAGE_MODEL,
+      prompt,
+      size,
+      quality
+    });
+
+    return this.toGeneratedImage(result.data?.[0]?.b64_json);
+  }
+
+  async edit({ prompt, images, size = "auto", quality = "high" }: ImageEditRequest): Promise<GeneratedImage> {
+    const result = await this.client.images.edit({
+      model: OPENAI_IMAGE_MODEL,
+      prompt,
+      image: images,
+      size,
+      quality
+    });
+
+    return this.toGeneratedImage(result.data?.[0]?.b64_json);
+  }
+
+  async editWithMask({ prompt, images, mask, size = "auto", quality = "high" }: ImageMaskEditRequest): Promise<GeneratedImage> {
+    const result = await this.client.images.edit({
+      model: OPENAI_IMAGE_MODEL,
+      prompt,
+      image: images,
+      mask,
+      size,
+      quality
+    });
+
+    return this.toGeneratedImage(result.data?.[0]?.b64_json);
+  }
+
+  private toGeneratedImage(base64: string | undefined): GeneratedImage {
+    if (!base64) {
+      throw new Error("No image data returned from OpenAI");
+    }
+
+    return {
+      bytes: base64ToBytes(base64),
+      contentType: "image/png",
+      provider: this.name,
+      model: OPENAI_IMAGE_MODEL
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider. Renders a striped PNG whose colours are
+ * derived from the request, so identical inputs always produce identical bytes.
+ */
+export class MockImageProvider implements ImageProvider {
+  name = "mock";
+
+  generate(request: ImageGenerateRequest): Promise<GeneratedImage> {
+    return Promise.resolve(this.render("generate", request, []));
+  }
+
+  edit(request: ImageEditRequest): Promise<GeneratedImage> {
+    return Promise.resolve(this.render("edit", request, request.images));
+  }
+
+  editWithMask(request: ImageMaskEditRequest): Promise<GeneratedImage> {
+    return Promise.resolve(this.render("edit-mask", request, [...request.images, request.mask]));
+  }
+
+  private render(operation: string, request: ImageGenerateRequest, files: File[]): GeneratedImage {
+    const [width, height] = mockDimensions(request.size);
+    const seed = hashString([
+      operation,
+      request.prompt,
+      request.quality ?? "",
+      ...files.map(file => `${file.name}:${file.size}`)
+    ].join("|"));
+
+    const primary = colorFromSeed(seed);
+    const secondary = colorFromSeed(seed >>> 8 ^ 0x5bd1e995);
+    const stripe = 32 + (seed % 96);
+
+    return {
+      bytes: encodePng(width, height, (x, y) => (Math.floor((x + y) / stripe) % 2 === 0 ? primary : secondary)),
+      contentType: "image/png",
+      provider: this.name,
+      model: "mock-image-1"
+    };
+  }
+}
+
+function mockDimensions(size: ImageSize | undefined): [number, number] {
+  switch (size) {
+    case "1536x1024":
+      return [1536, 1024];
+    case "1024x1536":
+      return [1024, 1536];
+    default:
+      return [1024, 1024];
+  }
+}
+
+// FNV-1a, good enough to spread prompts across colours
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function colorFromSeed(seed: number): [number, number, number] {
+  return [seed & 0xff, (seed >>> 8) & 0xff, (seed >>> 16) & 0xff];
+}
+
+/**
+ * Returns the provider selected by the IMAGE_PROVIDER env var ("openai" by default)
+ */
+export function getImageProvider(): ImageProvider {
+  const providerName = (Deno.env.get("IMAGE_PROVIDER") ?? "openai").toLowerCase();
+
+  switch (providerName) {
+    case "mock":
+      return new MockImageProvider();
+    case "openai":
+      return new OpenAIImageProvider(Deno.env.get("VITE_OPENAI_API_KEY"));
+    default:
+      throw new Error(`Unknown IMAGE_PROVIDER "${providerName}". Expected "openai" or "mock".`);
+  }
+}
@@ -0,0 +1,198 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { releaseReservedCredits } from "./credits.ts";
+import { invokeFunction, type ServiceConfig, type SupabaseClient } from "./supabase.ts";
+
+export interface GenerationJob {
+  id: string;
+  variation_id: string;
+  prompt: string;
+  image_url: string | null;
+  status: "queued" | "in_progress" | "completed" | "failed";
+  error_message: string | null;
+  claimed_by: string | null;
+  lease_expires_at: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+  // Provenance record whose settings the job generates again
+  replay_of: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkerSettings {
+  // Parallel jobs per session when automation_sessions.max_concurrency is null
+  sessionConcurrency: number;
+  // Parallel jobs per user when user_profiles.max_concurrent_jobs is null
+  userConcurrency: number;
+  // How long a claimed job stays leased before another worker may take it over
+  leaseSeconds: number;
+  // Claims per job before a stalled job is failed for good
+  maxAttempts: number;
+  // Delay before the first retry of a stalled job, doubled on every further retry
+  retryBackoffSeconds: number;
+}
+
+// Upper bound for the retry delay of a stalled job
+const MAX_RETRY_BACKOFF_SECONDS = 60 * 60;
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number.parseInt(Deno.env.get(name) ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Reads worker defaults from AUTOMATION_SESSION_CONCURRENCY,
+ * AUTOMATION_USER_CONCURRENCY, GENERATION_JOB_LEASE_SECONDS,
+ * GENERATION_JOB_MAX_ATTEMPTS and GENERATION_JOB_RETRY_BACKOFF_SECONDS
+ */
+export function getWorkerSettings(): WorkerSettings {
+  return {
+    sessionConcurrency: readPositiveInt("AUTOMATION_SESSION_CONCURRENCY", 3),
+    userConcurrency: readPositiveInt("AUTOMATION_USER_CONCURRENCY", 5),
+    leaseSeconds: readPositiveInt("GENERATION_JOB_LEASE_SECONDS", 300),
+    maxAttempts: readPositiveInt("GENERATION_JOB_MAX_ATTEMPTS", 3),
+    retryBackoffSeconds: readPositiveInt("GENERATION_JOB_RETRY_BACKOFF_SECONDS", 60)
+  };
+}
+
+/**
+ * Delay before a stalled job that has been claimed `attempts` times is retried
+ */
+export function getRetryDelaySeconds(attempts: number, settings: WorkerSettings = getWorkerSettings()): number {
+  const delay = settings.retryBackoffSeconds * 2 ** Math.max(attempts - 1, 0);
+  return Math.min(delay, MAX_RETRY_BACKOFF_SECONDS);
+}
+
+/**
+ * Leases the next claimable job of a session to the worker. Returns null when
+ * the session has nothing left to claim or its concurrency limits are reached.
+ */
+export async function claimGenerationJob(
+  supabase: SupabaseClient,
+  sessionId: string,
+  workerId: string,
+  settings: WorkerSettings = getWorkerSettings()
+): Promise<GenerationJob | null> {
+  const { data, error } = await supabase.rpc("claim_generation_jobs", {
+    p_session_id: sessionId,
+    p_worker_id: workerId,
+    p_limit: 1,
+    p_lease_seconds: settings.leaseSeconds,
+    p_default_session_concurrency: settings.sessionConcurrency,
+    p_default_user_concurrency: settings.userConcurrency,
+    p_max_attempts: settings.maxAttempts
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim generation job: ${error.message}`);
+  }
+
+  const jobs = (data ?? []) as GenerationJob[];
+  return jobs[0] ?? null;
+}
+
+/**
+ * Starts worker invocations of process-generation-job for a session without
+ * waiting for them to finish
+ */
+export function dispatchWorkers(config: ServiceConfig, sessionId: string, count: number, executionId?: string): void {
+  if (count <= 0) return;
+
+  const prefix = executionId ? `[${executionId}] ` : "";
+  console.log(`${prefix}Dispatching ${count} worker(s) for session ${sessionId}`);
+
+  const invocations = Array.from({ length: count }, () =>
+    invokeFunction(config, "process-generation-job", { sessionId })
+      .catch(error => console.error(`${prefix}Error dispatching worker for session ${sessionId}:`, error))
+  );
+
+  EdgeRuntime.waitUntil(Promise.allSettled(invocations));
+}
+
+/**
+ * Counts jobs of a session that are still waiting for or under generation
+ */
+export async function countOpenJobs(supabase: SupabaseClient, sessionId: string): Promise<{ queued: number; inProgress: number }> {
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .select("status, prompt_variations!inner(session_id)")
+    .eq("prompt_variations.session_id", sessionId)
+    .in("status", ["queued", "in_progress"]);
+
+  if (error) {
+    throw new Error(`Failed to count open jobs: ${error.message}`);
+  }
+
+  const rows = data ?? [];
+  return {
+    queued: rows.filter(row => row.status === "queued").length,
+    inProgress: rows.filter(row => row.status === "in_progress").length
+  };
+}
+
+/**
+ * Marks the session completed once none of its jobs are queued or running and
+ * releases the reserved credits its failed jobs did not use. Cancelled
+ * sessions keep their status and only have their credits released.
+ * Returns true when the session is finished.
+ */
+export async function completeSessionIfDone(supabase: SupabaseClient, sessionId: string, executionId?: string): Promise<boolean> {
+  const { queued, inProgress } = await countOpenJobs(supabase, sessionId);
+  const prefix = executionId ? `[${executionId}] ` : "";
+
+  if (queued > 0 || inProgress > 0) {
+    console.log(`${prefix}Session ${sessionId} has ${queued} queued and ${inProgress} running jobs`);
+    return false;
+  }
+
+  const { error } = await supabase
+    .from("automation_sessions")
+    .update({ status: "completed", updated_at: new Date().toISOString() })
+    .eq("id", sessionId)
+    .not("status", "in", "(completed,cancelled)");
+
+  if (error) {
+    console.error(`${prefix}Error updating session status:`, error);
+  } else {
+    console.log(`${prefix}All jobs complete, session ${sessionId} marked as completed`);
+  }
+
+  await releaseReservedCredits(supabase, sessionId, { reason: "Credits of failed or skipped variations returned" }, executionId);
+  return true;
+}
+
+/**
+ * Hands the freed worker slot on. Prefers the worker's own session and falls
+ * back to another session of the same user that still has queued jobs.
+ */
+export async function dispatchNextWorker(
+  config: ServiceConfig,
+  supabase: SupabaseClient,
+  sessionId: string,
+  userId: string,
+  executionId?: string
+): Promise<void> {
+  const { queued } = await countOpenJobs(supabase, sessionId);
+
+  if (queued > 0) {
+    dispatchWorkers(config, sessionId, 1, executionId);
+    return;
+  }
+
+  const { data: waiting, error } = await supabase
+    .from("generation_jobs")
+    .select("prompt_variations!inner(session_id, automation_sessions!inner(user_id))")
+    .eq("status", "queued")
+    .eq("prompt_variations.automation_sessions.user_id", userId)
+    .limit(1);
+
+  if (error) {
+    console.error(`${executionId ? `[${executionId}] ` : ""}Error looking for other sessions with queued jobs:`, error);
+    return;
+  }
+
+  const variation = waiting?.[0]?.prompt_variations as unknown as { session_id: string } | undefined;
+  if (variation?.session_id) {
+    dispatchWorkers(config, variation.session_id, 1, executionId);
+  }
+}
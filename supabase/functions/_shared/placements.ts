@@ -0,0 +1,169 @@
+import type { ImageSize } from "./imageProvider.ts";
+import type { RgbaImage } from "./png.ts";
+
+/**
+ * Aspect ratios ads are placed in, the frontend mirrors the list in
+ * src/services/placementService.ts
+ */
+export type PlacementFormat = "1:1" | "4:5" | "9:16" | "1.91:1" | "16:9";
+
+export interface PlacementSpec {
+  format: PlacementFormat;
+  // Pixel size of the finished version
+  width: number;
+  height: number;
+  // Provider size the canvas is extended at, the one closest to the format
+  providerSize: Exclude<ImageSize, "auto">;
+}
+
+export const PLACEMENT_SPECS: PlacementSpec[] = [
+  { format: "1:1", width: 1080, height: 1080, providerSize: "1024x1024" },
+  { format: "4:5", width: 1080, height: 1350, providerSize: "1024x1536" },
+  { format: "9:16", width: 1080, height: 1920, providerSize: "1024x1536" },
+  { format: "1.91:1", width: 1200, height: 628, providerSize: "1536x1024" },
+  { format: "16:9", width: 1920, height: 1080, providerSize: "1536x1024" }
+];
+
+export function getPlacementSpec(format: unknown): PlacementSpec | null {
+  return PLACEMENT_SPECS.find(spec => spec.format === format) ?? null;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Largest rectangle of the given aspect ratio centred in a width x height area
+ */
+export function fitRect(width: number, height: number, ratio: number): Rect {
+  const fitWidth = Math.min(width, Math.round(height * ratio));
+  const fitHeight = Math.min(height, Math.round(width / ratio));
+  return {
+    x: Math.floor((width - fitWidth) / 2),
+    y: Math.floor((height - fitHeight) / 2),
+    width: fitWidth,
+    height: fitHeight
+  };
+}
+
+export function createImage(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+/**
+ * Draws an image scaled into a rectangle of another one, replacing the pixels
+ * underneath. Sampling is bilinear.
+ */
+export function drawImage(target: RgbaImage, source: RgbaImage, rect: Rect): void {
+  const scaleX = source.width / rect.width;
+  const scaleY = source.height / rect.height;
+
+  for (let y = Math.max(0, rect.y); y < Math.min(target.height, rect.y + rect.height); y++) {
+    const sourceY = Math.min(Math.max((y - rect.y + 0.5) * scaleY - 0.5, 0), source.height - 1);
+    const y0 = Math.floor(sourceY);
+    const y1 = Math.min(y0 + 1, source.height - 1);
+    const weightY = sourceY - y0;
+
+    for (let x = Math.max(0, rect.x); x < Math.min(target.width, rect.x + rect.width); x++) {
+      const sourceX = Math.min(Math.max((x - rect.x + 0.5) * scaleX - 0.5, 0), source.width - 1);
+      const x0 = Math.floor(sourceX);
+      const x1 = Math.min(x0 + 1, source.width - 1);
+      const weightX = sourceX - x0;
+      const targetIndex = (y * target.width + x) * 4;
+
+      for (let channel = 0; channel < 4; channel++) {
+        const top = source.data[(y0 * source.width + x0) * 4 + channel] * (1 - weightX) +
+          source.data[(y0 * source.width + x1) * 4 + channel] * weightX;
+        const bottom = source.data[(y1 * source.width + x0) * 4 + channel] * (1 - weightX) +
+          source.data[(y1 * source.width + x1) * 4 + channel] * weightX;
+        target.data[targetIndex + channel] = top * (1 - weightY) + bottom * weightY;
+      }
+    }
+  }
+}
+
+function cropImage(source: RgbaImage, rect: Rect): RgbaImage {
+  const cropped = createImage(rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * source.width + rect.x) * 4;
+    cropped.data.set(source.data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return cropped;
+}
+
+export function resizeImage(source: RgbaImage, width: number, height: number): RgbaImage {
+  const resized = createImage(width, height);
+  drawImage(resized, source, { x: 0, y: 0, width, height });
+  return resized;
+}
+
+/**
+ * Where a source image goes on the provider canvas of a placement: the
+ * placement's area centred in the canvas, and the source fitted inside it
+ */
+export interface PlacementLayout {
+  canvasWidth: number;
+  canvasHeight: number;
+  placementRect: Rect;
+  sourceRect: Rect;
+  // False when the source already has the placement's aspect ratio
+  needsOutpaint: boolean;
+}
+
+export function layoutPlacement(source: { width: number; height: number }, spec: PlacementSpec): PlacementLayout {
+  const [canvasWidth, canvasHeight] = spec.providerSize.split("x").map(Number);
+  const placementRect = fitRect(canvasWidth, canvasHeight, spec.width / spec.height);
+  const fitted = fitRect(placementRect.width, placementRect.height, source.width / source.height);
+  const sourceRect = { ...fitted, x: placementRect.x + fitted.x, y: placementRect.y + fitted.y };
+
+  // A couple of pixels of rounding are not worth a provider call
+  const needsOutpaint = placementRect.width - sourceRect.width > 2 || placementRect.height - sourceRect.height > 2;
+
+  return { canvasWidth, canvasHeight, placementRect, sourceRect, needsOutpaint };
+}
+
+/**
+ * The canvas and mask sent to the provider. The source sits in its place on
+ * an otherwise transparent canvas, the mask is opaque over the source and
+ * transparent where the provider fills the canvas in.
+ */
+export function buildOutpaintCanvas(source: RgbaImage, layout: PlacementLayout): { canvas: RgbaImage; mask: RgbaImage } {
+  const canvas = createImage(layout.canvasWidth, layout.canvasHeight);
+  drawImage(canvas, source, layout.sourceRect);
+
+  const mask = createImage(layout.canvasWidth, layout.canvasHeight);
+  const { x, y, width, height } = layout.sourceRect;
+  for (let row = y; row < y + height; row++) {
+    mask.data.fill(255, (row * mask.width + x) * 4, (row * mask.width + x + width) * 4);
+  }
+
+  return { canvas, mask };
+}
+
+/**
+ * Turns the extended canvas into the finished version. The source is put
+ * back over the provider's copy of it so the ad itself stays pixel for pixel
+ * the same, then the placement's area is cut out at the placement's size.
+ */
+export function finishPlacement(
+  extended: RgbaImage,
+  source: RgbaImage,
+  layout: PlacementLayout,
+  spec: PlacementSpec
+): RgbaImage {
+  const canvas = extended.width === layout.canvasWidth && extended.height === layout.canvasHeight
+    ? extended
+    : resizeImage(extended, layout.canvasWidth, layout.canvasHeight);
+
+  drawImage(canvas, source, layout.sourceRect);
+
+  // The provider returns opaque images, the transparent canvas must not leak through
+  for (let index = 3; index < canvas.data.length; index += 4) {
+    canvas.data[index] = 255;
+  }
+
+  return resizeImage(cropImage(canvas, layout.placementRect), spec.width, spec.height);
+}
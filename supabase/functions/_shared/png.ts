@@ -0,0 +1,316 @@
+/**
+ * PNG encoding and decoding for the edge functions, which have no image
+ * library. Only what the providers produce and accept is supported: 8-bit,
+ * non-interlaced images.
+ */
+
+/**
+ * Decoded image, 4 bytes (RGBA) per pixel, row by row
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Wraps raw bytes in a zlib stream made of uncompressed (stored) deflate blocks
+ */
+function zlibStore(raw: Uint8Array): Uint8Array {
+  const maxBlock = 65535;
+  const blockCount = Math.max(1, Math.ceil(raw.length / maxBlock));
+  const out = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  let offset = 0;
+
+  out[offset++] = 0x78;
+  out[offset++] = 0x01;
+
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * maxBlock;
+    const length = Math.min(maxBlock, raw.length - start);
+    out[offset++] = block === blockCount - 1 ? 1 : 0;
+    out[offset++] = length & 0xff;
+    out[offset++] = (length >>> 8) & 0xff;
+    out[offset++] = ~length & 0xff;
+    out[offset++] = (~length >>> 8) & 0xff;
+    out.set(raw.subarray(start, start + length), offset);
+    offset += length;
+  }
+
+  const checksum = adler32(raw);
+  out[offset++] = (checksum >>> 24) & 0xff;
+  out[offset++] = (checksum >>> 16) & 0xff;
+  out[offset++] = (checksum >>> 8) & 0xff;
+  out[offset++] = checksum & 0xff;
+
+  return out;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Minimal RGB PNG encoder used by the mock provider
+ */
+export function encodePng(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number]
+): Uint8Array {
+  const rowLength = width * 3 + 1;
+  const raw = new Uint8Array(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    // Each scanline starts with filter type 0 (none)
+    let offset = y * rowLength + 1;
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      raw[offset++] = r;
+      raw[offset++] = g;
+      raw[offset++] = b;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlibStore(raw)),
+    pngChunk("IEND", new Uint8Array(0))
+  ]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Channels per pixel of each supported colour type
+const CHANNELS: Record<number, number> = {
+  0: 1, // greyscale
+  2: 3, // truecolour
+  3: 1, // palette index
+  4: 2, // greyscale with alpha
+  6: 4 // truecolour with alpha
+};
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Decodes an 8-bit, non-interlaced PNG to RGBA pixels. Throws for anything
+ * else, including files that are not PNGs.
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage> {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((byte, index) => bytes[index] !== byte)) {
+    throw new Error("Not a PNG image");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const dataChunks: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      const headerView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      width = headerView.getUint32(0);
+      height = headerView.getUint32(4);
+      colorType = data[9];
+
+      if (data[8] !== 8 || data[12] !== 0 || !(colorType in CHANNELS)) {
+        throw new Error(`Unsupported PNG format: bit depth ${data[8]}, colour type ${colorType}, interlace ${data[12]}`);
+      }
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      dataChunks.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!width || !height || dataChunks.length === 0) {
+    throw new Error("PNG image has no pixel data");
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("Palette PNG image has no palette");
+  }
+
+  const channels = CHANNELS[colorType];
+  const rowLength = width * channels;
+  const raw = await pipeBytes(concatBytes(dataChunks), new DecompressionStream("deflate"));
+
+  if (raw.length < (rowLength + 1) * height) {
+    throw new Error("PNG pixel data is truncated");
+  }
+
+  // Undo the per-row filters in place, row y ends up at raw[y * (rowLength + 1) + 1]
+  for (let y = 0; y < height; y++) {
+    const start = y * (rowLength + 1) + 1;
+    const previous = start - rowLength - 1;
+    const filter = raw[start - 1];
+
+    for (let x = 0; x < rowLength; x++) {
+      const left = x >= channels ? raw[start + x - channels] : 0;
+      const up = y > 0 ? raw[previous + x] : 0;
+      const upLeft = y > 0 && x >= channels ? raw[previous + x - channels] : 0;
+
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          raw[start + x] += left;
+          break;
+        case 2:
+          raw[start + x] += up;
+          break;
+        case 3:
+          raw[start + x] += (left + up) >> 1;
+          break;
+        case 4:
+          raw[start + x] += paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Unknown PNG filter type ${filter}`);
+      }
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const start = y * (rowLength + 1) + 1;
+
+    for (let x = 0; x < width; x++) {
+      const source = start + x * channels;
+      const target = (y * width + x) * 4;
+
+      switch (colorType) {
+        case 0:
+        case 4:
+          pixels[target] = pixels[target + 1] = pixels[target + 2] = raw[source];
+          pixels[target + 3] = colorType === 4 ? raw[source + 1] : 255;
+          break;
+        case 2:
+        case 6:
+          pixels[target] = raw[source];
+          pixels[target + 1] = raw[source + 1];
+          pixels[target + 2] = raw[source + 2];
+          pixels[target + 3] = colorType === 6 ? raw[source + 3] : 255;
+          break;
+        case 3: {
+          const index = raw[source];
+          pixels[target] = palette![index * 3];
+          pixels[target + 1] = palette![index * 3 + 1];
+          pixels[target + 2] = palette![index * 3 + 2];
+          pixels[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+      }
+    }
+  }
+
+  return { width, height, data: pixels };
+}
+
+/**
+ * Encodes RGBA pixels as a deflate compressed PNG
+ */
+export async function encodeRgbaPng(image: RgbaImage): Promise<Uint8Array> {
+  const rowLength = image.width * 4;
+  const raw = new Uint8Array((rowLength + 1) * image.height);
+
+  for (let y = 0; y < image.height; y++) {
+    // Filter type 0 (none), the pixels follow as they are
+    raw.set(image.data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, image.width);
+  headerView.setUint32(4, image.height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type: truecolour with alpha
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", await pipeBytes(raw, new CompressionStream("deflate"))),
+    pngChunk("IEND", new Uint8Array(0))
+  ]);
+}
@@ -0,0 +1,128 @@
+import OpenAI from "npm:openai@4.98.0";
+import { AD_CONCEPTS_SCHEMA } from "./adConcepts.ts";
+
+export interface PromptCompletionRequest {
+  systemMessage: string;
+  userMessage: string;
+  // Base64 encoded PNG images sent alongside the user message
+  images?: string[];
+  // Number of prompts the caller expects back, used by the mock provider
+  expectedCount?: number;
+  // JSON Schema the response must follow, plain JSON mode without it
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+/**
+ * Common interface for the chat model that writes ad prompts. Implementations
+ * return the raw JSON string produced by the model.
+ */
+export interface PromptProvider {
+  name: string;
+  model: string;
+  completeJson(request: PromptCompletionRequest): Promise<string>;
+}
+
+const OPENAI_PROMPT_MODEL = "gpt-4o-2024-11-20";
+
+/**
+ * Prompt provider backed by OpenAI chat completions, in strict structured
+ * output mode when a response schema is given and JSON mode otherwise
+ */
+export class OpenAIPromptProvider implements PromptProvider {
+  name = "openai";
+  model = OPENAI_PROMPT_MODEL;
+  private client: OpenAI;
+
+  constructor(apiKey: string | undefined) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async completeJson({ systemMessage, userMessage, images = [], responseSchema }: PromptCompletionRequest): Promise<string> {
+    const userContent: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [
+      { type: "text", text: userMessage },
+      ...images.map(base64Image => ({
+        type: "image_url" as const,
+        image_url: { url: `data:image/png;base64,${base64Image}` }
+      }))
+    ];
+
+    const chatResponse = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: systemMessage },
+        { role: "user", content: images.length > 0 ? userContent : userMessage }
+      ],
+      response_format: responseSchema
+        ? { type: "json_schema", json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: true } }
+        : { type: "json_object" },
+      top_p: 0.7, // Lower value for more focused outputs
+      temperature: 0.9 // Maintain creativity
+    });
+
+    const message = chatResponse.choices[0]?.message;
+    if (message?.refusal) {
+      throw new Error(`OpenAI refused the request: ${message.refusal}`);
+    }
+
+    const content = message?.content;
+    if (!content) {
+      throw new Error("No content returned from OpenAI");
+    }
+    return content;
+  }
+}
+
+/**
+ * Deterministic offline provider that returns numbered placeholder prompts, or
+ * placeholder ad concepts when asked for the ad concepts schema
+ */
+export class MockPromptProvider implements PromptProvider {
+  name = "mock";
+  model = "mock-prompt-1";
+
+  completeJson({ expectedCount = 3, responseSchema }: PromptCompletionRequest): Promise<string> {
+    if (responseSchema?.name === AD_CONCEPTS_SCHEMA.name) {
+      const variations = Array.from({ length: expectedCount }, (_, index) => ({
+        concept_name: `Mock concept ${index + 1}`,
+        scene: "Clean studio backdrop with a single prop",
+        lighting: "Soft key light from the left, warm fill",
+        camera: "Eye level, 50mm, shallow depth of field",
+        text_overlay: {
+          headline: "Your new favorite",
+          supporting_text: "Made to last",
+          call_to_action: "Shop now"
+        },
+        focal_area: "Product centered in the lower two thirds",
+        target_audience: "Shoppers comparing options on mobile",
+        prompt: `Mock ad concept ${index + 1}: product centered on a clean studio backdrop, soft key light, bold headline area at the top.`
+      }));
+
+      return Promise.resolve(JSON.stringify({ variations }));
+    }
+
+    const prompts = Array.from({ length: expectedCount }, (_, index) =>
+      `Mock ad concept ${index + 1}: product centered on a clean studio backdrop, soft key light, bold headline area at the top.`
+    );
+
+    return Promise.resolve(JSON.stringify({ prompts }));
+  }
+}
+
+/**
+ * Returns the provider selected by PROMPT_PROVIDER, falling back to IMAGE_PROVIDER
+ * so a single env var can switch the whole pipeline to mock mode.
+ */
+export function getPromptProvider(): PromptProvider {
+  const providerName = (
+    Deno.env.get("PROMPT_PROVIDER") ?? Deno.env.get("IMAGE_PROVIDER") ?? "openai"
+  ).toLowerCase();
+
+  switch (providerName) {
+    case "mock":
+      return new MockPromptProvider();
+    case "openai":
+      return new OpenAIPromptProvider(Deno.env.get("VITE_OPENAI_API_KEY"));
+    default:
+      throw new Error(`Unknown PROMPT_PROVIDER "${providerName}". Expected "openai" or "mock".`);
+  }
+}
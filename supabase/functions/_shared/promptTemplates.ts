@@ -0,0 +1,305 @@
+import { HttpError } from "./errors.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+export type TemplateVariableType = "text" | "number" | "select";
+
+export interface TemplateVariable {
+  key: string;
+  label: string;
+  type: TemplateVariableType;
+  // Allowed values of select variables
+  options?: string[];
+  required?: boolean;
+  defaultValue?: string | number;
+}
+
+export type TemplateValues = Record<string, string | number | null | undefined>;
+
+export interface PromptTemplateDefinition {
+  systemPrompt: string;
+  userPrompt: string;
+  // Variables the template adds on top of the standard ones
+  variables: TemplateVariable[];
+}
+
+export interface StoredPromptTemplate extends PromptTemplateDefinition {
+  id: string;
+  name: string;
+  version: string;
+}
+
+export interface RenderedPrompt {
+  systemMessage: string;
+  userMessage: string;
+}
+
+/**
+ * Variables every template can use, filled in by the user per session
+ */
+export const STANDARD_VARIABLES: TemplateVariable[] = [
+  { key: "product_name", label: "Product name", type: "text" },
+  { key: "category", label: "Category", type: "text" },
+  {
+    key: "brand_voice",
+    label: "Brand voice",
+    type: "select",
+    options: ["playful", "premium", "bold", "minimal", "friendly", "authoritative"]
+  },
+  { key: "season", label: "Season", type: "select", options: ["spring", "summer", "autumn", "winter", "holiday"] },
+  { key: "offer", label: "Offer", type: "text" }
+];
+
+// Variables taken from the session itself, they cannot be set by the user
+export const SESSION_VARIABLES = ["variation_count", "product_image_url", "reference_ad_url", "instructions"];
+
+const MAX_TEXT_LENGTH = 500;
+const VARIABLE_KEY = /^[a-z][a-z0-9_]{0,39}$/;
+const PLACEHOLDER = /\{\{\s*([#^/]?)\s*([a-z][a-z0-9_]*)\s*\}\}/g;
+const REMOVED_SECTION = "\u0000";
+
+export const DEFAULT_TEMPLATE: PromptTemplateDefinition = {
+  systemPrompt: `You are a top-tier eCommerce advertising strategist and AI prompt engineer. Your task is to generate highly specific, visually instructive prompts for an AI image generator to create static ads that mirror successful, high-converting ad styles.
+
+Use the uploaded product image to understand the product's core visual identity, and the reference ad (if provided) to infer layout, styling, lighting, and positioning cues.
+
+Your prompts should:
+
+Clearly describe a unique static ad concept that aligns with proven DTC marketing aesthetics.
+
+Specify exact visual instructions: how the product should be placed, the lighting conditions, camera angle, background, and mood.
+
+Emphasize commercial intent: Include suggestions for text overlays, visual hierarchy, and areas of focus that drive engagement and conversion.
+
+These prompts will be used by an AI agent to recreate or remix winning ad formats, so clarity, detail, and relevance to the product and reference ad are critical.`,
+  userPrompt: `Create {{variation_count}} unique and detailed prompts for generating static product advertisements using the specifications below:
+
+Product Image: {{product_image_url}}
+{{#product_name}}Product Name: {{product_name}}{{/product_name}}
+{{#category}}Category: {{category}}{{/category}}
+{{#reference_ad_url}}Reference Ad Style: {{reference_ad_url}}{{/reference_ad_url}}
+{{#brand_voice}}Brand Voice: {{brand_voice}}{{/brand_voice}}
+{{#season}}Season: {{season}}{{/season}}
+{{#offer}}Offer to feature: {{offer}}{{/offer}}
+{{#instructions}}Additional Instructions: {{instructions}}{{/instructions}}
+
+If a reference image is provided, study the reference image to understand the ads you need to generate
+
+If no reference ad is available, infer a high-performing ad style based on the product's category and likely audience.
+
+Each prompt must:
+
+Describe a unique ad concept with a clear visual identity
+
+Define how the product should be positioned and presented in the frame
+
+Specify background, lighting, camera angle, and atmosphere
+
+Include marketing-driven details like potential text placement, focal areas, and engagement hooks
+
+The goal is to produce sharp, scroll-stopping ad visuals that align with proven ecommerce ad aesthetics.
+
+Your output MUST follow the specified JSON schema, with one entry in the "variations" array per ad concept. The "prompt" of each variation must stand on its own, it is the only text the image generator sees.`,
+  variables: []
+};
+
+/**
+ * Keys of every variable and section a template text refers to
+ */
+export function getReferencedKeys(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map(match => match[2]))];
+}
+
+/**
+ * Checks a template for unknown placeholders, unbalanced sections and badly
+ * defined variables, throwing BAD_REQUEST with every problem found
+ */
+export function validateTemplateDefinition(definition: PromptTemplateDefinition): void {
+  const problems: string[] = [];
+  const variables = Array.isArray(definition.variables) ? definition.variables : [];
+
+  if (typeof definition.userPrompt !== "string" || !definition.userPrompt.trim()) {
+    problems.push("The prompt text is required");
+  }
+
+  const reserved = new Set([...SESSION_VARIABLES, ...STANDARD_VARIABLES.map(variable => variable.key)]);
+  const seen = new Set<string>();
+
+  for (const variable of variables) {
+    if (!VARIABLE_KEY.test(variable?.key ?? "")) {
+      problems.push(`"${variable?.key}" is not a valid variable name, use lowercase letters, digits and underscores`);
+      continue;
+    }
+    if (reserved.has(variable.key)) {
+      problems.push(`"${variable.key}" is a built-in variable`);
+    }
+    if (seen.has(variable.key)) {
+      problems.push(`"${variable.key}" is defined twice`);
+    }
+    seen.add(variable.key);
+
+    if (!["text", "number", "select"].includes(variable.type)) {
+      problems.push(`"${variable.key}" has an unknown type`);
+    }
+    if (variable.type === "select" && (!Array.isArray(variable.options) || variable.options.length === 0)) {
+      problems.push(`"${variable.key}" needs at least one option`);
+    }
+  }
+
+  const known = new Set([...reserved, ...seen]);
+
+  for (const text of [definition.systemPrompt ?? "", definition.userPrompt ?? ""]) {
+    const open: string[] = [];
+
+    for (const [, marker, key] of text.matchAll(PLACEHOLDER)) {
+      if (!known.has(key)) problems.push(`{{${key}}} is not a known variable`);
+
+      if (marker === "#" || marker === "^") {
+        open.push(key);
+      } else if (marker === "/") {
+        if (open.pop() !== key) problems.push(`{{/${key}}} closes a section that is not open`);
+      }
+    }
+
+    open.forEach(key => problems.push(`The {{#${key}}} section is never closed`));
+  }
+
+  if (problems.length > 0) {
+    throw new HttpError("BAD_REQUEST", `Invalid prompt template: ${problems.join("; ")}`, { problems });
+  }
+}
+
+/**
+ * Checks the values a user gave for a template against the variable types,
+ * applying defaults. Keys the template does not define are dropped.
+ */
+export function resolveTemplateValues(definition: PromptTemplateDefinition, values: TemplateValues = {}): TemplateValues {
+  const problems: string[] = [];
+  const resolved: TemplateValues = {};
+
+  for (const variable of [...STANDARD_VARIABLES, ...(definition.variables ?? [])]) {
+    const raw = values[variable.key] ?? variable.defaultValue;
+    const isEmpty = raw === undefined || raw === null || String(raw).trim() === "";
+
+    if (isEmpty) {
+      if (variable.required) problems.push(`${variable.label} is required`);
+      continue;
+    }
+
+    if (variable.type === "number") {
+      const number = Number(raw);
+      if (!Number.isFinite(number)) {
+        problems.push(`${variable.label} must be a number`);
+        continue;
+      }
+      resolved[variable.key] = number;
+    } else if (variable.type === "select") {
+      const option = String(raw).trim();
+      if (!variable.options?.includes(option)) {
+        problems.push(`${variable.label} must be one of ${variable.options?.join(", ")}`);
+        continue;
+      }
+      resolved[variable.key] = option;
+    } else {
+      const text = String(raw).trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        problems.push(`${variable.label} must be at most ${MAX_TEXT_LENGTH} characters`);
+        continue;
+      }
+      resolved[variable.key] = text;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new HttpError("BAD_REQUEST", `Invalid template variables: ${problems.join("; ")}`, { problems });
+  }
+
+  return resolved;
+}
+
+function renderText(text: string, values: TemplateValues): string {
+  const hasValue = (key: string) => {
+    const value = values[key];
+    return value !== undefined && value !== null && String(value).trim() !== "";
+  };
+
+  // {{#key}}...{{/key}} is kept when key has a value, {{^key}}...{{/key}} when it has none.
+  // Sections left out are marked so the lines they stood on alone can be dropped.
+  const withSections = text.replace(
+    /\{\{\s*([#^])\s*([a-z][a-z0-9_]*)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\2\s*\}\}/g,
+    (_, marker: string, key: string, body: string) => (marker === "#") === hasValue(key) ? body : REMOVED_SECTION
+  );
+
+  return withSections
+    .split("\n")
+    .filter(line => !(line.includes(REMOVED_SECTION) && line.split(REMOVED_SECTION).join("").trim() === ""))
+    .join("\n")
+    .split(REMOVED_SECTION).join("")
+    .replace(PLACEHOLDER, (_, _marker: string, key: string) => hasValue(key) ? String(values[key]) : "")
+    .trim();
+}
+
+/**
+ * Renders the system and user messages of a template. The session values
+ * always win over user values of the same name.
+ */
+export function renderPromptTemplate(
+  definition: PromptTemplateDefinition,
+  values: TemplateValues,
+  sessionValues: TemplateValues
+): RenderedPrompt {
+  const allValues = { ...values, ...sessionValues };
+
+  return {
+    systemMessage: renderText(definition.systemPrompt ?? "", allValues),
+    userMessage: renderText(definition.userPrompt, allValues)
+  };
+}
+
+interface PromptTemplateRow {
+  id: string;
+  user_id: string | null;
+  base_prompt_text: string;
+  custom_properties: {
+    name?: string;
+    system_prompt?: string;
+    variables?: TemplateVariable[];
+  } | null;
+  last_modified_timestamp: string;
+}
+
+/**
+ * Loads a user's template from prompt_templates. The user prompt is stored in
+ * base_prompt_text, the name, system prompt and variables in custom_properties.
+ * Throws NOT_FOUND for missing templates and templates of other users.
+ */
+export async function loadPromptTemplate(
+  supabase: SupabaseClient,
+  templateId: string,
+  userId: string
+): Promise<StoredPromptTemplate> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, user_id, base_prompt_text, custom_properties, last_modified_timestamp')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch prompt template: ${error.message}`);
+  }
+
+  const row = data as PromptTemplateRow | null;
+  if (!row || row.user_id !== userId) {
+    throw new HttpError("NOT_FOUND", "Prompt template not found");
+  }
+
+  const properties = row.custom_properties ?? {};
+
+  return {
+    id: row.id,
+    name: properties.name || "Untitled template",
+    systemPrompt: properties.system_prompt ?? DEFAULT_TEMPLATE.systemPrompt,
+    userPrompt: row.base_prompt_text,
+    variables: Array.isArray(properties.variables) ? properties.variables : [],
+    version: row.last_modified_timestamp
+  };
+}
@@ -0,0 +1,136 @@
+import { HttpError } from "./errors.ts";
+import type { ImageQuality, ImageSize } from "./imageProvider.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+export type ProvenanceOutputType = "generation_job" | "image" | "edited_image";
+
+export interface ProvenanceInput {
+  // What the image was sent as, e.g. product_image, brand_logo or reference_ad
+  role: string;
+  url: string;
+}
+
+export interface ProvenanceParameters {
+  size?: ImageSize;
+  quality?: ImageQuality;
+  layout?: string;
+  // Placement format of a version resized for ad placements
+  placement?: string;
+}
+
+export interface ProvenanceTimings {
+  download_ms?: number;
+  provider_ms?: number;
+  upload_ms?: number;
+}
+
+export interface GenerationProvenance {
+  userId: string;
+  outputType: ProvenanceOutputType;
+  outputId: string;
+  imageUrl: string;
+  provider: string;
+  model: string;
+  // "edit" when input images were sent along with the prompt
+  operation: "generate" | "edit";
+  parameters: ProvenanceParameters;
+  // Input images in the order they were requested
+  inputs: ProvenanceInput[];
+  prompt: string;
+  promptTemplateId?: string | null;
+  promptTemplateVersion?: string | null;
+  sessionId?: string | null;
+  variationId?: string | null;
+  replayOf?: string | null;
+  startedAt: number;
+  completedAt: number;
+  timings: ProvenanceTimings;
+  creditsCost: number;
+}
+
+export interface StoredProvenance {
+  id: string;
+  user_id: string;
+  prompt: string;
+  parameters: ProvenanceParameters;
+  input_assets: Array<ProvenanceInput & { asset_id: string | null }>;
+  variation_id: string | null;
+}
+
+/**
+ * Stores how an output was produced. Input images are linked to the user's
+ * asset records by URL. Failures are logged rather than thrown, a missing
+ * record never fails a generation that already succeeded. An output that is
+ * produced again, like a placement version created again, replaces its record.
+ */
+export async function recordProvenance(
+  supabase: SupabaseClient,
+  provenance: GenerationProvenance,
+  executionId?: string
+): Promise<void> {
+  const prefix = executionId ? `[${executionId}] ` : "";
+
+  try {
+    const assetIds = new Map<string, string>();
+    const urls = [...new Set(provenance.inputs.map(input => input.url))];
+
+    if (urls.length > 0) {
+      const { data: assets, error: assetsError } = await supabase
+        .from('assets')
+        .select('id, original_url')
+        .eq('user_id', provenance.userId)
+        .in('original_url', urls);
+
+      if (assetsError) {
+        console.error(`${prefix}Error looking up input assets for provenance:`, assetsError);
+      }
+      (assets ?? []).forEach(asset => assetIds.set(asset.original_url as string, asset.id as string));
+    }
+
+    const { error } = await supabase
+      .from('generation_provenance')
+      .upsert({
+        user_id: provenance.userId,
+        output_type: provenance.outputType,
+        output_id: provenance.outputId,
+        image_url: provenance.imageUrl,
+        provider: provenance.provider,
+        model: provenance.model,
+        operation: provenance.operation,
+        parameters: provenance.parameters,
+        input_assets: provenance.inputs.map(input => ({ ...input, asset_id: assetIds.get(input.url) ?? null })),
+        prompt: provenance.prompt,
+        prompt_template_id: provenance.promptTemplateId ?? null,
+        prompt_template_version: provenance.promptTemplateVersion ?? null,
+        session_id: provenance.sessionId ?? null,
+        variation_id: provenance.variationId ?? null,
+        replay_of: provenance.replayOf ?? null,
+        started_at: new Date(provenance.startedAt).toISOString(),
+        completed_at: new Date(provenance.completedAt).toISOString(),
+        timings: provenance.timings,
+        credits_cost: provenance.creditsCost
+      }, { onConflict: 'output_type,output_id' });
+
+    if (error) {
+      console.error(`${prefix}Error recording provenance of ${provenance.outputType} ${provenance.outputId}:`, error);
+    }
+  } catch (error) {
+    console.error(`${prefix}Error recording provenance of ${provenance.outputType} ${provenance.outputId}:`, error);
+  }
+}
+
+/**
+ * Loads a provenance record to generate again, null when it does not exist
+ */
+export async function loadProvenance(supabase: SupabaseClient, provenanceId: string): Promise<StoredProvenance | null> {
+  const { data, error } = await supabase
+    .from('generation_provenance')
+    .select('id, user_id, prompt, parameters, input_assets, variation_id')
+    .eq('id', provenanceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch provenance: ${error.message}`);
+  }
+  return data as StoredProvenance | null;
+}
@@ -0,0 +1,105 @@
+import { HttpError } from "./errors.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+export interface StorefrontProduct {
+  id: string;
+  title: string;
+  imageUrl: string;
+  createdAt: string;
+}
+
+interface StorefrontProductsResponse {
+  data?: {
+    products: {
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
+          createdAt: string;
+          featuredImage: { url: string } | null;
+        };
+      }>;
+    };
+  };
+  errors?: Array<{ message: string }>;
+}
+
+const NEW_PRODUCTS_QUERY = `
+  query NewProducts($first: Int!, $query: String!) {
+    products(first: $first, query: $query, sortKey: CREATED_AT, reverse: true) {
+      edges {
+        node {
+          id
+          title
+          createdAt
+          featuredImage {
+            url
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Fetches the products added to the user's Shopify store after `since`
+ * through the Storefront API, newest first. Products without an image are
+ * left out. Throws NOT_FOUND when the user has not connected a store.
+ */
+export async function fetchNewStorefrontProducts(
+  supabase: SupabaseClient,
+  userId: string,
+  since: string,
+  limit: number
+): Promise<StorefrontProduct[]> {
+  const { data: credentials, error } = await supabase
+    .from('shopify_credentials')
+    .select('store_url, storefront_access_token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch Shopify credentials: ${error.message}`);
+  }
+
+  if (!credentials) {
+    throw new HttpError("NOT_FOUND", "No Shopify store is connected");
+  }
+
+  // Same URL handling as the products page
+  const storeUrl = credentials.store_url.trim();
+  const graphqlUrl = storeUrl.includes('/api/')
+    ? storeUrl
+    : `${storeUrl.replace(/\/$/, '')}/api/2023-10/graphql.json`;
+
+  const response = await fetch(graphqlUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Storefront-Access-Token": credentials.storefront_access_token
+    },
+    body: JSON.stringify({
+      query: NEW_PRODUCTS_QUERY,
+      variables: { first: limit, query: `created_at:>'${since}'` }
+    })
+  });
+
+  if (!response.ok) {
+    throw new HttpError("PROVIDER_ERROR", `Shopify responded with ${response.status}`);
+  }
+
+  const body = await response.json() as StorefrontProductsResponse;
+
+  if (body.errors?.length || !body.data) {
+    throw new HttpError("PROVIDER_ERROR", `Shopify query failed: ${body.errors?.map(e => e.message).join(", ") ?? "no data"}`);
+  }
+
+  return body.data.products.edges
+    .filter(({ node }) => node.featuredImage?.url)
+    .map(({ node }) => ({
+      id: node.id,
+      title: node.title,
+      imageUrl: node.featuredImage!.url,
+      createdAt: node.createdAt
+    }));
+}
@@ -0,0 +1,199 @@
+import type { SupabaseClient } from "./supabase.ts";
+
+export interface StorageLocation {
+  bucket: string;
+  path: string;
+}
+
+function logPrefix(executionId?: string): string {
+  return executionId ? `[${executionId}] ` : "";
+}
+
+/**
+ * Extracts the bucket and object path from a Supabase public storage URL
+ * (".../storage/v1/object/public/<bucket>/<path>"). Returns null for any
+ * other URL shape.
+ */
+export function parseStoragePublicUrl(url: string): StorageLocation | null {
+  const parts = new URL(url).pathname.split("/");
+  const bucketIndex = parts.indexOf("public") + 1;
+
+  if (bucketIndex <= 0 || bucketIndex >= parts.length) {
+    return null;
+  }
+
+  return {
+    bucket: parts[bucketIndex],
+    path: parts.slice(bucketIndex + 1).join("/")
+  };
+}
+
+/**
+ * Downloads an image and returns it as a Blob. Supabase storage URLs are read
+ * through the storage API, everything else is fetched directly. Returns null
+ * when the download fails so callers can skip optional images.
+ */
+export async function downloadImageFromUrl(
+  url: string,
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  executionId?: string
+): Promise<Blob | null> {
+  const prefix = logPrefix(executionId);
+
+  try {
+    console.log(`${prefix}Downloading image from: ${url.substring(0, 50)}...`);
+    const downloadStart = Date.now();
+
+    if (!url.includes(supabaseUrl)) {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to fetch image: ${response.statusText}`);
+      const blob = await response.blob();
+      console.log(`${prefix}Downloaded external image (${blob.size} bytes) in ${((Date.now() - downloadStart) / 1000).toFixed(2)}s`);
+      return blob;
+    }
+
+    const location = parseStoragePublicUrl(url);
+    if (!location) {
+      throw new Error("Invalid URL format");
+    }
+
+    console.log(`${prefix}Extracting from Supabase storage: bucket=${location.bucket}, path=${location.path}`);
+
+    const { data, error } = await supabase.storage
+      .from(location.bucket)
+      .download(location.path);
+
+    if (error) {
+      throw new Error(`Failed to download image: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error("No file data returned from storage");
+    }
+
+    console.log(`${prefix}Downloaded image from Supabase storage in ${((Date.now() - downloadStart) / 1000).toFixed(2)}s`);
+    return data;
+  } catch (error) {
+    console.error(`${prefix}ERROR downloading image from ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Downloads several images and wraps the successful ones as PNG File objects,
+ * ready to pass to an image provider
+ */
+export async function downloadImagesAsFiles(
+  imageUrls: string[],
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  executionId?: string
+): Promise<File[]> {
+  const prefix = logPrefix(executionId);
+  console.log(`${prefix}Preparing ${imageUrls.length} images`);
+  const prepStart = Date.now();
+
+  const imageBlobs = await Promise.all(
+    imageUrls.map(url => downloadImageFromUrl(url, supabase, supabaseUrl, executionId))
+  );
+
+  const files = imageBlobs
+    .filter((blob): blob is Blob => blob !== null)
+    .map((blob, index) => new File([blob], `reference_${index}.png`, { type: "image/png" }));
+
+  console.log(`${prefix}Successfully prepared ${files.length}/${imageUrls.length} images in ${((Date.now() - prepStart) / 1000).toFixed(2)}s`);
+  return files;
+}
+
+/**
+ * Decodes a base64 string, with or without a data URL prefix. Returns null
+ * when the string is not valid base64.
+ */
+export function base64ToBytes(base64: string): Uint8Array | null {
+  try {
+    const data = base64.includes(",") ? base64.slice(base64.indexOf(",") + 1) : base64;
+    return Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Width and height from the header of a PNG file, null for anything that is
+ * not a PNG
+ */
+export function readPngSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 24 || PNG_SIGNATURE.some((byte, index) => bytes[index] !== byte)) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+/**
+ * Converts a Blob to a base64 string without the data URL prefix
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === "string") {
+        resolve(reader.result.split(",")[1]);
+      } else {
+        reject(new Error("Failed to convert blob to base64"));
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Creates a public bucket if it does not exist yet. Failures are logged and
+ * ignored since the bucket usually exists already.
+ */
+export async function ensurePublicBucket(supabase: SupabaseClient, bucket: string, executionId?: string): Promise<void> {
+  try {
+    const { data: buckets } = await supabase.storage.listBuckets();
+    const bucketExists = buckets?.some(existing => existing.name === bucket);
+
+    if (!bucketExists) {
+      console.log(`${logPrefix(executionId)}'${bucket}' bucket doesn't exist, creating it`);
+      await supabase.storage.createBucket(bucket, { public: true });
+    }
+  } catch (error) {
+    console.error(`${logPrefix(executionId)}Error checking/creating bucket:`, error);
+  }
+}
+
+/**
+ * Uploads image bytes to a public bucket and returns their public URL
+ */
+export async function uploadPublicImage(
+  supabase: SupabaseClient,
+  bucket: string,
+  path: string,
+  bytes: Uint8Array,
+  contentType = "image/png",
+  executionId?: string
+): Promise<string> {
+  await ensurePublicBucket(supabase, bucket, executionId);
+
+  const { error: uploadError } = await supabase.storage
+    .from(bucket)
+    .upload(path, bytes, { contentType, upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload image: ${uploadError.message}`);
+  }
+
+  const { data: urlData } = supabase.storage
+    .from(bucket)
+    .getPublicUrl(path);
+
+  return urlData.publicUrl;
+}
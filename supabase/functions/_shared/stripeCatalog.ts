@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "./supabase.ts";
+
+export interface CatalogProduct {
+  price_id: string;
+  name: string;
+  description: string | null;
+  mode: "payment" | "subscription";
+  unit_amount: number | null;
+  currency: string;
+  credits: number;
+  // Unused subscription credits carried into the next period, null carries all
+  rollover_cap: number | null;
+  active: boolean;
+}
+
+/**
+ * Thrown when Stripe reports a price that is missing from `stripe_products`.
+ * Such a purchase cannot be credited until the price is added to the catalog.
+ */
+export class UnknownPriceError extends Error {
+  priceId: string;
+
+  constructor(priceId: string) {
+    super(`Unknown Stripe price ${priceId}, add it to stripe_products before selling it`);
+    this.name = "UnknownPriceError";
+    this.priceId = priceId;
+  }
+}
+
+/**
+ * Looks up a price in the product catalog. Retired prices are returned as well
+ * so renewals and late webhooks for them are still credited.
+ */
+export async function getCatalogProduct(supabase: SupabaseClient, priceId: string): Promise<CatalogProduct> {
+  const { data, error } = await supabase
+    .from("stripe_products")
+    .select("price_id, name, description, mode, unit_amount, currency, credits, rollover_cap, active")
+    .eq("price_id", priceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up Stripe price ${priceId}: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new UnknownPriceError(priceId);
+  }
+
+  return data as CatalogProduct;
+}
@@ -0,0 +1,467 @@
+import type Stripe from "npm:stripe@17.7.0";
+import { getCatalogProduct } from "./stripeCatalog.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+export interface StripeEventContext {
+  stripe: Stripe;
+  supabase: SupabaseClient;
+}
+
+// Outcome of handling an event that did not fail
+type StripeEventOutcome = "processed" | "ignored";
+
+export interface StripeEventResult {
+  eventId: string;
+  type: string;
+  // skipped when the event was processed before or another attempt is running
+  outcome: StripeEventOutcome | "failed" | "skipped";
+  error?: string;
+}
+
+// Seconds after which an attempt that never finished may be claimed again
+const STALE_EVENT_SECONDS = 300;
+
+/**
+ * Stores a received event in the event log. Redeliveries of a logged event
+ * leave the stored row untouched.
+ */
+export async function recordStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<void> {
+  const { error } = await supabase
+    .from("stripe_webhook_events")
+    .upsert({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      livemode: event.livemode
+    }, { onConflict: "id", ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to record Stripe event ${event.id}: ${error.message}`);
+  }
+}
+
+/**
+ * Handles a logged event at most once. The event is claimed first, so
+ * redeliveries and replays of processed events are skipped, then its outcome
+ * is written back to the log. Never throws, failures end up in the result.
+ */
+export async function processStripeEvent(ctx: StripeEventContext, event: Stripe.Event): Promise<StripeEventResult> {
+  const result = { eventId: event.id, type: event.type };
+
+  const { data: claimed, error: claimError } = await ctx.supabase.rpc("claim_stripe_webhook_event", {
+    p_event_id: event.id,
+    p_stale_seconds: STALE_EVENT_SECONDS
+  });
+
+  if (claimError) {
+    console.error(`[processStripeEvent] Error claiming event ${event.id}:`, claimError);
+    return { ...result, outcome: "failed", error: claimError.message };
+  }
+
+  if (!claimed) {
+    console.log(`[processStripeEvent] Event ${event.id} was processed before or is being processed, skipping`);
+    return { ...result, outcome: "skipped" };
+  }
+
+  let outcome: StripeEventResult["outcome"];
+  let errorMessage: string | null = null;
+
+  try {
+    outcome = await handleEvent(ctx, event);
+  } catch (error) {
+    outcome = "failed";
+    errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[processStripeEvent] Event ${event.id} (${event.type}) failed:`, error);
+  }
+
+  const { error: finishError } = await ctx.supabase
+    .from("stripe_webhook_events")
+    .update({
+      outcome,
+      error_message: errorMessage,
+      processed_at: new Date().toISOString()
+    })
+    .eq("id", event.id);
+
+  if (finishError) {
+    console.error(`[processStripeEvent] Error recording the outcome of event ${event.id}:`, finishError);
+  }
+
+  console.log(`[processStripeEvent] Event ${event.id} (${event.type}) ${outcome}`);
+  return { ...result, outcome, ...(errorMessage ? { error: errorMessage } : {}) };
+}
+
+async function handleEvent(ctx: StripeEventContext, event: Stripe.Event): Promise<StripeEventOutcome> {
+  const { stripe, supabase } = ctx;
+  console.log(`[handleEvent] Processing event type: ${event.type}`);
+  const stripeData = event?.data?.object ?? {};
+
+  if (!stripeData) {
+    console.log(`[handleEvent] No stripe data in event`);
+    return "ignored";
+  }
+
+  if (!("customer" in stripeData)) {
+    console.log(`[handleEvent] No customer in stripe data`);
+    return "ignored";
+  }
+
+  // for one time payments, we only listen for the checkout.session.completed event
+  if (event.type === "payment_intent.succeeded" && event.data.object.invoice === null) {
+    console.log(`[handleEvent] Ignoring payment_intent.succeeded for non-invoice payment`);
+    return "ignored";
+  }
+
+  const { customer: customerId } = stripeData;
+
+  if (!customerId || typeof customerId !== "string") {
+    console.error(`[handleEvent] No customer ID received on event: ${JSON.stringify(event)}`);
+    return "ignored";
+  }
+
+  let isSubscription = true;
+
+  if (event.type === "checkout.session.completed") {
+    const { mode } = stripeData as Stripe.Checkout.Session;
+
+    isSubscription = mode === "subscription";
+
+    console.info(`[handleEvent] Processing ${isSubscription ? "subscription" : "one-time payment"} checkout session`);
+  }
+
+  const { mode, payment_status } = stripeData as Stripe.Checkout.Session;
+
+  if (isSubscription) {
+    console.info(`[handleEvent] Starting subscription sync for customer: ${customerId}`);
+    await syncCustomerFromStripe(ctx, customerId);
+
+    // Subscription credits are granted once the invoice of a period or plan change is paid
+    if (event.type === "invoice.paid") {
+      await grantInvoiceCredits(ctx, customerId, stripeData as Stripe.Invoice);
+    }
+    return "processed";
+  }
+
+  if (mode !== "payment" || payment_status !== "paid") {
+    console.log(`[handleEvent] Checkout session is not a paid one-time payment`);
+    return "ignored";
+  }
+
+  console.log(`[handleEvent] Processing one-time payment`);
+  
+  // Extract the necessary information from the session
+  const {
+    id: checkout_session_id,
+    payment_intent,
+    amount_subtotal,
+    amount_total,
+    currency,
+  } = stripeData as Stripe.Checkout.Session;
+
+  // Extract line items to get product information
+  let productId = null;
+  let productName = null;
+  let creditsToAdd = 0;
+  let creditLookupError: unknown = null;
+  
+  try {
+    // Fetch the line items for this checkout session
+    console.log(`[handleEvent] Fetching line items for checkout session: ${checkout_session_id}`);
+    const lineItems = await stripe.checkout.sessions.listLineItems(checkout_session_id);
+    
+    if (lineItems.data.length > 0) {
+      const lineItem = lineItems.data[0];
+      console.log(`[handleEvent] Found line item: ${JSON.stringify(lineItem.description)}`);
+      
+      // Get the price ID for the first item
+      const priceId = lineItem.price?.id;
+      
+      if (priceId) {
+        productId = priceId;
+        console.log(`[handleEvent] Found price ID: ${priceId}`);
+        
+        // Fetch the price to get the product details
+        console.log(`[handleEvent] Retrieving price details from Stripe`);
+        const price = await stripe.prices.retrieve(priceId, {
+          expand: ["product"]
+        });
+        
+        // Extract product name
+        if (price.product && typeof price.product !== "string") {
+          productName = price.product.name;
+          console.log(`[handleEvent] Found product name for price ${priceId}: ${productName}`);
+        } else if (lineItem.description) {
+          // Fallback to line item description if product not available
+          productName = lineItem.description;
+          console.log(`[handleEvent] Using line item description as fallback: ${lineItem.description}`);
+        }
+        
+        // Look up how many credits this price grants in the product catalog
+        const product = await getCatalogProduct(supabase, priceId);
+        creditsToAdd = product.credits;
+        console.log(`[handleEvent] Product ${priceId} maps to ${creditsToAdd} credits`);
+      }
+      
+      if (!productName && lineItem.description) {
+        productName = lineItem.description;
+        console.log(`[handleEvent] Using line item description: ${lineItem.description}`);
+      }
+    } else {
+      console.log(`[handleEvent] No line items found for checkout session: ${checkout_session_id}`);
+    }
+  } catch (lineItemError) {
+    creditLookupError = lineItemError;
+    console.error(`[handleEvent] ERROR: Checkout session ${checkout_session_id} was paid but cannot be credited:`, lineItemError);
+  }
+
+  // Find the user ID associated with this customer
+  console.log(`[handleEvent] Looking up user ID for customer: ${customerId}`);
+  const { data: customerData, error: customerError } = await supabase
+    .from("stripe_customers")
+    .select("user_id")
+    .eq("customer_id", customerId)
+    .single();
+    
+  if (customerError) {
+    console.error(`[handleEvent] Error finding user for customer ${customerId}:`, customerError);
+    throw new Error(`Failed to find user for customer: ${customerError.message}`);
+  }
+  
+  if (!customerData || !customerData.user_id) {
+    console.error(`[handleEvent] No user found for customer: ${customerId}`);
+    throw new Error("No user associated with this customer");
+  }
+  
+  const userId = customerData.user_id;
+  console.log(`[handleEvent] Found user ID ${userId} for customer ${customerId}`);
+
+  const order = {
+    checkout_session_id,
+    payment_intent_id: payment_intent,
+    customer_id: customerId,
+    amount_subtotal,
+    amount_total,
+    currency,
+    payment_status,
+    // Orders that could not be credited stay pending until the event is replayed successfully
+    status: creditLookupError ? "pending" : "completed",
+    product_id: productId, // Store the price ID for later reference
+    product_name: productName, // Store the product name for display
+    credits_added: creditsToAdd, // Store the number of credits added
+  };
+
+  // A replayed event updates the order of its first attempt
+  const { data: existingOrder, error: existingOrderError } = await supabase
+    .from("stripe_orders")
+    .select("id")
+    .eq("checkout_session_id", checkout_session_id)
+    .limit(1)
+    .maybeSingle();
+
+  if (existingOrderError) {
+    throw new Error(`Failed to look up order: ${existingOrderError.message}`);
+  }
+
+  // Insert the order into the stripe_orders table
+  console.log(`[handleEvent] ${existingOrder ? "Updating" : "Inserting"} order in stripe_orders table`);
+  const { error: orderError } = existingOrder
+    ? await supabase.from("stripe_orders").update({ ...order, updated_at: new Date().toISOString() }).eq("id", existingOrder.id)
+    : await supabase.from("stripe_orders").insert(order);
+
+  if (orderError) {
+    console.error(`[handleEvent] Error saving order:`, orderError);
+    throw new Error(`Failed to save order: ${orderError.message}`);
+  }
+  
+  console.log(`[handleEvent] Successfully saved order record with ${creditsToAdd} credits`);
+
+  if (creditLookupError) {
+    throw creditLookupError;
+  }
+  
+  // Add credits to the user's account based on the product purchased,
+  // add_credits credits each checkout session only once
+  if (creditsToAdd > 0) {
+    console.log(`[handleEvent] Adding ${creditsToAdd} credits to user ${userId}`);
+    
+    const { error: creditsError } = await supabase.rpc("add_credits", { 
+      user_id_param: userId, 
+      amount: creditsToAdd,
+      checkout_session_id_param: checkout_session_id,
+      description_param: productName || "Credit purchase"
+    });
+    
+    if (creditsError) {
+      console.error(`[handleEvent] Error adding credits:`, creditsError);
+      throw new Error(`Failed to add credits: ${creditsError.message}`);
+    }
+    
+    console.log(`[handleEvent] Successfully added ${creditsToAdd} credits to user ${userId}`);
+  } else {
+    console.log(`[handleEvent] No credits to add for this product`);
+  }
+  
+  console.info(`[handleEvent] Successfully processed one-time payment for session: ${checkout_session_id}`);
+  return "processed";
+}
+
+// based on the excellent https://github.com/t3dotgg/stripe-recommendations
+async function syncCustomerFromStripe({ stripe, supabase }: StripeEventContext, customerId: string) {
+  try {
+    console.log(`[syncCustomerFromStripe] Syncing customer ${customerId} from Stripe`);
+    
+    // fetch latest subscription data from Stripe
+    const subscriptions = await stripe.subscriptions.list({
+      customer: customerId,
+      limit: 1,
+      status: "all",
+      expand: ["data.default_payment_method", "data.items.data.price.product"],
+    });
+
+    // TODO verify if needed
+    if (subscriptions.data.length === 0) {
+      console.info(`[syncCustomerFromStripe] No active subscriptions found for customer: ${customerId}`);
+      const { error: noSubError } = await supabase.from("stripe_subscriptions").upsert(
+        {
+          customer_id: customerId,
+          subscription_status: "not_started",
+        },
+        {
+          onConflict: "customer_id",
+        },
+      );
+
+      if (noSubError) {
+        console.error(`[syncCustomerFromStripe] Error updating subscription status:`, noSubError);
+        throw new Error("Failed to update subscription status in database");
+      }
+    }
+
+    // assumes that a customer can only have a single subscription
+    const subscription = subscriptions.data[0];
+    
+    if (!subscription) {
+      console.log(`[syncCustomerFromStripe] No subscription found, nothing to sync`);
+      return;
+    }
+    
+    console.log(`[syncCustomerFromStripe] Found subscription: ${subscription.id}, status: ${subscription.status}`);
+
+    // store subscription state
+    const { error: subError } = await supabase.from("stripe_subscriptions").upsert(
+      {
+        customer_id: customerId,
+        subscription_id: subscription.id,
+        price_id: subscription.items.data[0].price.id,
+        current_period_start: subscription.current_period_start,
+        current_period_end: subscription.current_period_end,
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        ...(subscription.default_payment_method && typeof subscription.default_payment_method !== "string"
+          ? {
+              payment_method_brand: subscription.default_payment_method.card?.brand ?? null,
+              payment_method_last4: subscription.default_payment_method.card?.last4 ?? null,
+            }
+          : {}),
+        status: subscription.status,
+      },
+      {
+        onConflict: "customer_id",
+      },
+    );
+
+    if (subError) {
+      console.error(`[syncCustomerFromStripe] Error syncing subscription:`, subError);
+      throw new Error("Failed to sync subscription in database");
+    }
+    
+    console.info(`[syncCustomerFromStripe] Successfully synced subscription for customer: ${customerId}`);
+  } catch (error) {
+    console.error(`[syncCustomerFromStripe] Failed to sync subscription for customer ${customerId}:`, error);
+    throw error;
+  }
+}
+
+// Invoices that grant subscription credits, keyed by their billing reason
+const CREDIT_GRANTING_BILLING_REASONS = ["subscription_create", "subscription_cycle", "subscription_update"];
+
+// Grants the credits of a paid subscription invoice. New periods grant the plan's
+// monthly credits after expiring unused credits above its rollover cap, plan
+// upgrades grant the prorated difference for the rest of the period.
+async function grantInvoiceCredits({ stripe, supabase }: StripeEventContext, customerId: string, invoice: Stripe.Invoice) {
+  console.log(`[grantInvoiceCredits] Processing invoice ${invoice.id} (${invoice.billing_reason})`);
+
+  if (!invoice.subscription || !invoice.billing_reason || !CREDIT_GRANTING_BILLING_REASONS.includes(invoice.billing_reason)) {
+    console.log(`[grantInvoiceCredits] Invoice ${invoice.id} does not grant subscription credits`);
+    return;
+  }
+
+  const { data: customerData, error: customerError } = await supabase
+    .from("stripe_customers")
+    .select("user_id")
+    .eq("customer_id", customerId)
+    .single();
+
+  if (customerError || !customerData?.user_id) {
+    console.error(`[grantInvoiceCredits] No user found for customer ${customerId}:`, customerError);
+    throw new Error(`No user associated with customer ${customerId}`);
+  }
+
+  const subscriptionId = typeof invoice.subscription === "string" ? invoice.subscription : invoice.subscription.id;
+  let creditsToAdd = 0;
+  let rolloverCap: number | null = null;
+  let priceId: string | null = null;
+  let description: string;
+
+  if (invoice.billing_reason === "subscription_update") {
+    // Proration lines cover the rest of the period, a positive one for the new
+    // plan and a negative one for the unused time of the old plan
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    const periodLength = subscription.current_period_end - subscription.current_period_start;
+    let proratedCredits = 0;
+
+    for (const line of invoice.lines.data) {
+      if (!line.proration || !line.price || periodLength <= 0) continue;
+
+      const product = await getCatalogProduct(supabase, line.price.id);
+      const fraction = Math.min(Math.max((line.period.end - line.period.start) / periodLength, 0), 1);
+      proratedCredits += Math.sign(line.amount) * product.credits * fraction;
+
+      if (line.amount > 0) {
+        priceId = line.price.id;
+      }
+    }
+
+    creditsToAdd = Math.max(Math.round(proratedCredits), 0);
+    description = `${creditsToAdd} prorated credits for the plan upgrade`;
+  } else {
+    const planLine = invoice.lines.data.find((line) => !line.proration && line.price);
+
+    if (!planLine?.price) {
+      throw new Error(`Invoice ${invoice.id} has no subscription price`);
+    }
+
+    priceId = planLine.price.id;
+    const product = await getCatalogProduct(supabase, priceId);
+    creditsToAdd = product.credits;
+    rolloverCap = product.rollover_cap;
+    description = `${product.name} plan, ${product.credits} monthly credits`;
+  }
+
+  const { data: granted, error: grantError } = await supabase.rpc("grant_subscription_credits", {
+    p_user_id: customerData.user_id,
+    p_amount: creditsToAdd,
+    p_invoice_id: invoice.id,
+    p_subscription_id: subscriptionId,
+    p_price_id: priceId,
+    p_billing_reason: invoice.billing_reason,
+    p_rollover_cap: rolloverCap,
+    p_description: description,
+  });
+
+  if (grantError) {
+    console.error(`[grantInvoiceCredits] Error granting credits for invoice ${invoice.id}:`, grantError);
+    throw new Error(`Failed to grant subscription credits: ${grantError.message}`);
+  }
+
+  console.log(`[grantInvoiceCredits] Granted ${granted} credits to user ${customerData.user_id} for invoice ${invoice.id}`);
+}
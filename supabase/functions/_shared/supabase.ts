@@ -0,0 +1,88 @@
+import { createClient, type SupabaseClient, type User } from "npm:@supabase/supabase-js@2.39.8";
+import { HttpError } from "./errors.ts";
+
+export type { SupabaseClient, User };
+
+export interface ServiceConfig {
+  supabaseUrl: string;
+  supabaseKey: string;
+}
+
+/**
+ * Reads the Supabase URL and service role key from the environment
+ */
+export function getServiceConfig(): ServiceConfig {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new HttpError("CONFIGURATION_ERROR", "Missing Supabase environment variables");
+  }
+
+  return { supabaseUrl, supabaseKey };
+}
+
+/**
+ * Creates a Supabase client authenticated with the service role key
+ */
+export function createServiceClient(config: ServiceConfig = getServiceConfig()): SupabaseClient {
+  return createClient(config.supabaseUrl, config.supabaseKey);
+}
+
+/**
+ * Resolves the user from the request's Bearer token, throwing UNAUTHENTICATED
+ * when the header is missing or the token is invalid
+ */
+export async function getAuthenticatedUser(req: Request, supabase: SupabaseClient): Promise<User> {
+  const authHeader = req.headers.get("Authorization");
+
+  if (!authHeader) {
+    throw new HttpError("UNAUTHENTICATED", "No authorization header");
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    throw new HttpError("UNAUTHENTICATED", "Not authenticated");
+  }
+
+  return user;
+}
+
+/**
+ * Whether the request carries the service role key, as sent by invokeFunction
+ */
+export function isServiceRoleRequest(req: Request, config: ServiceConfig): boolean {
+  const authHeader = req.headers.get("Authorization");
+  return !!authHeader && authHeader.replace("Bearer ", "") === config.supabaseKey;
+}
+
+/**
+ * Rejects requests that do not carry the service role key, for operator tools
+ * that users must not call
+ */
+export function requireServiceRole(req: Request, config: ServiceConfig): void {
+  if (!req.headers.get("Authorization")) {
+    throw new HttpError("UNAUTHENTICATED", "No authorization header");
+  }
+
+  if (!isServiceRoleRequest(req, config)) {
+    throw new HttpError("FORBIDDEN", "This function requires the service role key");
+  }
+}
+
+/**
+ * Invokes another edge function with the service role key. Used to chain
+ * background work between functions.
+ */
+export function invokeFunction(config: ServiceConfig, name: string, body: unknown): Promise<Response> {
+  return fetch(`${config.supabaseUrl}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${config.supabaseKey}`
+    },
+    body: JSON.stringify(body)
+  });
+}
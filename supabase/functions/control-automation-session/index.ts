@@ -0,0 +1,128 @@
+import { returnUnusedSessionCredits, settleSessionCredits } from "../_shared/credits.ts";
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+import { countOpenJobs, dispatchWorkers, getWorkerSettings } from "../_shared/jobQueue.ts";
+
+type SessionAction = "pause" | "resume" | "cancel";
+
+interface ControlAutomationSessionRequest {
+  sessionId?: string;
+  action?: SessionAction;
+}
+
+const ACTIONS: SessionAction[] = ["pause", "resume", "cancel"];
+const CANCELLABLE_STATUSES = ["draft", "prompts_generated", "paused"];
+
+/**
+ * Pauses, resumes or cancels an automation session. Paused sessions keep their
+ * queued jobs and reserved credits, workers stop claiming them. Cancelling
+ * drops the queued jobs and returns their credits, jobs that already reached
+ * the image provider finish and are charged.
+ */
+serveAuthenticated(async ({ req, executionId, config, supabase, user }) => {
+  const { sessionId, action } = await readJson<ControlAutomationSessionRequest>(req);
+
+  if (!sessionId) {
+    throw new HttpError("MISSING_PARAMETER", "Session ID is required");
+  }
+
+  if (!action || !ACTIONS.includes(action)) {
+    throw new HttpError("BAD_REQUEST", `Expected parameter action to be one of ${ACTIONS.join(", ")}`);
+  }
+
+  const { data: session, error: sessionError } = await supabase
+    .from('automation_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (sessionError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch session: ${sessionError.message}`);
+  }
+
+  if (!session) {
+    throw new HttpError("NOT_FOUND", "Session not found");
+  }
+
+  if (session.user_id !== user.id) {
+    throw new HttpError("FORBIDDEN", "You do not have permission to access this session");
+  }
+
+  if (action === "pause" && session.review_prompts && !session.launched_at) {
+    throw new HttpError("CONFLICT", "Sessions waiting for prompt review have nothing to pause", { status: session.status });
+  }
+
+  if (action === "pause" || action === "resume") {
+    const [from, to] = action === "pause" ? ["prompts_generated", "paused"] : ["paused", "prompts_generated"];
+
+    // Only a session in the expected status is switched, a concurrent change wins
+    const { data: updated, error: updateError } = await supabase
+      .from('automation_sessions')
+      .update({ status: to, updated_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('status', from)
+      .select('id');
+
+    if (updateError) {
+      throw new HttpError("DATABASE_ERROR", `Failed to ${action} session: ${updateError.message}`);
+    }
+
+    if (!updated?.length) {
+      throw new HttpError("CONFLICT", `Only ${action === "pause" ? "running" : "paused"} sessions can be ${action}d`, {
+        status: session.status
+      });
+    }
+
+    let workers = 0;
+
+    if (action === "resume") {
+      const { queued } = await countOpenJobs(supabase, sessionId);
+      workers = Math.min(queued, session.max_concurrency ?? getWorkerSettings().sessionConcurrency);
+      dispatchWorkers(config, sessionId, workers, executionId);
+    }
+
+    console.log(`[${executionId}] Session ${sessionId} ${action}d${workers ? `, dispatched ${workers} workers` : ""}`);
+
+    return jsonResponse({
+      success: true,
+      status: to,
+      creditsReturned: 0
+    });
+  }
+
+  // A session still writing its prompts would queue jobs after the cancel, it is cancelled once the prompts are saved
+  if (!CANCELLABLE_STATUSES.includes(session.status)) {
+    throw new HttpError("CONFLICT", `Sessions cannot be cancelled while they are ${session.status.replace(/_/g, " ")}`, {
+      status: session.status
+    });
+  }
+
+  const { data: cancelled, error: cancelError } = await supabase.rpc('cancel_automation_session', {
+    p_session_id: sessionId
+  });
+
+  if (cancelError) {
+    console.error(`[${executionId}] Failed to cancel session ${sessionId}:`, cancelError);
+    throw new HttpError("DATABASE_ERROR", `Failed to cancel session: ${cancelError.message}`);
+  }
+
+  const cancelledJobs = (cancelled as number | null) ?? 0;
+  const { inProgress } = await countOpenJobs(supabase, sessionId);
+  const reason = "Session cancelled by the user";
+
+  // Without running jobs everything left is returned now, otherwise the last
+  // running job settles the session once it finished
+  const creditsReturned = inProgress === 0
+    ? await settleSessionCredits(supabase, session, { reason, refundAmount: cancelledJobs }, executionId)
+    : await returnUnusedSessionCredits(supabase, session, cancelledJobs, reason, executionId);
+
+  console.log(`[${executionId}] Session ${sessionId} cancelled, ${cancelledJobs} queued jobs dropped, ${inProgress} still running`);
+
+  return jsonResponse({
+    success: true,
+    status: "cancelled",
+    cancelledJobs,
+    runningJobs: inProgress,
+    creditsReturned
+  });
+});
@@ -0,0 +1,18 @@
+import { createCampaign, type CampaignInput } from "../_shared/campaigns.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+
+/**
+ * Creates a campaign that runs the same reference ad and instructions across
+ * many products, with one child session per product. The credits of the whole
+ * campaign are reserved at once, the prompts of each session are generated
+ * with generate-prompt-variations as for single sessions.
+ */
+serveAuthenticated(async ({ req, executionId, supabase, user }) => {
+  const input = await readJson<CampaignInput>(req);
+  const created = await createCampaign(supabase, user.id, input, executionId);
+
+  return jsonResponse({
+    success: true,
+    ...created
+  });
+});
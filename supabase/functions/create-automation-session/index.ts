@@ -1,118 +1,122 @@
-import { createClient } from "npm:@supabase/supabase-js@2.39.8";
-import { v4 as uuidv4 } from "npm:uuid@9.0.1";
+import { reserveCredits } from "../_shared/credits.ts";
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+import { loadPromptTemplate, resolveTemplateValues, type TemplateValues } from "../_shared/promptTemplates.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
-};
+interface CreateAutomationSessionRequest {
+  productImageUrl?: string;
+  brandLogoUrl?: string;
+  referenceAdUrl?: string;
+  instructions?: string;
+  variationCount?: number;
+  layout?: string;
+  // Parallel jobs for this session, falls back to AUTOMATION_SESSION_CONCURRENCY
+  maxConcurrency?: number;
+  // Pause at prompts_generated until the user reviews and launches the prompts
+  reviewPrompts?: boolean;
+  // One of the user's prompt templates, the default prompt is used without it
+  promptTemplateId?: string;
+  templateVariables?: TemplateValues;
+}
 
-Deno.serve(async (req: Request) => {
-  // Handle CORS
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 200,
-      headers: corsHeaders
-    });
+const MAX_SESSION_CONCURRENCY = 10;
+const MAX_VARIATION_COUNT = 10;
+
+serveAuthenticated(async ({ req, supabase, user }) => {
+  // Parse the request
+  const {
+    productImageUrl,
+    brandLogoUrl,
+    referenceAdUrl,
+    instructions,
+    variationCount,
+    layout = 'auto', // Default to 'auto' if not provided
+    maxConcurrency,
+    reviewPrompts = false,
+    promptTemplateId,
+    templateVariables
+  } = await readJson<CreateAutomationSessionRequest>(req);
+
+  // Validate the required fields
+  if (!productImageUrl) {
+    throw new HttpError("MISSING_PARAMETER", "Product image URL is required");
   }
 
-  try {
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
-    const supabase = createClient(supabaseUrl, supabaseKey);
+  const count = variationCount ?? 3;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_VARIATION_COUNT) {
+    throw new HttpError("BAD_REQUEST", `Variation count must be between 1 and ${MAX_VARIATION_COUNT}`);
+  }
 
-    // Get current session
-    const authHeader = req.headers.get('Authorization');
-    
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "No authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: getUserError } = await supabase.auth.getUser(token);
-    
-    if (getUserError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Not authenticated" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const userId = user.id;
+  // Check the variables now so a bad value fails before credits are reserved
+  let resolvedVariables: TemplateValues = {};
+  if (promptTemplateId) {
+    const template = await loadPromptTemplate(supabase, promptTemplateId, user.id);
+    resolvedVariables = resolveTemplateValues(template, templateVariables ?? {});
+  }
 
-    // Parse the request
-    const { 
-      productImageUrl,
-      brandLogoUrl,
-      referenceAdUrl,
-      instructions,
-      variationCount,
-      layout = 'auto' // Default to 'auto' if not provided
-    } = await req.json();
-    
-    // Validate the required fields
-    if (!productImageUrl) {
-      return new Response(
-        JSON.stringify({ error: "Product image URL is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  // Create a new session
+  const { data: session, error: createError } = await supabase
+    .from('automation_sessions')
+    .insert({
+      user_id: user.id,
+      product_image_url: productImageUrl,
+      brand_logo_url: brandLogoUrl,
+      reference_ad_url: referenceAdUrl,
+      instructions: instructions || null,
+      variation_count: count,
+      status: 'draft',
+      layout: layout, // Store the layout in the database
+      max_concurrency: maxConcurrency
+        ? Math.min(Math.max(Math.floor(maxConcurrency), 1), MAX_SESSION_CONCURRENCY)
+        : null,
+      review_prompts: reviewPrompts === true,
+      prompt_template_id: promptTemplateId || null,
+      template_variables: resolvedVariables
+    })
+    .select()
+    .single();
 
-    // Create a new session
-    const { data: session, error: createError } = await supabase
-      .from('automation_sessions')
-      .insert({
-        user_id: userId,
-        product_image_url: productImageUrl,
-        brand_logo_url: brandLogoUrl,
-        reference_ad_url: referenceAdUrl,
-        instructions: instructions || null,
-        variation_count: variationCount || 3,
-        status: 'draft',
-        layout: layout // Store the layout in the database
-      })
-      .select()
-      .single();
-    
-    if (createError) {
-      return new Response(
-        JSON.stringify({ error: `Failed to create session: ${createError.message}` }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    // Return the session ID
-    return new Response(
-      JSON.stringify({ 
-        success: true,
-        session: {
-          id: session.id,
-          status: session.status
-        }
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+  if (createError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to create session: ${createError.message}`);
+  }
 
-  } catch (error) {
-    console.error("Error in create-automation-session:", error);
+  // Hold one credit per variation, captured as jobs complete and released when the session ends
+  let reserved: boolean;
+  try {
+    reserved = await reserveCredits(supabase, {
+      userId: user.id,
+      sessionId: session.id,
+      amount: count,
+      description: `Reserved for ${count} automated ${count === 1 ? 'ad' : 'ads'}`
+    });
+  } catch (reserveError) {
+    await supabase.from('automation_sessions').delete().eq('id', session.id);
+    throw new HttpError("DATABASE_ERROR", (reserveError as Error).message);
+  }
 
-    return new Response(
-      JSON.stringify({
-        status: "error",
-        message: error.message || "An unexpected error occurred",
-        error: String(error)
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
+  if (!reserved) {
+    await supabase.from('automation_sessions').delete().eq('id', session.id);
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('credits')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const available = profile?.credits ?? 0;
+
+    throw new HttpError(
+      "INSUFFICIENT_CREDITS",
+      `You need ${count} credits for this generation but only have ${available} available.`,
+      { required: count, available }
     );
   }
-});
\ No newline at end of file
+
+  // Return the session ID
+  return jsonResponse({
+    success: true,
+    session: {
+      id: session.id,
+      status: session.status
+    }
+  });
+});
@@ -1,292 +1,266 @@
-import OpenAI from "npm:openai@4.98.0";
-import { createClient } from "npm:@supabase/supabase-js@2.39.8";
-import { v4 as uuidv4 } from "npm:uuid@9.0.1";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
-};
-
-// Initialize OpenAI with environment variables
-const openai = new OpenAI({
-  apiKey: Deno.env.get("VITE_OPENAI_API_KEY")
-});
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+import { getImageProvider } from "../_shared/imageProvider.ts";
+import { recordProvenance } from "../_shared/provenance.ts";
+import { base64ToBytes, downloadImageFromUrl, readPngSize, uploadPublicImage } from "../_shared/storage.ts";
+
+// Initialize the image provider selected via IMAGE_PROVIDER
+const imageProvider = getImageProvider();
+
+interface EditImageRequest {
+  editId?: string;
+  // Image of the original generation, edits of an edit start from their parent version instead
+  originalImageUrl?: string;
+  editPrompt?: string;
+  // Base64 PNG the size of the original, transparent where the image may change
+  maskImage?: string;
+}
+
+// Upper bound for an uploaded mask, a 1536x1536 alpha mask is far below it
+const MAX_MASK_BYTES = 4 * 1024 * 1024;
 
 /**
- * Downloads an image from a URL and returns it as a Blob
+ * Decodes the mask sent by the editor, throwing BAD_REQUEST for anything that
+ * is not a PNG of an acceptable size
  */
-async function downloadImageFromUrl(url: string, supabase: any, supabaseUrl: string): Promise<Blob | null> {
-  try {
-    console.log(`Downloading image from: ${url.substring(0, 50)}...`);
-    
-    // For external URLs, fetch directly
-    if (!url.includes(supabaseUrl)) {
-      const response = await fetch(url);
-      if (!response.ok) throw new Error(`Failed to fetch image: ${response.statusText}`);
-      const blob = await response.blob();
-      console.log(`Downloaded external image (${blob.size} bytes)`);
-      return blob;
-    } else {
-      // For Supabase URLs, extract bucket and path
-      const urlPath = new URL(url).pathname;
-      const parts = urlPath.split('/');
-      const bucketIndex = parts.indexOf("public") + 1;
-      
-      if (bucketIndex <= 0) {
-        throw new Error('Invalid URL format');
-      }
-      
-      const bucket = parts[bucketIndex];
-      const path = parts.slice(bucketIndex + 1).join('/');
-      
-      console.log(`Extracting from Supabase storage: bucket=${bucket}, path=${path}`);
-      
-      // Download from Supabase Storage
-      const { data, error } = await supabase.storage
-        .from(bucket)
-        .download(path);
-        
-      if (error) {
-        throw new Error(`Failed to download image: ${error.message}`);
-      }
-      
-      if (!data) {
-        throw new Error('No file data returned from storage');
-      }
-      
-      console.log(`Downloaded image from Supabase storage`);
-      return data;
-    }
-  } catch (error) {
-    console.error(`ERROR downloading image:`, error);
-    return null;
-  }
-}
+function decodeMask(maskImage: string): Uint8Array {
+  const bytes = base64ToBytes(maskImage);
 
-Deno.serve(async (req: Request) => {
-  // Handle CORS
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 200,
-      headers: corsHeaders
-    });
+  if (!bytes || !readPngSize(bytes)) {
+    throw new HttpError("BAD_REQUEST", "The mask must be a PNG image");
+  }
+  if (bytes.length > MAX_MASK_BYTES) {
+    throw new HttpError("BAD_REQUEST", `The mask must be at most ${MAX_MASK_BYTES / 1024 / 1024}MB`);
   }
+  return bytes;
+}
 
-  const executionId = uuidv4().substring(0, 8);
+serveAuthenticated(async ({ req, executionId, config, supabase, user }) => {
   const functionStart = Date.now();
-  
+
   console.log(`[${executionId}] Edit Image function started`);
 
+  const userId = user.id;
+  console.log(`[${executionId}] Processing edit request for user ${userId}`);
+
+  // Parse the request
+  const { editId, originalImageUrl, editPrompt, maskImage } = await readJson<EditImageRequest>(req);
+
+  if (!editId || !originalImageUrl || !editPrompt) {
+    throw new HttpError("MISSING_PARAMETER", "Missing required parameters: editId, originalImageUrl, or editPrompt");
+  }
+
+  console.log(`[${executionId}] Edit ID: ${editId}`);
+  console.log(`[${executionId}] Original Image URL: ${originalImageUrl.substring(0, 50)}...`);
+  console.log(`[${executionId}] Edit Prompt: ${editPrompt.substring(0, 100)}...`);
+  console.log(`[${executionId}] Mask: ${maskImage ? "yes" : "no, the whole image is edited"}`);
+
+  const { data: edit, error: editError } = await supabase
+    .from('edited_images')
+    .select('id, original_image_id, parent_edit_id')
+    .eq('id', editId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (editError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch edit: ${editError.message}`);
+  }
+
+  if (!edit) {
+    throw new HttpError("NOT_FOUND", "Edit not found");
+  }
+
   try {
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Get current session
-    const authHeader = req.headers.get('Authorization');
-    
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "No authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: getUserError } = await supabase.auth.getUser(token);
-    
-    if (getUserError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Not authenticated" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const userId = user.id;
-    console.log(`[${executionId}] Processing edit request for user ${userId}`);
-
-    // Parse the request
-    const { editId, originalImageUrl, editPrompt } = await req.json();
-    
-    if (!editId || !originalImageUrl || !editPrompt) {
-      return new Response(
-        JSON.stringify({ error: "Missing required parameters: editId, originalImageUrl, or editPrompt" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Update edited_images record to processing state
+    const { error: updateError } = await supabase
+      .from('edited_images')
+      .update({
+        status: 'processing',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', editId);
+
+    if (updateError) {
+      console.error(`[${executionId}] Error updating edited_images status:`, updateError);
+      throw new HttpError("DATABASE_ERROR", `Failed to update edited_images status: ${updateError.message}`);
     }
-    
-    console.log(`[${executionId}] Edit ID: ${editId}`);
-    console.log(`[${executionId}] Original Image URL: ${originalImageUrl.substring(0, 50)}...`);
-    console.log(`[${executionId}] Edit Prompt: ${editPrompt.substring(0, 100)}...`);
 
-    try {
-      // Update edited_images record to processing state
-      const { error: updateError } = await supabase
+    // Keep the mask with the edit so it can be reused for the next one
+    let maskBytes: Uint8Array | null = null;
+    let maskUrl: string | null = null;
+
+    if (maskImage) {
+      maskBytes = decodeMask(maskImage);
+      maskUrl = await uploadPublicImage(supabase, "edited_images", `${userId}/masks/${editId}.png`, maskBytes, "image/png", executionId);
+
+      const { error: maskUpdateError } = await supabase
         .from('edited_images')
-        .update({ 
-          status: 'processing',
-          updated_at: new Date().toISOString() 
-        })
+        .update({ mask_url: maskUrl })
         .eq('id', editId);
-      
-      if (updateError) {
-        console.error(`[${executionId}] Error updating edited_images status:`, updateError);
-        throw new Error(`Failed to update edited_images status: ${updateError.message}`);
-      }
 
-      // Download the original image
-      console.log(`[${executionId}] Downloading original image`);
-      const imageBlob = await downloadImageFromUrl(originalImageUrl, supabase, supabaseUrl);
-      
-      if (!imageBlob) {
-        throw new Error("Failed to download original image");
-      }
-      
-      // Create a File object from the blob
-      const imageFile = new File([imageBlob], "original.png", { type: "image/png" });
-      
-      console.log(`[${executionId}] Calling OpenAI API to edit image`);
-      const result = await openai.images.edit({
-        model: "gpt-image-1",
-        prompt: `Edit this image based on these instructions: ${editPrompt}`,
-        image: imageFile,
-        quality: "high"
-      });
-      
-      console.log(`[${executionId}] OpenAI API response received`);
-      
-      // Get the base64 image from the response
-      const editedImageBase64 = result.data[0].b64_json;
-      if (!editedImageBase64) {
-        throw new Error("No image data returned from OpenAI");
-      }
-      
-      // Convert base64 to binary data
-      const binaryData = Uint8Array.from(atob(editedImageBase64), char => char.charCodeAt(0));
-      
-      // Create a unique path for the image in storage
-      const imagePath = `${userId}/edited/${editId}.png`;
-      
-      // Make sure the bucket exists
-      try {
-        const { data: buckets } = await supabase.storage.listBuckets();
-        const bucketExists = buckets?.some(bucket => bucket.name === "edited_images");
-        
-        if (!bucketExists) {
-          await supabase.storage.createBucket("edited_images", {
-            public: true
-          });
-        }
-      } catch (error) {
-        console.error(`[${executionId}] Error checking/creating bucket:`, error);
-        // Continue anyway
+      if (maskUpdateError) {
+        console.error(`[${executionId}] Error storing mask URL:`, maskUpdateError);
       }
-      
-      // Upload to storage
-      const { error: uploadError } = await supabase.storage
-        .from("edited_images")
-        .upload(imagePath, binaryData.buffer, {
-          contentType: "image/png",
-          upsert: true
-        });
-        
-      if (uploadError) {
-        throw new Error(`Failed to upload edited image: ${uploadError.message}`);
-      }
-      
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from("edited_images")
-        .getPublicUrl(imagePath);
-        
-      const editedImageUrl = urlData.publicUrl;
-      
-      // Update the edited_images record with the result
-      const { error: completeError } = await supabase
+    }
+
+    // An edit of an edit starts from the parent version
+    let sourceUrl = originalImageUrl;
+
+    if (edit.parent_edit_id) {
+      const { data: parent, error: parentError } = await supabase
         .from('edited_images')
-        .update({
-          status: 'completed',
-          image_url: editedImageUrl,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', editId);
-        
-      if (completeError) {
-        throw new Error(`Failed to update edited_images record: ${completeError.message}`);
+        .select('status, image_url')
+        .eq('id', edit.parent_edit_id)
+        .eq('original_image_id', edit.original_image_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (parentError) {
+        throw new HttpError("DATABASE_ERROR", `Failed to fetch parent version: ${parentError.message}`);
       }
-      
-      // Also create an asset record for the edited image
-      await supabase
-        .from("assets")
-        .insert({
-          user_id: userId,
-          source: "generated",
-          original_url: editedImageUrl,
-          filename: `edited-${editId}.png`,
-          content_type: "image/png",
-          created_at: new Date().toISOString()
-        });
-      
-      console.log(`[${executionId}] Edit completed successfully`);
-      
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          editId,
-          imageUrl: editedImageUrl,
-          executionTime: ((Date.now() - functionStart) / 1000).toFixed(2) + "s"
-        }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" }
-        }
-      );
-      
-    } catch (editError) {
-      console.error(`[${executionId}] Error editing image:`, editError);
-      
-      // Update the edited_images record with the error
-      const { error: failureError } = await supabase
-        .from('edited_images')
-        .update({
-          status: 'failed',
-          error_message: String(editError),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', editId);
-        
-      if (failureError) {
-        console.error(`[${executionId}] Error updating edited_images failure status:`, failureError);
+
+      if (!parent || parent.status !== 'completed' || !parent.image_url) {
+        throw new HttpError("CONFLICT", "Only completed versions can be edited");
       }
-      
-      return new Response(
-        JSON.stringify({ 
-          error: `Image editing failed: ${editError instanceof Error ? editError.message : String(editError)}`,
-          executionTime: ((Date.now() - functionStart) / 1000).toFixed(2) + "s"
-        }),
-        {
-          status: 200, // Return 200 even for errors to handle CORS properly
-          headers: { ...corsHeaders, "Content-Type": "application/json" }
-        }
-      );
+      sourceUrl = parent.image_url;
+      console.log(`[${executionId}] Editing version ${edit.parent_edit_id}`);
     }
 
-  } catch (error) {
-    console.error(`[${executionId}] Error in edit-image:`, error);
-
-    return new Response(
-      JSON.stringify({
-        status: "error",
-        message: error instanceof Error ? error.message : "An unexpected error occurred",
-        error: String(error),
-        executionTime: ((Date.now() - functionStart) / 1000).toFixed(2) + "s"
-      }),
-      {
-        status: 200, // Return 200 even for errors to handle CORS properly
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
+    // Download the image to edit
+    console.log(`[${executionId}] Downloading image to edit`);
+    const downloadStart = Date.now();
+    const imageBlob = await downloadImageFromUrl(sourceUrl, supabase, config.supabaseUrl, executionId);
+
+    if (!imageBlob) {
+      throw new HttpError("BAD_REQUEST", "Failed to download the image to edit");
+    }
+
+    const downloadMs = Date.now() - downloadStart;
+
+    // The provider rejects masks that do not match the image
+    if (maskBytes) {
+      const imageSize = readPngSize(new Uint8Array(await imageBlob.arrayBuffer()));
+      const maskSize = readPngSize(maskBytes);
+
+      if (imageSize && maskSize && (imageSize.width !== maskSize.width || imageSize.height !== maskSize.height)) {
+        throw new HttpError(
+          "BAD_REQUEST",
+          `The mask is ${maskSize.width}x${maskSize.height} but the image is ${imageSize.width}x${imageSize.height}`
+        );
       }
+    }
+
+    // Create a File object from the blob
+    const imageFile = new File([imageBlob], "original.png", { type: "image/png" });
+
+    console.log(`[${executionId}] Calling ${imageProvider.name} image provider to edit image`);
+    const editRequest = {
+      prompt: maskBytes
+        ? `Edit only the masked area of this image based on these instructions, keep everything else unchanged: ${editPrompt}`
+        : `Edit this image based on these instructions: ${editPrompt}`,
+      quality: "high" as const
+    };
+    const apiStart = Date.now();
+    let result;
+    try {
+      result = maskBytes
+        ? await imageProvider.editWithMask({
+            ...editRequest,
+            images: [imageFile],
+            mask: new File([maskBytes], "mask.png", { type: "image/png" })
+          })
+        : await imageProvider.edit({ ...editRequest, images: [imageFile] });
+    } catch (providerError) {
+      throw new HttpError("PROVIDER_ERROR", providerError instanceof Error ? providerError.message : String(providerError));
+    }
+
+    const providerMs = Date.now() - apiStart;
+    console.log(`[${executionId}] Image provider response received`);
+
+    // Upload the edited image to storage
+    const imagePath = `${userId}/edited/${editId}.png`;
+    const uploadStart = Date.now();
+    const editedImageUrl = await uploadPublicImage(supabase, "edited_images", imagePath, result.bytes, result.contentType, executionId);
+    const uploadMs = Date.now() - uploadStart;
+
+    // Update the edited_images record with the result
+    const { error: completeError } = await supabase
+      .from('edited_images')
+      .update({
+        status: 'completed',
+        image_url: editedImageUrl,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', editId);
+
+    if (completeError) {
+      throw new HttpError("DATABASE_ERROR", `Failed to update edited_images record: ${completeError.message}`);
+    }
+
+    // Also create an asset record for the edited image
+    await supabase
+      .from("assets")
+      .insert({
+        user_id: userId,
+        source: "generated",
+        original_url: editedImageUrl,
+        filename: `edited-${editId}.png`,
+        content_type: "image/png",
+        created_at: new Date().toISOString()
+      });
+
+    await recordProvenance(supabase, {
+      userId,
+      outputType: "edited_image",
+      outputId: editId,
+      imageUrl: editedImageUrl,
+      provider: result.provider,
+      model: result.model,
+      operation: "edit",
+      parameters: { quality: editRequest.quality },
+      inputs: [
+        { role: edit.parent_edit_id ? "parent_version" : "original", url: sourceUrl },
+        ...(maskUrl ? [{ role: "mask", url: maskUrl }] : [])
+      ],
+      prompt: editRequest.prompt,
+      startedAt: functionStart,
+      completedAt: Date.now(),
+      timings: { download_ms: downloadMs, provider_ms: providerMs, upload_ms: uploadMs },
+      creditsCost: 0
+    }, executionId);
+
+    console.log(`[${executionId}] Edit completed successfully`);
+
+    return jsonResponse({
+      success: true,
+      editId,
+      imageUrl: editedImageUrl,
+      maskUrl,
+      executionTime: ((Date.now() - functionStart) / 1000).toFixed(2) + "s"
+    });
+
+  } catch (editError) {
+    console.error(`[${executionId}] Error editing image:`, editError);
+
+    // Update the edited_images record with the error
+    const { error: failureError } = await supabase
+      .from('edited_images')
+      .update({
+        status: 'failed',
+        error_message: String(editError),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', editId);
+
+    if (failureError) {
+      console.error(`[${executionId}] Error updating edited_images failure status:`, failureError);
+    }
+
+    const message = editError instanceof Error ? editError.message : String(editError);
+    throw new HttpError(
+      editError instanceof HttpError ? editError.code : "INTERNAL_ERROR",
+      `Image editing failed: ${message}`,
+      { editId, executionTime: ((Date.now() - functionStart) / 1000).toFixed(2) + "s" }
     );
   }
-});
\ No newline at end of file
+});
@@ -1,467 +1,351 @@
-import OpenAI from "npm:openai@4.98.0";
-import { createClient } from "npm:@supabase/supabase-js@2.39.8";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
-};
-
-// Initialize OpenAI with environment variables
-const openai = new OpenAI({
-  apiKey: Deno.env.get("VITE_OPENAI_API_KEY")
-});
-
-/**
- * Downloads an image from a URL and returns it as a Blob
- * This function handles both external URLs and Supabase storage URLs
- */
-async function downloadImageFromUrl(url: string, supabase: any, supabaseUrl: string): Promise<Blob | null> {
-  try {
-    console.log(`Downloading image from: ${url.substring(0, 50)}...`);
-    
-    // For external URLs, fetch directly
-    if (!url.includes(supabaseUrl)) {
-      const response = await fetch(url);
-      if (!response.ok) throw new Error(`Failed to fetch image: ${response.statusText}`);
-      const blob = await response.blob();
-      console.log(`Downloaded external image (${blob.size} bytes)`);
-      return blob;
-    } else {
-      // For Supabase URLs, extract bucket and path
-      const urlPath = new URL(url).pathname;
-      const parts = urlPath.split('/');
-      const bucketIndex = parts.indexOf("public") + 1;
-      
-      if (bucketIndex <= 0) {
-        throw new Error('Invalid URL format');
-      }
-      
-      const bucket = parts[bucketIndex];
-      const path = parts.slice(bucketIndex + 1).join('/');
-      
-      console.log(`Extracting from Supabase storage: bucket=${bucket}, path=${path}`);
-      
-      // Download from Supabase Storage
-      const { data, error } = await supabase.storage
-        .from(bucket)
-        .download(path);
-        
-      if (error) {
-        throw new Error(`Failed to download reference image: ${error.message}`);
-      }
-      
-      if (!data) {
-        throw new Error('No file data returned from storage');
-      }
-      
-      console.log(`Downloaded image from Supabase storage`);
-      return data;
-    }
-  } catch (error) {
-    console.error(`ERROR downloading image from ${url}:`, error);
-    return null;
-  }
-}
+import { AD_CONCEPTS_SCHEMA, parseAdConcepts, type ParsedAdConcepts } from "../_shared/adConcepts.ts";
+import { isSessionSettled, returnUnusedSessionCredits, settleSessionCredits } from "../_shared/credits.ts";
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serve } from "../_shared/http.ts";
+import { dispatchWorkers, getWorkerSettings } from "../_shared/jobQueue.ts";
+import { getPromptProvider } from "../_shared/promptProvider.ts";
+import {
+  DEFAULT_TEMPLATE,
+  loadPromptTemplate,
+  renderPromptTemplate,
+  type PromptTemplateDefinition
+} from "../_shared/promptTemplates.ts";
+import { blobToBase64, downloadImageFromUrl } from "../_shared/storage.ts";
+import { getAuthenticatedUser, isServiceRoleRequest, type SupabaseClient } from "../_shared/supabase.ts";
+
+// Initialize the prompt provider selected via PROMPT_PROVIDER / IMAGE_PROVIDER
+const promptProvider = getPromptProvider();
 
 /**
- * Prepares images for OpenAI by downloading them and converting to base64
+ * Prepares images for the prompt model by downloading them and converting to base64
  */
-async function prepareImagesForOpenAI(imageUrls: string[], supabase: any, supabaseUrl: string): Promise<string[]> {
+async function prepareImagesForOpenAI(imageUrls: string[], supabase: SupabaseClient, supabaseUrl: string): Promise<string[]> {
   console.log(`Preparing ${imageUrls.length} images for OpenAI`);
-  
+
   const imageBlobs: Array<Blob | null> = await Promise.all(
     imageUrls.map(url => downloadImageFromUrl(url, supabase, supabaseUrl))
   );
-  
+
   // Filter out null blobs and convert to base64
   const base64Images = await Promise.all(
     imageBlobs
       .filter((blob): blob is Blob => blob !== null)
-      .map(async (blob) => {
-        return await blobToBase64(blob);
-      })
+      .map(blob => blobToBase64(blob))
   );
-  
+
   console.log(`Successfully prepared ${base64Images.length}/${imageUrls.length} images`);
   return base64Images;
 }
 
-/**
- * Converts a Blob to a base64 string
- */
-function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        // Remove the data URL prefix (e.g., "data:image/png;base64,")
-        const base64String = reader.result.split(',')[1];
-        resolve(base64String);
-      } else {
-        reject(new Error("Failed to convert blob to base64"));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
+// Called by the user's browser, or with the service role key by the automation scheduler
+serve(async ({ req, config, supabase }) => {
+  const user = isServiceRoleRequest(req, config) ? null : await getAuthenticatedUser(req, supabase);
 
-Deno.serve(async (req: Request) => {
-  // Handle CORS
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 200,
-      headers: corsHeaders
-    });
+  // Parse the request
+  const { sessionId } = await readJson<{ sessionId?: string }>(req);
+
+  if (!sessionId) {
+    throw new HttpError("MISSING_PARAMETER", "Session ID is required");
   }
 
-  try {
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Get current session
-    const authHeader = req.headers.get('Authorization');
-    
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "No authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: getUserError } = await supabase.auth.getUser(token);
-    
-    if (getUserError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Not authenticated" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  // Fetch the session
+  const { data: session, error: sessionError } = await supabase
+    .from('automation_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single();
 
-    // Parse the request
-    const { sessionId } = await req.json();
-    
-    if (!sessionId) {
-      return new Response(
-        JSON.stringify({ error: "Session ID is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  if (sessionError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch session: ${sessionError.message}`);
+  }
 
-    // Fetch the session
-    const { data: session, error: sessionError } = await supabase
-      .from('automation_sessions')
-      .select('*')
-      .eq('id', sessionId)
-      .single();
-    
-    if (sessionError) {
-      return new Response(
-        JSON.stringify({ error: `Failed to fetch session: ${sessionError.message}` }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    // Verify user owns the session
-    if (session.user_id !== user.id) {
-      return new Response(
-        JSON.stringify({ error: "You do not have permission to access this session" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  // Verify user owns the session
+  if (user && session.user_id !== user.id) {
+    throw new HttpError("FORBIDDEN", "You do not have permission to access this session");
+  }
+
+  // A session that ended had its credits settled, it cannot be generated again
+  if (await isSessionSettled(supabase, sessionId)) {
+    throw new HttpError("CONFLICT", "The credits for this session were already settled, please start a new session");
+  }
+
+  // Reviewed prompts were launched already, generating them again would discard the queued jobs
+  if (session.launched_at) {
+    throw new HttpError("CONFLICT", "The prompts of this session were already launched");
+  }
 
-    // Update session status to indicate we're generating prompts
+  // Marks the session failed and returns the credits held or charged for it
+  const failSession = async (reason: string) => {
     await supabase
       .from('automation_sessions')
-      .update({ status: 'generating_prompts', updated_at: new Date().toISOString() })
+      .update({
+        status: 'failed',
+        error_message: reason,
+        updated_at: new Date().toISOString()
+      })
       .eq('id', sessionId);
 
-    // Clear any existing prompt variations for this session
-    await supabase
-      .from('prompt_variations')
-      .delete()
-      .eq('session_id', sessionId);
-
-    // Collect image URLs from the session
-    const imageUrls: string[] = [];
-    if (session.product_image_url) {
-      imageUrls.push(session.product_image_url);
-    }
-    if (session.brand_logo_url) {
-      imageUrls.push(session.brand_logo_url);
-    }
-    if (session.reference_ad_url) {
-      imageUrls.push(session.reference_ad_url);
-    }
-    
-    // Download and prepare the images
-    const imageContent = await prepareImagesForOpenAI(imageUrls, supabase, supabaseUrl);
+    await settleSessionCredits(supabase, session, { reason, refundAmount: session.variation_count });
+  };
+
+  // Claim the draft session for prompt generation. Only one request wins, and a
+  // session that started before (running, paused or finished) keeps its
+  // variations and jobs rather than being generated again.
+  const { data: claimed, error: claimError } = await supabase
+    .from('automation_sessions')
+    .update({ status: 'generating_prompts', updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('status', 'draft')
+    .select('id');
+
+  if (claimError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to update session: ${claimError.message}`);
+  }
 
-    // Construct the ChatGPT message
-    const systemMessage = `You are a top-tier eCommerce advertising strategist and AI prompt engineer. Your task is to generate highly specific, visually instructive prompts for an AI image generator to create static ads that mirror successful, high-converting ad styles.
+  if (!claimed || claimed.length === 0) {
+    throw new HttpError("CONFLICT", "The prompts of this session were already generated or are being generated");
+  }
 
-Use the uploaded product image to understand the product's core visual identity, and the reference ad (if provided) to infer layout, styling, lighting, and positioning cues.
+  // Clear any existing prompt variations for this session
+  await supabase
+    .from('prompt_variations')
+    .delete()
+    .eq('session_id', sessionId);
 
-Your prompts should:
+  // Collect image URLs from the session
+  const imageUrls: string[] = [];
+  if (session.product_image_url) {
+    imageUrls.push(session.product_image_url);
+  }
+  if (session.brand_logo_url) {
+    imageUrls.push(session.brand_logo_url);
+  }
+  if (session.reference_ad_url) {
+    imageUrls.push(session.reference_ad_url);
+  }
 
-Clearly describe a unique static ad concept that aligns with proven DTC marketing aesthetics.
+  // Download and prepare the images
+  const imageContent = await prepareImagesForOpenAI(imageUrls, supabase, config.supabaseUrl);
 
-Specify exact visual instructions: how the product should be placed, the lighting conditions, camera angle, background, and mood.
+  // Render the session's prompt template, or the default one
+  let template: PromptTemplateDefinition = DEFAULT_TEMPLATE;
+  let templateVersion: string | null = null;
 
-Emphasize commercial intent: Include suggestions for text overlays, visual hierarchy, and areas of focus that drive engagement and conversion.
+  if (session.prompt_template_id) {
+    try {
+      const stored = await loadPromptTemplate(supabase, session.prompt_template_id, session.user_id);
+      template = stored;
+      templateVersion = stored.version;
+    } catch (templateError) {
+      const message = `Failed to load prompt template: ${templateError instanceof Error ? templateError.message : String(templateError)}`;
+      await failSession(message);
+      throw templateError;
+    }
+  }
 
-These prompts will be used by an AI agent to recreate or remix winning ad formats, so clarity, detail, and relevance to the product and reference ad are critical.`;
+  const { systemMessage, userMessage: userMessageContent } = renderPromptTemplate(template, {
+    // Campaign sessions know the product name from the catalog
+    product_name: session.product_title,
+    ...session.template_variables
+  }, {
+    variation_count: session.variation_count,
+    product_image_url: session.product_image_url,
+    reference_ad_url: session.reference_ad_url,
+    instructions: session.instructions
+  });
 
-    const userMessageContent = `Create ${session.variation_count} unique and detailed prompts for generating static product advertisements using the specifications below:
+  // Record which version of the template produced the prompts
+  if (templateVersion) {
+    await supabase
+      .from('automation_sessions')
+      .update({ prompt_template_version: templateVersion })
+      .eq('id', sessionId);
+  }
 
-Product Image: ${session.product_image_url}
-${session.reference_ad_url ? `Reference Ad Style: ${session.reference_ad_url}` : ''}
-${session.instructions ? `Additional Instructions: ${session.instructions}` : ''}
+  // Call the prompt model with structured outputs
+  console.log(`Calling ${promptProvider.name} prompt provider with model: ${promptProvider.model} and structured outputs`);
+  console.log(imageContent.length > 0 ? "Including images in prompt request" : "No images available, using text-only prompt request");
 
-If a reference image is provided, study the reference image to understand the ads you need to generate
+  let responseContent: string;
+  try {
+    responseContent = await promptProvider.completeJson({
+      systemMessage,
+      userMessage: userMessageContent,
+      images: imageContent,
+      expectedCount: session.variation_count,
+      responseSchema: AD_CONCEPTS_SCHEMA
+    });
+  } catch (providerError) {
+    const message = `Prompt provider request failed: ${providerError instanceof Error ? providerError.message : String(providerError)}`;
+    await failSession(message);
+    throw new HttpError("PROVIDER_ERROR", message);
+  }
 
-If no reference ad is available, infer a high-performing ad style based on the product's category and likely audience.
+  console.log("Prompt provider response received");
+  console.log(`Response content length: ${responseContent.length}`);
 
-Each prompt must:
+  // Keep the variations that match the schema, one malformed variation does not fail the session
+  let parsedResponse: ParsedAdConcepts;
+  try {
+    parsedResponse = parseAdConcepts(responseContent);
+    console.log("Successfully parsed JSON response");
+  } catch (parseError) {
+    console.error("Failed to parse JSON response:", parseError);
+    console.log("Raw response:", responseContent);
+    const message = `Failed to parse the prompt provider response: ${(parseError as Error).message}`;
+    await failSession(message);
+    throw new HttpError("PROVIDER_ERROR", message);
+  }
 
-Describe a unique ad concept with a clear visual identity
+  if (parsedResponse.problems.length > 0) {
+    console.warn(`Dropped ${parsedResponse.problems.length} variations that did not match the schema:`, parsedResponse.problems);
+  }
 
-Define how the product should be positioned and presented in the frame
+  // Extra variations were not paid for
+  const concepts = parsedResponse.concepts.slice(0, session.variation_count);
 
-Specify background, lighting, camera angle, and atmosphere
+  if (concepts.length === 0) {
+    await failSession("The prompt provider did not return any valid ad concepts");
+    throw new HttpError("PROVIDER_ERROR", "The prompt provider did not return any valid ad concepts", {
+      problems: parsedResponse.problems
+    });
+  }
 
-Include marketing-driven details like potential text placement, focal areas, and engagement hooks
+  const promptsArray = concepts.map(concept => concept.prompt);
+  console.log(`Response contains ${promptsArray.length} valid ad concepts`);
+
+  const { error: responseError } = await supabase
+    .from('prompt_generation_responses')
+    .insert({
+      session_id: sessionId,
+      raw_response: { ...JSON.parse(responseContent), validation_problems: parsedResponse.problems }
+    })
+    .select()
+    .single();
+
+  if (responseError) {
+    console.error("Failed to save response:", responseError);
+    console.log("Raw response content:", responseContent);
+    await failSession(`Failed to save response: ${responseError.message}`);
+    throw new HttpError("DATABASE_ERROR", `Failed to save response: ${responseError.message}`);
+  }
 
-The goal is to produce sharp, scroll-stopping ad visuals that align with proven ecommerce ad aesthetics.
+  // Parse the JSON response
+  try {
+    console.log(`Successfully extracted ${promptsArray.length} prompts from response`);
+
+    // Insert the prompt variations
+    const promptInserts = concepts.map(({ prompt, ...concept }, index) => ({
+      session_id: sessionId,
+      prompt,
+      concept,
+      index,
+      status: 'ready'
+    }));
+
+    if (promptInserts.length > 0) {
+      const { error: insertsError } = await supabase
+        .from('prompt_variations')
+        .insert(promptInserts);
 
-Your output MUST follow the specified JSON format with a "prompts" array containing strings.`;
+      if (insertsError) {
+        throw new Error(`Failed to insert prompt variations: ${insertsError.message}`);
+      }
 
-    // Call GPT-4o with structured outputs
-    console.log("Calling OpenAI API with model: gpt-4o-2024-11-20 and structured outputs");
-    let chatResponse;
-    
-    // Different API call depending on whether we have images or not
-    if (imageContent.length > 0) {
-      console.log("Including images in OpenAI request");
-      
-      // Create message array with image content
-      const messages = [
-        { role: "system", content: systemMessage },
-        { 
-          role: "user", 
-          content: [
-            { type: "text", text: userMessageContent },
-            ...imageContent.map(base64Image => ({
-              type: "image_url",
-              image_url: {
-                url: `data:image/png;base64,${base64Image}`
-              }
-            }))
-          ] 
-        }
-      ];
-      
-      chatResponse = await openai.chat.completions.create({
-        model: "gpt-4o-2024-11-20", // Updated to latest model
-        messages: messages,
-        response_format: { type: "json_object" },
-        top_p: 0.7, // Lower value for more focused outputs
-        temperature: 0.9  // Maintain creativity
-      });
-    } else {
-      console.log("No images available, using text-only OpenAI request");
-      chatResponse = await openai.chat.completions.create({
-        model: "gpt-4o-2024-11-20", // Updated to latest model
-        messages: [
-          { role: "system", content: systemMessage },
-          { role: "user", content: userMessageContent }
-        ],
-        response_format: { type: "json_object" },
-        top_p: 0.7, // Lower value for more focused outputs
-        temperature: 0.9  // Maintain creativity
-      });
-    }
-    
-    console.log("OpenAI response received");
-
-    // Extract the response content
-    const responseContent = chatResponse.choices[0].message.content;
-    console.log(`Response content length: ${responseContent.length}`);
-    
-    // Save the raw response
-    let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(responseContent);
-      console.log("Successfully parsed JSON response");
-    } catch (parseError) {
-      console.error("Failed to parse JSON response:", parseError);
-      console.log("Raw response:", responseContent);
-      throw new Error(`Failed to parse OpenAI response as JSON: ${parseError.message}`);
-    }
-    
-    // Validate the response format
-    if (!parsedResponse.prompts || !Array.isArray(parsedResponse.prompts)) {
-      throw new Error(`Expected a 'prompts' array in the response, but got: ${JSON.stringify(parsedResponse)}`);
-    }
-    
-    const promptsArray = parsedResponse.prompts;
-    console.log(`Response contains ${promptsArray.length} prompts`);
-    
-    const { data: responseRecord, error: responseError } = await supabase
-      .from('prompt_generation_responses')
-      .insert({
-        session_id: sessionId,
-        raw_response: parsedResponse
-      })
-      .select()
-      .single();
-    
-    if (responseError) {
-      console.error("Failed to save response:", responseError);
-      console.log("Raw response content:", responseContent);
-      return new Response(
-        JSON.stringify({ error: `Failed to save response: ${responseError.message}` }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      console.log(`Successfully inserted ${promptInserts.length} prompt variations`);
     }
 
-    // Parse the JSON response
-    try {
-      if (!promptsArray || !Array.isArray(promptsArray)) {
-        throw new Error(`Expected an array of prompts, got: ${JSON.stringify(parsedResponse)}`);
-      }
-      
-      console.log(`Successfully extracted ${promptsArray.length} prompts from response`);
-      
-      // Insert the prompt variations
-      const promptInserts = promptsArray.map((prompt, index) => ({
-        session_id: sessionId,
-        prompt,
-        index,
-        status: 'ready'
-      }));
-      
-      if (promptInserts.length > 0) {
-        const { error: insertsError } = await supabase
-          .from('prompt_variations')
-          .insert(promptInserts);
-        
-        if (insertsError) {
-          throw new Error(`Failed to insert prompt variations: ${insertsError.message}`);
-        }
-        
-        console.log(`Successfully inserted ${promptInserts.length} prompt variations`);
-      }
-      
-      // Create generation jobs for each prompt variation
-      const { data: variations, error: variationsError } = await supabase
-        .from('prompt_variations')
-        .select('id, prompt')
-        .eq('session_id', sessionId)
-        .eq('status', 'ready');
-      
-      if (variationsError) {
-        throw new Error(`Failed to fetch variations: ${variationsError.message}`);
-      }
-      
-      const jobInserts = variations.map(variation => ({
-        variation_id: variation.id,
-        prompt: variation.prompt,
-        status: 'queued'
-      }));
-      
-      if (jobInserts.length > 0) {
-        const { error: jobsError } = await supabase
-          .from('generation_jobs')
-          .insert(jobInserts);
-        
-        if (jobsError) {
-          throw new Error(`Failed to insert generation jobs: ${jobsError.message}`);
-        }
-        
-        console.log(`Successfully inserted ${jobInserts.length} generation jobs`);
-      }
-      
-      // Update session status
-      await supabase
-        .from('automation_sessions')
-        .update({ 
-          status: 'prompts_generated', 
-          updated_at: new Date().toISOString() 
-        })
-        .eq('id', sessionId);
-      
-      // Start the first job processing
-      try {
-        if (variations.length > 0) {
-          // Process the first job
-          await fetch(`${supabaseUrl}/functions/v1/process-generation-job`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${supabaseKey}`
-            },
-            body: JSON.stringify({ 
-              variationId: variations[0].id
-            })
-          });
-          
-          console.log(`Started processing first job for variation: ${variations[0].id}`);
-        }
-      } catch (processError) {
-        console.error("Error starting job processing:", processError);
-        // We'll continue anyway and let the scheduler pick it up
-      }
-      
-      // Return success
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          promptCount: promptsArray.length,
-          prompts: promptsArray
-        }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" }
-        }
-      );
-      
-    } catch (parseError) {
-      // Update session status to failed
+    // Review sessions wait for the user to launch the prompts, their credits
+    // stay reserved so prompts can still be added up to the variation count
+    if (session.review_prompts) {
       await supabase
         .from('automation_sessions')
-        .update({ 
-          status: 'failed', 
-          updated_at: new Date().toISOString() 
+        .update({
+          status: 'prompts_generated',
+          updated_at: new Date().toISOString()
         })
         .eq('id', sessionId);
-      
-      return new Response(
-        JSON.stringify({ 
-          error: `Failed to parse prompts: ${parseError.message}`,
-          rawResponse: responseContent
-        }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+
+      console.log(`Session ${sessionId} is waiting for the prompts to be reviewed`);
+
+      return jsonResponse({
+        success: true,
+        promptCount: promptsArray.length,
+        prompts: promptsArray,
+        concepts,
+        awaitingReview: true
+      });
+    }
+
+    // Create generation jobs for each prompt variation
+    const { data: variations, error: variationsError } = await supabase
+      .from('prompt_variations')
+      .select('id, prompt')
+      .eq('session_id', sessionId)
+      .eq('status', 'ready');
+
+    if (variationsError) {
+      throw new Error(`Failed to fetch variations: ${variationsError.message}`);
     }
 
-  } catch (error) {
-    console.error("Error in generate-prompt-variations:", error);
-
-    return new Response(
-      JSON.stringify({
-        status: "error",
-        message: error.message || "An unexpected error occurred",
-        error: String(error)
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
+    const jobInserts = variations.map(variation => ({
+      variation_id: variation.id,
+      prompt: variation.prompt,
+      status: 'queued'
+    }));
+
+    if (jobInserts.length > 0) {
+      const { error: jobsError } = await supabase
+        .from('generation_jobs')
+        .insert(jobInserts);
+
+      if (jobsError) {
+        throw new Error(`Failed to insert generation jobs: ${jobsError.message}`);
       }
+
+      console.log(`Successfully inserted ${jobInserts.length} generation jobs`);
+    }
+
+    // Return the credits of variations the prompt provider did not deliver
+    const unusedCredits = session.variation_count - jobInserts.length;
+    await returnUnusedSessionCredits(
+      supabase,
+      session,
+      unusedCredits,
+      `${unusedCredits} of ${session.variation_count} prompts were not generated`
     );
+
+    // Update session status
+    await supabase
+      .from('automation_sessions')
+      .update({
+        status: 'prompts_generated',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', sessionId);
+
+    // Start a pool of workers, each leases queued jobs until the session is done
+    const workerCount = Math.min(
+      variations.length,
+      session.max_concurrency ?? getWorkerSettings().sessionConcurrency
+    );
+    dispatchWorkers(config, sessionId, workerCount);
+
+    // Return success
+    return jsonResponse({
+      success: true,
+      promptCount: promptsArray.length,
+      prompts: promptsArray,
+      concepts,
+      awaitingReview: false
+    });
+
+  } catch (parseError) {
+    // Update session status to failed
+    await failSession(`Failed to parse prompts: ${(parseError as Error).message}`);
+
+    throw new HttpError("DATABASE_ERROR", `Failed to parse prompts: ${(parseError as Error).message}`, {
+      rawResponse: responseContent
+    });
   }
-});
\ No newline at end of file
+});
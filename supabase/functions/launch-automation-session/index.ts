@@ -0,0 +1,110 @@
+import { isSessionSettled, returnUnusedSessionCredits } from "../_shared/credits.ts";
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+import { dispatchWorkers, getWorkerSettings } from "../_shared/jobQueue.ts";
+
+interface LaunchAutomationSessionRequest {
+  sessionId?: string;
+  // The reviewed prompts in generation order, edited, reordered, removed or added
+  prompts?: string[];
+}
+
+// gpt-image-1 accepts prompts up to 32000 characters
+const MAX_PROMPT_LENGTH = 32000;
+
+/**
+ * Queues the reviewed prompts of a session that waits at prompts_generated and
+ * starts its workers. Credits of prompts removed during the review are returned.
+ */
+serveAuthenticated(async ({ req, executionId, config, supabase, user }) => {
+  const { sessionId, prompts } = await readJson<LaunchAutomationSessionRequest>(req);
+
+  if (!sessionId) {
+    throw new HttpError("MISSING_PARAMETER", "Session ID is required");
+  }
+
+  if (!Array.isArray(prompts) || prompts.some(prompt => typeof prompt !== "string")) {
+    throw new HttpError("BAD_REQUEST", "Expected parameter prompts to be a list of prompts");
+  }
+
+  const reviewedPrompts = prompts.map(prompt => prompt.trim());
+
+  if (reviewedPrompts.some(prompt => !prompt)) {
+    throw new HttpError("BAD_REQUEST", "Prompts must not be empty");
+  }
+
+  if (reviewedPrompts.some(prompt => prompt.length > MAX_PROMPT_LENGTH)) {
+    throw new HttpError("BAD_REQUEST", `Prompts must be at most ${MAX_PROMPT_LENGTH} characters long`);
+  }
+
+  const { data: session, error: sessionError } = await supabase
+    .from('automation_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (sessionError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch session: ${sessionError.message}`);
+  }
+
+  if (!session) {
+    throw new HttpError("NOT_FOUND", "Session not found");
+  }
+
+  if (session.user_id !== user.id) {
+    throw new HttpError("FORBIDDEN", "You do not have permission to access this session");
+  }
+
+  if (!session.review_prompts || session.status !== 'prompts_generated' || session.launched_at) {
+    throw new HttpError("CONFLICT", "This session is not waiting for its prompts to be reviewed", {
+      status: session.status
+    });
+  }
+
+  if (await isSessionSettled(supabase, sessionId)) {
+    throw new HttpError("CONFLICT", "The credits for this session were already settled, please start a new session");
+  }
+
+  // The reservation covers one credit per requested variation
+  if (reviewedPrompts.length === 0 || reviewedPrompts.length > session.variation_count) {
+    throw new HttpError(
+      "BAD_REQUEST",
+      `Keep between 1 and ${session.variation_count} prompts, ${session.variation_count} credits were reserved for this session`,
+      { max_prompts: session.variation_count }
+    );
+  }
+
+  const { data: queued, error: launchError } = await supabase.rpc('launch_reviewed_prompts', {
+    p_session_id: sessionId,
+    p_prompts: reviewedPrompts
+  });
+
+  if (launchError) {
+    console.error(`[${executionId}] Failed to launch session ${sessionId}:`, launchError);
+    throw new HttpError("DATABASE_ERROR", `Failed to launch session: ${launchError.message}`);
+  }
+
+  const jobCount = (queued as number | null) ?? reviewedPrompts.length;
+  console.log(`[${executionId}] Queued ${jobCount} reviewed prompts of session ${sessionId}`);
+
+  const unusedCredits = session.variation_count - jobCount;
+  const returned = await returnUnusedSessionCredits(
+    supabase,
+    session,
+    unusedCredits,
+    `${unusedCredits} of ${session.variation_count} prompts were removed during review`,
+    executionId
+  );
+
+  const workerCount = Math.min(
+    jobCount,
+    session.max_concurrency ?? getWorkerSettings().sessionConcurrency
+  );
+  dispatchWorkers(config, sessionId, workerCount, executionId);
+
+  return jsonResponse({
+    success: true,
+    promptCount: jobCount,
+    creditsReturned: returned
+  });
+});
@@ -0,0 +1,391 @@
+import { releaseReservedCredits, returnFailedJobCredit, settleSessionCredits } from "../_shared/credits.ts";
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, serve } from "../_shared/http.ts";
+import { completeSessionIfDone, dispatchWorkers, getRetryDelaySeconds, getWorkerSettings } from "../_shared/jobQueue.ts";
+import type { SupabaseClient } from "../_shared/supabase.ts";
+
+// Minutes a session may stay in generating_prompts before it is failed
+const PROMPT_GENERATION_TIMEOUT_MINUTES = 15;
+
+// Hours generated prompts may wait for review before the session is failed
+const PROMPT_REVIEW_TIMEOUT_HOURS = 24;
+
+// Hours a campaign session may stay in draft before it is failed
+const CAMPAIGN_START_TIMEOUT_HOURS = 24;
+
+interface StalledJob {
+  id: string;
+  variation_id: string;
+  attempts: number;
+  claimed_by: string | null;
+  lease_expires_at: string | null;
+  updated_at: string;
+  prompt_variations: {
+    session_id: string;
+    automation_sessions: { user_id: string; status: string };
+  };
+}
+
+interface SessionJob {
+  status: string;
+  lease_expires_at: string | null;
+  next_attempt_at: string | null;
+}
+
+async function updateVariationStatus(supabase: SupabaseClient, variationId: string, status: string, executionId: string) {
+  const { error } = await supabase
+    .from("prompt_variations")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", variationId);
+
+  if (error) {
+    console.error(`[${executionId}] Error updating variation ${variationId}:`, error);
+  }
+}
+
+/**
+ * Sweeper for the automation pipeline. Requeues jobs whose worker lease ran out
+ * with an increasing backoff, fails them once they used up their attempts and
+ * restarts, completes or fails sessions that no worker is looking after.
+ * Meant to be called on a schedule.
+ */
+serve(async ({ req, executionId, config, supabase }) => {
+  const functionStart = Date.now();
+  console.log(`[${executionId}] Monitor-automation-jobs function triggered`);
+
+  // Parse request data or use defaults
+  let sessionId = "";
+
+  if (req.method === "POST") {
+    try {
+      const body = await req.json();
+      sessionId = body.session_id || "";
+    } catch (e) {
+      console.error(`[${executionId}] Error parsing request body:`, e);
+      // Continue with defaults
+    }
+  }
+
+  const settings = getWorkerSettings();
+  const now = new Date();
+  const nowString = now.toISOString();
+  // Jobs claimed before leases existed have no lease_expires_at, their updated_at stands in for it
+  const leaseCutoff = new Date(now.getTime() - settings.leaseSeconds * 1000).toISOString();
+  const promptCutoff = new Date(now.getTime() - PROMPT_GENERATION_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+  const reviewCutoff = new Date(now.getTime() - PROMPT_REVIEW_TIMEOUT_HOURS * 60 * 60 * 1000).toISOString();
+  const campaignCutoff = new Date(now.getTime() - CAMPAIGN_START_TIMEOUT_HOURS * 60 * 60 * 1000).toISOString();
+
+  const results = {
+    jobs_checked: 0,
+    jobs_retried: 0,
+    jobs_failed: 0,
+    jobs_cancelled: 0,
+    sessions_checked: 0,
+    sessions_restarted: 0,
+    sessions_completed: 0,
+    sessions_failed: 0,
+    processing_time: 0,
+    details: [] as Record<string, unknown>[]
+  };
+
+  // 1. Jobs whose worker disappeared without finishing them
+  let jobQuery = supabase
+    .from("generation_jobs")
+    .select("id, variation_id, attempts, claimed_by, lease_expires_at, updated_at, prompt_variations!inner(session_id, automation_sessions!inner(user_id, status))")
+    .eq("status", "in_progress")
+    .or(`lease_expires_at.lt.${nowString},and(lease_expires_at.is.null,updated_at.lt.${leaseCutoff})`);
+
+  if (sessionId) {
+    console.log(`[${executionId}] Checking specific session: ${sessionId}`);
+    jobQuery = jobQuery.eq("prompt_variations.session_id", sessionId);
+  }
+
+  const { data: jobData, error: jobsError } = await jobQuery;
+
+  if (jobsError) {
+    console.error(`[${executionId}] Error fetching stalled jobs:`, jobsError);
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch jobs: ${jobsError.message}`);
+  }
+
+  const stalledJobs = (jobData ?? []) as unknown as StalledJob[];
+  results.jobs_checked = stalledJobs.length;
+  console.log(`[${executionId}] Found ${stalledJobs.length} jobs with an expired lease`);
+
+  for (const job of stalledJobs) {
+    const jobSessionId = job.prompt_variations.session_id;
+    const leaseEnd = job.lease_expires_at ?? job.updated_at;
+    const jobDetails = {
+      job_id: job.id,
+      session_id: jobSessionId,
+      variation_id: job.variation_id,
+      attempts: job.attempts
+    };
+
+    // Jobs of a cancelled session are not retried, the last one settles its credits
+    if (job.prompt_variations.automation_sessions.status === "cancelled") {
+      const { data: cancelled, error } = await supabase
+        .from("generation_jobs")
+        .update({
+          status: "cancelled",
+          error_message: "Cancelled by the user",
+          claimed_by: null,
+          lease_expires_at: null,
+          updated_at: nowString
+        })
+        .eq("id", job.id)
+        .eq("status", "in_progress")
+        .eq("attempts", job.attempts)
+        .select("id");
+
+      if (error) {
+        console.error(`[${executionId}] Error cancelling job ${job.id}:`, error);
+        results.details.push({ ...jobDetails, action: "update_failed", error: error.message });
+        continue;
+      }
+      if (!cancelled?.length) continue;
+
+      await updateVariationStatus(supabase, job.variation_id, "cancelled", executionId);
+      await completeSessionIfDone(supabase, jobSessionId, executionId);
+
+      console.log(`[${executionId}] Job ${job.id} of cancelled session ${jobSessionId} stalled, marked as cancelled`);
+      results.jobs_cancelled++;
+      results.details.push({ ...jobDetails, action: "marked_as_cancelled", reason: `Session was cancelled, the worker lease expired at ${leaseEnd}` });
+      continue;
+    }
+
+    if (job.attempts < settings.maxAttempts) {
+      const delaySeconds = getRetryDelaySeconds(job.attempts, settings);
+      const nextAttemptAt = new Date(now.getTime() + delaySeconds * 1000).toISOString();
+
+      // Matching on attempts keeps the update from clobbering a worker that reclaimed the job meanwhile
+      const { data: requeued, error } = await supabase
+        .from("generation_jobs")
+        .update({
+          status: "queued",
+          claimed_by: null,
+          lease_expires_at: null,
+          next_attempt_at: nextAttemptAt,
+          updated_at: nowString
+        })
+        .eq("id", job.id)
+        .eq("status", "in_progress")
+        .eq("attempts", job.attempts)
+        .select("id");
+
+      if (error) {
+        console.error(`[${executionId}] Error requeueing job ${job.id}:`, error);
+        results.details.push({ ...jobDetails, action: "update_failed", error: error.message });
+        continue;
+      }
+      if (!requeued?.length) continue;
+
+      await updateVariationStatus(supabase, job.variation_id, "ready", executionId);
+
+      console.log(`[${executionId}] Job ${job.id} requeued, retry ${job.attempts + 1}/${settings.maxAttempts} at ${nextAttemptAt}`);
+      results.jobs_retried++;
+      results.details.push({
+        ...jobDetails,
+        action: "retry_scheduled",
+        reason: `Worker lease expired at ${leaseEnd}`,
+        next_attempt_at: nextAttemptAt
+      });
+    } else {
+      const reason = `Stalled after ${job.attempts} attempts, the last worker lease expired at ${leaseEnd}`;
+
+      const { data: failed, error } = await supabase
+        .from("generation_jobs")
+        .update({
+          status: "failed",
+          error_message: reason,
+          claimed_by: null,
+          lease_expires_at: null,
+          updated_at: nowString
+        })
+        .eq("id", job.id)
+        .eq("status", "in_progress")
+        .eq("attempts", job.attempts)
+        .select("id");
+
+      if (error) {
+        console.error(`[${executionId}] Error failing job ${job.id}:`, error);
+        results.details.push({ ...jobDetails, action: "update_failed", error: error.message });
+        continue;
+      }
+      if (!failed?.length) continue;
+
+      await updateVariationStatus(supabase, job.variation_id, "failed", executionId);
+
+      const refunded = await returnFailedJobCredit(supabase, {
+        jobId: job.id,
+        userId: job.prompt_variations.automation_sessions.user_id,
+        sessionId: jobSessionId,
+        reason
+      }, executionId);
+
+      console.log(`[${executionId}] Job ${job.id} used up its attempts, marked as failed`);
+      results.jobs_failed++;
+      results.details.push({ ...jobDetails, action: "marked_as_failed", reason, credits_refunded: refunded ? 1 : 0 });
+    }
+  }
+
+  // 2. Sessions that are still generating prompts or images
+  let sessionQuery = supabase
+    .from("automation_sessions")
+    .select("id, user_id, status, variation_count, max_concurrency, review_prompts, launched_at, updated_at")
+    .or([
+      "status.eq.prompts_generated",
+      `and(status.eq.generating_prompts,updated_at.lt.${promptCutoff})`,
+      // Campaign sessions wait in draft until the browser generates their prompts
+      `and(status.eq.draft,campaign_id.not.is.null,updated_at.lt.${campaignCutoff})`
+    ].join(","));
+
+  if (sessionId) {
+    sessionQuery = sessionQuery.eq("id", sessionId);
+  }
+
+  const { data: sessions, error: sessionsError } = await sessionQuery;
+
+  if (sessionsError) {
+    console.error(`[${executionId}] Error fetching sessions:`, sessionsError);
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch sessions: ${sessionsError.message}`);
+  }
+
+  results.sessions_checked = sessions?.length || 0;
+  console.log(`[${executionId}] Checking ${results.sessions_checked} active sessions`);
+
+  // Fails the session and returns its unused credits, a full refund is only due when none of its jobs was created
+  const failSession = async (session: { id: string; user_id: string; variation_count: number }, reason: string, refund: boolean) => {
+    const id = session.id;
+    const { error } = await supabase
+      .from("automation_sessions")
+      .update({ status: "failed", error_message: reason, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error(`[${executionId}] Error failing session ${id}:`, error);
+      results.details.push({ session_id: id, action: "update_failed", error: error.message });
+      return;
+    }
+
+    const returned = await settleSessionCredits(
+      supabase,
+      session,
+      { reason, refundAmount: refund ? session.variation_count : undefined },
+      executionId
+    );
+
+    console.log(`[${executionId}] Session ${id} marked as failed: ${reason}`);
+    results.sessions_failed++;
+    results.details.push({
+      session_id: id,
+      action: "marked_as_failed",
+      reason,
+      credits_refunded: returned
+    });
+  };
+
+  for (const session of sessions ?? []) {
+    if (session.status === "generating_prompts") {
+      await failSession(session, `Prompt generation did not finish within ${PROMPT_GENERATION_TIMEOUT_MINUTES} minutes`, true);
+      continue;
+    }
+
+    if (session.status === "draft") {
+      await failSession(session, `The campaign did not start this product within ${CAMPAIGN_START_TIMEOUT_HOURS} hours`, true);
+      continue;
+    }
+
+    // Prompts waiting for review have no jobs yet, the reserved credits are held until the review times out
+    if (session.review_prompts && !session.launched_at) {
+      if (new Date(session.updated_at) < new Date(reviewCutoff)) {
+        await failSession(session, `The prompts were not launched within ${PROMPT_REVIEW_TIMEOUT_HOURS} hours`, true);
+      }
+      continue;
+    }
+
+    const { data: jobRows, error: sessionJobsError } = await supabase
+      .from("generation_jobs")
+      .select("status, lease_expires_at, next_attempt_at, prompt_variations!inner(session_id)")
+      .eq("prompt_variations.session_id", session.id);
+
+    if (sessionJobsError) {
+      console.error(`[${executionId}] Error fetching jobs of session ${session.id}:`, sessionJobsError);
+      results.details.push({ session_id: session.id, action: "check_failed", error: sessionJobsError.message });
+      continue;
+    }
+
+    const jobs = (jobRows ?? []) as unknown as SessionJob[];
+    const queued = jobs.filter(job => job.status === "queued");
+    const running = jobs.filter(job => job.status === "in_progress");
+    const completed = jobs.filter(job => job.status === "completed");
+
+    if (jobs.length === 0) {
+      if (new Date(session.updated_at) < new Date(promptCutoff)) {
+        await failSession(session, "No generation jobs were queued for the session", true);
+      }
+      continue;
+    }
+
+    if (queued.length === 0 && running.length === 0) {
+      if (completed.length === 0) {
+        // Failed jobs were refunded or never captured, only the reservation is released
+        await failSession(session, `All ${jobs.length} generation jobs failed`, false);
+        continue;
+      }
+
+      const { error } = await supabase
+        .from("automation_sessions")
+        .update({ status: "completed", updated_at: nowString })
+        .eq("id", session.id);
+
+      if (error) {
+        console.error(`[${executionId}] Error completing session ${session.id}:`, error);
+        results.details.push({ session_id: session.id, action: "update_failed", error: error.message });
+        continue;
+      }
+
+      const released = await releaseReservedCredits(
+        supabase,
+        session.id,
+        { reason: "Credits of failed or skipped variations returned" },
+        executionId
+      );
+
+      console.log(`[${executionId}] Session ${session.id} had no open jobs left, marked as completed`);
+      results.sessions_completed++;
+      results.details.push({
+        session_id: session.id,
+        action: "marked_as_completed",
+        reason: `${completed.length}/${jobs.length} jobs completed but the session was never closed`,
+        credits_refunded: released
+      });
+      continue;
+    }
+
+    // Queued jobs are only picked up by running workers, restart the pool when none is alive
+    const liveWorkers = running.filter(job => job.lease_expires_at && new Date(job.lease_expires_at) > now).length;
+    const ready = queued.filter(job => !job.next_attempt_at || new Date(job.next_attempt_at) <= now).length;
+
+    if (liveWorkers === 0 && ready > 0) {
+      const workerCount = Math.min(ready, session.max_concurrency ?? settings.sessionConcurrency);
+      dispatchWorkers(config, session.id, workerCount, executionId);
+
+      results.sessions_restarted++;
+      results.details.push({
+        session_id: session.id,
+        action: "restarted",
+        reason: `${ready} queued jobs had no running worker`,
+        workers: workerCount
+      });
+    }
+  }
+
+  results.processing_time = (Date.now() - functionStart) / 1000;
+  console.log(`[${executionId}] Automation job monitoring completed in ${results.processing_time.toFixed(2)}s`);
+
+  return jsonResponse({
+    status: "success",
+    message: `Checked ${results.jobs_checked} stalled jobs and ${results.sessions_checked} sessions, retried ${results.jobs_retried} jobs, failed ${results.jobs_failed} jobs, restarted ${results.sessions_restarted} sessions`,
+    results
+  });
+}, { methods: ["GET", "POST"] });
@@ -0,0 +1,93 @@
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+
+interface PromoteEditVersionRequest {
+  jobId?: string;
+  // Edited version to show in place of the generated image, null to go back to the generated image
+  editId?: string | null;
+}
+
+interface JobWithSession {
+  id: string;
+  image_url: string | null;
+  prompt_variations: {
+    automation_sessions: {
+      user_id: string;
+    };
+  };
+}
+
+/**
+ * Makes any completed version of an automated ad's edit tree the current one.
+ * The gallery and exports show the current version in place of the generated
+ * image, the other versions stay in the tree.
+ */
+serveAuthenticated(async ({ req, executionId, supabase, user }) => {
+  const { jobId, editId = null } = await readJson<PromoteEditVersionRequest>(req);
+
+  if (!jobId) {
+    throw new HttpError("MISSING_PARAMETER", "Job ID is required");
+  }
+
+  if (editId !== null && typeof editId !== "string") {
+    throw new HttpError("BAD_REQUEST", "Expected parameter editId to be a string or null");
+  }
+
+  const { data, error: jobError } = await supabase
+    .from('generation_jobs')
+    .select('id, image_url, prompt_variations!inner(automation_sessions!inner(user_id))')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (jobError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch job: ${jobError.message}`);
+  }
+
+  if (!data) {
+    throw new HttpError("NOT_FOUND", "Job not found");
+  }
+
+  const job = data as unknown as JobWithSession;
+
+  if (job.prompt_variations.automation_sessions.user_id !== user.id) {
+    throw new HttpError("FORBIDDEN", "You do not have permission to access this job");
+  }
+
+  let imageUrl = job.image_url;
+
+  if (editId) {
+    const { data: edit, error: editError } = await supabase
+      .from('edited_images')
+      .select('id, status, image_url')
+      .eq('id', editId)
+      .eq('original_image_id', jobId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (editError) {
+      throw new HttpError("DATABASE_ERROR", `Failed to fetch edit: ${editError.message}`);
+    }
+
+    if (!edit) {
+      throw new HttpError("NOT_FOUND", "Edit not found");
+    }
+
+    if (edit.status !== 'completed' || !edit.image_url) {
+      throw new HttpError("CONFLICT", "Only completed edits can be made the current version", { status: edit.status });
+    }
+    imageUrl = edit.image_url;
+  }
+
+  const { error: updateError } = await supabase
+    .from('generation_jobs')
+    .update({ current_edit_id: editId, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (updateError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to update the current version: ${updateError.message}`);
+  }
+
+  console.log(`[${executionId}] Job ${jobId} now shows ${editId ? `edit ${editId}` : "the generated image"}`);
+
+  return jsonResponse({ success: true, jobId, editId, imageUrl });
+});
@@ -0,0 +1,73 @@
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+import {
+  DEFAULT_TEMPLATE,
+  loadPromptTemplate,
+  renderPromptTemplate,
+  resolveTemplateValues,
+  STANDARD_VARIABLES,
+  validateTemplateDefinition,
+  type PromptTemplateDefinition,
+  type TemplateValues
+} from "../_shared/promptTemplates.ts";
+
+interface RenderPromptTemplateRequest {
+  // An unsaved template from the editor, takes precedence over templateId
+  template?: PromptTemplateDefinition;
+  // One of the user's saved templates, the default template without either
+  templateId?: string;
+  values?: TemplateValues;
+  // Stand-ins for the session variables
+  variationCount?: number;
+  productImageUrl?: string;
+  referenceAdUrl?: string;
+  instructions?: string;
+}
+
+/**
+ * Validates a prompt template and renders it with example values, the way
+ * generate-prompt-variations renders it for a session. Used by the template
+ * editor for previews and to check a template before it is saved.
+ */
+serveAuthenticated(async ({ req, supabase, user }) => {
+  const {
+    template,
+    templateId,
+    values = {},
+    variationCount = 3,
+    productImageUrl = "https://example.com/product.png",
+    referenceAdUrl,
+    instructions
+  } = await readJson<RenderPromptTemplateRequest>(req);
+
+  let definition: PromptTemplateDefinition = DEFAULT_TEMPLATE;
+  if (template) {
+    definition = {
+      systemPrompt: template.systemPrompt ?? "",
+      userPrompt: template.userPrompt,
+      variables: template.variables ?? []
+    };
+  } else if (templateId) {
+    definition = await loadPromptTemplate(supabase, templateId, user.id);
+  }
+
+  validateTemplateDefinition(definition);
+  const resolvedValues = resolveTemplateValues(definition, values);
+
+  const rendered = renderPromptTemplate(definition, resolvedValues, {
+    variation_count: variationCount,
+    product_image_url: productImageUrl,
+    reference_ad_url: referenceAdUrl,
+    instructions
+  });
+
+  return jsonResponse({
+    success: true,
+    ...rendered,
+    template: {
+      systemPrompt: definition.systemPrompt,
+      userPrompt: definition.userPrompt,
+      variables: definition.variables
+    },
+    standardVariables: STANDARD_VARIABLES
+  });
+});
@@ -0,0 +1,204 @@
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+import { dispatchWorkers } from "../_shared/jobQueue.ts";
+import { getPromptProvider } from "../_shared/promptProvider.ts";
+import { loadProvenance } from "../_shared/provenance.ts";
+
+// Initialize the prompt provider selected via PROMPT_PROVIDER / IMAGE_PROVIDER
+const promptProvider = getPromptProvider();
+
+interface RerollVariationRequest {
+  variationId?: string;
+  // Rewrites the prompt with this instruction first, otherwise the same prompt is generated again
+  instruction?: string;
+  // Provenance record of an earlier output, generated again with its exact prompt, parameters and input images
+  replayOf?: string;
+}
+
+const MAX_INSTRUCTION_LENGTH = 1000;
+
+interface VariationWithSession {
+  id: string;
+  prompt: string;
+  session_id: string;
+  automation_sessions: {
+    user_id: string;
+    status: string;
+    review_prompts: boolean;
+    launched_at: string | null;
+  };
+}
+
+/**
+ * Asks the prompt model to apply the user's instruction to an existing prompt
+ */
+async function rewritePrompt(prompt: string, instruction: string): Promise<string> {
+  const systemMessage = `You are a top-tier eCommerce advertising strategist and AI prompt engineer. You revise prompts for an AI image generator that creates static product ads.
+
+Apply the requested change to the prompt and keep everything the change does not touch, including product placement, lighting, camera angle, background and text overlays. Return the full revised prompt, not a summary of the change.
+
+Your output MUST be a JSON object with a "prompts" array containing exactly one string.`;
+
+  const userMessage = `Current prompt:
+${prompt}
+
+Requested change:
+${instruction}`;
+
+  const responseContent = await promptProvider.completeJson({
+    systemMessage,
+    userMessage,
+    expectedCount: 1
+  });
+
+  const parsed = JSON.parse(responseContent);
+  const rewritten = Array.isArray(parsed?.prompts) ? parsed.prompts[0] : null;
+
+  if (typeof rewritten !== "string" || !rewritten.trim()) {
+    throw new Error("The prompt provider did not return a rewritten prompt");
+  }
+  return rewritten.trim();
+}
+
+/**
+ * Generates one variation of a session again, with the same prompt, with the
+ * prompt rewritten by an instruction or with the identical settings of an
+ * earlier output. The previous outputs stay on the variation as history and
+ * one more credit is reserved for the new job.
+ */
+serveAuthenticated(async ({ req, executionId, config, supabase, user }) => {
+  const { variationId, instruction, replayOf } = await readJson<RerollVariationRequest>(req);
+
+  if (!variationId) {
+    throw new HttpError("MISSING_PARAMETER", "Variation ID is required");
+  }
+
+  if (replayOf !== undefined && instruction !== undefined) {
+    throw new HttpError("BAD_REQUEST", "An output can either be generated again as it was or with a rewritten prompt");
+  }
+
+  if (instruction !== undefined && typeof instruction !== "string") {
+    throw new HttpError("BAD_REQUEST", "Expected parameter instruction to be a string");
+  }
+
+  if (replayOf !== undefined && typeof replayOf !== "string") {
+    throw new HttpError("BAD_REQUEST", "Expected parameter replayOf to be a string");
+  }
+
+  const rewriteInstruction = instruction?.trim() || null;
+
+  if (rewriteInstruction && rewriteInstruction.length > MAX_INSTRUCTION_LENGTH) {
+    throw new HttpError("BAD_REQUEST", `Instructions must be at most ${MAX_INSTRUCTION_LENGTH} characters long`);
+  }
+
+  const { data, error: variationError } = await supabase
+    .from('prompt_variations')
+    .select(`
+      id,
+      prompt,
+      session_id,
+      automation_sessions!inner(
+        user_id,
+        status,
+        review_prompts,
+        launched_at
+      )
+    `)
+    .eq('id', variationId)
+    .maybeSingle();
+
+  if (variationError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch variation: ${variationError.message}`);
+  }
+
+  if (!data) {
+    throw new HttpError("NOT_FOUND", "Variation not found");
+  }
+
+  const variation = data as unknown as VariationWithSession;
+  const session = variation.automation_sessions;
+
+  if (session.user_id !== user.id) {
+    throw new HttpError("FORBIDDEN", "You do not have permission to access this variation");
+  }
+
+  if (!['prompts_generated', 'completed', 'failed'].includes(session.status) || (session.review_prompts && !session.launched_at)) {
+    throw new HttpError("CONFLICT", "The ads of this session were not generated yet", { status: session.status });
+  }
+
+  const { count: openJobs, error: openJobsError } = await supabase
+    .from('generation_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('variation_id', variationId)
+    .in('status', ['queued', 'in_progress']);
+
+  if (openJobsError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to check variation jobs: ${openJobsError.message}`);
+  }
+
+  if (openJobs) {
+    throw new HttpError("CONFLICT", "This variation is still being generated");
+  }
+
+  let prompt = variation.prompt;
+
+  if (replayOf) {
+    const replayed = await loadProvenance(supabase, replayOf);
+
+    if (!replayed || replayed.user_id !== user.id || replayed.variation_id !== variationId) {
+      throw new HttpError("NOT_FOUND", "The settings of this output were not recorded");
+    }
+    prompt = replayed.prompt;
+  }
+
+  if (rewriteInstruction) {
+    console.log(`[${executionId}] Rewriting prompt of variation ${variationId} with ${promptProvider.name}/${promptProvider.model}`);
+
+    try {
+      prompt = await rewritePrompt(variation.prompt, rewriteInstruction);
+    } catch (providerError) {
+      const message = providerError instanceof Error ? providerError.message : String(providerError);
+      console.error(`[${executionId}] Failed to rewrite prompt of variation ${variationId}:`, providerError);
+      throw new HttpError("PROVIDER_ERROR", `Failed to rewrite the prompt: ${message}`);
+    }
+  }
+
+  const { data: jobId, error: requeueError } = await supabase.rpc('requeue_prompt_variation', {
+    p_variation_id: variationId,
+    p_prompt: prompt,
+    p_rewrite_instruction: rewriteInstruction,
+    p_replay_of: replayOf ?? null
+  });
+
+  if (requeueError) {
+    console.error(`[${executionId}] Failed to queue variation ${variationId}:`, requeueError);
+    throw new HttpError("DATABASE_ERROR", `Failed to queue the variation: ${requeueError.message}`);
+  }
+
+  if (!jobId) {
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('credits')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const available = profile?.credits ?? 0;
+
+    throw new HttpError(
+      "INSUFFICIENT_CREDITS",
+      `You need 1 credit to regenerate this ad but only have ${available} available.`,
+      { required: 1, available }
+    );
+  }
+
+  console.log(`[${executionId}] Queued job ${jobId} for variation ${variationId}${rewriteInstruction ? " with a rewritten prompt" : ""}${replayOf ? ` with the settings of provenance ${replayOf}` : ""}`);
+
+  dispatchWorkers(config, variation.session_id, 1, executionId);
+
+  return jsonResponse({
+    success: true,
+    jobId,
+    prompt,
+    rewritten: !!rewriteInstruction,
+    replayed: !!replayOf
+  });
+});
@@ -0,0 +1,259 @@
+import { HttpError } from "../_shared/errors.ts";
+import { jsonResponse, readJson, serveAuthenticated } from "../_shared/http.ts";
+import { getImageProvider } from "../_shared/imageProvider.ts";
+import {
+  buildOutpaintCanvas,
+  finishPlacement,
+  getPlacementSpec,
+  layoutPlacement,
+  PLACEMENT_SPECS,
+  resizeImage
+} from "../_shared/placements.ts";
+import { decodePng, encodeRgbaPng, type RgbaImage } from "../_shared/png.ts";
+import { recordProvenance } from "../_shared/provenance.ts";
+import type { SupabaseClient } from "../_shared/supabase.ts";
+import { downloadImageFromUrl, uploadPublicImage } from "../_shared/storage.ts";
+
+// Initialize the image provider selected via IMAGE_PROVIDER
+const imageProvider = getImageProvider();
+
+interface ResizeForPlacementRequest {
+  jobId?: string;
+  // Placement format to create, e.g. "4:5"
+  format?: string;
+}
+
+interface JobWithSession {
+  id: string;
+  prompt: string;
+  status: string;
+  image_url: string | null;
+  placement_group_id: string | null;
+  current_edit: { image_url: string | null } | null;
+  prompt_variations: {
+    automation_sessions: {
+      user_id: string;
+    };
+  };
+}
+
+/**
+ * Returns the variation group of the job's placement versions, creating it on
+ * the first resize. Resizes for several formats run side by side, so the
+ * group is only set when the job has none yet and re-read otherwise.
+ */
+async function ensurePlacementGroup(supabase: SupabaseClient, job: JobWithSession): Promise<string> {
+  if (job.placement_group_id) {
+    return job.placement_group_id;
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('generation_jobs')
+    .update({ placement_group_id: crypto.randomUUID() })
+    .eq('id', job.id)
+    .is('placement_group_id', null)
+    .select('placement_group_id')
+    .maybeSingle();
+
+  if (updateError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to create the placement group: ${updateError.message}`);
+  }
+
+  if (updated) {
+    return updated.placement_group_id;
+  }
+
+  const { data: current, error: fetchError } = await supabase
+    .from('generation_jobs')
+    .select('placement_group_id')
+    .eq('id', job.id)
+    .single();
+
+  if (fetchError || !current?.placement_group_id) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch the placement group: ${fetchError?.message ?? "not set"}`);
+  }
+  return current.placement_group_id;
+}
+
+/**
+ * Creates the version of a finished automated ad for one placement format.
+ * The ad is not cropped: it is fitted into the format and the provider
+ * extends the canvas around it. Versions of an ad share a variation group,
+ * creating a format again replaces its version.
+ */
+serveAuthenticated(async ({ req, executionId, config, supabase, user }) => {
+  const functionStart = Date.now();
+  const { jobId, format } = await readJson<ResizeForPlacementRequest>(req);
+
+  if (!jobId || !format) {
+    throw new HttpError("MISSING_PARAMETER", "Missing required parameters: jobId or format");
+  }
+
+  const spec = getPlacementSpec(format);
+  if (!spec) {
+    throw new HttpError(
+      "BAD_REQUEST",
+      `Unknown placement format "${format}". Expected one of ${PLACEMENT_SPECS.map(placement => placement.format).join(", ")}`
+    );
+  }
+
+  const { data, error: jobError } = await supabase
+    .from('generation_jobs')
+    .select('id, prompt, status, image_url, placement_group_id, current_edit:edited_images!current_edit_id(image_url), prompt_variations!inner(automation_sessions!inner(user_id))')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (jobError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch job: ${jobError.message}`);
+  }
+
+  if (!data) {
+    throw new HttpError("NOT_FOUND", "Job not found");
+  }
+
+  const job = data as unknown as JobWithSession;
+
+  if (job.prompt_variations.automation_sessions.user_id !== user.id) {
+    throw new HttpError("FORBIDDEN", "You do not have permission to access this job");
+  }
+
+  // The current version is the finished ad, an edit promoted over the generated image included
+  const sourceUrl = job.current_edit?.image_url || job.image_url;
+
+  if (job.status !== 'completed' || !sourceUrl) {
+    throw new HttpError("CONFLICT", "Only finished ads can be resized", { status: job.status });
+  }
+
+  console.log(`[${executionId}] Resizing job ${jobId} for ${spec.format}`);
+
+  const downloadStart = Date.now();
+  const sourceBlob = await downloadImageFromUrl(sourceUrl, supabase, config.supabaseUrl, executionId);
+
+  if (!sourceBlob) {
+    throw new HttpError("BAD_REQUEST", "Failed to download the ad to resize");
+  }
+
+  let source: RgbaImage;
+  try {
+    source = await decodePng(new Uint8Array(await sourceBlob.arrayBuffer()));
+  } catch (decodeError) {
+    throw new HttpError("BAD_REQUEST", `The ad cannot be resized: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`);
+  }
+  const downloadMs = Date.now() - downloadStart;
+
+  const layout = layoutPlacement(source, spec);
+  const prompt = "Extend this ad outward to fill the transparent area of the canvas. Continue the background, surfaces and lighting seamlessly, keep everything that is already there unchanged and do not add text, logos or products.";
+  let finished: RgbaImage;
+  let result = null;
+  let providerMs = 0;
+
+  if (layout.needsOutpaint) {
+    const { canvas, mask } = buildOutpaintCanvas(source, layout);
+    const [canvasBytes, maskBytes] = await Promise.all([encodeRgbaPng(canvas), encodeRgbaPng(mask)]);
+
+    console.log(`[${executionId}] Extending the canvas to ${layout.canvasWidth}x${layout.canvasHeight} with ${imageProvider.name}`);
+    const providerStart = Date.now();
+    try {
+      result = await imageProvider.editWithMask({
+        prompt,
+        images: [new File([canvasBytes], "canvas.png", { type: "image/png" })],
+        mask: new File([maskBytes], "mask.png", { type: "image/png" }),
+        size: spec.providerSize,
+        quality: "high"
+      });
+    } catch (providerError) {
+      throw new HttpError("PROVIDER_ERROR", providerError instanceof Error ? providerError.message : String(providerError));
+    }
+    providerMs = Date.now() - providerStart;
+
+    finished = finishPlacement(await decodePng(result.bytes), source, layout, spec);
+  } else {
+    console.log(`[${executionId}] The ad already is ${spec.format}, only scaling it`);
+    finished = resizeImage(source, spec.width, spec.height);
+  }
+
+  const groupId = await ensurePlacementGroup(supabase, job);
+  const formatSlug = spec.format.replace(":", "x");
+
+  // A new path per run, the CDN would keep serving the previous version of a reused one
+  const uploadStart = Date.now();
+  const imageUrl = await uploadPublicImage(
+    supabase,
+    "images",
+    `${user.id}/placements/${groupId}/${formatSlug}-${Date.now()}.png`,
+    await encodeRgbaPng(finished),
+    "image/png",
+    executionId
+  );
+  const uploadMs = Date.now() - uploadStart;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('images')
+    .select('id')
+    .eq('variation_group_id', groupId)
+    .eq('placement', spec.format)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch the placement version: ${existingError.message}`);
+  }
+
+  const { data: image, error: saveError } = existing
+    ? await supabase
+        .from('images')
+        .update({ url: imageUrl, prompt: job.prompt, created_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select('id')
+        .single()
+    : await supabase
+        .from('images')
+        .insert({
+          url: imageUrl,
+          prompt: job.prompt,
+          user_id: user.id,
+          variation_group_id: groupId,
+          variation_index: PLACEMENT_SPECS.indexOf(spec),
+          placement: spec.format,
+          created_at: new Date().toISOString()
+        })
+        .select('id')
+        .single();
+
+  if (saveError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to save the placement version: ${saveError.message}`);
+  }
+
+  if (result) {
+    await recordProvenance(supabase, {
+      userId: user.id,
+      outputType: "image",
+      outputId: image.id,
+      imageUrl,
+      provider: result.provider,
+      model: result.model,
+      operation: "edit",
+      parameters: { size: spec.providerSize, quality: "high", placement: spec.format },
+      inputs: [{ role: "original", url: sourceUrl }],
+      prompt,
+      startedAt: functionStart,
+      completedAt: Date.now(),
+      timings: { download_ms: downloadMs, provider_ms: providerMs, upload_ms: uploadMs },
+      creditsCost: 0
+    }, executionId);
+  }
+
+  console.log(`[${executionId}] ${spec.format} version of job ${jobId} saved as image ${image.id}`);
+
+  return jsonResponse({
+    success: true,
+    jobId,
+    groupId,
+    imageId: image.id,
+    format: spec.format,
+    imageUrl,
+    width: spec.width,
+    height: spec.height,
+    outpainted: layout.needsOutpaint,
+    executionTime: ((Date.now() - functionStart) / 1000).toFixed(2) + "s"
+  });
+});
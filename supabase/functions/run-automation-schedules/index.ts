@@ -0,0 +1,273 @@
+import { createCampaign, MAX_CAMPAIGN_PRODUCTS, type CampaignProduct } from "../_shared/campaigns.ts";
+import { HttpError, toHttpError } from "../_shared/errors.ts";
+import { jsonResponse, serve } from "../_shared/http.ts";
+import { fetchNewStorefrontProducts } from "../_shared/shopify.ts";
+import { invokeFunction, requireServiceRole, type ServiceConfig, type SupabaseClient } from "../_shared/supabase.ts";
+
+// Due schedules handled per invocation, the rest wait for the next one
+const MAX_SCHEDULES_PER_RUN = 20;
+
+// Sessions of a scheduled campaign whose prompts are generated at the same time
+const PROMPT_CONCURRENCY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Time between runs, and how far back the first run looks for new products
+const FREQUENCY_INTERVAL_MS: Record<string, number> = {
+  once: 7 * DAY_MS,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS
+};
+
+interface AutomationSchedule {
+  id: string;
+  user_id: string;
+  name: string;
+  product_source: 'image' | 'shopify_new_products';
+  product_image_url: string | null;
+  brand_logo_url: string | null;
+  reference_ad_url: string | null;
+  instructions: string | null;
+  layout: string;
+  variation_count: number;
+  frequency: 'once' | 'daily' | 'weekly';
+  next_run_at: string;
+  last_run_at: string | null;
+}
+
+interface ScheduleRunResult {
+  schedule_id: string;
+  status: 'started' | 'skipped' | 'paused' | 'failed';
+  campaign_id?: string;
+  product_count?: number;
+  credits_reserved?: number;
+  message?: string;
+}
+
+/**
+ * Next run of a recurring schedule after `now`. Runs missed while the
+ * scheduler was down are skipped rather than run back to back.
+ */
+function getNextRunAt(schedule: AutomationSchedule, now: Date): string | null {
+  if (schedule.frequency === 'once') return null;
+
+  const interval = FREQUENCY_INTERVAL_MS[schedule.frequency];
+  let next = new Date(schedule.next_run_at).getTime() + interval;
+  while (next <= now.getTime()) next += interval;
+
+  return new Date(next).toISOString();
+}
+
+/**
+ * Generates the prompts of the campaign's sessions in the background, a few at a
+ * time. A session whose prompts fail is failed and refunded by generate-prompt-variations.
+ */
+function startSessions(config: ServiceConfig, sessionIds: string[], executionId: string): void {
+  const pending = [...sessionIds];
+
+  const runNext = async (): Promise<void> => {
+    const sessionId = pending.shift();
+    if (!sessionId) return;
+
+    try {
+      const response = await invokeFunction(config, "generate-prompt-variations", { sessionId });
+      if (!response.ok) {
+        console.error(`[${executionId}] Prompt generation for session ${sessionId} failed with ${response.status}`);
+      }
+    } catch (error) {
+      console.error(`[${executionId}] Error starting session ${sessionId}:`, error);
+    }
+
+    return runNext();
+  };
+
+  EdgeRuntime.waitUntil(
+    Promise.allSettled(Array.from({ length: Math.min(PROMPT_CONCURRENCY, sessionIds.length) }, runNext))
+  );
+}
+
+async function recordRun(supabase: SupabaseClient, schedule: AutomationSchedule, result: ScheduleRunResult, executionId: string) {
+  const { error } = await supabase
+    .from('automation_schedule_runs')
+    .insert({
+      schedule_id: schedule.id,
+      user_id: schedule.user_id,
+      scheduled_for: schedule.next_run_at,
+      status: result.status,
+      campaign_id: result.campaign_id ?? null,
+      product_count: result.product_count ?? 0,
+      credits_reserved: result.credits_reserved ?? 0,
+      message: result.message ?? null
+    });
+
+  if (error) {
+    console.error(`[${executionId}] Error recording run of schedule ${schedule.id}:`, error);
+  }
+}
+
+async function updateSchedule(supabase: SupabaseClient, scheduleId: string, update: Record<string, unknown>, executionId: string) {
+  const { error } = await supabase
+    .from('automation_schedules')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', scheduleId);
+
+  if (error) {
+    console.error(`[${executionId}] Error updating schedule ${scheduleId}:`, error);
+  }
+}
+
+/**
+ * Resolves the products of a run, the fixed product image or the Shopify
+ * products added since the previous run
+ */
+async function resolveProducts(
+  supabase: SupabaseClient,
+  schedule: AutomationSchedule,
+  runAt: Date
+): Promise<CampaignProduct[]> {
+  if (schedule.product_source === 'image') {
+    return [{ productImageUrl: schedule.product_image_url ?? undefined }];
+  }
+
+  const since = schedule.last_run_at
+    ?? new Date(runAt.getTime() - FREQUENCY_INTERVAL_MS[schedule.frequency]).toISOString();
+  const products = await fetchNewStorefrontProducts(supabase, schedule.user_id, since, MAX_CAMPAIGN_PRODUCTS);
+
+  return products.map(product => ({ productImageUrl: product.imageUrl, title: product.title }));
+}
+
+async function runSchedule(
+  config: ServiceConfig,
+  supabase: SupabaseClient,
+  schedule: AutomationSchedule,
+  executionId: string
+): Promise<ScheduleRunResult | null> {
+  const now = new Date();
+  const nextRunAt = getNextRunAt(schedule, now);
+
+  // Matching on next_run_at makes sure overlapping invocations run a schedule once
+  const { data: claimed, error: claimError } = await supabase
+    .from('automation_schedules')
+    .update({ next_run_at: nextRunAt, updated_at: now.toISOString() })
+    .eq('id', schedule.id)
+    .eq('status', 'active')
+    .eq('next_run_at', schedule.next_run_at)
+    .select('id');
+
+  if (claimError) {
+    throw new HttpError("DATABASE_ERROR", `Failed to claim schedule ${schedule.id}: ${claimError.message}`);
+  }
+  if (!claimed?.length) return null;
+
+  // One-off schedules are done after their run, unless it was paused
+  const finished = schedule.frequency === 'once' ? { status: 'completed' } : {};
+  let result: ScheduleRunResult;
+
+  try {
+    const products = await resolveProducts(supabase, schedule, now);
+
+    if (products.length === 0) {
+      result = {
+        schedule_id: schedule.id,
+        status: 'skipped',
+        message: `No new products were added since ${schedule.last_run_at ?? 'the schedule was created'}`
+      };
+      await updateSchedule(supabase, schedule.id, { ...finished, last_run_at: now.toISOString() }, executionId);
+    } else {
+      const { campaign, sessions, creditsReserved } = await createCampaign(supabase, schedule.user_id, {
+        name: `${schedule.name} · ${now.toISOString().slice(0, 10)}`,
+        products,
+        brandLogoUrl: schedule.brand_logo_url ?? undefined,
+        referenceAdUrl: schedule.reference_ad_url ?? undefined,
+        instructions: schedule.instructions ?? undefined,
+        variationCount: schedule.variation_count,
+        layout: schedule.layout
+      }, executionId);
+
+      startSessions(config, sessions.map(session => session.id), executionId);
+
+      result = {
+        schedule_id: schedule.id,
+        status: 'started',
+        campaign_id: campaign.id,
+        product_count: sessions.length,
+        credits_reserved: creditsReserved
+      };
+      await updateSchedule(supabase, schedule.id, { ...finished, last_run_at: now.toISOString() }, executionId);
+    }
+  } catch (error) {
+    const httpError = toHttpError(error);
+
+    if (httpError.code === "INSUFFICIENT_CREDITS") {
+      // The missed run stays due, resuming the schedule runs it on the next invocation
+      result = { schedule_id: schedule.id, status: 'paused', message: httpError.message };
+      await updateSchedule(supabase, schedule.id, {
+        status: 'paused',
+        paused_reason: httpError.message,
+        next_run_at: schedule.next_run_at
+      }, executionId);
+    } else {
+      result = { schedule_id: schedule.id, status: 'failed', message: httpError.message };
+      if (schedule.frequency === 'once') {
+        await updateSchedule(supabase, schedule.id, {
+          status: 'paused',
+          paused_reason: httpError.message,
+          next_run_at: schedule.next_run_at
+        }, executionId);
+      }
+    }
+  }
+
+  await recordRun(supabase, schedule, result, executionId);
+  console.log(`[${executionId}] Schedule ${schedule.id} run ${result.status}${result.message ? `: ${result.message}` : ''}`);
+
+  return result;
+}
+
+/**
+ * Runs the automation schedules that are due. Each run creates a campaign
+ * from the schedule's saved settings and starts its sessions, pausing the
+ * schedule when the user's credits do not cover it. Meant to be called on a
+ * schedule with the service role key.
+ */
+serve(async ({ req, executionId, config, supabase }) => {
+  requireServiceRole(req, config);
+
+  const functionStart = Date.now();
+
+  const { data: dueSchedules, error } = await supabase
+    .from('automation_schedules')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_run_at', new Date().toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_SCHEDULES_PER_RUN);
+
+  if (error) {
+    throw new HttpError("DATABASE_ERROR", `Failed to fetch due schedules: ${error.message}`);
+  }
+
+  console.log(`[${executionId}] Found ${dueSchedules.length} due schedules`);
+
+  const runs: ScheduleRunResult[] = [];
+
+  for (const schedule of dueSchedules as AutomationSchedule[]) {
+    try {
+      const result = await runSchedule(config, supabase, schedule, executionId);
+      if (result) runs.push(result);
+    } catch (runError) {
+      console.error(`[${executionId}] Error running schedule ${schedule.id}:`, runError);
+    }
+  }
+
+  return jsonResponse({
+    success: true,
+    schedules_due: dueSchedules.length,
+    runs_started: runs.filter(run => run.status === 'started').length,
+    runs_skipped: runs.filter(run => run.status === 'skipped').length,
+    schedules_paused: runs.filter(run => run.status === 'paused').length,
+    runs_failed: runs.filter(run => run.status === 'failed').length,
+    processing_time: Date.now() - functionStart,
+    details: runs
+  });
+});
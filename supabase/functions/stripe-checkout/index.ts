@@ -1,8 +1,8 @@
-import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import Stripe from 'npm:stripe@17.7.0';
-import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { HttpError } from '../_shared/errors.ts';
+import { jsonResponse, readJson, serveAuthenticated } from '../_shared/http.ts';
+import { getCatalogProduct, UnknownPriceError } from '../_shared/stripeCatalog.ts';
 
-const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
 const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
 const stripe = new Stripe(stripeSecret, {
   appInfo: {
@@ -11,200 +11,182 @@ const stripe = new Stripe(stripeSecret, {
   },
 });
 
-// Helper function to create responses with CORS headers
-function corsResponse(body: string | object | null, status = 200) {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': '*',
-  };
-
-  // For 204 No Content, don't include Content-Type or body
-  if (status === 204) {
-    return new Response(null, { status, headers });
-  }
+interface CheckoutRequest {
+  price_id?: string;
+  success_url?: string;
+  cancel_url?: string;
+  mode?: 'payment' | 'subscription';
+}
+
+serveAuthenticated(async ({ req, supabase, user }) => {
+  const { price_id, success_url, cancel_url, mode } = await readJson<CheckoutRequest>(req);
 
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: {
-      ...headers,
-      'Content-Type': 'application/json',
+  const error = validateParameters(
+    { price_id, success_url, cancel_url, mode },
+    {
+      cancel_url: 'string',
+      price_id: 'string',
+      success_url: 'string',
+      mode: { values: ['payment', 'subscription'] },
     },
-  });
-}
+  );
+
+  if (error) {
+    throw new HttpError('BAD_REQUEST', error);
+  }
 
-Deno.serve(async (req) => {
+  // Only prices from the catalog can be sold, otherwise the webhook could not credit them
+  let product;
   try {
-    if (req.method === 'OPTIONS') {
-      return corsResponse({}, 204);
+    product = await getCatalogProduct(supabase, price_id!);
+  } catch (lookupError) {
+    if (lookupError instanceof UnknownPriceError) {
+      throw new HttpError('BAD_REQUEST', 'Invalid product selected', { price_id });
     }
+    console.error('Failed to look up the product catalog', lookupError);
+    throw new HttpError('DATABASE_ERROR', 'Failed to look up the selected product');
+  }
 
-    if (req.method !== 'POST') {
-      return corsResponse({ error: 'Method not allowed' }, 405);
-    }
+  if (!product.active) {
+    throw new HttpError('BAD_REQUEST', 'This product is no longer available', { price_id });
+  }
 
-    const { price_id, success_url, cancel_url, mode } = await req.json();
+  if (product.mode !== mode) {
+    throw new HttpError('BAD_REQUEST', `Expected mode ${product.mode} for price ${price_id}`);
+  }
 
-    const error = validateParameters(
-      { price_id, success_url, cancel_url, mode },
-      {
-        cancel_url: 'string',
-        price_id: 'string',
-        success_url: 'string',
-        mode: { values: ['payment', 'subscription'] },
-      },
-    );
+  const { data: customer, error: getCustomerError } = await supabase
+    .from('stripe_customers')
+    .select('customer_id')
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
 
-    if (error) {
-      return corsResponse({ error }, 400);
-    }
+  if (getCustomerError) {
+    console.error('Failed to fetch customer information from the database', getCustomerError);
 
-    const authHeader = req.headers.get('Authorization')!;
-    const token = authHeader.replace('Bearer ', '');
-    const {
-      data: { user },
-      error: getUserError,
-    } = await supabase.auth.getUser(token);
+    throw new HttpError('DATABASE_ERROR', 'Failed to fetch customer information');
+  }
 
-    if (getUserError) {
-      return corsResponse({ error: 'Failed to authenticate user' }, 401);
-    }
+  let customerId;
 
-    if (!user) {
-      return corsResponse({ error: 'User not found' }, 404);
-    }
+  /**
+   * In case we don't have a mapping yet, the customer does not exist and we need to create one.
+   */
+  if (!customer || !customer.customer_id) {
+    const newCustomer = await stripe.customers.create({
+      email: user.email,
+      metadata: {
+        userId: user.id,
+      },
+    });
 
-    const { data: customer, error: getCustomerError } = await supabase
-      .from('stripe_customers')
-      .select('customer_id')
-      .eq('user_id', user.id)
-      .is('deleted_at', null)
-      .maybeSingle();
+    console.log(`Created new Stripe customer ${newCustomer.id} for user ${user.id}`);
 
-    if (getCustomerError) {
-      console.error('Failed to fetch customer information from the database', getCustomerError);
+    const { error: createCustomerError } = await supabase.from('stripe_customers').insert({
+      user_id: user.id,
+      customer_id: newCustomer.id,
+    });
 
-      return corsResponse({ error: 'Failed to fetch customer information' }, 500);
-    }
+    if (createCustomerError) {
+      console.error('Failed to save customer information in the database', createCustomerError);
 
-    let customerId;
-
-    /**
-     * In case we don't have a mapping yet, the customer does not exist and we need to create one.
-     */
-    if (!customer || !customer.customer_id) {
-      const newCustomer = await stripe.customers.create({
-        email: user.email,
-        metadata: {
-          userId: user.id,
-        },
-      });
+      // Try to clean up both the Stripe customer and subscription record
+      try {
+        await stripe.customers.del(newCustomer.id);
+        await supabase.from('stripe_subscriptions').delete().eq('customer_id', newCustomer.id);
+      } catch (deleteError) {
+        console.error('Failed to clean up after customer mapping error:', deleteError);
+      }
 
-      console.log(`Created new Stripe customer ${newCustomer.id} for user ${user.id}`);
+      throw new HttpError('DATABASE_ERROR', 'Failed to create customer mapping');
+    }
 
-      const { error: createCustomerError } = await supabase.from('stripe_customers').insert({
-        user_id: user.id,
+    if (mode === 'subscription') {
+      const { error: createSubscriptionError } = await supabase.from('stripe_subscriptions').insert({
         customer_id: newCustomer.id,
+        status: 'not_started',
       });
 
-      if (createCustomerError) {
-        console.error('Failed to save customer information in the database', createCustomerError);
+      if (createSubscriptionError) {
+        console.error('Failed to save subscription in the database', createSubscriptionError);
 
-        // Try to clean up both the Stripe customer and subscription record
+        // Try to clean up the Stripe customer since we couldn't create the subscription
         try {
           await stripe.customers.del(newCustomer.id);
-          await supabase.from('stripe_subscriptions').delete().eq('customer_id', newCustomer.id);
         } catch (deleteError) {
-          console.error('Failed to clean up after customer mapping error:', deleteError);
+          console.error('Failed to delete Stripe customer after subscription creation error:', deleteError);
         }
 
-        return corsResponse({ error: 'Failed to create customer mapping' }, 500);
+        throw new HttpError('DATABASE_ERROR', 'Unable to save the subscription in the database');
       }
+    }
 
-      if (mode === 'subscription') {
-        const { error: createSubscriptionError } = await supabase.from('stripe_subscriptions').insert({
-          customer_id: newCustomer.id,
-          status: 'not_started',
-        });
-
-        if (createSubscriptionError) {
-          console.error('Failed to save subscription in the database', createSubscriptionError);
-
-          // Try to clean up the Stripe customer since we couldn't create the subscription
-          try {
-            await stripe.customers.del(newCustomer.id);
-          } catch (deleteError) {
-            console.error('Failed to delete Stripe customer after subscription creation error:', deleteError);
-          }
-
-          return corsResponse({ error: 'Unable to save the subscription in the database' }, 500);
-        }
-      }
+    customerId = newCustomer.id;
 
-      customerId = newCustomer.id;
+    console.log(`Successfully set up new customer ${customerId} with subscription record`);
+  } else {
+    customerId = customer.customer_id;
 
-      console.log(`Successfully set up new customer ${customerId} with subscription record`);
-    } else {
-      customerId = customer.customer_id;
+    if (mode === 'subscription') {
+      // Verify subscription exists for existing customer
+      const { data: subscription, error: getSubscriptionError } = await supabase
+        .from('stripe_subscriptions')
+        .select('status')
+        .eq('customer_id', customerId)
+        .maybeSingle();
 
-      if (mode === 'subscription') {
-        // Verify subscription exists for existing customer
-        const { data: subscription, error: getSubscriptionError } = await supabase
-          .from('stripe_subscriptions')
-          .select('status')
-          .eq('customer_id', customerId)
-          .maybeSingle();
+      if (getSubscriptionError) {
+        console.error('Failed to fetch subscription information from the database', getSubscriptionError);
 
-        if (getSubscriptionError) {
-          console.error('Failed to fetch subscription information from the database', getSubscriptionError);
+        throw new HttpError('DATABASE_ERROR', 'Failed to fetch subscription information');
+      }
 
-          return corsResponse({ error: 'Failed to fetch subscription information' }, 500);
-        }
+      // A customer has a single subscription, plan changes go through stripe-subscription
+      if (subscription && ['active', 'trialing', 'past_due'].includes(subscription.status)) {
+        throw new HttpError('CONFLICT', 'You already have a subscription, change your plan instead');
+      }
 
-        if (!subscription) {
-          // Create subscription record for existing customer if missing
-          const { error: createSubscriptionError } = await supabase.from('stripe_subscriptions').insert({
-            customer_id: customerId,
-            status: 'not_started',
-          });
+      if (!subscription) {
+        // Create subscription record for existing customer if missing
+        const { error: createSubscriptionError } = await supabase.from('stripe_subscriptions').insert({
+          customer_id: customerId,
+          status: 'not_started',
+        });
 
-          if (createSubscriptionError) {
-            console.error('Failed to create subscription record for existing customer', createSubscriptionError);
+        if (createSubscriptionError) {
+          console.error('Failed to create subscription record for existing customer', createSubscriptionError);
 
-            return corsResponse({ error: 'Failed to create subscription record for existing customer' }, 500);
-          }
+          throw new HttpError('DATABASE_ERROR', 'Failed to create subscription record for existing customer');
         }
       }
     }
+  }
 
-    // create Checkout Session
-    const session = await stripe.checkout.sessions.create({
-      customer: customerId,
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price: price_id,
-          quantity: 1,
-        },
-      ],
-      mode,
-      success_url,
-      cancel_url,
-    });
+  // create Checkout Session
+  const session = await stripe.checkout.sessions.create({
+    customer: customerId,
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price: price_id,
+        quantity: 1,
+      },
+    ],
+    mode,
+    success_url,
+    cancel_url,
+  });
 
-    console.log(`Created checkout session ${session.id} for customer ${customerId}`);
+  console.log(`Created checkout session ${session.id} for customer ${customerId}`);
 
-    return corsResponse({ sessionId: session.id, url: session.url });
-  } catch (error: any) {
-    console.error(`Checkout error: ${error.message}`);
-    return corsResponse({ error: error.message }, 500);
-  }
+  return jsonResponse({ sessionId: session.id, url: session.url });
 });
 
 type ExpectedType = 'string' | { values: string[] };
 type Expectations<T> = { [K in keyof T]: ExpectedType };
 
-function validateParameters<T extends Record<string, any>>(values: T, expected: Expectations<T>): string | undefined {
+function validateParameters<T extends Record<string, unknown>>(values: T, expected: Expectations<T>): string | undefined {
   for (const parameter in values) {
     const expectation = expected[parameter];
     const value = values[parameter];
@@ -217,7 +199,7 @@ function validateParameters<T extends Record<string, any>>(values: T, expected:
         return `Expected parameter ${parameter} to be a string got ${JSON.stringify(value)}`;
       }
     } else {
-      if (!expectation.values.includes(value)) {
+      if (!expectation.values.includes(value as string)) {
         return `Expected parameter ${parameter} to be one of ${expectation.values.join(', ')}`;
       }
     }
@@ -0,0 +1,157 @@
+import Stripe from 'npm:stripe@17.7.0';
+import { HttpError } from '../_shared/errors.ts';
+import { jsonResponse, readJson, serveAuthenticated } from '../_shared/http.ts';
+import { getCatalogProduct, UnknownPriceError } from '../_shared/stripeCatalog.ts';
+import type { SupabaseClient } from '../_shared/supabase.ts';
+
+const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
+const stripe = new Stripe(stripeSecret, {
+  appInfo: {
+    name: 'Bolt Integration',
+    version: '1.0.0',
+  },
+});
+
+type SubscriptionAction = 'change_plan' | 'cancel' | 'resume';
+
+interface SubscriptionRequest {
+  action?: SubscriptionAction;
+  price_id?: string;
+}
+
+const ACTIONS: SubscriptionAction[] = ['change_plan', 'cancel', 'resume'];
+
+serveAuthenticated(async ({ req, supabase, user }) => {
+  const { action, price_id } = await readJson<SubscriptionRequest>(req);
+
+  if (!action || !ACTIONS.includes(action)) {
+    throw new HttpError('BAD_REQUEST', `Expected parameter action to be one of ${ACTIONS.join(', ')}`);
+  }
+
+  const subscriptionId = await getActiveSubscriptionId(supabase, user.id);
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  let updated: Stripe.Subscription;
+
+  if (action === 'cancel') {
+    // Credits of the paid period stay usable, the plan ends at its renewal date
+    updated = await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true });
+    console.log(`Subscription ${subscriptionId} of user ${user.id} cancels at period end`);
+  } else if (action === 'resume') {
+    updated = await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+    console.log(`Subscription ${subscriptionId} of user ${user.id} resumed`);
+  } else {
+    if (!price_id || typeof price_id !== 'string') {
+      throw new HttpError('MISSING_PARAMETER', 'Missing required parameter price_id');
+    }
+
+    const item = subscription.items.data[0];
+    const [currentPlan, newPlan] = await Promise.all([
+      getCatalogProduct(supabase, item.price.id),
+      getPlan(supabase, price_id),
+    ]);
+
+    if (currentPlan.price_id === newPlan.price_id) {
+      throw new HttpError('CONFLICT', `You are already on the ${newPlan.name} plan`);
+    }
+
+    const isUpgrade = newPlan.credits > currentPlan.credits;
+
+    // Changing plan resumes a cancelled subscription. Pending updates only accept
+    // the items and proration parameters, so the cancellation is cleared on its own.
+    if (subscription.cancel_at_period_end) {
+      await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+    }
+
+    // Upgrades are invoiced right away for the rest of the period and the webhook
+    // grants the prorated credits once that invoice is paid. Downgrades keep the
+    // paid period and bill the new plan from the next renewal.
+    updated = await stripe.subscriptions.update(subscriptionId, {
+      items: [{ id: item.id, price: newPlan.price_id }],
+      proration_behavior: isUpgrade ? 'always_invoice' : 'none',
+      ...(isUpgrade ? { payment_behavior: 'pending_if_incomplete' as const } : {}),
+    });
+
+    console.log(
+      `Subscription ${subscriptionId} of user ${user.id} ${isUpgrade ? 'upgraded' : 'downgraded'} from ${currentPlan.price_id} to ${newPlan.price_id}`,
+    );
+  }
+
+  // Mirror the change right away, the webhook sync follows with the full state
+  const { error: syncError } = await supabase
+    .from('stripe_subscriptions')
+    .update({
+      price_id: updated.items.data[0].price.id,
+      cancel_at_period_end: updated.cancel_at_period_end,
+      current_period_start: updated.current_period_start,
+      current_period_end: updated.current_period_end,
+      status: updated.status,
+    })
+    .eq('subscription_id', subscriptionId);
+
+  if (syncError) {
+    console.error(`Failed to mirror subscription ${subscriptionId} in the database`, syncError);
+  }
+
+  return jsonResponse({
+    subscription_id: updated.id,
+    status: updated.status,
+    price_id: updated.items.data[0].price.id,
+    cancel_at_period_end: updated.cancel_at_period_end,
+    current_period_end: updated.current_period_end,
+    // Set while an upgrade waits for its invoice to be paid
+    pending_update: updated.pending_update ? true : false,
+  });
+});
+
+async function getActiveSubscriptionId(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data: customer, error: customerError } = await supabase
+    .from('stripe_customers')
+    .select('customer_id')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (customerError) {
+    console.error('Failed to fetch customer information from the database', customerError);
+    throw new HttpError('DATABASE_ERROR', 'Failed to fetch customer information');
+  }
+
+  if (!customer) {
+    throw new HttpError('NOT_FOUND', 'No subscription found');
+  }
+
+  const { data: subscription, error: subscriptionError } = await supabase
+    .from('stripe_subscriptions')
+    .select('subscription_id, status')
+    .eq('customer_id', customer.customer_id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (subscriptionError) {
+    console.error('Failed to fetch subscription information from the database', subscriptionError);
+    throw new HttpError('DATABASE_ERROR', 'Failed to fetch subscription information');
+  }
+
+  if (!subscription?.subscription_id || !['active', 'trialing', 'past_due'].includes(subscription.status)) {
+    throw new HttpError('NOT_FOUND', 'No active subscription found');
+  }
+
+  return subscription.subscription_id;
+}
+
+async function getPlan(supabase: SupabaseClient, priceId: string) {
+  try {
+    const plan = await getCatalogProduct(supabase, priceId);
+
+    if (plan.mode !== 'subscription' || !plan.active) {
+      throw new HttpError('BAD_REQUEST', 'Invalid plan selected', { price_id: priceId });
+    }
+
+    return plan;
+  } catch (error) {
+    if (error instanceof UnknownPriceError) {
+      throw new HttpError('BAD_REQUEST', 'Invalid plan selected', { price_id: priceId });
+    }
+    throw error;
+  }
+}
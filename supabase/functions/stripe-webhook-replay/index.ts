@@ -0,0 +1,78 @@
+import Stripe from 'npm:stripe@17.7.0';
+import { HttpError } from '../_shared/errors.ts';
+import { jsonResponse, readJson, serve } from '../_shared/http.ts';
+import { processStripeEvent, type StripeEventResult } from '../_shared/stripeEvents.ts';
+import { requireServiceRole } from '../_shared/supabase.ts';
+
+const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
+const stripe = new Stripe(stripeSecret, {
+  appInfo: {
+    name: 'Bolt Integration',
+    version: '1.0.0',
+  },
+});
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+interface ReplayRequest {
+  // Replays these events, otherwise the oldest failed and pending ones
+  event_ids?: string[];
+  limit?: number;
+}
+
+/**
+ * Operator tool that processes logged Stripe events again, for example after a
+ * missing price was added to the catalog. Processed events are skipped, so
+ * replaying never grants credits twice. Requires the service role key.
+ */
+serve(async ({ req, executionId, config, supabase }) => {
+  requireServiceRole(req, config);
+
+  const { event_ids, limit } = await readJson<ReplayRequest>(req);
+
+  if (event_ids !== undefined && (!Array.isArray(event_ids) || event_ids.some((id) => typeof id !== 'string'))) {
+    throw new HttpError('BAD_REQUEST', 'Expected parameter event_ids to be a list of event IDs');
+  }
+
+  const batchSize = Math.min(Math.max(Number(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let query = supabase
+    .from('stripe_webhook_events')
+    .select('id, payload')
+    .order('received_at', { ascending: true })
+    .limit(batchSize);
+
+  query = event_ids?.length ? query.in('id', event_ids) : query.in('outcome', ['failed', 'pending']);
+
+  const { data: events, error } = await query;
+
+  if (error) {
+    console.error(`[${executionId}] Failed to load events to replay`, error);
+    throw new HttpError('DATABASE_ERROR', 'Failed to load events to replay');
+  }
+
+  console.log(`[${executionId}] Replaying ${events.length} Stripe events`);
+
+  const details: StripeEventResult[] = [];
+
+  // One at a time, events of the same customer must not race each other
+  for (const { payload } of events) {
+    details.push(await processStripeEvent({ stripe, supabase }, payload as Stripe.Event));
+  }
+
+  const count = (outcome: StripeEventResult['outcome']) => details.filter((result) => result.outcome === outcome).length;
+
+  return jsonResponse({
+    status: 'success',
+    message: `Replayed ${details.length} events`,
+    results: {
+      replayed: details.length,
+      processed: count('processed'),
+      ignored: count('ignored'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      details,
+    },
+  });
+});
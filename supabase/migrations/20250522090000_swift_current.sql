@@ -0,0 +1,159 @@
+/*
+  # Parallel generation job workers
+
+  1. Updates
+    - `generation_jobs`
+      - `claimed_by` (text, id of the worker holding the job)
+      - `lease_expires_at` (timestamptz, when the worker's claim lapses)
+      - `attempts` (integer, number of times the job was claimed)
+    - `automation_sessions`
+      - `max_concurrency` (integer, parallel jobs allowed for the session, null uses the default)
+    - `user_profiles`
+      - `max_concurrent_jobs` (integer, parallel jobs allowed across all of a user's sessions, null uses the default)
+
+  2. New Functions
+    - `claim_generation_jobs` leases queued jobs of a session to a worker while
+      respecting the session and user concurrency limits. Jobs whose lease has
+      expired are reclaimed so a dropped worker never stalls a session.
+
+  3. Purpose
+    - Replace serial job chaining with a pool of concurrent workers
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'claimed_by'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN claimed_by text;
+    COMMENT ON COLUMN generation_jobs.claimed_by IS 'Execution id of the worker currently holding the job';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'lease_expires_at'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN lease_expires_at timestamptz;
+    COMMENT ON COLUMN generation_jobs.lease_expires_at IS 'Time after which another worker may reclaim the job';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'attempts'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN attempts integer NOT NULL DEFAULT 0;
+    COMMENT ON COLUMN generation_jobs.attempts IS 'Number of times the job has been claimed by a worker';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'max_concurrency'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN max_concurrency integer;
+    COMMENT ON COLUMN automation_sessions.max_concurrency IS 'Maximum number of jobs of this session generated in parallel';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'max_concurrent_jobs'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN max_concurrent_jobs integer;
+    COMMENT ON COLUMN user_profiles.max_concurrent_jobs IS 'Maximum number of automation jobs generated in parallel for this user';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS generation_jobs_status_lease_idx ON generation_jobs(status, lease_expires_at);
+
+-- Lease up to p_limit claimable jobs of a session to a worker
+CREATE OR REPLACE FUNCTION claim_generation_jobs(
+  p_session_id uuid,
+  p_worker_id text,
+  p_limit integer DEFAULT 1,
+  p_lease_seconds integer DEFAULT 300,
+  p_default_session_concurrency integer DEFAULT 3,
+  p_default_user_concurrency integer DEFAULT 5
+)
+RETURNS SETOF generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_session_limit integer;
+  v_user_limit integer;
+  v_session_active integer;
+  v_user_active integer;
+  v_slots integer;
+BEGIN
+  SELECT user_id, COALESCE(max_concurrency, p_default_session_concurrency)
+  INTO v_user_id, v_session_limit
+  FROM automation_sessions
+  WHERE id = p_session_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Serialize claims per user so concurrent workers cannot exceed the limits
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text));
+
+  SELECT COALESCE(max_concurrent_jobs, p_default_user_concurrency)
+  INTO v_user_limit
+  FROM user_profiles
+  WHERE user_id = v_user_id;
+
+  v_user_limit := COALESCE(v_user_limit, p_default_user_concurrency);
+
+  SELECT count(*) INTO v_session_active
+  FROM generation_jobs j
+  JOIN prompt_variations v ON v.id = j.variation_id
+  WHERE v.session_id = p_session_id
+    AND j.status = 'in_progress'
+    AND j.lease_expires_at > now();
+
+  SELECT count(*) INTO v_user_active
+  FROM generation_jobs j
+  JOIN prompt_variations v ON v.id = j.variation_id
+  JOIN automation_sessions s ON s.id = v.session_id
+  WHERE s.user_id = v_user_id
+    AND j.status = 'in_progress'
+    AND j.lease_expires_at > now();
+
+  v_slots := LEAST(p_limit, v_session_limit - v_session_active, v_user_limit - v_user_active);
+
+  IF v_slots <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE generation_jobs j
+  SET
+    status = 'in_progress',
+    claimed_by = p_worker_id,
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    attempts = j.attempts + 1,
+    updated_at = now()
+  WHERE j.id IN (
+    SELECT candidate.id
+    FROM generation_jobs candidate
+    JOIN prompt_variations v ON v.id = candidate.variation_id
+    WHERE v.session_id = p_session_id
+      AND (
+        candidate.status = 'queued'
+        OR (
+          candidate.status = 'in_progress'
+          AND COALESCE(candidate.lease_expires_at, candidate.updated_at + make_interval(secs => p_lease_seconds)) <= now()
+        )
+      )
+    ORDER BY v.index
+    LIMIT v_slots
+    FOR UPDATE OF candidate SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_jobs(uuid, text, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_generation_jobs(uuid, text, integer, integer, integer, integer) TO service_role;
@@ -0,0 +1,137 @@
+/*
+  # Stalled automation job recovery
+
+  1. Updates
+    - `generation_jobs`
+      - `next_attempt_at` (timestamptz, a retried job is not claimed before this time)
+    - `automation_sessions`
+      - `error_message` (text, reason the session was marked as failed)
+
+  2. Function Changes
+    - `claim_generation_jobs` skips queued jobs waiting for their retry backoff
+      and no longer reclaims expired leases of jobs that used up their attempts,
+      those are failed by the `monitor-automation-jobs` sweeper instead
+
+  3. Purpose
+    - Detect and recover stalled jobs and sessions of the automation pipeline
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'next_attempt_at'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN next_attempt_at timestamptz;
+    COMMENT ON COLUMN generation_jobs.next_attempt_at IS 'Earliest time a retried job may be claimed again';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'error_message'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN error_message text;
+    COMMENT ON COLUMN automation_sessions.error_message IS 'Reason the session failed, null unless status is failed';
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS claim_generation_jobs(uuid, text, integer, integer, integer, integer);
+
+-- Lease up to p_limit claimable jobs of a session to a worker
+CREATE OR REPLACE FUNCTION claim_generation_jobs(
+  p_session_id uuid,
+  p_worker_id text,
+  p_limit integer DEFAULT 1,
+  p_lease_seconds integer DEFAULT 300,
+  p_default_session_concurrency integer DEFAULT 3,
+  p_default_user_concurrency integer DEFAULT 5,
+  p_max_attempts integer DEFAULT 3
+)
+RETURNS SETOF generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_session_limit integer;
+  v_user_limit integer;
+  v_session_active integer;
+  v_user_active integer;
+  v_slots integer;
+BEGIN
+  SELECT user_id, COALESCE(max_concurrency, p_default_session_concurrency)
+  INTO v_user_id, v_session_limit
+  FROM automation_sessions
+  WHERE id = p_session_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Serialize claims per user so concurrent workers cannot exceed the limits
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text));
+
+  SELECT COALESCE(max_concurrent_jobs, p_default_user_concurrency)
+  INTO v_user_limit
+  FROM user_profiles
+  WHERE user_id = v_user_id;
+
+  v_user_limit := COALESCE(v_user_limit, p_default_user_concurrency);
+
+  SELECT count(*) INTO v_session_active
+  FROM generation_jobs j
+  JOIN prompt_variations v ON v.id = j.variation_id
+  WHERE v.session_id = p_session_id
+    AND j.status = 'in_progress'
+    AND j.lease_expires_at > now();
+
+  SELECT count(*) INTO v_user_active
+  FROM generation_jobs j
+  JOIN prompt_variations v ON v.id = j.variation_id
+  JOIN automation_sessions s ON s.id = v.session_id
+  WHERE s.user_id = v_user_id
+    AND j.status = 'in_progress'
+    AND j.lease_expires_at > now();
+
+  v_slots := LEAST(p_limit, v_session_limit - v_session_active, v_user_limit - v_user_active);
+
+  IF v_slots <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE generation_jobs j
+  SET
+    status = 'in_progress',
+    claimed_by = p_worker_id,
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    next_attempt_at = NULL,
+    attempts = j.attempts + 1,
+    updated_at = now()
+  WHERE j.id IN (
+    SELECT candidate.id
+    FROM generation_jobs candidate
+    JOIN prompt_variations v ON v.id = candidate.variation_id
+    WHERE v.session_id = p_session_id
+      AND (
+        (
+          candidate.status = 'queued'
+          AND (candidate.next_attempt_at IS NULL OR candidate.next_attempt_at <= now())
+        )
+        OR (
+          candidate.status = 'in_progress'
+          AND candidate.attempts < p_max_attempts
+          AND COALESCE(candidate.lease_expires_at, candidate.updated_at + make_interval(secs => p_lease_seconds)) <= now()
+        )
+      )
+    ORDER BY v.index
+    LIMIT v_slots
+    FOR UPDATE OF candidate SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_jobs(uuid, text, integer, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_generation_jobs(uuid, text, integer, integer, integer, integer, integer) TO service_role;
@@ -0,0 +1,83 @@
+/*
+  # Automatic credit refunds
+
+  1. New Tables
+    - `credit_refunds` - One row per refund returned to a user
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `refund_key` (text, unique, identifies what was refunded so nothing is refunded twice)
+      - `amount` (integer, credits returned)
+      - `reason` (text, shown in the billing history)
+      - `session_id` (uuid, automation session the refund belongs to)
+      - `generation_job_id` (uuid, failed job, null for session level refunds)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `refund_credits` returns credits once per refund key and records the refund
+
+  3. Security
+    - Enable RLS on `credit_refunds`, users can read their own refunds
+*/
+
+CREATE TABLE IF NOT EXISTS credit_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  refund_key text NOT NULL UNIQUE,
+  amount integer NOT NULL CHECK (amount > 0),
+  reason text,
+  session_id uuid REFERENCES automation_sessions(id) ON DELETE SET NULL,
+  generation_job_id uuid REFERENCES generation_jobs(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE credit_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own credit refunds"
+  ON credit_refunds FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS credit_refunds_user_id_idx ON credit_refunds(user_id, created_at DESC);
+
+-- Return credits to a user, a refund key is only ever applied once
+CREATE OR REPLACE FUNCTION refund_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_refund_key text,
+  p_reason text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_generation_job_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund_id uuid;
+BEGIN
+  IF p_amount <= 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO credit_refunds (user_id, refund_key, amount, reason, session_id, generation_job_id)
+  VALUES (p_user_id, p_refund_key, p_amount, p_reason, p_session_id, p_generation_job_id)
+  ON CONFLICT (refund_key) DO NOTHING
+  RETURNING id INTO v_refund_id;
+
+  -- Already refunded
+  IF v_refund_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE user_profiles
+  SET
+    credits = credits + p_amount,
+    credits_used = GREATEST(credits_used - p_amount, 0),
+    updated_at = now()
+  WHERE user_id = p_user_id;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_credits(uuid, integer, text, text, uuid, uuid) TO service_role;
@@ -0,0 +1,460 @@
+/*
+  # Credit ledger
+
+  1. New Tables
+    - `credit_transactions` - Append-only history of every credit balance change
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `type` (text, purchase, subscription_grant, generation_debit, edit_debit,
+        refund, admin_adjustment, signup_grant or opening_balance)
+      - `amount` (integer, signed change applied to the balance)
+      - `balance_after` (integer, balance once the change was applied)
+      - `description` (text, shown in the credit history)
+      - `session_id` (uuid, automation session the change belongs to)
+      - `generation_job_id` (uuid, generation job the change belongs to)
+      - `checkout_session_id` (text, Stripe checkout session of a purchase)
+      - `reference` (text, other identifiers such as a refund key or subscription id)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `record_credit_transaction` applies a change to `user_profiles.credits` and
+      appends it to the ledger in one step, every credit function goes through it
+    - `admin_adjust_credits` for manual corrections by support
+    - `reconcile_credit_balance` resets a user's balance to the ledger total
+
+  3. Function Changes
+    - `deduct_multiple_credits`, `add_credits`, `add_subscription_credits`,
+      `refund_credit`, `refund_credits` and `init_user_profile` write to the ledger
+    - `deduct_multiple_credits` accepts the transaction type, a description and
+      the session, and only lets signed in users debit their own balance
+    - `add_credits` accepts the checkout session and a description
+    - `add_subscription_credits` accepts the subscription id
+
+  4. Views
+    - `credit_balance_reconciliation` compares balances with the ledger totals
+
+  5. Security
+    - Enable RLS on `credit_transactions`, users can read their own transactions
+    - Ledger rows cannot be updated
+    - Only the service role may add credits
+*/
+
+CREATE TABLE IF NOT EXISTS credit_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN (
+    'purchase',
+    'subscription_grant',
+    'generation_debit',
+    'edit_debit',
+    'refund',
+    'admin_adjustment',
+    'signup_grant',
+    'opening_balance'
+  )),
+  amount integer NOT NULL,
+  balance_after integer NOT NULL,
+  description text,
+  -- Plain ids rather than foreign keys, ledger rows outlive the sessions and jobs they describe
+  session_id uuid,
+  generation_job_id uuid,
+  checkout_session_id text,
+  reference text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE credit_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own credit transactions"
+  ON credit_transactions FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS credit_transactions_user_id_idx ON credit_transactions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS credit_transactions_session_id_idx ON credit_transactions(session_id);
+
+-- Keep the ledger append-only
+CREATE OR REPLACE FUNCTION prevent_credit_transaction_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'credit_transactions is append-only, record a new transaction instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_transactions_append_only ON credit_transactions;
+CREATE TRIGGER credit_transactions_append_only
+  BEFORE UPDATE ON credit_transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_credit_transaction_update();
+
+REVOKE INSERT, UPDATE, DELETE ON credit_transactions FROM anon, authenticated;
+
+-- Open the ledger of existing users with their current balance
+INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+SELECT p.user_id, 'opening_balance', p.credits, p.credits, 'Balance before the credit history was introduced'
+FROM user_profiles p
+WHERE NOT EXISTS (SELECT 1 FROM credit_transactions t WHERE t.user_id = p.user_id);
+
+-- Apply a credit change and append it to the ledger, returns the new balance
+CREATE OR REPLACE FUNCTION record_credit_transaction(
+  p_user_id uuid,
+  p_type text,
+  p_amount integer,
+  p_description text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_generation_job_id uuid DEFAULT NULL,
+  p_checkout_session_id text DEFAULT NULL,
+  p_reference text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_new_balance integer;
+  v_change integer;
+BEGIN
+  INSERT INTO user_profiles (user_id, credits, credits_used)
+  VALUES (p_user_id, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Balances never drop below zero, the ledger records the change actually applied
+  v_new_balance := GREATEST(v_balance + p_amount, 0);
+  v_change := v_new_balance - v_balance;
+
+  UPDATE user_profiles
+  SET
+    credits = v_new_balance,
+    credits_used = CASE
+      WHEN p_type IN ('generation_debit', 'edit_debit') THEN credits_used - v_change
+      WHEN p_type = 'refund' THEN GREATEST(credits_used - v_change, 0)
+      ELSE credits_used
+    END,
+    updated_at = now()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    session_id, generation_job_id, checkout_session_id, reference
+  )
+  VALUES (
+    p_user_id, p_type, v_change, v_new_balance, p_description,
+    p_session_id, p_generation_job_id, p_checkout_session_id, p_reference
+  );
+
+  RETURN v_new_balance;
+END;
+$$;
+
+-- Deduct credits for a generation or edit
+DROP FUNCTION IF EXISTS deduct_multiple_credits(UUID, INT);
+
+CREATE OR REPLACE FUNCTION deduct_multiple_credits(
+  user_id_param uuid,
+  amount int,
+  transaction_type_param text DEFAULT 'generation_debit',
+  description_param text DEFAULT NULL,
+  session_id_param uuid DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Ensure amount is positive
+  IF amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> user_id_param THEN
+    RAISE EXCEPTION 'Cannot deduct credits of another user';
+  END IF;
+
+  IF transaction_type_param NOT IN ('generation_debit', 'edit_debit') THEN
+    RAISE EXCEPTION 'Invalid debit type %', transaction_type_param;
+  END IF;
+
+  -- Create user profile with the starting credits if it doesn't exist
+  IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE user_id = user_id_param) THEN
+    PERFORM record_credit_transaction(user_id_param, 'signup_grant', 10, 'Starting credits');
+  END IF;
+
+  PERFORM record_credit_transaction(
+    user_id_param,
+    transaction_type_param,
+    -amount,
+    description_param,
+    session_id_param
+  );
+END;
+$$;
+
+-- Add one-time purchase credits
+DROP FUNCTION IF EXISTS add_credits(amount INT, user_id_param UUID);
+
+CREATE OR REPLACE FUNCTION add_credits(
+  amount INT,
+  user_id_param UUID,
+  checkout_session_id_param text DEFAULT NULL,
+  description_param text DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Ensure amount is positive
+  IF amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive';
+  END IF;
+
+  PERFORM record_credit_transaction(
+    user_id_param,
+    'purchase',
+    amount,
+    COALESCE(description_param, 'Credit purchase'),
+    NULL,
+    NULL,
+    checkout_session_id_param
+  );
+
+  -- Log the credit addition
+  RAISE LOG 'Added % credits to user %', amount, user_id_param;
+END;
+$$;
+
+-- Top the balance up to the subscription allowance
+DROP FUNCTION IF EXISTS add_subscription_credits(amount INT, user_id_param UUID);
+
+CREATE OR REPLACE FUNCTION add_subscription_credits(
+  amount INT,
+  user_id_param UUID,
+  subscription_id_param text DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_credits INT;
+BEGIN
+  -- Ensure amount is positive
+  IF amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive';
+  END IF;
+
+  SELECT credits INTO current_credits
+  FROM user_profiles
+  WHERE user_id = user_id_param
+  FOR UPDATE;
+
+  -- Set the credits to the subscription amount or keep current if higher
+  -- This prevents a user from losing credits when subscription renews
+  IF COALESCE(current_credits, 0) < amount THEN
+    PERFORM record_credit_transaction(
+      user_id_param,
+      'subscription_grant',
+      amount - COALESCE(current_credits, 0),
+      format('Subscription credits topped up to %s', amount),
+      NULL,
+      NULL,
+      NULL,
+      subscription_id_param
+    );
+  END IF;
+
+  -- Log the subscription credit update
+  RAISE LOG 'Updated subscription credits for user % to at least %', user_id_param, amount;
+END;
+$$;
+
+-- Keep the (user_id_param, amount_param) wrappers pointing at the new signatures
+CREATE OR REPLACE FUNCTION add_credits(user_id_param UUID, amount_param INT)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM add_credits(amount_param, user_id_param, NULL, NULL);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_subscription_credits(user_id_param UUID, amount_param INT)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM add_subscription_credits(amount_param, user_id_param, NULL);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refund a single credit
+CREATE OR REPLACE FUNCTION refund_credit(user_id_param UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM record_credit_transaction(user_id_param, 'refund', 1, 'Credit refund');
+END;
+$$;
+
+-- Return credits to a user, a refund key is only ever applied once
+CREATE OR REPLACE FUNCTION refund_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_refund_key text,
+  p_reason text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_generation_job_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund_id uuid;
+BEGIN
+  IF p_amount <= 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO credit_refunds (user_id, refund_key, amount, reason, session_id, generation_job_id)
+  VALUES (p_user_id, p_refund_key, p_amount, p_reason, p_session_id, p_generation_job_id)
+  ON CONFLICT (refund_key) DO NOTHING
+  RETURNING id INTO v_refund_id;
+
+  -- Already refunded
+  IF v_refund_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  PERFORM record_credit_transaction(
+    p_user_id,
+    'refund',
+    p_amount,
+    p_reason,
+    p_session_id,
+    p_generation_job_id,
+    NULL,
+    p_refund_key
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Manual correction by support, the reason is shown to the user
+CREATE OR REPLACE FUNCTION admin_adjust_credits(p_user_id uuid, p_amount integer, p_reason text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_amount = 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must not be zero';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'An adjustment needs a reason';
+  END IF;
+
+  RETURN record_credit_transaction(p_user_id, 'admin_adjustment', p_amount, p_reason);
+END;
+$$;
+
+-- Compare each balance with the total of its ledger
+CREATE OR REPLACE VIEW credit_balance_reconciliation AS
+SELECT
+  p.user_id,
+  p.credits AS balance,
+  COALESCE(SUM(t.amount), 0)::integer AS ledger_balance,
+  (p.credits - COALESCE(SUM(t.amount), 0))::integer AS difference
+FROM user_profiles p
+LEFT JOIN credit_transactions t ON t.user_id = p.user_id
+GROUP BY p.user_id, p.credits;
+
+REVOKE ALL ON credit_balance_reconciliation FROM anon, authenticated;
+
+-- Reset a balance that was changed outside the ledger to the ledger total, returns the difference removed
+CREATE OR REPLACE FUNCTION reconcile_credit_balance(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_ledger_balance integer;
+BEGIN
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_ledger_balance
+  FROM credit_transactions
+  WHERE user_id = p_user_id;
+
+  IF v_balance IS NULL OR v_balance = v_ledger_balance THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_profiles
+  SET credits = GREATEST(v_ledger_balance, 0), updated_at = now()
+  WHERE user_id = p_user_id;
+
+  RAISE LOG 'Reconciled credits of user % from % to %', p_user_id, v_balance, v_ledger_balance;
+  RETURN v_balance - v_ledger_balance;
+END;
+$$;
+
+-- Record the starting credits of new users
+CREATE OR REPLACE FUNCTION public.init_user_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_profiles (user_id, credits, credits_used)
+  VALUES (NEW.id, 10, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF FOUND THEN
+    INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, description)
+    VALUES (NEW.id, 'signup_grant', 10, 10, 'Starting credits');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only signed in users debiting themselves and the service role may change balances
+REVOKE EXECUTE ON FUNCTION record_credit_transaction(uuid, text, integer, text, uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_credits(INT, UUID, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_credits(UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_subscription_credits(INT, UUID, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_subscription_credits(UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_credit(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_credits(uuid, integer, text, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION admin_adjust_credits(uuid, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_credit_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION record_credit_transaction(uuid, text, integer, text, uuid, uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION deduct_multiple_credits(uuid, int, text, text, uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION add_credits(INT, UUID, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION add_credits(UUID, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION add_subscription_credits(INT, UUID, text) TO service_role;
+GRANT EXECUTE ON FUNCTION add_subscription_credits(UUID, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_credit(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION admin_adjust_credits(uuid, integer, text) TO service_role;
+GRANT EXECUTE ON FUNCTION reconcile_credit_balance(uuid) TO service_role;
@@ -0,0 +1,276 @@
+/*
+  # Credit reservations for automation sessions
+
+  1. New Tables
+    - `credit_reservations` - Credits held for an automation session
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `session_id` (uuid, unique, references automation_sessions)
+      - `amount_reserved` (integer, credits taken from the balance when the session was created)
+      - `amount_captured` (integer, credits spent on completed jobs)
+      - `amount_released` (integer, credits returned to the balance)
+      - `status` (text, 'active' until the session ends, then 'settled')
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Updates
+    - `generation_jobs`
+      - `credit_captured_at` (timestamptz, when the job's credit was captured from the reservation)
+    - `credit_transactions.type` accepts `reservation` and `reservation_release`
+
+  3. New Functions
+    - `reserve_credits` holds credits for a session when the balance allows it
+    - `capture_reserved_credit` spends one held credit on a completed job, once per job
+    - `release_reserved_credits` returns held credits that were not captured
+
+  4. Security
+    - Enable RLS on `credit_reservations`, users can read their own reservations
+*/
+
+CREATE TABLE IF NOT EXISTS credit_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id uuid UNIQUE REFERENCES automation_sessions(id) ON DELETE SET NULL,
+  amount_reserved integer NOT NULL CHECK (amount_reserved > 0),
+  amount_captured integer NOT NULL DEFAULT 0,
+  amount_released integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'settled')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (amount_captured + amount_released <= amount_reserved)
+);
+
+ALTER TABLE credit_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own credit reservations"
+  ON credit_reservations FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS credit_reservations_user_id_idx ON credit_reservations(user_id, status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'credit_captured_at'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN credit_captured_at timestamptz;
+    COMMENT ON COLUMN generation_jobs.credit_captured_at IS 'When the reserved credit for this job was captured, null while uncharged';
+  END IF;
+END $$;
+
+ALTER TABLE credit_transactions DROP CONSTRAINT IF EXISTS credit_transactions_type_check;
+ALTER TABLE credit_transactions ADD CONSTRAINT credit_transactions_type_check CHECK (type IN (
+  'purchase',
+  'subscription_grant',
+  'generation_debit',
+  'edit_debit',
+  'refund',
+  'admin_adjustment',
+  'signup_grant',
+  'opening_balance',
+  'reservation',
+  'reservation_release'
+));
+
+-- Apply a credit change and append it to the ledger, returns the new balance
+CREATE OR REPLACE FUNCTION record_credit_transaction(
+  p_user_id uuid,
+  p_type text,
+  p_amount integer,
+  p_description text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_generation_job_id uuid DEFAULT NULL,
+  p_checkout_session_id text DEFAULT NULL,
+  p_reference text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_new_balance integer;
+  v_change integer;
+BEGIN
+  INSERT INTO user_profiles (user_id, credits, credits_used)
+  VALUES (p_user_id, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Balances never drop below zero, the ledger records the change actually applied
+  v_new_balance := GREATEST(v_balance + p_amount, 0);
+  v_change := v_new_balance - v_balance;
+
+  UPDATE user_profiles
+  SET
+    credits = v_new_balance,
+    credits_used = CASE
+      WHEN p_type IN ('generation_debit', 'edit_debit', 'reservation') THEN credits_used - v_change
+      WHEN p_type IN ('refund', 'reservation_release') THEN GREATEST(credits_used - v_change, 0)
+      ELSE credits_used
+    END,
+    updated_at = now()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    session_id, generation_job_id, checkout_session_id, reference
+  )
+  VALUES (
+    p_user_id, p_type, v_change, v_new_balance, p_description,
+    p_session_id, p_generation_job_id, p_checkout_session_id, p_reference
+  );
+
+  RETURN v_new_balance;
+END;
+$$;
+
+-- Hold credits for a session, returns false when the balance is too low
+CREATE OR REPLACE FUNCTION reserve_credits(
+  p_user_id uuid,
+  p_session_id uuid,
+  p_amount integer,
+  p_description text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Reservation amount must be positive';
+  END IF;
+
+  -- Reserving twice for the same session is a no-op
+  IF EXISTS (SELECT 1 FROM credit_reservations WHERE session_id = p_session_id) THEN
+    RETURN true;
+  END IF;
+
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < p_amount THEN
+    RETURN false;
+  END IF;
+
+  PERFORM record_credit_transaction(
+    p_user_id,
+    'reservation',
+    -p_amount,
+    COALESCE(p_description, format('Reserved for %s automated ads', p_amount)),
+    p_session_id
+  );
+
+  INSERT INTO credit_reservations (user_id, session_id, amount_reserved)
+  VALUES (p_user_id, p_session_id, p_amount);
+
+  RETURN true;
+END;
+$$;
+
+-- Spend one held credit on a completed job, returns false when nothing was captured
+CREATE OR REPLACE FUNCTION capture_reserved_credit(p_session_id uuid, p_generation_job_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation credit_reservations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reservation
+  FROM credit_reservations
+  WHERE session_id = p_session_id
+  FOR UPDATE;
+
+  IF v_reservation.id IS NULL
+    OR v_reservation.amount_reserved - v_reservation.amount_captured - v_reservation.amount_released <= 0 THEN
+    RETURN false;
+  END IF;
+
+  -- Each job is charged once
+  UPDATE generation_jobs
+  SET credit_captured_at = now()
+  WHERE id = p_generation_job_id
+    AND credit_captured_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE credit_reservations
+  SET amount_captured = amount_captured + 1, updated_at = now()
+  WHERE id = v_reservation.id;
+
+  RETURN true;
+END;
+$$;
+
+-- Return held credits that were not captured, all of them when p_amount is null,
+-- which also settles the reservation. Returns the number of credits released.
+CREATE OR REPLACE FUNCTION release_reserved_credits(
+  p_session_id uuid,
+  p_amount integer DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation credit_reservations%ROWTYPE;
+  v_release integer;
+BEGIN
+  SELECT * INTO v_reservation
+  FROM credit_reservations
+  WHERE session_id = p_session_id
+  FOR UPDATE;
+
+  IF v_reservation.id IS NULL OR v_reservation.status = 'settled' THEN
+    RETURN 0;
+  END IF;
+
+  v_release := v_reservation.amount_reserved - v_reservation.amount_captured - v_reservation.amount_released;
+  IF p_amount IS NOT NULL THEN
+    v_release := LEAST(GREATEST(p_amount, 0), v_release);
+  END IF;
+
+  IF v_release > 0 THEN
+    PERFORM record_credit_transaction(
+      v_reservation.user_id,
+      'reservation_release',
+      v_release,
+      COALESCE(p_reason, 'Unused reserved credits returned'),
+      p_session_id
+    );
+  END IF;
+
+  UPDATE credit_reservations
+  SET
+    amount_released = amount_released + v_release,
+    status = CASE WHEN p_amount IS NULL THEN 'settled' ELSE status END,
+    updated_at = now()
+  WHERE id = v_reservation.id;
+
+  RETURN v_release;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_credits(uuid, uuid, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION capture_reserved_credit(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_reserved_credits(uuid, integer, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION reserve_credits(uuid, uuid, integer, text) TO service_role;
+GRANT EXECUTE ON FUNCTION capture_reserved_credit(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION release_reserved_credits(uuid, integer, text) TO service_role;
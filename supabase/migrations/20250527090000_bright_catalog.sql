@@ -0,0 +1,74 @@
+/*
+  # Stripe product catalog
+
+  1. New Tables
+    - `stripe_products` - The credit packages sold through Stripe, one row per Stripe price
+      - `price_id` (text, primary key, the Stripe price ID)
+      - `name` (text)
+      - `description` (text)
+      - `mode` (text, 'payment' or 'subscription')
+      - `unit_amount` (integer, price in the smallest currency unit, required while active)
+      - `currency` (text)
+      - `credits` (integer, credits granted per purchase or billing period)
+      - `features` (jsonb, list of feature strings shown on the pricing page)
+      - `sort_order` (integer)
+      - `active` (boolean, inactive prices are no longer sold but still credited)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Data
+    - Seeds the current one-time top-ups
+    - Keeps the retired price IDs the webhook used to credit as inactive rows
+
+  3. Security
+    - Enable RLS on `stripe_products`, everyone can read the catalog
+    - Only the service role can change it
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_products (
+  price_id text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  mode text NOT NULL CHECK (mode IN ('payment', 'subscription')),
+  unit_amount integer CHECK (unit_amount >= 0),
+  currency text NOT NULL DEFAULT 'usd',
+  credits integer NOT NULL CHECK (credits > 0),
+  features jsonb NOT NULL DEFAULT '[]'::jsonb,
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT active OR unit_amount IS NOT NULL)
+);
+
+COMMENT ON TABLE stripe_products IS 'Single source of truth for Stripe prices and the credits they grant';
+
+ALTER TABLE stripe_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the product catalog"
+  ON stripe_products FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS stripe_products_active_idx ON stripe_products(active, sort_order);
+
+INSERT INTO stripe_products (price_id, name, description, mode, unit_amount, currency, credits, features, sort_order, active)
+VALUES
+  ('price_1ROSqdF2bI4ojX8oCnn1KrLz', '15 credits topup', 'One-time purchase of 15 credits', 'payment', 1125, 'usd', 15,
+    '["15 credits", "Never expires", "Commercial usage rights"]', 10, true),
+  ('price_1ROSv9F2bI4ojX8oVfZTjrWc', '100 credits topup', 'One-time purchase of 100 credits', 'payment', 7500, 'usd', 100,
+    '["100 credits", "Never expires", "Commercial usage rights"]', 20, true),
+  ('price_1ROSrtF2bI4ojX8oUXGfG4gl', '200 credits topup', 'One-time purchase of 200 credits', 'payment', 12000, 'usd', 200,
+    '["200 credits", "Never expires", "Commercial usage rights", "Bulk discount savings"]', 30, true),
+  ('price_1ROSscF2bI4ojX8oqTG5shTT', '500 credits topup', 'One-time purchase of 500 credits', 'payment', 30000, 'usd', 500,
+    '["500 credits", "Never expires", "Commercial usage rights", "Premium bulk discount"]', 40, true),
+  ('price_1ROStVF2bI4ojX8oin1uKTI9', '1000 credits topup', 'One-time purchase of 1000 credits', 'payment', 56250, 'usd', 1000,
+    '["1000 credits", "Never expires", "Commercial usage rights", "Maximum bulk savings"]', 50, true),
+  -- Retired prices, kept so late webhooks and renewals are still credited
+  ('price_1RMvZYF2bI4ojX8owZzL0B2T', '500 credits every month', 'Monthly subscription of 500 credits', 'subscription', NULL, 'usd', 500,
+    '[]', 100, false),
+  ('price_1RMvZAF2bI4ojX8oNRHofr8e', '1000 credits topup', 'One-time purchase of 1000 credits', 'payment', NULL, 'usd', 1000,
+    '[]', 110, false),
+  ('price_1RMvYxF2bI4ojX8oMHTLIdnu', '100 credits topup', 'One-time purchase of 100 credits', 'payment', NULL, 'usd', 100,
+    '[]', 120, false),
+  ('price_1RMvYhF2bI4ojX8oY93qcb91', '10 credits topup', 'One-time purchase of 10 credits', 'payment', NULL, 'usd', 10,
+    '[]', 130, false)
+ON CONFLICT (price_id) DO NOTHING;
@@ -0,0 +1,280 @@
+/*
+  # Monthly subscription plans
+
+  1. Updates
+    - `stripe_products`
+      - `rollover_cap` (integer, unused subscription credits carried into the next period, null carries all of them)
+    - `user_profiles`
+      - `subscription_credits` (integer, part of the balance granted by the subscription, spent first)
+    - `credit_transactions.type` accepts `subscription_expiry`
+    - `record_credit_transaction` spends `subscription_credits` first and keeps them within the balance
+
+  2. New Tables
+    - `subscription_credit_grants` - Credits granted per paid subscription invoice
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `invoice_id` (text, unique, the paid Stripe invoice)
+      - `subscription_id` (text)
+      - `price_id` (text)
+      - `billing_reason` (text, subscription_create, subscription_cycle or subscription_update)
+      - `credits_granted` (integer)
+      - `credits_expired` (integer, unused subscription credits above the rollover cap)
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `grant_subscription_credits` expires credits above the rollover cap and grants
+      the credits of a paid invoice, once per invoice
+
+  4. Data
+    - Seeds the Starter, Growth and Scale plans as inactive rows, replace their
+      placeholder price IDs with the Stripe ones to start selling them
+
+  5. Views
+    - `stripe_user_subscriptions` is recreated with its original columns
+      (`subscription_status` instead of `status`) and only returns the caller's subscription
+
+  6. Security
+    - Enable RLS on `subscription_credit_grants`, users can read their own grants
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stripe_products' AND column_name = 'rollover_cap'
+  ) THEN
+    ALTER TABLE stripe_products ADD COLUMN rollover_cap integer CHECK (rollover_cap >= 0);
+    COMMENT ON COLUMN stripe_products.rollover_cap IS 'Unused subscription credits carried into the next period, null carries all of them';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'subscription_credits'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN subscription_credits integer NOT NULL DEFAULT 0;
+    COMMENT ON COLUMN user_profiles.subscription_credits IS 'Part of the balance granted by the subscription, spent before purchased credits';
+  END IF;
+END $$;
+
+INSERT INTO stripe_products (price_id, name, description, mode, unit_amount, currency, credits, rollover_cap, features, sort_order, active)
+VALUES
+  ('price_starter_monthly', 'Starter', '100 credits every month', 'subscription', 4900, 'usd', 100, 50,
+    '["100 credits every month", "Roll over up to 50 unused credits", "Commercial usage rights"]', 200, false),
+  ('price_growth_monthly', 'Growth', '300 credits every month', 'subscription', 12900, 'usd', 300, 150,
+    '["300 credits every month", "Roll over up to 150 unused credits", "Commercial usage rights"]', 210, false),
+  ('price_scale_monthly', 'Scale', '1000 credits every month', 'subscription', 39900, 'usd', 1000, 500,
+    '["1000 credits every month", "Roll over up to 500 unused credits", "Commercial usage rights", "Priority generation"]', 220, false)
+ON CONFLICT (price_id) DO NOTHING;
+
+ALTER TABLE credit_transactions DROP CONSTRAINT IF EXISTS credit_transactions_type_check;
+ALTER TABLE credit_transactions ADD CONSTRAINT credit_transactions_type_check CHECK (type IN (
+  'purchase',
+  'subscription_grant',
+  'subscription_expiry',
+  'generation_debit',
+  'edit_debit',
+  'refund',
+  'admin_adjustment',
+  'signup_grant',
+  'opening_balance',
+  'reservation',
+  'reservation_release'
+));
+
+CREATE TABLE IF NOT EXISTS subscription_credit_grants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_id text UNIQUE NOT NULL,
+  subscription_id text,
+  price_id text,
+  billing_reason text,
+  credits_granted integer NOT NULL DEFAULT 0,
+  credits_expired integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE subscription_credit_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own subscription credit grants"
+  ON subscription_credit_grants FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS subscription_credit_grants_user_id_idx ON subscription_credit_grants(user_id, created_at DESC);
+
+-- Apply a credit change and append it to the ledger, returns the new balance
+CREATE OR REPLACE FUNCTION record_credit_transaction(
+  p_user_id uuid,
+  p_type text,
+  p_amount integer,
+  p_description text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_generation_job_id uuid DEFAULT NULL,
+  p_checkout_session_id text DEFAULT NULL,
+  p_reference text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_new_balance integer;
+  v_change integer;
+BEGIN
+  INSERT INTO user_profiles (user_id, credits, credits_used)
+  VALUES (p_user_id, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Balances never drop below zero, the ledger records the change actually applied
+  v_new_balance := GREATEST(v_balance + p_amount, 0);
+  v_change := v_new_balance - v_balance;
+
+  UPDATE user_profiles
+  SET
+    credits = v_new_balance,
+    credits_used = CASE
+      WHEN p_type IN ('generation_debit', 'edit_debit', 'reservation') THEN credits_used - v_change
+      WHEN p_type IN ('refund', 'reservation_release') THEN GREATEST(credits_used - v_change, 0)
+      ELSE credits_used
+    END,
+    -- Spending and expiry take subscription credits first. Refunds and released
+    -- reservations go back as purchased credits, so they never expire, and the
+    -- subscription share never exceeds the balance.
+    subscription_credits = LEAST(
+      CASE
+        WHEN p_type IN ('generation_debit', 'edit_debit', 'reservation', 'subscription_expiry')
+          THEN GREATEST(subscription_credits + v_change, 0)
+        ELSE subscription_credits
+      END,
+      v_new_balance
+    ),
+    updated_at = now()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    session_id, generation_job_id, checkout_session_id, reference
+  )
+  VALUES (
+    p_user_id, p_type, v_change, v_new_balance, p_description,
+    p_session_id, p_generation_job_id, p_checkout_session_id, p_reference
+  );
+
+  RETURN v_new_balance;
+END;
+$$;
+
+-- Grant the credits of a paid subscription invoice. Unused subscription credits
+-- above p_rollover_cap expire first, a null cap keeps all of them. Returns the
+-- credits granted, 0 when the invoice was granted before.
+CREATE OR REPLACE FUNCTION grant_subscription_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_invoice_id text,
+  p_subscription_id text DEFAULT NULL,
+  p_price_id text DEFAULT NULL,
+  p_billing_reason text DEFAULT NULL,
+  p_rollover_cap integer DEFAULT NULL,
+  p_description text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_unused integer;
+  v_expired integer := 0;
+BEGIN
+  IF p_amount < 0 THEN
+    RAISE EXCEPTION 'Credit amount must not be negative';
+  END IF;
+
+  -- Each invoice is granted once, the unique invoice_id settles concurrent deliveries
+  INSERT INTO subscription_credit_grants (user_id, invoice_id, subscription_id, price_id, billing_reason)
+  VALUES (p_user_id, p_invoice_id, p_subscription_id, p_price_id, p_billing_reason)
+  ON CONFLICT (invoice_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO user_profiles (user_id, credits, credits_used)
+  VALUES (p_user_id, 0, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT LEAST(subscription_credits, credits) INTO v_unused
+  FROM user_profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF p_rollover_cap IS NOT NULL AND v_unused > p_rollover_cap THEN
+    v_expired := v_unused - p_rollover_cap;
+
+    PERFORM record_credit_transaction(
+      p_user_id,
+      'subscription_expiry',
+      -v_expired,
+      format('%s unused subscription credits expired, %s rolled over', v_expired, p_rollover_cap),
+      NULL,
+      NULL,
+      NULL,
+      p_invoice_id
+    );
+  END IF;
+
+  IF p_amount > 0 THEN
+    PERFORM record_credit_transaction(
+      p_user_id,
+      'subscription_grant',
+      p_amount,
+      COALESCE(p_description, format('%s subscription credits', p_amount)),
+      NULL,
+      NULL,
+      NULL,
+      p_invoice_id
+    );
+  END IF;
+
+  UPDATE user_profiles
+  SET subscription_credits = LEAST(v_unused - v_expired + p_amount, credits)
+  WHERE user_id = p_user_id;
+
+  UPDATE subscription_credit_grants
+  SET credits_granted = p_amount, credits_expired = v_expired
+  WHERE invoice_id = p_invoice_id;
+
+  RETURN p_amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_subscription_credits(uuid, integer, text, text, text, text, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION grant_subscription_credits(uuid, integer, text, text, text, text, integer, text) TO service_role;
+
+DROP VIEW IF EXISTS stripe_user_subscriptions;
+
+CREATE VIEW stripe_user_subscriptions WITH (security_invoker = true) AS
+SELECT
+  c.customer_id,
+  c.user_id,
+  s.subscription_id,
+  s.status AS subscription_status,
+  s.price_id,
+  s.current_period_start,
+  s.current_period_end,
+  s.cancel_at_period_end,
+  s.payment_method_brand,
+  s.payment_method_last4
+FROM stripe_customers c
+JOIN stripe_subscriptions s ON c.customer_id = s.customer_id
+WHERE c.user_id = auth.uid()
+  AND c.deleted_at IS NULL
+  AND s.deleted_at IS NULL;
+
+GRANT SELECT ON stripe_user_subscriptions TO authenticated;
@@ -0,0 +1,124 @@
+/*
+  # Stripe webhook event log
+
+  1. New Tables
+    - `stripe_webhook_events` - Every Stripe event the webhook received
+      - `id` (text, primary key, the Stripe event ID)
+      - `type` (text, the event type)
+      - `payload` (jsonb, the event as received)
+      - `livemode` (boolean)
+      - `outcome` (text, pending, processing, processed, ignored or failed)
+      - `error_message` (text, why the last attempt failed)
+      - `attempts` (integer, how often the event was processed)
+      - `received_at` (timestamptz, first delivery)
+      - `processing_started_at` (timestamptz, start of the current attempt)
+      - `processed_at` (timestamptz, end of the last attempt)
+
+  2. New Functions
+    - `claim_stripe_webhook_event` marks an event as processing when it is pending,
+      failed or its previous attempt stalled, so each event is handled by one worker
+
+  3. Updates
+    - `add_credits` grants the credits of a checkout session only once
+
+  4. Security
+    - Enable RLS on `stripe_webhook_events` without policies, only the service role reads it
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  payload jsonb NOT NULL,
+  livemode boolean NOT NULL DEFAULT false,
+  outcome text NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'processing', 'processed', 'ignored', 'failed')),
+  error_message text,
+  attempts integer NOT NULL DEFAULT 0,
+  received_at timestamptz DEFAULT now(),
+  processing_started_at timestamptz,
+  processed_at timestamptz
+);
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS stripe_webhook_events_outcome_idx ON stripe_webhook_events(outcome, received_at);
+
+-- Take an event for processing, returns false when it was processed already or
+-- another attempt started less than p_stale_seconds ago
+CREATE OR REPLACE FUNCTION claim_stripe_webhook_event(p_event_id text, p_stale_seconds integer DEFAULT 300)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE stripe_webhook_events
+  SET
+    outcome = 'processing',
+    attempts = attempts + 1,
+    processing_started_at = now(),
+    error_message = NULL
+  WHERE id = p_event_id
+    AND (
+      outcome IN ('pending', 'failed')
+      OR (outcome = 'processing' AND processing_started_at < now() - make_interval(secs => p_stale_seconds))
+    );
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Add purchased credits, a checkout session is only credited once
+CREATE OR REPLACE FUNCTION add_credits(
+  amount INT,
+  user_id_param UUID,
+  checkout_session_id_param text DEFAULT NULL,
+  description_param text DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Ensure amount is positive
+  IF amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive';
+  END IF;
+
+  IF checkout_session_id_param IS NOT NULL THEN
+    -- Serialise concurrent deliveries of the same checkout session
+    PERFORM pg_advisory_xact_lock(hashtext('add_credits:' || checkout_session_id_param));
+
+    IF EXISTS (
+      SELECT 1 FROM credit_transactions
+      WHERE type = 'purchase' AND checkout_session_id = checkout_session_id_param
+    ) THEN
+      RAISE LOG 'Checkout session % was credited before', checkout_session_id_param;
+      RETURN;
+    END IF;
+  END IF;
+
+  PERFORM record_credit_transaction(
+    user_id_param,
+    'purchase',
+    amount,
+    COALESCE(description_param, 'Credit purchase'),
+    NULL,
+    NULL,
+    checkout_session_id_param
+  );
+
+  -- Log the credit addition
+  RAISE LOG 'Added % credits to user %', amount, user_id_param;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_stripe_webhook_event(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_credits(INT, UUID, text, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION claim_stripe_webhook_event(text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION add_credits(INT, UUID, text, text) TO service_role;
+
+CREATE INDEX IF NOT EXISTS credit_transactions_checkout_session_id_idx
+  ON credit_transactions(checkout_session_id)
+  WHERE checkout_session_id IS NOT NULL;
@@ -0,0 +1,83 @@
+/*
+  # Prompt review before generating images
+
+  1. Updates
+    - `automation_sessions`
+      - `review_prompts` (boolean, the session waits at `prompts_generated` until the user launches it)
+      - `launched_at` (timestamptz, when the reviewed prompts were queued for generation)
+
+  2. New Functions
+    - `launch_reviewed_prompts` replaces the prompts of a session waiting for review
+      with the reviewed list and queues one generation job per prompt, once per session
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'review_prompts'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN review_prompts boolean NOT NULL DEFAULT false;
+    COMMENT ON COLUMN automation_sessions.review_prompts IS 'Generated prompts wait for the user to review and launch them';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'launched_at'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN launched_at timestamptz;
+    COMMENT ON COLUMN automation_sessions.launched_at IS 'When the reviewed prompts were queued for generation';
+  END IF;
+END $$;
+
+-- Swap the prompts of a session waiting for review for the reviewed list, in
+-- order, and queue their jobs. Returns the number of jobs queued, raises when
+-- the session is not waiting for review.
+CREATE OR REPLACE FUNCTION launch_reviewed_prompts(p_session_id uuid, p_prompts text[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session automation_sessions%ROWTYPE;
+  v_count integer := COALESCE(array_length(p_prompts, 1), 0);
+BEGIN
+  SELECT * INTO v_session
+  FROM automation_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF NOT v_session.review_prompts OR v_session.status <> 'prompts_generated' OR v_session.launched_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session % is not waiting for prompt review', p_session_id;
+  END IF;
+
+  IF v_count = 0 OR v_count > v_session.variation_count THEN
+    RAISE EXCEPTION 'Expected between 1 and % prompts, got %', v_session.variation_count, v_count;
+  END IF;
+
+  DELETE FROM prompt_variations WHERE session_id = p_session_id;
+
+  WITH inserted AS (
+    INSERT INTO prompt_variations (session_id, prompt, index, status)
+    SELECT p_session_id, prompt, ordinality - 1, 'ready'
+    FROM unnest(p_prompts) WITH ORDINALITY AS t(prompt, ordinality)
+    RETURNING id, prompt
+  )
+  INSERT INTO generation_jobs (variation_id, prompt, status)
+  SELECT id, prompt, 'queued' FROM inserted;
+
+  UPDATE automation_sessions
+  SET launched_at = now(), updated_at = now()
+  WHERE id = p_session_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION launch_reviewed_prompts(uuid, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION launch_reviewed_prompts(uuid, text[]) TO service_role;
@@ -0,0 +1,122 @@
+/*
+  # Re-roll single variations
+
+  1. Updates
+    - `generation_jobs`
+      - `replaced_at` (timestamptz, set when a newer job of the variation replaced this one, kept as history)
+      - `rewrite_instruction` (text, the instruction the prompt of this job was rewritten with)
+
+  2. New Functions
+    - `requeue_prompt_variation` reserves one more credit for the session, keeps the
+      variation's current output as history and queues a new job for it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'replaced_at'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN replaced_at timestamptz;
+    COMMENT ON COLUMN generation_jobs.replaced_at IS 'When a newer job of the same variation replaced this one, null for the current output';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'rewrite_instruction'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN rewrite_instruction text;
+    COMMENT ON COLUMN generation_jobs.rewrite_instruction IS 'Instruction the prompt was rewritten with before this job was queued';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS generation_jobs_variation_id_idx ON generation_jobs(variation_id, created_at DESC);
+
+-- Queue a new job for a variation whose jobs all finished. One more credit is
+-- reserved on the session, settled reservations are reopened. Returns the new
+-- job ID, or null when the balance is too low.
+CREATE OR REPLACE FUNCTION requeue_prompt_variation(
+  p_variation_id uuid,
+  p_prompt text,
+  p_rewrite_instruction text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session automation_sessions%ROWTYPE;
+  v_balance integer;
+  v_job_id uuid;
+BEGIN
+  SELECT s.* INTO v_session
+  FROM automation_sessions s
+  JOIN prompt_variations v ON v.session_id = s.id
+  WHERE v.id = p_variation_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Variation % not found', p_variation_id;
+  END IF;
+
+  IF v_session.status NOT IN ('prompts_generated', 'completed', 'failed')
+    OR (v_session.review_prompts AND v_session.launched_at IS NULL) THEN
+    RAISE EXCEPTION 'Session % has no generated ads yet', v_session.id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM generation_jobs
+    WHERE variation_id = p_variation_id AND status IN ('queued', 'in_progress')
+  ) THEN
+    RAISE EXCEPTION 'Variation % is still being generated', p_variation_id;
+  END IF;
+
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = v_session.user_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < 1 THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM record_credit_transaction(
+    v_session.user_id,
+    'reservation',
+    -1,
+    'Reserved to regenerate an automated ad',
+    v_session.id
+  );
+
+  INSERT INTO credit_reservations (user_id, session_id, amount_reserved)
+  VALUES (v_session.user_id, v_session.id, 1)
+  ON CONFLICT (session_id) DO UPDATE
+  SET
+    amount_reserved = credit_reservations.amount_reserved + 1,
+    status = 'active',
+    updated_at = now();
+
+  UPDATE generation_jobs
+  SET replaced_at = now()
+  WHERE variation_id = p_variation_id AND replaced_at IS NULL;
+
+  INSERT INTO generation_jobs (variation_id, prompt, status, rewrite_instruction)
+  VALUES (p_variation_id, p_prompt, 'queued', p_rewrite_instruction)
+  RETURNING id INTO v_job_id;
+
+  UPDATE prompt_variations
+  SET prompt = p_prompt, status = 'ready', updated_at = now()
+  WHERE id = p_variation_id;
+
+  -- The session runs again until the new job finished
+  UPDATE automation_sessions
+  SET status = 'prompts_generated', error_message = NULL, updated_at = now()
+  WHERE id = v_session.id;
+
+  RETURN v_job_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION requeue_prompt_variation(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION requeue_prompt_variation(uuid, text, text) TO service_role;
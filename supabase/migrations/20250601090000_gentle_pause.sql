@@ -0,0 +1,185 @@
+/*
+  # Cancel, pause and resume automation sessions
+
+  1. New Statuses
+    - `automation_sessions.status` accepts `paused` and `cancelled`
+    - `generation_jobs.status` and `prompt_variations.status` accept `cancelled`
+
+  2. New Functions
+    - `cancel_automation_session` cancels a session and its queued jobs, jobs that
+      are already generating finish and are charged as usual
+
+  3. Function Changes
+    - `claim_generation_jobs` leases no jobs of paused or cancelled sessions
+*/
+
+COMMENT ON COLUMN automation_sessions.status IS 'draft, generating_prompts, prompts_generated, paused, completed, failed or cancelled';
+COMMENT ON COLUMN generation_jobs.status IS 'queued, in_progress, completed, failed or cancelled';
+
+-- Lease up to p_limit claimable jobs of a session to a worker, nothing while
+-- the session is paused or cancelled
+CREATE OR REPLACE FUNCTION claim_generation_jobs(
+  p_session_id uuid,
+  p_worker_id text,
+  p_limit integer DEFAULT 1,
+  p_lease_seconds integer DEFAULT 300,
+  p_default_session_concurrency integer DEFAULT 3,
+  p_default_user_concurrency integer DEFAULT 5,
+  p_max_attempts integer DEFAULT 3
+)
+RETURNS SETOF generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_session_limit integer;
+  v_user_limit integer;
+  v_session_active integer;
+  v_user_active integer;
+  v_slots integer;
+  v_status text;
+BEGIN
+  SELECT user_id, COALESCE(max_concurrency, p_default_session_concurrency)
+  INTO v_user_id, v_session_limit
+  FROM automation_sessions
+  WHERE id = p_session_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Serialize claims per user so concurrent workers cannot exceed the limits
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text));
+
+  -- Read after the lock, a pause or cancel may have committed while waiting for it
+  SELECT status INTO v_status
+  FROM automation_sessions
+  WHERE id = p_session_id;
+
+  IF v_status IN ('paused', 'cancelled') THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(max_concurrent_jobs, p_default_user_concurrency)
+  INTO v_user_limit
+  FROM user_profiles
+  WHERE user_id = v_user_id;
+
+  v_user_limit := COALESCE(v_user_limit, p_default_user_concurrency);
+
+  SELECT count(*) INTO v_session_active
+  FROM generation_jobs j
+  JOIN prompt_variations v ON v.id = j.variation_id
+  WHERE v.session_id = p_session_id
+    AND j.status = 'in_progress'
+    AND j.lease_expires_at > now();
+
+  SELECT count(*) INTO v_user_active
+  FROM generation_jobs j
+  JOIN prompt_variations v ON v.id = j.variation_id
+  JOIN automation_sessions s ON s.id = v.session_id
+  WHERE s.user_id = v_user_id
+    AND j.status = 'in_progress'
+    AND j.lease_expires_at > now();
+
+  v_slots := LEAST(p_limit, v_session_limit - v_session_active, v_user_limit - v_user_active);
+
+  IF v_slots <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE generation_jobs j
+  SET
+    status = 'in_progress',
+    claimed_by = p_worker_id,
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    next_attempt_at = NULL,
+    attempts = j.attempts + 1,
+    updated_at = now()
+  WHERE j.id IN (
+    SELECT candidate.id
+    FROM generation_jobs candidate
+    JOIN prompt_variations v ON v.id = candidate.variation_id
+    WHERE v.session_id = p_session_id
+      AND (
+        (
+          candidate.status = 'queued'
+          AND (candidate.next_attempt_at IS NULL OR candidate.next_attempt_at <= now())
+        )
+        OR (
+          candidate.status = 'in_progress'
+          AND candidate.attempts < p_max_attempts
+          AND COALESCE(candidate.lease_expires_at, candidate.updated_at + make_interval(secs => p_lease_seconds)) <= now()
+        )
+      )
+    ORDER BY v.index
+    LIMIT v_slots
+    FOR UPDATE OF candidate SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_jobs(uuid, text, integer, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_generation_jobs(uuid, text, integer, integer, integer, integer, integer) TO service_role;
+
+-- Cancel a session that is not generating its prompts. Queued jobs are
+-- cancelled, running ones finish. Returns the number of jobs cancelled.
+CREATE OR REPLACE FUNCTION cancel_automation_session(p_session_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_cancelled integer;
+BEGIN
+  SELECT status INTO v_status
+  FROM automation_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF v_status NOT IN ('draft', 'prompts_generated', 'paused') THEN
+    RAISE EXCEPTION 'Session % cannot be cancelled while it is %', p_session_id, v_status;
+  END IF;
+
+  UPDATE automation_sessions
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_session_id;
+
+  WITH cancelled AS (
+    UPDATE generation_jobs j
+    SET
+      status = 'cancelled',
+      error_message = 'Cancelled by the user',
+      claimed_by = NULL,
+      lease_expires_at = NULL,
+      next_attempt_at = NULL,
+      updated_at = now()
+    FROM prompt_variations v
+    WHERE v.id = j.variation_id
+      AND v.session_id = p_session_id
+      AND j.status = 'queued'
+    RETURNING j.variation_id
+  ),
+  variations AS (
+    UPDATE prompt_variations
+    SET status = 'cancelled', updated_at = now()
+    WHERE id IN (SELECT variation_id FROM cancelled)
+  )
+  SELECT count(*) INTO v_cancelled FROM cancelled;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION cancel_automation_session(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_automation_session(uuid) TO service_role;
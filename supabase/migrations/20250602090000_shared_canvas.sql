@@ -0,0 +1,130 @@
+/*
+  # Multi-product campaigns
+
+  1. New Tables
+    - `automation_campaigns` - Runs the same reference ad and instructions across many products
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `name` (text)
+      - `product_count` (integer)
+      - `variation_count` (integer, ads per product)
+      - `reference_ad_url` (text)
+      - `brand_logo_url` (text)
+      - `instructions` (text)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Updates
+    - `automation_sessions`
+      - `campaign_id` (uuid, the campaign the session generates one product of)
+      - `product_title` (text, product name shown with the campaign progress)
+
+  3. New Functions
+    - `reserve_campaign_credits` reserves the credits of every session of a campaign,
+      all of them or none
+
+  4. Security
+    - Enable RLS on `automation_campaigns`, users can read their own campaigns
+*/
+
+CREATE TABLE IF NOT EXISTS automation_campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  product_count integer NOT NULL CHECK (product_count > 0),
+  variation_count integer NOT NULL CHECK (variation_count > 0),
+  reference_ad_url text,
+  brand_logo_url text,
+  instructions text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE automation_campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own automation campaigns"
+  ON automation_campaigns FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS automation_campaigns_user_id_idx ON automation_campaigns(user_id, created_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'campaign_id'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN campaign_id uuid REFERENCES automation_campaigns(id) ON DELETE CASCADE;
+    COMMENT ON COLUMN automation_sessions.campaign_id IS 'Multi-product campaign this session generates one product of, null for single sessions';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'product_title'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN product_title text;
+    COMMENT ON COLUMN automation_sessions.product_title IS 'Name of the product, shown with the campaign progress';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS automation_sessions_campaign_id_idx ON automation_sessions(campaign_id);
+
+-- Reserve the credits of every session of a campaign. Returns false without
+-- reserving anything when the balance does not cover the whole campaign.
+CREATE OR REPLACE FUNCTION reserve_campaign_credits(p_campaign_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign automation_campaigns%ROWTYPE;
+  v_session record;
+  v_required integer;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM automation_campaigns
+  WHERE id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign % not found', p_campaign_id;
+  END IF;
+
+  SELECT COALESCE(SUM(variation_count), 0) INTO v_required
+  FROM automation_sessions
+  WHERE campaign_id = p_campaign_id;
+
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = v_campaign.user_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < v_required THEN
+    RETURN false;
+  END IF;
+
+  FOR v_session IN
+    SELECT id, variation_count, product_title
+    FROM automation_sessions
+    WHERE campaign_id = p_campaign_id
+    ORDER BY created_at, id
+  LOOP
+    IF NOT reserve_credits(
+      v_campaign.user_id,
+      v_session.id,
+      v_session.variation_count,
+      format('Reserved for %s automated %s of %s', v_session.variation_count,
+        CASE WHEN v_session.variation_count = 1 THEN 'ad' ELSE 'ads' END,
+        COALESCE(v_session.product_title, v_campaign.name))
+    ) THEN
+      RAISE EXCEPTION 'Failed to reserve credits for session %', v_session.id;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_campaign_credits(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_campaign_credits(uuid) TO service_role;
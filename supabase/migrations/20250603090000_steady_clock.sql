@@ -0,0 +1,99 @@
+/*
+  # Scheduled and recurring automations
+
+  1. New Tables
+    - `automation_schedules` - Saved automation settings that run on a schedule
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `name` (text)
+      - `product_source` (text, `image` for a fixed product image, `shopify_new_products`
+        for the Shopify products added since the previous run)
+      - `product_image_url` (text, required for `image`)
+      - `brand_logo_url` (text)
+      - `reference_ad_url` (text)
+      - `instructions` (text)
+      - `layout` (text)
+      - `variation_count` (integer, ads per product)
+      - `frequency` (text, once, daily or weekly)
+      - `next_run_at` (timestamptz, null once a one-off schedule ran)
+      - `last_run_at` (timestamptz)
+      - `status` (text, active, paused or completed)
+      - `paused_reason` (text, why the scheduler paused the schedule)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `automation_schedule_runs` - History of every scheduled run
+      - `id` (uuid, primary key)
+      - `schedule_id` (uuid, references automation_schedules)
+      - `user_id` (uuid, references users)
+      - `scheduled_for` (timestamptz, the run time that was due)
+      - `status` (text, started, skipped, paused or failed)
+      - `campaign_id` (uuid, the campaign the run created)
+      - `product_count` (integer)
+      - `credits_reserved` (integer)
+      - `message` (text)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables, users manage their own schedules and read their own runs
+*/
+
+CREATE TABLE IF NOT EXISTS automation_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  product_source text NOT NULL DEFAULT 'image' CHECK (product_source IN ('image', 'shopify_new_products')),
+  product_image_url text,
+  brand_logo_url text,
+  reference_ad_url text,
+  instructions text,
+  layout text NOT NULL DEFAULT 'auto',
+  variation_count integer NOT NULL DEFAULT 3 CHECK (variation_count BETWEEN 1 AND 10),
+  frequency text NOT NULL DEFAULT 'once' CHECK (frequency IN ('once', 'daily', 'weekly')),
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed')),
+  paused_reason text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (product_source <> 'image' OR product_image_url IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS automation_schedule_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid NOT NULL REFERENCES automation_schedules(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL CHECK (status IN ('started', 'skipped', 'paused', 'failed')),
+  campaign_id uuid REFERENCES automation_campaigns(id) ON DELETE SET NULL,
+  product_count integer NOT NULL DEFAULT 0,
+  credits_reserved integer NOT NULL DEFAULT 0,
+  message text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE automation_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert their own automation schedules"
+  ON automation_schedules FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can select their own automation schedules"
+  ON automation_schedules FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own automation schedules"
+  ON automation_schedules FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own automation schedules"
+  ON automation_schedules FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can select their own automation schedule runs"
+  ON automation_schedule_runs FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS automation_schedules_due_idx ON automation_schedules(next_run_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS automation_schedules_user_id_idx ON automation_schedules(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS automation_schedule_runs_schedule_id_idx ON automation_schedule_runs(schedule_id, created_at DESC);
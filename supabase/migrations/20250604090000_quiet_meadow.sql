@@ -0,0 +1,55 @@
+/*
+  # Saved automation presets
+
+  1. New Tables
+    - `automation_presets` - Named builder settings a user can apply to a new product image
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `name` (text)
+      - `brand_logo_url` (text)
+      - `reference_ad_url` (text)
+      - `instructions` (text, null when the preset has no instructions)
+      - `layout` (text)
+      - `variation_count` (integer)
+      - `review_prompts` (boolean, whether the prompts are reviewed before generating)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS, users manage their own presets. Shared preset links only open
+      for the account that owns the preset.
+*/
+
+CREATE TABLE IF NOT EXISTS automation_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  brand_logo_url text,
+  reference_ad_url text,
+  instructions text,
+  layout text NOT NULL DEFAULT 'auto',
+  variation_count integer NOT NULL DEFAULT 3 CHECK (variation_count BETWEEN 1 AND 10),
+  review_prompts boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE automation_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert their own automation presets"
+  ON automation_presets FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can select their own automation presets"
+  ON automation_presets FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own automation presets"
+  ON automation_presets FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own automation presets"
+  ON automation_presets FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS automation_presets_user_id_idx ON automation_presets(user_id, updated_at DESC);
@@ -0,0 +1,60 @@
+/*
+  # Prompt templates for automation sessions
+
+  1. Updates
+    - `prompt_templates`
+      - `base_prompt_text` holds the user message of the template
+      - `custom_properties` holds the template `name`, `system_prompt` and `variables`
+      - `last_modified_timestamp` is now set on every update and used as the template version
+    - `automation_sessions`
+      - `prompt_template_id` (uuid, the template the prompts are rendered from, null for the default prompt)
+      - `template_variables` (jsonb, values of the template variables)
+      - `prompt_template_version` (timestamptz, version of the template the prompts were rendered from)
+
+  2. New Functions
+    - `touch_prompt_template` bumps `last_modified_timestamp` so concurrent edits can be detected
+*/
+
+CREATE OR REPLACE FUNCTION touch_prompt_template()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.last_modified_timestamp = clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_prompt_template_on_update ON prompt_templates;
+
+CREATE TRIGGER touch_prompt_template_on_update
+BEFORE UPDATE ON prompt_templates
+FOR EACH ROW
+EXECUTE FUNCTION touch_prompt_template();
+
+CREATE INDEX IF NOT EXISTS prompt_templates_user_id_idx ON prompt_templates(user_id, last_modified_timestamp DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'prompt_template_id'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN prompt_template_id uuid REFERENCES prompt_templates(id) ON DELETE SET NULL;
+    COMMENT ON COLUMN automation_sessions.prompt_template_id IS 'Prompt template the prompts are rendered from, null for the default prompt';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'template_variables'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN template_variables jsonb NOT NULL DEFAULT '{}'::jsonb;
+    COMMENT ON COLUMN automation_sessions.template_variables IS 'Values of the prompt template variables, e.g. product_name and season';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'automation_sessions' AND column_name = 'prompt_template_version'
+  ) THEN
+    ALTER TABLE automation_sessions ADD COLUMN prompt_template_version timestamptz;
+    COMMENT ON COLUMN automation_sessions.prompt_template_version IS 'last_modified_timestamp of the template when the prompts were rendered';
+  END IF;
+END $$;
@@ -0,0 +1,81 @@
+/*
+  # Structured ad concepts on prompt variations
+
+  1. Updates
+    - `prompt_variations`
+      - `concept` (jsonb, the ad concept the prompt was written from: concept_name, scene,
+        lighting, camera, text_overlay, focal_area and target_audience)
+
+  2. Updated Functions
+    - `launch_reviewed_prompts` keeps the concept of reviewed prompts that were not edited
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'prompt_variations' AND column_name = 'concept'
+  ) THEN
+    ALTER TABLE prompt_variations ADD COLUMN concept jsonb CHECK (concept IS NULL OR jsonb_typeof(concept) = 'object');
+    COMMENT ON COLUMN prompt_variations.concept IS 'Structured ad concept the prompt was written from, null for prompts added or edited by the user';
+  END IF;
+END $$;
+
+-- Swap the prompts of a session waiting for review for the reviewed list, in
+-- order, and queue their jobs. Prompts that were kept as generated keep their
+-- concept. Returns the number of jobs queued, raises when the session is not
+-- waiting for review.
+CREATE OR REPLACE FUNCTION launch_reviewed_prompts(p_session_id uuid, p_prompts text[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session automation_sessions%ROWTYPE;
+  v_count integer := COALESCE(array_length(p_prompts, 1), 0);
+  v_concepts jsonb;
+BEGIN
+  SELECT * INTO v_session
+  FROM automation_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF NOT v_session.review_prompts OR v_session.status <> 'prompts_generated' OR v_session.launched_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session % is not waiting for prompt review', p_session_id;
+  END IF;
+
+  IF v_count = 0 OR v_count > v_session.variation_count THEN
+    RAISE EXCEPTION 'Expected between 1 and % prompts, got %', v_session.variation_count, v_count;
+  END IF;
+
+  -- Concepts by the generated prompt text
+  SELECT COALESCE(jsonb_object_agg(prompt, concept), '{}'::jsonb) INTO v_concepts
+  FROM prompt_variations
+  WHERE session_id = p_session_id AND concept IS NOT NULL;
+
+  DELETE FROM prompt_variations WHERE session_id = p_session_id;
+
+  WITH inserted AS (
+    INSERT INTO prompt_variations (session_id, prompt, concept, index, status)
+    SELECT p_session_id, prompt, v_concepts -> prompt, ordinality - 1, 'ready'
+    FROM unnest(p_prompts) WITH ORDINALITY AS t(prompt, ordinality)
+    RETURNING id, prompt
+  )
+  INSERT INTO generation_jobs (variation_id, prompt, status)
+  SELECT id, prompt, 'queued' FROM inserted;
+
+  UPDATE automation_sessions
+  SET launched_at = now(), updated_at = now()
+  WHERE id = p_session_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION launch_reviewed_prompts(uuid, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION launch_reviewed_prompts(uuid, text[]) TO service_role;
@@ -0,0 +1,180 @@
+/*
+  # Generation provenance
+
+  1. New Tables
+    - `generation_provenance` - How each generated or edited image was produced
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `output_type` (text, 'generation_job', 'image' or 'edited_image')
+      - `output_id` (uuid, the job, image or edit the record belongs to)
+      - `image_url` (text)
+      - `provider` (text) and `model` (text) of the image provider
+      - `operation` (text, 'generate' for text to image, 'edit' when input images were sent)
+      - `parameters` (jsonb, size, quality and layout sent to the provider)
+      - `input_assets` (jsonb, input images in the order they were sent: role, url and asset_id)
+      - `prompt` (text, the exact prompt sent to the provider)
+      - `prompt_template_id` (uuid) and `prompt_template_version` (timestamptz) the
+        prompt was written with, null for the built-in template
+      - `session_id` (uuid) and `variation_id` (uuid) of automation outputs
+      - `replay_of` (uuid, the record whose settings were generated again)
+      - `started_at` (timestamptz) and `completed_at` (timestamptz)
+      - `timings` (jsonb, milliseconds spent downloading inputs, in the provider and uploading)
+      - `credits_cost` (integer, credits charged for the output)
+      - `created_at` (timestamptz)
+
+  2. Updates
+    - `generation_jobs`
+      - `replay_of` (uuid, provenance record the job generates again with identical settings)
+
+  3. Updated Functions
+    - `requeue_prompt_variation` takes the provenance record to replay
+
+  4. Security
+    - Enable RLS, users can read the records of their own outputs. Records are
+      only written by the edge functions.
+*/
+
+CREATE TABLE IF NOT EXISTS generation_provenance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  output_type text NOT NULL CHECK (output_type IN ('generation_job', 'image', 'edited_image')),
+  output_id uuid NOT NULL,
+  image_url text NOT NULL,
+  provider text NOT NULL,
+  model text NOT NULL,
+  operation text NOT NULL CHECK (operation IN ('generate', 'edit')),
+  parameters jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(parameters) = 'object'),
+  input_assets jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(input_assets) = 'array'),
+  prompt text NOT NULL,
+  prompt_template_id uuid REFERENCES prompt_templates(id) ON DELETE SET NULL,
+  prompt_template_version timestamptz,
+  session_id uuid REFERENCES automation_sessions(id) ON DELETE SET NULL,
+  variation_id uuid REFERENCES prompt_variations(id) ON DELETE SET NULL,
+  replay_of uuid REFERENCES generation_provenance(id) ON DELETE SET NULL,
+  started_at timestamptz NOT NULL,
+  completed_at timestamptz NOT NULL,
+  timings jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(timings) = 'object'),
+  credits_cost integer NOT NULL DEFAULT 0 CHECK (credits_cost >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (output_type, output_id)
+);
+
+ALTER TABLE generation_provenance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own generation provenance"
+  ON generation_provenance FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS generation_provenance_user_id_idx ON generation_provenance(user_id, created_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'replay_of'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN replay_of uuid REFERENCES generation_provenance(id) ON DELETE SET NULL;
+    COMMENT ON COLUMN generation_jobs.replay_of IS 'Provenance record whose prompt, parameters and input images the job generates again';
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS requeue_prompt_variation(uuid, text, text);
+
+-- Queue a new job for a variation whose jobs all finished. One more credit is
+-- reserved on the session, settled reservations are reopened. With a replayed
+-- provenance record the worker sends the recorded settings instead of the
+-- session's current ones. Returns the new job ID, or null when the balance is
+-- too low.
+CREATE OR REPLACE FUNCTION requeue_prompt_variation(
+  p_variation_id uuid,
+  p_prompt text,
+  p_rewrite_instruction text DEFAULT NULL,
+  p_replay_of uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session automation_sessions%ROWTYPE;
+  v_balance integer;
+  v_job_id uuid;
+BEGIN
+  SELECT s.* INTO v_session
+  FROM automation_sessions s
+  JOIN prompt_variations v ON v.session_id = s.id
+  WHERE v.id = p_variation_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Variation % not found', p_variation_id;
+  END IF;
+
+  IF v_session.status NOT IN ('prompts_generated', 'completed', 'failed')
+    OR (v_session.review_prompts AND v_session.launched_at IS NULL) THEN
+    RAISE EXCEPTION 'Session % has no generated ads yet', v_session.id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM generation_jobs
+    WHERE variation_id = p_variation_id AND status IN ('queued', 'in_progress')
+  ) THEN
+    RAISE EXCEPTION 'Variation % is still being generated', p_variation_id;
+  END IF;
+
+  IF p_replay_of IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM generation_provenance
+    WHERE id = p_replay_of AND variation_id = p_variation_id
+  ) THEN
+    RAISE EXCEPTION 'Provenance % does not belong to variation %', p_replay_of, p_variation_id;
+  END IF;
+
+  SELECT credits INTO v_balance
+  FROM user_profiles
+  WHERE user_id = v_session.user_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < 1 THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM record_credit_transaction(
+    v_session.user_id,
+    'reservation',
+    -1,
+    'Reserved to regenerate an automated ad',
+    v_session.id
+  );
+
+  INSERT INTO credit_reservations (user_id, session_id, amount_reserved)
+  VALUES (v_session.user_id, v_session.id, 1)
+  ON CONFLICT (session_id) DO UPDATE
+  SET
+    amount_reserved = credit_reservations.amount_reserved + 1,
+    status = 'active',
+    updated_at = now();
+
+  UPDATE generation_jobs
+  SET replaced_at = now()
+  WHERE variation_id = p_variation_id AND replaced_at IS NULL;
+
+  INSERT INTO generation_jobs (variation_id, prompt, status, rewrite_instruction, replay_of)
+  VALUES (p_variation_id, p_prompt, 'queued', p_rewrite_instruction, p_replay_of)
+  RETURNING id INTO v_job_id;
+
+  UPDATE prompt_variations
+  SET prompt = p_prompt, status = 'ready', updated_at = now()
+  WHERE id = p_variation_id;
+
+  -- The session runs again until the new job finished
+  UPDATE automation_sessions
+  SET status = 'prompts_generated', error_message = NULL, updated_at = now()
+  WHERE id = v_session.id;
+
+  RETURN v_job_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION requeue_prompt_variation(uuid, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION requeue_prompt_variation(uuid, text, text, uuid) TO service_role;
@@ -0,0 +1,19 @@
+/*
+  # Masked image edits
+
+  1. Updates
+    - `edited_images`
+      - `mask_url` (text, PNG mask the edit was limited to, transparent where the image
+        could change. Null for edits of the whole image)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'edited_images' AND column_name = 'mask_url'
+  ) THEN
+    ALTER TABLE edited_images ADD COLUMN mask_url text;
+    COMMENT ON COLUMN edited_images.mask_url IS 'PNG mask the edit was limited to, null when the whole image was edited';
+  END IF;
+END $$;
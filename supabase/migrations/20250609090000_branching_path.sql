@@ -0,0 +1,32 @@
+/*
+  # Edit chains
+
+  1. Updates
+    - `edited_images`
+      - `parent_edit_id` (uuid, the edit this one was made from, null when it was made
+        from the original image. Together they form a version tree per original)
+    - `generation_jobs`
+      - `current_edit_id` (uuid, the edited version shown in place of the generated
+        image, null to show the generated image)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'edited_images' AND column_name = 'parent_edit_id'
+  ) THEN
+    ALTER TABLE edited_images ADD COLUMN parent_edit_id uuid REFERENCES edited_images(id) ON DELETE SET NULL;
+    COMMENT ON COLUMN edited_images.parent_edit_id IS 'Edit this version was made from, null when it was made from the original image';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'current_edit_id'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN current_edit_id uuid REFERENCES edited_images(id) ON DELETE SET NULL;
+    COMMENT ON COLUMN generation_jobs.current_edit_id IS 'Edited version promoted to replace the generated image, null for the generated image';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_edited_images_parent_edit_id ON edited_images(parent_edit_id);
@@ -0,0 +1,35 @@
+/*
+  # Placement versions
+
+  1. Updates
+    - `images`
+      - `placement` (text, the placement format of a version resized for ad placements,
+        e.g. '4:5' or '1.91:1', null for every other image)
+    - `generation_jobs`
+      - `placement_group_id` (uuid, the variation group holding the placement versions of
+        the ad, matches `images.variation_group_id`)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'images' AND column_name = 'placement'
+  ) THEN
+    ALTER TABLE images ADD COLUMN placement text;
+    COMMENT ON COLUMN images.placement IS 'Placement format of a version resized for ad placements, null for other images';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'placement_group_id'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN placement_group_id uuid;
+    COMMENT ON COLUMN generation_jobs.placement_group_id IS 'Variation group (images.variation_group_id) of the placement versions of the ad';
+  END IF;
+END $$;
+
+-- One version per placement format in a group
+CREATE UNIQUE INDEX IF NOT EXISTS idx_images_variation_group_placement
+  ON images(variation_group_id, placement)
+  WHERE placement IS NOT NULL;
@@ -0,0 +1,59 @@
+/*
+  # Library collections
+
+  1. New Tables
+    - `asset_collections` - Named folders a user sorts library images into
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `name` (text)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Updates
+    - `assets`
+      - `collection_id` (uuid, the collection the image is in, null when it is in none)
+
+  3. Security
+    - Enable RLS, users manage their own collections
+*/
+
+CREATE TABLE IF NOT EXISTS asset_collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE asset_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert their own asset collections"
+  ON asset_collections FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can select their own asset collections"
+  ON asset_collections FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own asset collections"
+  ON asset_collections FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own asset collections"
+  ON asset_collections FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS asset_collections_user_id_idx ON asset_collections(user_id, name);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'collection_id'
+  ) THEN
+    ALTER TABLE assets ADD COLUMN collection_id uuid REFERENCES asset_collections(id) ON DELETE SET NULL;
+    COMMENT ON COLUMN assets.collection_id IS 'Library collection the image is in, null when it is in none';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS assets_collection_id_idx ON assets(collection_id) WHERE collection_id IS NOT NULL;